@@ -79,11 +79,20 @@ export async function fixNullUserIds(userId: string): Promise<FixResult> {
 
   
 
-    // Update electricity readings
+    const actorName = currentUser.displayName ?? currentUser.primaryEmail ?? null
+
+    // Update electricity readings, recording each change in the audit log
     const updatedReadings = (await sql`
-      UPDATE electricity_readings
-      SET user_id = ${userId}
-      WHERE user_id IS NULL
+      WITH updated AS (
+        UPDATE electricity_readings
+        SET user_id = ${userId}
+        WHERE user_id IS NULL
+        RETURNING reading_id
+      )
+      INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, old_value, new_value)
+      SELECT ${userId}::text, ${currentUser.id}::text, ${actorName}::text, 'reading', reading_id, 'update', 'admin',
+        jsonb_build_object('user_id', NULL), jsonb_build_object('user_id', ${userId}::text)
+      FROM updated
       RETURNING id
     `) as Array<{ id: number }>
 
@@ -91,9 +100,16 @@ export async function fixNullUserIds(userId: string): Promise<FixResult> {
 
     // Update token purchases
     const updatedTokens = (await sql`
-      UPDATE token_purchases
-      SET user_id = ${userId}
-      WHERE user_id IS NULL
+      WITH updated AS (
+        UPDATE token_purchases
+        SET user_id = ${userId}
+        WHERE user_id IS NULL
+        RETURNING token_id
+      )
+      INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, old_value, new_value)
+      SELECT ${userId}::text, ${currentUser.id}::text, ${actorName}::text, 'token', token_id, 'update', 'admin',
+        jsonb_build_object('user_id', NULL), jsonb_build_object('user_id', ${userId}::text)
+      FROM updated
       RETURNING id
     `) as Array<{ id: number }>
 
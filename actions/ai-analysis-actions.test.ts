@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    chatAboutElectricity,
+    generateElectricityInsights,
+} from "@/actions/ai-analysis-actions";
+import { addChatMessage, createChatThread } from "@/lib/chat-store";
+import { saveInsightReport } from "@/lib/insight-report-store";
+import { reading } from "@/lib/test-fixtures";
+import type { InsightContent, TokenPurchase, UsageSummary } from "@/lib/types";
+
+// The insights and chat run on the mock provider, against canned data
+vi.mock("@/lib/db", () => ({
+    sql: vi.fn(),
+    isDatabaseConnected: () => true,
+}));
+vi.mock("@/lib/household-scope", () => ({
+    getHouseholdContext: async () => ({
+        userId: "user-1",
+        userName: "Test User",
+        ownerId: "owner-1",
+        role: "owner",
+    }),
+    hasRole: () => true,
+}));
+vi.mock("@/lib/meter-scope", () => ({
+    getMeterScope: async () => ({ meterId: 1, timeZone: "UTC" }),
+}));
+vi.mock("@/actions/meter-actions", () => ({
+    getSelectedMeterTimezone: async () => "UTC",
+}));
+vi.mock("@/actions/electricity-actions", () => ({
+    getElectricityReadings: async () => readings,
+    getTokenPurchases: async () => tokens,
+    getUsageSummary: async () => summary,
+    getBalanceForecast: async () => null,
+}));
+vi.mock("@/lib/insight-report-store", () => ({
+    hashInsightData: () => "hash",
+    loadInsightReport: vi.fn(),
+    loadInsightReports: vi.fn(),
+    loadLatestInsightReport: vi.fn(async () => null),
+    loadPreviousInsightReport: vi.fn(async () => null),
+    saveInsightReport: vi.fn(async (_ownerId, _meterId, report) => ({
+        id: 1,
+        version: 1,
+        format: "structured",
+        content: report.content,
+        completedActions: [],
+        snapshot: report.snapshot,
+        provider: report.provider,
+        createdAt: new Date(),
+    })),
+    setInsightActionCompleted: vi.fn(),
+}));
+vi.mock("@/lib/chat-store", () => ({
+    addChatMessage: vi.fn(async () => undefined),
+    createChatThread: vi.fn(async () => 7),
+    loadChatMessages: vi.fn(async () => []),
+    loadChatThread: vi.fn(async () => null),
+}));
+
+const readings = [
+    reading("2024-06-01T06:00:00Z", 100, 1),
+    reading("2024-06-02T06:00:00Z", 90, 1),
+    reading("2024-06-03T06:00:00Z", 80, 1),
+];
+const tokens: TokenPurchase[] = [];
+const summary = {
+    averageUsage: 10,
+    peakUsageDay: { date: "2024-06-02", usage: 10 },
+    totalTokensPurchased: 0,
+} as UsageSummary;
+
+beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock");
+    vi.clearAllMocks();
+});
+
+describe("generateElectricityInsights", () => {
+    it("stores the report the mock model writes", async () => {
+        const result = await generateElectricityInsights();
+
+        if ("error" in result) throw new Error(result.error);
+        expect(result.cached).toBe(false);
+        expect(result.report.format).toBe("structured");
+        const content = result.report.content as InsightContent;
+        expect(content.confidence).toBe("medium");
+        expect(content.actions.map((action) => action.title)).toEqual([
+            "Move heavy appliances to off-peak hours",
+            "Switch off appliances on standby",
+        ]);
+        expect(saveInsightReport).toHaveBeenCalledWith(
+            "owner-1",
+            1,
+            expect.objectContaining({ provider: "Mock model" })
+        );
+    });
+});
+
+describe("chatAboutElectricity", () => {
+    it("streams the mock model's answer and stores both messages", async () => {
+        const response = await chatAboutElectricity("How much did I use?");
+
+        expect(response.headers.get("X-Chat-Thread-Id")).toBe("7");
+        expect(await response.text()).toContain(
+            "You asked: How much did I use?"
+        );
+        expect(createChatThread).toHaveBeenCalledWith(
+            "user-1",
+            "owner-1",
+            "How much did I use?"
+        );
+        expect(addChatMessage).toHaveBeenCalledWith(
+            7,
+            "user",
+            "How much did I use?"
+        );
+        expect(addChatMessage).toHaveBeenCalledWith(
+            7,
+            "assistant",
+            "You asked: How much did I use?"
+        );
+    });
+});
@@ -1,79 +1,119 @@
 /**
- * Generates actionable AI insights about electricity usage patterns using Google Gemini.
+ * Generates actionable AI insights about electricity usage patterns using the configured AI provider.
  *
  * This function retrieves electricity readings, token purchases, and usage summary,
- * formats the data for AI analysis, and then uses the Google Gemini model to generate
- * a detailed report with insights, tips, and recommendations. The insights focus on
- * usage patterns, peak consumption periods, cost-saving opportunities, energy efficiency,
- * and detection of unusual patterns or anomalies.
+ * formats the data for AI analysis, and then uses the provider's model (see `lib/ai-provider.ts`) to generate
+ * a report of key findings, anomalies and recommended actions with their estimated savings. The
+ * model answers in the shape of `insightContentSchema`; answers that do not match it are rejected
+ * and asked for again.
  *
- * @returns {Promise<string>} A promise that resolves to a string containing the AI-generated insights.
+ * Reports are stored with a snapshot of the figures they were based on (see `lib/insight-reports.ts`).
+ * When the data has not changed since the latest report, that report is returned instead of
+ * calling the model again.
  *
- * @throws {Error} If the Google Gemini API key is not configured, if the API quota is exceeded,
- * if rate limits are hit, or if there are permission/access issues.
+ * @returns {Promise<InsightReportResult>} A promise that resolves to the report, whether it was
+ *          cached, and what changed since the report before it.
+ *
+ * Errors are not thrown: configuration, quota, rate limit and access problems are returned
+ * as a message from the provider's error mapping.
  */
 "use server";
 
-import { generateText, streamText } from "ai";
-import { google } from "@ai-sdk/google";
 import {
+    generateObject,
+    NoObjectGeneratedError,
+    streamText,
+    type LanguageModel,
+} from "ai";
+import {
+    getBalanceForecast,
     getElectricityReadings,
     getTokenPurchases,
     getUsageSummary,
 } from "./electricity-actions";
-import type { ElectricityReading, TokenPurchase } from "@/lib/types";
+import { getSelectedMeterTimezone } from "./meter-actions";
+import { describeAIError, requireAIProvider } from "@/lib/ai-provider";
+import { trimChatHistory } from "@/lib/chat-history";
+import {
+    addChatMessage,
+    createChatThread,
+    loadChatMessages,
+    loadChatThread,
+} from "@/lib/chat-store";
+import {
+    cacheChatData,
+    createChatTools,
+    describeChatData,
+} from "@/lib/chat-tools";
+import { getDailyConsumption, getUsageIntervals } from "@/lib/consumption";
+import { isDatabaseConnected } from "@/lib/db";
+import { getHouseholdContext, hasRole } from "@/lib/household-scope";
+import {
+    hashInsightData,
+    loadInsightReport,
+    loadInsightReports,
+    loadLatestInsightReport,
+    loadPreviousInsightReport,
+    saveInsightReport,
+    setInsightActionCompleted,
+} from "@/lib/insight-report-store";
+import {
+    createInsightSnapshot,
+    diffInsightSnapshots,
+    insightContentSchema,
+} from "@/lib/insight-reports";
+import { getMeterScope } from "@/lib/meter-scope";
+import { getLocalDateString } from "@/lib/timezone-utils";
+import type {
+    ElectricityReading,
+    InsightContent,
+    InsightReport,
+    InsightReportResult,
+    InsightReportSummary,
+    TokenPurchase,
+    UsageSummary,
+} from "@/lib/types";
 
-/**
- * Check if AI is properly configured
- */
-function checkAIConfiguration() {
-    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-        throw new Error(
-            "Google Gemini API key is not configured. Please add GOOGLE_GENERATIVE_AI_API_KEY to your environment variables."
-        );
-    }
-}
+// Most model calls in one chat turn, counting those that only call tools
+const CHAT_MAX_STEPS = 5;
+
+// Part of the data hash of insight reports: bump it when the insights prompt
+// changes, so unchanged data gets a new report written with the new prompt
+const INSIGHTS_PROMPT_VERSION = 2;
+
+// Model calls for one insight report, asking again when the answer does not
+// match the schema
+const INSIGHTS_MAX_ATTEMPTS = 3;
 
 /**
- * Formats electricity data for AI analysis
+ * Formats electricity data for AI analysis. Consumption comes from
+ * `lib/consumption.ts`, so it matches the dashboard and reports; dates are in
+ * the meter's timezone.
  */
 function formatDataForAI(
     readings: ElectricityReading[],
     tokens: TokenPurchase[],
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    summary: any
+    summary: UsageSummary,
+    timeZone: string
 ) {
-    // Group readings by day and period
+    // Readings of each day by period
     const dailyData = readings.reduce((acc, reading) => {
-        const date = reading.timestamp.toISOString().split("T")[0];
+        const date = getLocalDateString(reading.timestamp, timeZone);
         if (!acc[date]) acc[date] = {};
         acc[date][reading.period] = reading.reading;
         return acc;
     }, {} as Record<string, Record<string, number>>);
 
-    // Calculate daily consumption
-    const consumptionData = Object.entries(dailyData)
-        .map(([date, periods]) => {
-            const morning = periods.morning || 0;
-            const evening = periods.evening || 0;
-            const night = periods.night || 0;
-
-            // Calculate consumption between periods (assuming meter counts down)
-            const morningConsumption =
-                morning > 0 && evening > 0 ? morning - evening : 0;
-            const eveningConsumption =
-                evening > 0 && night > 0 ? evening - night : 0;
-
-            return {
-                date,
-                periods,
-                consumption: {
-                    morning: morningConsumption,
-                    evening: eveningConsumption,
-                    total: morningConsumption + eveningConsumption,
-                },
-            };
-        })
+    // Usage of each day, split by the period of the reading it was used up to
+    const consumptionData = getDailyConsumption(
+        getUsageIntervals(readings, tokens),
+        timeZone
+    )
+        .map((day) => ({
+            date: day.date,
+            periods: dailyData[day.date] ?? {},
+            consumption: { ...day.periods, total: day.total },
+        }))
         .filter((day) => day.consumption.total > 0);
 
     return {
@@ -85,7 +125,7 @@ function formatDataForAI(
         recentConsumption: consumptionData.slice(-7), // Last 7 days
         consumptionTrends: consumptionData,
         tokenPurchases: tokens.map((t) => ({
-            date: t.timestamp.toISOString().split("T")[0],
+            date: getLocalDateString(t.timestamp, timeZone),
             units: t.units,
             cost: t.total_cost,
         })),
@@ -93,157 +133,337 @@ function formatDataForAI(
 }
 
 /**
- * Generate AI insights about electricity usage patterns using Google Gemini
+ * Asks the model for the content of an insight report, asking again when its
+ * answer does not match `insightContentSchema`
  */
-export async function generateElectricityInsights(): Promise<string> {
-    try {
-        // Check configuration first
-        checkAIConfiguration();
+async function generateInsightContent(
+    model: LanguageModel,
+    analysisData: ReturnType<typeof formatDataForAI>
+): Promise<InsightContent> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const { object } = await generateObject({
+                model,
+                schema: insightContentSchema,
+                schemaName: "ElectricityInsights",
+                system: `You are an expert electricity usage analyst for a prepaid electricity meter. Analyze the provided electricity consumption data and report what you find.
+
+Focus on usage patterns and trends, peak consumption periods, cost-saving opportunities, energy efficiency and unusual patterns or anomalies.
+
+Be practical and specific to this data. Recommend actions the user can check off once done, and estimate what each saves a month from the usage and token costs in the data. Only report anomalies the data shows, and lower your confidence when there are few readings.`,
+                prompt: `Analyze this electricity usage data and provide insights:
+
+${JSON.stringify(analysisData, null, 2)}`,
+            });
+            return object;
+        } catch (error) {
+            if (
+                !NoObjectGeneratedError.isInstance(error) ||
+                attempt >= INSIGHTS_MAX_ATTEMPTS
+            ) {
+                throw error;
+            }
+            console.warn(
+                `Insights answer rejected (attempt ${attempt} of ${INSIGHTS_MAX_ATTEMPTS}):`,
+                error.message
+            );
+        }
+    }
+}
 
+/**
+ * Lists what changed between a report and the one before it
+ */
+async function getReportChanges(
+    ownerId: string,
+    meterId: number | null,
+    report: InsightReport
+) {
+    const previous = await loadPreviousInsightReport(
+        ownerId,
+        meterId,
+        report.version
+    );
+    return previous
+        ? diffInsightSnapshots(previous.snapshot, report.snapshot)
+        : [];
+}
+
+/**
+ * Generate AI insights about electricity usage patterns with the configured provider
+ */
+export async function generateElectricityInsights(): Promise<
+    InsightReportResult
+> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { error: "User not authenticated", configuration: false };
+    }
+    if (!isDatabaseConnected()) {
+        return { error: "Database is not connected", configuration: false };
+    }
+
+    try {
         // Get all the data
         const readings = await getElectricityReadings();
         const tokens = await getTokenPurchases();
         const summary = await getUsageSummary();
 
         if (readings.length < 3) {
-            return "Not enough data available for analysis. Please add more electricity readings to get meaningful insights.";
+            return {
+                error: "Not enough data available for analysis. Please add more electricity readings to get meaningful insights.",
+                configuration: false,
+            };
         }
 
-        // Format data for AI
-        const analysisData = formatDataForAI(readings, tokens, summary);
-
-        const { text } = await generateText({
-            model: google("gemini-2.5-flash"), // Using Gemini 2.5 Flash
-            system: `You are an expert electricity usage analyst. Analyze the provided electricity consumption data and provide actionable insights, tips, and recommendations. 
+        const { meterId, timeZone } = await getMeterScope(member.ownerId);
 
-Focus on:
-1. Usage patterns and trends
-2. Peak consumption periods
-3. Cost-saving opportunities
-4. Energy efficiency tips
-5. Unusual patterns or anomalies
+        // Format data for AI
+        const analysisData = formatDataForAI(
+            readings,
+            tokens,
+            summary,
+            timeZone
+        );
 
-Be practical, specific, and helpful. Use bullet points and clear sections. Format your response with clear headings using **bold text**.`,
-            prompt: `Analyze this electricity usage data and provide insights:
+        // Unchanged data gets the latest report back, without a model call
+        const dataHash = hashInsightData({
+            promptVersion: INSIGHTS_PROMPT_VERSION,
+            analysisData,
+        });
+        const latest = await loadLatestInsightReport(member.ownerId, meterId);
+        if (latest?.dataHash === dataHash) {
+            const { dataHash: _, ...report } = latest;
+            return {
+                report,
+                cached: true,
+                changes: await getReportChanges(
+                    member.ownerId,
+                    meterId,
+                    report
+                ),
+            };
+        }
 
-${JSON.stringify(analysisData, null, 2)}
+        const provider = requireAIProvider();
 
-Please provide:
-1. **Usage Pattern Analysis** - What patterns do you see?
-2. **Peak Usage Insights** - When is electricity used most?
-3. **Cost Optimization Tips** - How can costs be reduced?
-4. **Energy Efficiency Recommendations** - Specific actionable tips
-5. **Anomalies or Concerns** - Any unusual patterns?
+        const content = await generateInsightContent(
+            provider.getModel("insights"),
+            analysisData
+        );
 
-Keep recommendations practical and specific to this usage data.`,
+        const snapshot = createInsightSnapshot(analysisData);
+        const report = await saveInsightReport(member.ownerId, meterId, {
+            dataHash,
+            snapshot,
+            content,
+            provider: provider.label,
         });
 
-        return text;
+        return {
+            report,
+            cached: false,
+            changes: latest
+                ? diffInsightSnapshots(latest.snapshot, snapshot)
+                : [],
+        };
     } catch (error) {
         console.error("Error generating AI insights:", error);
 
-        if (error instanceof Error) {
-            if (
-                error.message.includes("API key") ||
-                error.message.includes("API_KEY")
-            ) {
-                return "❌ **Configuration Error**: Google Gemini API key is not configured. Please add your Google AI API key to the environment variables.";
-            }
-            if (
-                error.message.includes("quota") ||
-                error.message.includes("limit")
-            ) {
-                return "❌ **Quota Exceeded**: You've exceeded your Google Gemini API quota. The free tier is very generous - please wait a bit or check your Google AI Studio account.";
-            }
-            if (error.message.includes("rate limit")) {
-                return "❌ **Rate Limited**: Too many requests. Please wait a moment and try again.";
-            }
-            if (
-                error.message.includes("permission") ||
-                error.message.includes("access")
-            ) {
-                return "❌ **Access Error**: Please make sure your Google AI API key has the correct permissions and Gemini API is enabled.";
-            }
-            return `❌ **Error**: ${error.message}`;
+        const { kind, title, message } = describeAIError(error);
+        return {
+            error: `${title}: ${message}`,
+            configuration: kind === "configuration",
+        };
+    }
+}
+
+/* Retrieves the insight reports written for the selected meter, to browse past ones.
+ *
+ * @returns A promise that resolves to an array of {@link InsightReportSummary} objects,
+ *          newest first. Returns an empty array if the database is not connected or
+ *          no user is signed in.
+ */
+export async function getInsightReports(): Promise<InsightReportSummary[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    try {
+        const { meterId } = await getMeterScope(member.ownerId);
+        return await loadInsightReports(member.ownerId, meterId);
+    } catch (error) {
+        console.error("Error fetching insight reports:", error);
+        return [];
+    }
+}
+
+/**
+ * Retrieves a past insight report of the selected meter, with what changed
+ * since the report before it
+ */
+export async function getInsightReport(
+    reportId: number
+): Promise<InsightReportResult> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { error: "User not authenticated", configuration: false };
+    }
+    if (!isDatabaseConnected()) {
+        return { error: "Database is not connected", configuration: false };
+    }
+
+    try {
+        const { meterId } = await getMeterScope(member.ownerId);
+        const report = await loadInsightReport(
+            member.ownerId,
+            meterId,
+            reportId
+        );
+        if (!report) {
+            return { error: "Report not found", configuration: false };
         }
+        return {
+            report,
+            cached: true,
+            changes: await getReportChanges(member.ownerId, meterId, report),
+        };
+    } catch (error) {
+        console.error("Error fetching insight report:", error);
+        return { error: "Failed to load the report", configuration: false };
+    }
+}
 
-        return "❌ **Unknown Error**: Sorry, I couldn't analyze your electricity data right now. Please try again later.";
+/**
+ * Marks a recommended action of an insight report as done, or not done
+ */
+export async function setInsightActionDone(
+    reportId: number,
+    actionIndex: number,
+    done: boolean
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can update actions",
+        };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    try {
+        const updated = await setInsightActionCompleted(
+            member.ownerId,
+            reportId,
+            actionIndex,
+            done
+        );
+        if (!updated) {
+            return { success: false, error: "Action not found" };
+        }
+        return { success: true };
+    } catch (error) {
+        console.error("Error updating insight action:", error);
+        return { success: false, error: "Failed to update action" };
     }
 }
 
 /**
- * Chat with AI about electricity data using Google Gemini
+ * Chat with AI about electricity data with the configured provider, in one
+ * of the user's stored conversations. The assistant looks the data up with
+ * tool calls (see `lib/chat-tools.ts`) instead of getting all of it in the
+ * prompt, and sees only the latest messages that fit the history budget
+ * (see `lib/chat-history.ts`), so the prompt stays the same size.
+ *
+ * @param question - The user's new message.
+ * @param threadId - The conversation to continue, or null to start one.
+ * @returns The streamed answer, with the conversation's id in the `X-Chat-Thread-Id` header.
+ * @throws {Error} If no user is signed in, the database is not connected, the
+ *         conversation is not theirs or the AI provider fails.
  */
 export async function chatAboutElectricity(
     question: string,
-    conversationHistory: string[] = []
+    threadId: number | null = null
 ) {
+    const member = await getHouseholdContext();
+    if (!member) {
+        throw new Error("User not authenticated");
+    }
+    if (!isDatabaseConnected()) {
+        throw new Error("Database is not connected");
+    }
+
+    const thread = threadId
+        ? await loadChatThread(member.userId, member.ownerId, threadId)
+        : null;
+    if (threadId && !thread) {
+        throw new Error("Conversation not found");
+    }
+
     try {
         // Check configuration first
-        checkAIConfiguration();
-
-        // Get current data for context
-        const readings = await getElectricityReadings();
-        const tokens = await getTokenPurchases();
-        const summary = await getUsageSummary();
+        const provider = requireAIProvider();
 
-        const analysisData = formatDataForAI(readings, tokens, summary);
+        const data = cacheChatData({
+            timeZone: await getSelectedMeterTimezone(),
+            getReadings: getElectricityReadings,
+            getTokens: getTokenPurchases,
+            getSummary: getUsageSummary,
+            getForecast: getBalanceForecast,
+        });
 
-        // Build conversation context
-        const conversationContext =
-            conversationHistory.length > 0
-                ? `Previous conversation:\n${conversationHistory.join(
-                      "\n"
-                  )}\n\n`
-                : "";
+        // Latest messages of the conversation that fit the history budget
+        const history = thread
+            ? trimChatHistory(await loadChatMessages(thread.id))
+            : [];
+        const id =
+            thread?.id ??
+            (await createChatThread(member.userId, member.ownerId, question));
+        await addChatMessage(id, "user", question);
 
         const result = streamText({
-            model: google("gemini-1.5-flash"), // Using Gemini 1.5 Flash for chat
-            system: `You are a helpful electricity usage advisor. You have access to the user's electricity consumption data and can answer questions about their usage patterns, provide tips, and help them understand their electricity consumption.
+            model: provider.getModel("chat"),
+            tools: createChatTools(data),
+            maxSteps: CHAT_MAX_STEPS,
+            system: `You are a helpful electricity usage advisor for a prepaid electricity meter. You can answer questions about the user's usage patterns, provide tips, and help them understand their electricity consumption.
 
-Be conversational, helpful, and specific to their data. If they ask about something not in the data, let them know what data you have available.
+Look up the figures you need with the tools instead of guessing: readings by date range, usage between two dates, token purchases, and the balance forecast. Dates are YYYY-MM-DD in the meter's timezone; work out date ranges like "last week" from today's date. Quote numbers as the tools return them, and say when a day's usage is estimated.
 
-Current electricity data context:
-${JSON.stringify(analysisData, null, 2)}`,
-            prompt: `${conversationContext}User question: ${question}`,
+Be conversational, helpful, and specific to their data. If they ask about something the tools cannot look up, let them know what data you have available.
+
+Data available:
+${JSON.stringify(await describeChatData(data), null, 2)}`,
+            messages: [
+                ...history.map(({ role, content }) => ({ role, content })),
+                { role: "user", content: question },
+            ],
+            onFinish: async ({ text }) => {
+                if (text) await addChatMessage(id, "assistant", text);
+            },
         });
 
-        return result.toDataStreamResponse();
+        return result.toDataStreamResponse({
+            headers: { "X-Chat-Thread-Id": String(id) },
+        });
     } catch (error) {
         console.error("Error in AI chat:", error);
 
-        if (error instanceof Error) {
-            if (
-                error.message.includes("API key") ||
-                error.message.includes("API_KEY")
-            ) {
-                throw new Error(
-                    "Google Gemini API key is not configured. Please add your Google AI API key to the environment variables."
-                );
-            }
-            if (
-                error.message.includes("quota") ||
-                error.message.includes("limit")
-            ) {
-                throw new Error(
-                    "You've exceeded your Google Gemini API quota. Please wait a bit or check your Google AI Studio account."
-                );
-            }
-            if (error.message.includes("rate limit")) {
-                throw new Error(
-                    "Too many requests. Please wait a moment and try again."
-                );
-            }
-            if (
-                error.message.includes("permission") ||
-                error.message.includes("access")
-            ) {
-                throw new Error(
-                    "Please make sure your Google AI API key has the correct permissions and Gemini API is enabled."
-                );
-            }
-        }
-
-        throw new Error("Failed to process your question. Please try again.");
+        const { kind, message } = describeAIError(error);
+        throw new Error(
+            kind === "unknown"
+                ? "Failed to process your question. Please try again."
+                : message
+        );
     }
 }
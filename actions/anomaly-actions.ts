@@ -0,0 +1,83 @@
+"use server";
+
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type { AnomalyStatus, UsageAnomaly } from "@/lib/types";
+import { revalidatePath } from "next/cache";
+import { getHouseholdContext, hasRole } from "@/lib/household-scope";
+import { getMeterScope } from "@/lib/meter-scope";
+import { loadOpenAnomalies } from "@/lib/anomaly-store";
+
+/* Retrieves the open usage anomalies of the selected meter, or of all meters in the
+ * combined view.
+ *
+ * @returns A promise that resolves to an array of {@link UsageAnomaly} objects, newest
+ *          first. Returns an empty array if the database is not connected or no user is
+ *          signed in.
+ */
+export async function getUsageAnomalies(): Promise<UsageAnomaly[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    try {
+        const { meterId } = await getMeterScope(member.ownerId);
+        return await loadOpenAnomalies(member.ownerId, meterId);
+    } catch (error) {
+        console.error("Error fetching usage anomalies:", error);
+        return [];
+    }
+}
+
+/**
+ * Confirms an anomaly as real usage or dismisses it as a false alarm. Either
+ * way it is no longer shown.
+ */
+export async function resolveUsageAnomaly(
+    id: number,
+    status: Exclude<AnomalyStatus, "open">
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can resolve anomalies",
+        };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    if (status !== "confirmed" && status !== "dismissed") {
+        return { success: false, error: "Invalid anomaly status" };
+    }
+
+    try {
+        const rows = (await sql`
+      UPDATE usage_anomalies
+      SET status = ${status},
+          resolved_by_name = ${member.userName},
+          resolved_at = NOW()
+      WHERE id = ${id} AND user_id = ${member.ownerId}
+      RETURNING id
+    `) as SqlQueryResult<{ id: number }>;
+
+        if (rows.length === 0) {
+            return { success: false, error: "Anomaly not found" };
+        }
+
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error resolving usage anomaly:", error);
+        return { success: false, error: "Failed to resolve anomaly" };
+    }
+}
@@ -0,0 +1,665 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { refreshUsageAnomalies } from "@/lib/anomaly-store";
+import {
+    sql,
+    isDatabaseConnected,
+    type SqlQuery,
+    type SqlQueryResult,
+} from "@/lib/db";
+import type {
+    BackupArchive,
+    BackupConflict,
+    BackupReading,
+    BackupToken,
+    ElectricityReadingDBResult,
+    MeterDBResult,
+    RestoreMode,
+    RestoreSummary,
+    TokenPurchaseDBResult,
+} from "@/lib/types";
+import {
+    getHouseholdContext,
+    hasRole,
+    type HouseholdContext,
+} from "@/lib/household-scope";
+import {
+    BACKUP_FORMAT,
+    BACKUP_SCHEMA_VERSION,
+    validateBackupArchive,
+} from "@/lib/backup-archive";
+import { getPeriodForDate, isSchedulePeriod } from "@/lib/reading-schedule";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone-utils";
+import {
+    loadReadingSchedule,
+    replaceReadingScheduleQueries,
+} from "@/lib/reading-schedule-store";
+import { getTariffProfiles } from "./tariff-actions";
+
+export type RestoreResult = {
+    success: boolean;
+    error?: string;
+    /** Problems that make the archive unusable */
+    errors?: string[];
+    summary?: RestoreSummary;
+};
+
+type ExistingEntry = { user_id: string; same: boolean };
+
+/**
+ * How the entries of an archive map onto the entries already in the database
+ */
+interface RestorePlan {
+    readings: (BackupReading & { target_id: string })[];
+    tokens: (BackupToken & { target_id: string })[];
+    /** Archive token id -> id of the token after the restore */
+    tokenIds: Map<string, string>;
+    unchanged: number;
+    conflicts: BackupConflict[];
+}
+
+/* Creates a backup archive of the current household: profile, meters, tariffs,
+ * readings and token purchases of every meter.
+ *
+ * @returns A promise that resolves to the {@link BackupArchive}.
+ * @throws {Error} If the database is not connected or the user is not signed in.
+ */
+export async function createBackup(): Promise<BackupArchive> {
+    if (!isDatabaseConnected()) {
+        throw new Error(
+            "Database is not connected. Please set the DATABASE_URL environment variable."
+        );
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        throw new Error("Authentication required");
+    }
+
+    const profile = (await sql`
+      SELECT meter_number FROM user_profiles WHERE user_id = ${member.ownerId} LIMIT 1
+  `) as SqlQueryResult<{ meter_number: string | null }>;
+
+    const meters = (await sql`
+      SELECT id, nickname, meter_number, tariff_id, timezone, is_default
+      FROM meters
+      WHERE user_id = ${member.ownerId}
+      ORDER BY is_default DESC, id ASC
+  `) as SqlQueryResult<MeterDBResult>;
+
+    const readings = (await sql`
+      SELECT reading_id, timestamp, reading, period, meter_id, token_id, entered_by_name
+      FROM electricity_readings
+      WHERE user_id = ${member.ownerId}
+      ORDER BY timestamp ASC
+  `) as SqlQueryResult<
+        ElectricityReadingDBResult & { token_id: string | null }
+    >;
+
+    const tokens = (await sql`
+      SELECT token_id, timestamp, units, new_reading, total_cost, meter_id, entered_by_name
+      FROM token_purchases
+      WHERE user_id = ${member.ownerId}
+      ORDER BY timestamp ASC
+  `) as SqlQueryResult<TokenPurchaseDBResult>;
+
+    return {
+        format: BACKUP_FORMAT,
+        schema_version: BACKUP_SCHEMA_VERSION,
+        created_at: new Date().toISOString(),
+        profile: { meter_number: profile[0]?.meter_number ?? null },
+        meters: meters.map((meter) => ({
+            id: meter.id,
+            nickname: meter.nickname,
+            meter_number: meter.meter_number ?? null,
+            tariff_id: meter.tariff_id ?? null,
+            timezone: meter.timezone,
+            is_default: Boolean(meter.is_default),
+        })),
+        tariffs: await getTariffProfiles(),
+        schedule: await loadReadingSchedule(member.ownerId),
+        readings: readings.map((row) => ({
+            reading_id: row.reading_id,
+            timestamp: new Date(row.timestamp).toISOString(),
+            reading: Number(row.reading),
+            period: row.period as BackupReading["period"],
+            meter_id: row.meter_id ?? null,
+            token_id: row.token_id ?? null,
+            entered_by_name: row.entered_by_name ?? null,
+        })),
+        tokens: tokens.map((row) => ({
+            token_id: row.token_id,
+            timestamp: new Date(row.timestamp).toISOString(),
+            units: Number(row.units),
+            new_reading: Number(row.new_reading),
+            total_cost: Number(row.total_cost ?? 0),
+            meter_id: row.meter_id ?? null,
+            entered_by_name: row.entered_by_name ?? null,
+        })),
+    };
+}
+
+/**
+ * Works out which archive entries to insert and under which id.
+ *
+ * - An id owned by another account is restored under a new id (`renamed`).
+ * - When merging, an id that already exists in this account is left alone:
+ *   unchanged if its values match, otherwise a `kept-existing` conflict.
+ * - When replacing, the account's own entries are deleted first, so they
+ *   never conflict.
+ */
+async function planRestore(
+    ownerId: string,
+    archive: BackupArchive,
+    mode: RestoreMode
+): Promise<RestorePlan> {
+    const renamed = (id: string) => `${id}-${ownerId}`;
+    const readingIds = archive.readings.flatMap((r) => [
+        r.reading_id,
+        renamed(r.reading_id),
+    ]);
+    const tokenIds = archive.tokens.flatMap((t) => [
+        t.token_id,
+        renamed(t.token_id),
+    ]);
+
+    const existingReadings = (await sql`
+      SELECT reading_id, user_id, timestamp, reading
+      FROM electricity_readings
+      WHERE reading_id = ANY(${readingIds})
+  `) as SqlQueryResult<{
+        reading_id: string;
+        user_id: string;
+        timestamp: string;
+        reading: number | string;
+    }>;
+
+    const existingTokens = (await sql`
+      SELECT token_id, user_id, timestamp, units
+      FROM token_purchases
+      WHERE token_id = ANY(${tokenIds})
+  `) as SqlQueryResult<{
+        token_id: string;
+        user_id: string;
+        timestamp: string;
+        units: number | string;
+    }>;
+
+    const sameTime = (a: string, b: string) =>
+        new Date(a).getTime() === new Date(b).getTime();
+    const readingsById = new Map(
+        existingReadings.map((row) => [row.reading_id, row])
+    );
+    const tokensById = new Map(
+        existingTokens.map((row) => [row.token_id, row])
+    );
+
+    const plan: RestorePlan = {
+        readings: [],
+        tokens: [],
+        tokenIds: new Map(),
+        unchanged: 0,
+        conflicts: [],
+    };
+
+    // Resolves the id an entry ends up under and whether it must be inserted
+    const resolve = (
+        entityType: BackupConflict["entity_type"],
+        id: string,
+        find: (id: string) => ExistingEntry | undefined
+    ): { targetId: string; insert: boolean } => {
+        let targetId = id;
+        let match = find(id);
+
+        if (match && match.user_id !== ownerId) {
+            targetId = renamed(id);
+            match = find(targetId);
+            plan.conflicts.push({
+                entity_type: entityType,
+                entity_id: id,
+                resolution: "renamed",
+                message: `Belongs to another account, restored as ${targetId}`,
+            });
+        }
+
+        if (!match || mode === "replace") {
+            return { targetId, insert: true };
+        }
+        if (match.same) {
+            plan.unchanged++;
+        } else {
+            plan.conflicts.push({
+                entity_type: entityType,
+                entity_id: targetId,
+                resolution: "kept-existing",
+                message: "Differs from the existing entry, kept the existing one",
+            });
+        }
+        return { targetId, insert: false };
+    };
+
+    for (const token of archive.tokens) {
+        const { targetId, insert } = resolve("token", token.token_id, (id) => {
+            const row = tokensById.get(id);
+            return (
+                row && {
+                    user_id: row.user_id,
+                    same:
+                        sameTime(row.timestamp, token.timestamp) &&
+                        Number(row.units) === token.units,
+                }
+            );
+        });
+        plan.tokenIds.set(token.token_id, targetId);
+        if (insert) {
+            plan.tokens.push({ ...token, target_id: targetId });
+        }
+    }
+
+    for (const reading of archive.readings) {
+        const { targetId, insert } = resolve(
+            "reading",
+            reading.reading_id,
+            (id) => {
+                const row = readingsById.get(id);
+                return (
+                    row && {
+                        user_id: row.user_id,
+                        same:
+                            sameTime(row.timestamp, reading.timestamp) &&
+                            Number(row.reading) === reading.reading,
+                    }
+                );
+            }
+        );
+        if (insert) {
+            plan.readings.push({ ...reading, target_id: targetId });
+        }
+    }
+
+    return plan;
+}
+
+/**
+ * Validates the archive and the permission to restore it
+ */
+async function prepareRestore(
+    value: unknown
+): Promise<
+    | { member: HouseholdContext; archive: BackupArchive; result?: never }
+    | { result: RestoreResult }
+> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { result: { success: false, error: "User not authenticated" } };
+    }
+    if (!hasRole(member.role, "owner")) {
+        return {
+            result: {
+                success: false,
+                error: "Only the household owner can restore backups",
+            },
+        };
+    }
+    if (!isDatabaseConnected()) {
+        return {
+            result: { success: false, error: "Database is not connected" },
+        };
+    }
+
+    const { archive, errors } = validateBackupArchive(value);
+    if (!archive) {
+        return {
+            result: {
+                success: false,
+                error: "The backup archive is invalid",
+                errors,
+            },
+        };
+    }
+
+    return { member, archive };
+}
+
+/**
+ * Checks a backup archive and reports what restoring it would do, without
+ * changing any data.
+ */
+export async function previewRestore(
+    value: unknown,
+    mode: RestoreMode
+): Promise<RestoreResult> {
+    const prepared = await prepareRestore(value);
+    if (prepared.result) {
+        return prepared.result;
+    }
+
+    const { member, archive } = prepared;
+    try {
+        const plan = await planRestore(member.ownerId, archive, mode);
+        return {
+            success: true,
+            summary: {
+                mode,
+                readings: plan.readings.length,
+                tokens: plan.tokens.length,
+                meters: archive.meters.length,
+                tariffs: archive.tariffs.length,
+                unchanged: plan.unchanged,
+                conflicts: plan.conflicts,
+            },
+        };
+    } catch (error) {
+        console.error("Error checking backup:", error);
+        return { success: false, error: "Failed to check backup" };
+    }
+}
+
+/**
+ * Takes ids for new rows of a table ahead of the insert, so rows that refer
+ * to them can be inserted in the same transaction
+ */
+async function allocateIds(
+    table: "tariff_profiles" | "meters",
+    count: number
+): Promise<number[]> {
+    if (count === 0) return [];
+    const rows = (await sql`
+      SELECT nextval(pg_get_serial_sequence(${table}, 'id'))::int AS id
+      FROM generate_series(1, ${count})
+  `) as SqlQueryResult<{ id: number }>;
+    return rows.map((row) => row.id);
+}
+
+/**
+ * Restores a backup archive into the current household.
+ *
+ * `merge` adds the archive's entries next to the existing ones, reusing meters
+ * with the same nickname and tariffs with the same name and start date.
+ * `replace` deletes the household's readings, tokens, meters and tariffs first.
+ * Everything is worked out before any change, then all changes are sent as
+ * one transaction, so a failed restore leaves the household as it was.
+ */
+export async function restoreBackup(
+    value: unknown,
+    mode: RestoreMode
+): Promise<RestoreResult> {
+    const prepared = await prepareRestore(value);
+    if (prepared.result) {
+        return prepared.result;
+    }
+
+    const { member, archive } = prepared;
+    const ownerId = member.ownerId;
+
+    try {
+        // A replace starts from an empty household
+        const existingTariffs =
+            mode === "replace"
+                ? []
+                : ((await sql`
+      SELECT id, name, effective_from::text AS effective_from
+      FROM tariff_profiles
+      WHERE user_id = ${ownerId}
+    `) as SqlQueryResult<{
+                      id: number;
+                      name: string;
+                      effective_from: string;
+                  }>);
+        const existingMeters =
+            mode === "replace"
+                ? []
+                : ((await sql`
+      SELECT id, nickname, timezone, is_default FROM meters WHERE user_id = ${ownerId}
+    `) as SqlQueryResult<{
+                      id: number;
+                      nickname: string;
+                      timezone: string;
+                      is_default: boolean;
+                  }>);
+
+        // Merged readings from another schedule are assigned a period of this one
+        const schedule =
+            mode === "replace"
+                ? archive.schedule
+                : await loadReadingSchedule(ownerId);
+
+        const plan = await planRestore(ownerId, archive, mode);
+
+        // Tariffs first, meters refer to them
+        const tariffIds = new Map<number, number>();
+        const newTariffs = archive.tariffs.filter((tariff) => {
+            const match = existingTariffs.find(
+                (t) =>
+                    t.name === tariff.name &&
+                    t.effective_from === tariff.effective_from
+            );
+            if (match) tariffIds.set(tariff.id, match.id);
+            return !match;
+        });
+        const newTariffIds = await allocateIds(
+            "tariff_profiles",
+            newTariffs.length
+        );
+        newTariffs.forEach((tariff, index) =>
+            tariffIds.set(tariff.id, newTariffIds[index])
+        );
+
+        // Keep the archive's default meter only when the account has none
+        const hasDefaultMeter = existingMeters.some((m) => m.is_default);
+        const meterIds = new Map<number, number>();
+        const newMeters = archive.meters.flatMap((meter, index) => {
+            const match = existingMeters.find(
+                (m) =>
+                    m.nickname.toLowerCase() === meter.nickname.toLowerCase()
+            );
+            if (match) {
+                meterIds.set(meter.id, match.id);
+                return [];
+            }
+            const isDefault =
+                !hasDefaultMeter &&
+                (meter.is_default ||
+                    (index === 0 && !archive.meters.some((m) => m.is_default)));
+            return [{ ...meter, is_default: isDefault }];
+        });
+        const newMeterIds = await allocateIds("meters", newMeters.length);
+        const meterRows = newMeters.map((meter, index) => {
+            meterIds.set(meter.id, newMeterIds[index]);
+            return {
+                id: newMeterIds[index],
+                nickname: meter.nickname,
+                meter_number: meter.meter_number,
+                tariff_id:
+                    meter.tariff_id === null
+                        ? null
+                        : (tariffIds.get(meter.tariff_id) ?? null),
+                timezone: meter.timezone,
+                is_default: meter.is_default,
+            };
+        });
+
+        // Entries without a meter go to the default meter, if there is one
+        const meters = [...existingMeters, ...meterRows];
+        const defaultMeterId = meters.find((m) => m.is_default)?.id ?? null;
+        const toMeterId = (meterId: number | null) =>
+            (meterId === null ? undefined : meterIds.get(meterId)) ??
+            defaultMeterId;
+
+        // Periods are re-derived in the timezone of the meter a reading lands on
+        const timezoneOf = (meterId: number | null) =>
+            meters.find((m) => m.id === meterId)?.timezone ??
+            DEFAULT_TIMEZONE;
+
+        const tariffRows = newTariffs.map((tariff, index) => ({
+            id: newTariffIds[index],
+            name: tariff.name,
+            vat_rate: tariff.vat_rate,
+            fixed_levy: tariff.fixed_levy,
+            levy_per_kwh: tariff.levy_per_kwh,
+            effective_from: tariff.effective_from,
+            effective_to: tariff.effective_to,
+        }));
+        const tierRows = newTariffs.flatMap((tariff, index) =>
+            tariff.tiers.map((tier, order) => ({
+                tariff_id: newTariffIds[index],
+                tier_order: order + 1,
+                up_to_kwh: tier.up_to_kwh,
+                rate_per_kwh: tier.rate_per_kwh,
+            }))
+        );
+        const tokenRows = plan.tokens.map((token) => ({
+            token_id: token.target_id,
+            timestamp: token.timestamp,
+            units: token.units,
+            new_reading: token.new_reading,
+            total_cost: token.total_cost,
+            meter_id: toMeterId(token.meter_id),
+            entered_by_name: token.entered_by_name ?? member.userName,
+        }));
+        const readingRows = plan.readings.map((reading) => ({
+            reading_id: reading.target_id,
+            timestamp: reading.timestamp,
+            reading: reading.reading,
+            period: isSchedulePeriod(schedule, reading.period)
+                ? reading.period
+                : getPeriodForDate(
+                      schedule,
+                      new Date(reading.timestamp),
+                      timezoneOf(toMeterId(reading.meter_id))
+                  ),
+            meter_id: toMeterId(reading.meter_id),
+            entered_by_name: reading.entered_by_name ?? member.userName,
+            token_id: reading.token_id
+                ? (plan.tokenIds.get(reading.token_id) ?? null)
+                : null,
+        }));
+
+        const queries: SqlQuery[] = [];
+
+        if (mode === "replace") {
+            // Record every deleted entry before it disappears
+            queries.push(
+                sql`
+        WITH deleted AS (
+          DELETE FROM electricity_readings
+          WHERE user_id = ${ownerId}
+          RETURNING reading_id, reading, period, timestamp
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, old_value)
+        SELECT ${ownerId}::text, ${member.userId}::text, ${member.userName}::text, 'reading', reading_id, 'delete', 'restore',
+          jsonb_build_object('reading', reading, 'period', period, 'timestamp', timestamp)
+        FROM deleted
+      `,
+                sql`
+        WITH deleted AS (
+          DELETE FROM token_purchases
+          WHERE user_id = ${ownerId}
+          RETURNING token_id, units, total_cost, new_reading
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, old_value)
+        SELECT ${ownerId}::text, ${member.userId}::text, ${member.userName}::text, 'token', token_id, 'delete', 'restore',
+          jsonb_build_object('units', units, 'total_cost', total_cost, 'new_reading', new_reading)
+        FROM deleted
+      `,
+                sql`DELETE FROM meters WHERE user_id = ${ownerId}`,
+                sql`DELETE FROM tariff_profiles WHERE user_id = ${ownerId}`,
+                ...replaceReadingScheduleQueries(ownerId, archive.schedule)
+            );
+        }
+
+        queries.push(
+            sql`
+        INSERT INTO tariff_profiles (id, user_id, name, vat_rate, fixed_levy, levy_per_kwh, effective_from, effective_to)
+        SELECT id, ${ownerId}, name, vat_rate, fixed_levy, levy_per_kwh, effective_from, effective_to
+        FROM jsonb_to_recordset(${JSON.stringify(tariffRows)}::jsonb)
+          AS t(id INTEGER, name TEXT, vat_rate DECIMAL, fixed_levy DECIMAL, levy_per_kwh DECIMAL, effective_from DATE, effective_to DATE)
+      `,
+            sql`
+        INSERT INTO tariff_tiers (tariff_id, tier_order, up_to_kwh, rate_per_kwh)
+        SELECT tariff_id, tier_order, up_to_kwh, rate_per_kwh
+        FROM jsonb_to_recordset(${JSON.stringify(tierRows)}::jsonb)
+          AS t(tariff_id INTEGER, tier_order INTEGER, up_to_kwh DECIMAL, rate_per_kwh DECIMAL)
+      `,
+            sql`
+        INSERT INTO meters (id, user_id, nickname, meter_number, tariff_id, timezone, is_default)
+        SELECT id, ${ownerId}, nickname, meter_number, tariff_id, timezone, is_default
+        FROM jsonb_to_recordset(${JSON.stringify(meterRows)}::jsonb)
+          AS m(id INTEGER, nickname TEXT, meter_number TEXT, tariff_id INTEGER, timezone TEXT, is_default BOOLEAN)
+      `,
+            // Tokens before readings, readings refer to them
+            sql`
+        WITH rows AS (
+          SELECT *
+          FROM jsonb_to_recordset(${JSON.stringify(tokenRows)}::jsonb)
+            AS t(token_id TEXT, timestamp TEXT, units DECIMAL, new_reading DECIMAL, total_cost DECIMAL, meter_id INTEGER, entered_by_name TEXT)
+        ), stored AS (
+          INSERT INTO token_purchases (token_id, timestamp, units, new_reading, total_cost, user_id, meter_id, entered_by, entered_by_name)
+          SELECT token_id, timestamp::timestamptz, units, new_reading, total_cost, ${ownerId}, meter_id, ${member.userId}, entered_by_name
+          FROM rows
+          RETURNING token_id
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${ownerId}, ${member.userId}, ${member.userName}, 'token', token_id, 'create', 'restore',
+          jsonb_build_object('units', units, 'total_cost', total_cost, 'new_reading', new_reading)
+        FROM stored JOIN rows USING (token_id)
+      `,
+            sql`
+        WITH rows AS (
+          SELECT *
+          FROM jsonb_to_recordset(${JSON.stringify(readingRows)}::jsonb)
+            AS r(reading_id TEXT, timestamp TEXT, reading DECIMAL, period TEXT, meter_id INTEGER, entered_by_name TEXT, token_id TEXT)
+        ), stored AS (
+          INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id, meter_id, entered_by, entered_by_name, token_id)
+          SELECT reading_id, timestamp::timestamptz, reading, period, ${ownerId}, meter_id, ${member.userId}, entered_by_name, token_id
+          FROM rows
+          RETURNING reading_id
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${ownerId}, ${member.userId}, ${member.userName}, 'reading', reading_id, 'create', 'restore',
+          jsonb_build_object('reading', reading, 'period', period, 'timestamp', timestamp, 'token_id', token_id)
+        FROM stored JOIN rows USING (reading_id)
+      `
+        );
+
+        if (archive.profile.meter_number) {
+            queries.push(
+                mode === "replace"
+                    ? sql`
+          INSERT INTO user_profiles (user_id, meter_number, updated_at)
+          VALUES (${ownerId}, ${archive.profile.meter_number}, CURRENT_TIMESTAMP)
+          ON CONFLICT (user_id)
+          DO UPDATE SET meter_number = EXCLUDED.meter_number, updated_at = CURRENT_TIMESTAMP
+        `
+                    : sql`
+          INSERT INTO user_profiles (user_id, meter_number, updated_at)
+          VALUES (${ownerId}, ${archive.profile.meter_number}, CURRENT_TIMESTAMP)
+          ON CONFLICT (user_id)
+          DO UPDATE SET meter_number = COALESCE(user_profiles.meter_number, EXCLUDED.meter_number),
+            updated_at = CURRENT_TIMESTAMP
+        `
+            );
+        }
+
+        await sql.transaction(queries);
+
+        await refreshUsageAnomalies(ownerId, null);
+        revalidatePath("/");
+        return {
+            success: true,
+            summary: {
+                mode,
+                readings: plan.readings.length,
+                tokens: plan.tokens.length,
+                meters: newMeters.length,
+                tariffs: newTariffs.length,
+                unchanged: plan.unchanged,
+                conflicts: plan.conflicts,
+            },
+        };
+    } catch (error) {
+        console.error("Error restoring backup:", error);
+        return { success: false, error: "Failed to restore backup" };
+    }
+}
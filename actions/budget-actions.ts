@@ -0,0 +1,203 @@
+"use server";
+
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type { BudgetKind, BudgetStatus, MonthlyBudget } from "@/lib/types";
+import { revalidatePath } from "next/cache";
+import { getHouseholdContext, hasRole } from "@/lib/household-scope";
+import { loadMeters } from "@/lib/meter-scope";
+import { loadUsageSummary } from "@/lib/usage-summary";
+import { forecastBalance, getCombinedBalance } from "@/lib/balance-forecast";
+import {
+    getBudgetStatus as getStatus,
+    normalizeThresholds,
+    validateBudget,
+} from "@/lib/budget";
+import { getMonthKey } from "@/lib/tariff";
+import { DEFAULT_TIMEZONE, getLocalDateString } from "@/lib/timezone-utils";
+
+type BudgetRow = {
+    kind: BudgetKind;
+    amount: number | string;
+    alert_thresholds: number[];
+};
+
+async function loadBudget(ownerId: string): Promise<MonthlyBudget | null> {
+    const rows = (await sql`
+    SELECT kind, amount, alert_thresholds
+    FROM monthly_budgets
+    WHERE user_id = ${ownerId}
+  `) as SqlQueryResult<BudgetRow>;
+
+    if (rows.length === 0) return null;
+    return {
+        kind: rows[0].kind,
+        amount: Number(rows[0].amount),
+        alertThresholds: rows[0].alert_thresholds.map(Number),
+    };
+}
+
+/* Retrieves the monthly budget of the current household.
+ *
+ * @returns A promise that resolves to the {@link MonthlyBudget}, or null if the database
+ *          is not connected, no user is signed in or no budget has been set.
+ */
+export async function getMonthlyBudget(): Promise<MonthlyBudget | null> {
+    if (!isDatabaseConnected()) {
+        return null;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return null;
+    }
+
+    try {
+        return await loadBudget(member.ownerId);
+    } catch (error) {
+        console.error("Error fetching monthly budget:", error);
+        return null;
+    }
+}
+
+/**
+ * Sets the monthly budget of the current household
+ */
+export async function saveMonthlyBudget(
+    budget: MonthlyBudget
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can change the budget",
+        };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    const error = validateBudget(budget);
+    if (error) {
+        return { success: false, error };
+    }
+
+    try {
+        await sql`
+      INSERT INTO monthly_budgets (user_id, kind, amount, alert_thresholds)
+      VALUES (${member.ownerId}, ${budget.kind}, ${budget.amount}, ${normalizeThresholds(
+            budget.alertThresholds
+        )})
+      ON CONFLICT (user_id) DO UPDATE SET
+        kind = EXCLUDED.kind,
+        amount = EXCLUDED.amount,
+        alert_thresholds = EXCLUDED.alert_thresholds,
+        updated_at = NOW()
+    `;
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error saving monthly budget:", error);
+        return { success: false, error: "Failed to save budget" };
+    }
+}
+
+/**
+ * Removes the monthly budget of the current household
+ */
+export async function deleteMonthlyBudget(): Promise<{
+    success: boolean;
+    error?: string;
+}> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can change the budget",
+        };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    try {
+        await sql`DELETE FROM monthly_budgets WHERE user_id = ${member.ownerId}`;
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting monthly budget:", error);
+        return { success: false, error: "Failed to remove budget" };
+    }
+}
+
+/* Retrieves the progress against the household's budget this month, across all
+ * of its meters, with the projected figure at the end of the month.
+ *
+ * @returns A promise that resolves to the {@link BudgetStatus}, or null if the database
+ *          is not connected, no user is signed in or no budget has been set.
+ *
+ * @remarks
+ * - Spending is the `total_cost` of this month's token purchases, each counted in
+ *   the month of its meter's timezone.
+ * - The month itself follows the timezone of the default meter.
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus | null> {
+    if (!isDatabaseConnected()) {
+        return null;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return null;
+    }
+
+    try {
+        const budget = await loadBudget(member.ownerId);
+        if (!budget) {
+            return null;
+        }
+
+        const meters = await loadMeters(member.ownerId);
+        const timeZone = meters[0]?.timezone ?? DEFAULT_TIMEZONE;
+        const month = getMonthKey(getLocalDateString(new Date(), timeZone));
+
+        const spend = (await sql`
+      SELECT COALESCE(SUM(t.total_cost), 0) as spend
+      FROM token_purchases t
+      LEFT JOIN meters m ON m.id = t.meter_id
+      WHERE t.user_id = ${member.ownerId}
+      AND to_char(t.timestamp AT TIME ZONE COALESCE(m.timezone, ${DEFAULT_TIMEZONE}), 'YYYY-MM') = ${month}
+    `) as SqlQueryResult<{ spend: number | string }>;
+
+        const { summary, readings } = await loadUsageSummary(
+            member.ownerId,
+            null
+        );
+        const usage = summary.dailyUsage
+            .filter((day) => getMonthKey(day.date) === month)
+            .reduce((sum, day) => sum + day.total, 0);
+        const balance = getCombinedBalance(readings) ?? 0;
+        const dailyRate =
+            forecastBalance(summary.dailyUsage, balance, timeZone)
+                ?.dailyRate ?? summary.averageUsage;
+
+        return getStatus(
+            budget,
+            { spend: Number(spend[0]?.spend ?? 0), usage },
+            dailyRate,
+            balance,
+            summary.lastAverageCostPerKwh,
+            timeZone
+        );
+    } catch (error) {
+        console.error("Error fetching budget status:", error);
+        return null;
+    }
+}
@@ -0,0 +1,224 @@
+"use server";
+
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import { getHouseholdContext } from "@/lib/household-scope";
+import {
+    loadChatMessages,
+    loadChatThread,
+    loadChatThreads,
+    toChatTitle,
+} from "@/lib/chat-store";
+import type { ChatMessage, ChatThread, PinnedChatAnswer } from "@/lib/types";
+
+/* Retrieves the current user's chat threads about the current household's data.
+ *
+ * @returns A promise that resolves to an array of {@link ChatThread} objects, most
+ *          recently used first. Returns an empty array if the database is not
+ *          connected or no user is signed in.
+ */
+export async function getChatThreads(): Promise<ChatThread[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    try {
+        return await loadChatThreads(member.userId, member.ownerId);
+    } catch (error) {
+        console.error("Error fetching chat threads:", error);
+        return [];
+    }
+}
+
+/* Retrieves the messages of one of the current user's chat threads, to resume it.
+ *
+ * @param threadId - The thread to load.
+ * @returns A promise that resolves to its {@link ChatMessage} objects, oldest first.
+ *          Returns an empty array if the database is not connected, no user is signed
+ *          in or the thread is not theirs.
+ */
+export async function getChatMessages(
+    threadId: number
+): Promise<ChatMessage[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    try {
+        const thread = await loadChatThread(
+            member.userId,
+            member.ownerId,
+            threadId
+        );
+        return thread ? await loadChatMessages(thread.id) : [];
+    } catch (error) {
+        console.error("Error fetching chat messages:", error);
+        return [];
+    }
+}
+
+/**
+ * Renames one of the current user's chat threads
+ */
+export async function renameChatThread(
+    threadId: number,
+    title: string
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    if (!title.trim()) {
+        return { success: false, error: "Please enter a title" };
+    }
+
+    try {
+        const rows = (await sql`
+      UPDATE chat_threads
+      SET title = ${toChatTitle(title)}
+      WHERE id = ${threadId} AND user_id = ${member.userId} AND owner_id = ${member.ownerId}
+      RETURNING id
+    `) as SqlQueryResult<{ id: number }>;
+        if (rows.length === 0) {
+            return { success: false, error: "Conversation not found" };
+        }
+        return { success: true };
+    } catch (error) {
+        console.error("Error renaming chat thread:", error);
+        return { success: false, error: "Failed to rename conversation" };
+    }
+}
+
+/**
+ * Deletes one of the current user's chat threads with its messages,
+ * including any answers pinned from it
+ */
+export async function deleteChatThread(
+    threadId: number
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    try {
+        await sql`
+      DELETE FROM chat_threads
+      WHERE id = ${threadId} AND user_id = ${member.userId} AND owner_id = ${member.ownerId}
+    `;
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting chat thread:", error);
+        return { success: false, error: "Failed to delete conversation" };
+    }
+}
+
+/**
+ * Pins an assistant answer from one of the current user's threads to the
+ * dashboard, or unpins it
+ */
+export async function setChatAnswerPinned(
+    messageId: number,
+    pinned: boolean
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    try {
+        const rows = (await sql`
+      UPDATE chat_messages m
+      SET pinned = ${pinned}
+      FROM chat_threads t
+      WHERE m.id = ${messageId}
+      AND m.role = 'assistant'
+      AND t.id = m.thread_id
+      AND t.user_id = ${member.userId}
+      AND t.owner_id = ${member.ownerId}
+      RETURNING m.id
+    `) as SqlQueryResult<{ id: number }>;
+        if (rows.length === 0) {
+            return { success: false, error: "Answer not found" };
+        }
+        return { success: true };
+    } catch (error) {
+        console.error("Error pinning chat answer:", error);
+        return { success: false, error: "Failed to update pinned answer" };
+    }
+}
+
+/* Retrieves the answers the current user pinned to the dashboard, each with the
+ * question asked just before it.
+ *
+ * @returns A promise that resolves to an array of {@link PinnedChatAnswer} objects,
+ *          newest first. Returns an empty array if the database is not connected or
+ *          no user is signed in.
+ */
+export async function getPinnedChatAnswers(): Promise<PinnedChatAnswer[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    try {
+        const rows = (await sql`
+      SELECT m.id, m.thread_id, m.content, m.created_at,
+        (
+          SELECT q.content FROM chat_messages q
+          WHERE q.thread_id = m.thread_id AND q.id < m.id AND q.role = 'user'
+          ORDER BY q.id DESC
+          LIMIT 1
+        ) AS question
+      FROM chat_messages m
+      JOIN chat_threads t ON t.id = m.thread_id
+      WHERE m.pinned
+      AND t.user_id = ${member.userId}
+      AND t.owner_id = ${member.ownerId}
+      ORDER BY m.created_at DESC
+    `) as SqlQueryResult<{
+            id: number;
+            thread_id: number;
+            content: string;
+            created_at: string;
+            question: string | null;
+        }>;
+
+        return rows.map((row) => ({
+            id: row.id,
+            threadId: row.thread_id,
+            question: row.question ?? "",
+            answer: row.content,
+            createdAt: new Date(row.created_at),
+        }));
+    } catch (error) {
+        console.error("Error fetching pinned chat answers:", error);
+        return [];
+    }
+}
@@ -0,0 +1,117 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type { EmailDigestFrequency, EmailDigestSubscription } from "@/lib/types";
+import { getHouseholdContext } from "@/lib/household-scope";
+import { isMailConfigured } from "@/lib/mail-transport";
+
+const FREQUENCIES: EmailDigestFrequency[] = ["daily", "weekly"];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Gets the current user's email digest subscription for the active household,
+ * or null when they are not subscribed
+ */
+export async function getDigestSubscription(): Promise<EmailDigestSubscription | null> {
+    if (!isDatabaseConnected()) {
+        return null;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return null;
+    }
+
+    try {
+        const rows = (await sql`
+      SELECT email, frequency, to_char(last_sent_on, 'YYYY-MM-DD') AS last_sent_on
+      FROM email_digest_subscriptions
+      WHERE user_id = ${member.userId} AND owner_id = ${member.ownerId}
+    `) as SqlQueryResult<{
+            email: string;
+            frequency: EmailDigestFrequency;
+            last_sent_on: string | null;
+        }>;
+
+        if (rows.length === 0) return null;
+        return {
+            email: rows[0].email,
+            frequency: rows[0].frequency,
+            lastSentOn: rows[0].last_sent_on,
+        };
+    } catch (error) {
+        console.error("Error fetching email digest subscription:", error);
+        return null;
+    }
+}
+
+/**
+ * Subscribes the current user to daily or weekly email digests about the
+ * active household, or changes their address or frequency
+ */
+export async function saveDigestSubscription(subscription: {
+    email: string;
+    frequency: EmailDigestFrequency;
+}): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!isDatabaseConnected() || !isMailConfigured()) {
+        return { success: false, error: "Email digests are not available" };
+    }
+
+    const email = subscription.email.trim();
+    if (!EMAIL_PATTERN.test(email)) {
+        return { success: false, error: "Please enter a valid email address" };
+    }
+    if (!FREQUENCIES.includes(subscription.frequency)) {
+        return { success: false, error: "Frequency must be daily or weekly" };
+    }
+
+    try {
+        const token = randomBytes(24).toString("base64url");
+        await sql`
+      INSERT INTO email_digest_subscriptions (user_id, owner_id, email, frequency, unsubscribe_token)
+      VALUES (${member.userId}, ${member.ownerId}, ${email}, ${subscription.frequency}, ${token})
+      ON CONFLICT (user_id, owner_id) DO UPDATE SET
+        email = EXCLUDED.email,
+        frequency = EXCLUDED.frequency,
+        updated_at = NOW()
+    `;
+        return { success: true };
+    } catch (error) {
+        console.error("Error saving email digest subscription:", error);
+        return { success: false, error: "Failed to save email digest" };
+    }
+}
+
+/**
+ * Stops the current user's email digests about the active household
+ */
+export async function unsubscribeDigest(): Promise<{
+    success: boolean;
+    error?: string;
+}> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    try {
+        await sql`
+      DELETE FROM email_digest_subscriptions
+      WHERE user_id = ${member.userId} AND owner_id = ${member.ownerId}
+    `;
+        return { success: true };
+    } catch (error) {
+        console.error("Error removing email digest subscription:", error);
+        return { success: false, error: "Failed to unsubscribe" };
+    }
+}
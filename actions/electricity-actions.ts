@@ -7,27 +7,69 @@ import type {
     TokenPurchase,
     TokenPurchaseDBResult,
     UsageSummary,
-    DailyUsage,
+    BalanceForecast,
     Period,
+    HouseholdRole,
+    AuditEntry,
+    AuditSource,
+    ExportData,
+    ExportFilter,
+    OfflineSyncResult,
+    OutboxEntry,
+    OutboxResolution,
+    ReadingOverride,
+    ReadingValidation,
 } from "@/lib/types";
 import { revalidatePath } from "next/cache";
-import { stackServerApp } from "@/stack/server";
+import { refreshUsageAnomalies } from "@/lib/anomaly-store";
+import {
+    getHouseholdContext,
+    requireHouseholdRole,
+    type HouseholdContext,
+} from "@/lib/household-scope";
+import {
+    auditQuery,
+    getAuditEntry,
+    getAuditHistory,
+} from "@/lib/audit-log";
+import { getTariffProfiles } from "./tariff-actions";
+import { getMeters } from "./meter-actions";
+import {
+    getMeterScope,
+    getMeterTimezone,
+    requireWritableMeter,
+} from "@/lib/meter-scope";
+import {
+    EMPTY_USAGE_SUMMARY,
+    calculateUsagePerMeter,
+    summarizeUsage,
+} from "@/lib/usage-summary";
 
 // Import the new timezone utilities
 import {
     getCurrentLocalTime,
     getLocalDateString,
     formatDateWithTimezone,
-    getPeriodFromHour,
     logTimezoneInfo,
+    DEFAULT_TIMEZONE,
 } from "@/lib/timezone-utils";
+import { getPeriodForDate, isSchedulePeriod } from "@/lib/reading-schedule";
+import { loadReadingSchedule } from "@/lib/reading-schedule-store";
+import { forecastBalance } from "@/lib/balance-forecast";
+import { getMonthlyConsumption } from "@/lib/consumption";
+import {
+    canSaveReading,
+    getFlagReason,
+    getOverrideReason,
+} from "@/lib/reading-validation";
+import { validateMeterReading } from "@/lib/reading-validation-store";
 
 /**
- * Get the current authenticated user
+ * Get the household context of the current user: whose data to use and with which role
  */
-async function getCurrentUser() {
+async function getCurrentMember() {
     try {
-        return await stackServerApp.getUser();
+        return await getHouseholdContext();
     } catch (error) {
         console.error("Error getting current user:", error);
         return null;
@@ -35,14 +77,11 @@ async function getCurrentUser() {
 }
 
 /**
- * Require authentication and throw if not authenticated
+ * Require authentication and a household role, and throw if either is missing.
+ * Viewers can read, editors can add and update entries, owners can delete.
  */
-async function requireAuth() {
-    const user = await getCurrentUser();
-    if (!user) {
-        throw new Error("Authentication required");
-    }
-    return user;
+async function requireAuth(minimumRole: HouseholdRole = "viewer") {
+    return requireHouseholdRole(minimumRole);
 }
 
 /**
@@ -61,46 +100,37 @@ const checkDbConnection = () => {
 };
 
 /**
- * Gets the current period based on the current hour
+ * Gets the period a date falls in according to the owner's reading schedule,
+ * using the wall-clock hour in the meter's timezone
  */
-function getCurrentPeriod(): Period {
-    const now = new Date();
-    const localHour = now.getHours();
-    return getPeriodFromHour(localHour) as Period;
+async function getPeriodFromDate(
+    ownerId: string,
+    date: Date,
+    timeZone: string
+): Promise<Period> {
+    return getPeriodForDate(await loadReadingSchedule(ownerId), date, timeZone);
 }
 
 /**
- * Gets the period from a date
- */
-function getPeriodFromDate(date: Date): Period {
-    const localHour = date.getHours();
-    return getPeriodFromHour(localHour) as Period;
-}
-
-type MonthlyUsageRow = {
-    month: string;
-    usage: number | string; // usage may come as string from SQL, so handle both
-};
-
-/**
- * Checks if a reading already exists for the current period today
- * FIXED: Now properly handles timezone by comparing local dates and using period
+ * Checks if a reading already exists for the current period today.
+ * "Today" is the calendar day in the meter's timezone, not the server's.
  */
 export async function checkExistingReading(
     period: Period
 ): Promise<ElectricityReading | null> {
     checkDbConnection();
-    const user = await requireAuth();
+    const member = await requireAuth("viewer");
 
-    const todayStr = getLocalDateString(); // Use local date
+    const { writeMeterId, timeZone } = await getMeterScope(member.ownerId);
+    const todayStr = getLocalDateString(new Date(), timeZone);
 
-    // FIXED: Query by date and period, not trying to do timezone conversion in SQL
     const result = (await sql`
-      SELECT id, reading_id, timestamp, reading, period, created_at
+      SELECT id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name
       FROM electricity_readings
-      WHERE DATE(timestamp) = ${todayStr} 
+      WHERE DATE(timestamp AT TIME ZONE ${timeZone}) = ${todayStr} 
       AND period = ${period}
-      AND user_id = ${user.id}
+      AND user_id = ${member.ownerId}
+      AND meter_id IS NOT DISTINCT FROM ${writeMeterId}
       ORDER BY timestamp DESC
       LIMIT 1
   `) as SqlQueryResult<ElectricityReadingDBResult>;
@@ -118,63 +148,589 @@ export async function checkExistingReading(
         created_at: result[0]?.created_at
             ? new Date(result[0]?.created_at)
             : undefined,
+        meter_id: result[0]?.meter_id ?? null,
+        entered_by: result[0]?.entered_by ?? null,
+        entered_by_name: result[0]?.entered_by_name ?? null,
     };
 }
 
+/**
+ * Maps an electricity reading row to an {@link ElectricityReading}
+ */
+function toElectricityReading(
+    row: ElectricityReadingDBResult
+): ElectricityReading {
+    return {
+        id: row.id,
+        reading_id: row.reading_id,
+        timestamp: new Date(row.timestamp),
+        reading: Number(row.reading),
+        period: row.period as Period,
+        created_at: row.created_at ? new Date(row.created_at) : undefined,
+        meter_id: row.meter_id ?? null,
+        entered_by: row.entered_by ?? null,
+        entered_by_name: row.entered_by_name ?? null,
+        override_reason: row.override_reason ?? null,
+    };
+}
+
+/** Stored values of a reading that a change is recorded against */
+type StoredReading = {
+    reading: number | string;
+    timestamp: string;
+    period: string;
+    meter_id: number | null;
+};
+
+/**
+ * Loads the stored values of a reading before changing it
+ */
+async function loadStoredReading(
+    ownerId: string,
+    readingId: string
+): Promise<StoredReading> {
+    const rows = (await sql`
+      SELECT reading, timestamp, period, meter_id FROM electricity_readings
+      WHERE reading_id = ${readingId} AND user_id = ${ownerId}
+  `) as SqlQueryResult<StoredReading>;
+
+    if (rows.length === 0) {
+        throw new Error(
+            "Reading not found or you don't have permission to update it"
+        );
+    }
+    return rows[0];
+}
+
+/**
+ * Changes a reading and appends the change to the audit log in one
+ * transaction. The reading keeps its original `created_at`, and its time and
+ * period unless new ones are given. A change without an override reason
+ * clears the reason of the old value.
+ */
+async function applyReadingChange(
+    member: HouseholdContext,
+    readingId: string,
+    previous: StoredReading,
+    changes: { reading: number; timestamp?: string; period?: Period },
+    {
+        source = "dashboard",
+        revertedAuditId,
+        overrideReason = null,
+    }: {
+        source?: AuditSource;
+        revertedAuditId?: number;
+        overrideReason?: string | null;
+    } = {}
+): Promise<ElectricityReading> {
+    const moved = changes.timestamp !== undefined;
+
+    const [result] = (await sql.transaction([
+        sql`
+      UPDATE electricity_readings
+      SET reading = ${changes.reading},
+          timestamp = COALESCE(${changes.timestamp ?? null}, timestamp),
+          period = COALESCE(${changes.period ?? null}, period),
+          override_reason = ${overrideReason}
+      WHERE reading_id = ${readingId} AND user_id = ${member.ownerId}
+      RETURNING id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name, override_reason
+    `,
+        auditQuery({
+            ownerId: member.ownerId,
+            actorId: member.userId,
+            actorName: member.userName,
+            entityType: "reading",
+            entityId: readingId,
+            action: revertedAuditId ? "revert" : "update",
+            source,
+            oldValue: {
+                reading: Number(previous.reading),
+                ...(moved && {
+                    timestamp: previous.timestamp,
+                    period: previous.period,
+                }),
+            },
+            newValue: {
+                reading: changes.reading,
+                ...(moved && {
+                    timestamp: changes.timestamp,
+                    period: changes.period,
+                }),
+                ...(overrideReason && { override_reason: overrideReason }),
+            },
+            revertedAuditId,
+        }),
+    ])) as [SqlQueryResult<ElectricityReadingDBResult>];
+
+    await refreshUsageAnomalies(member.ownerId, result[0].meter_id ?? null);
+    revalidatePath("/");
+
+    return toElectricityReading(result[0]);
+}
+
 /**
  * Updates an existing electricity reading
  */
 export async function updateElectricityReading(
     readingId: string,
-    newReading: number
+    newReading: number,
+    source: AuditSource = "dashboard"
 ): Promise<ElectricityReading> {
     checkDbConnection();
-    const user = await requireAuth();
+    const member = await requireAuth("editor");
+
+    const previous = await loadStoredReading(member.ownerId, readingId);
+    return applyReadingChange(
+        member,
+        readingId,
+        previous,
+        { reading: newReading },
+        { source }
+    );
+}
 
-    const result = (await sql`
-      UPDATE electricity_readings 
-      SET reading = ${newReading}, created_at = NOW()
-      WHERE reading_id = ${readingId} AND user_id = ${user.id}
-      RETURNING id, reading_id, timestamp, reading, period, created_at
-  `) as SqlQueryResult<ElectricityReadingDBResult>;
+/**
+ * Returns the change history of a reading, newest first
+ */
+export async function getReadingHistory(
+    readingId: string
+): Promise<AuditEntry[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
 
-    if (result.length === 0) {
+    const member = await getCurrentMember();
+    if (!member) {
+        return [];
+    }
+
+    return getAuditHistory(member.ownerId, "reading", readingId);
+}
+
+/**
+ * Reverts a reading to the value, time and period it had before the given
+ * change. The revert is recorded as a new audit entry, so it can be undone
+ * as well.
+ *
+ * Like {@link editElectricityReading}, returns the validation issues instead
+ * of restoring a reading out of line with the readings now around it, unless
+ * overridden.
+ */
+export async function revertReadingChange(
+    auditId: number,
+    override?: ReadingOverride
+): Promise<ElectricityReading | { validation: ReadingValidation }> {
+    checkDbConnection();
+    const member = await requireAuth("editor");
+
+    const entry = await getAuditEntry(member.ownerId, auditId);
+    if (entry?.entity_type !== "reading" || !entry.old_value) {
+        throw new Error("This change cannot be reverted");
+    }
+
+    const previousValue = Number(entry.old_value.reading);
+    if (!Number.isFinite(previousValue)) {
+        throw new Error("This change cannot be reverted");
+    }
+
+    await assertNotTokenReading(member.ownerId, entry.entity_id);
+
+    const current = await loadStoredReading(member.ownerId, entry.entity_id);
+    const meterId = current.meter_id ?? null;
+    const timeZone = await getMeterTimezone(member.ownerId, meterId);
+
+    // Changes that only touched the value keep the current time and period
+    const { timestamp, period } = entry.old_value;
+    const moved = typeof timestamp === "string" && typeof period === "string";
+    const previousTimestamp = new Date(moved ? timestamp : current.timestamp);
+    if (Number.isNaN(previousTimestamp.getTime())) {
+        throw new Error("This change cannot be reverted");
+    }
+
+    const validation = await validateMeterReading(
+        member.ownerId,
+        meterId,
+        previousValue,
+        previousTimestamp,
+        timeZone,
+        entry.entity_id
+    );
+    if (!canSaveReading(validation, override)) {
+        return { validation };
+    }
+
+    return applyReadingChange(
+        member,
+        entry.entity_id,
+        current,
+        moved
+            ? {
+                  reading: previousValue,
+                  timestamp: formatDateWithTimezone(previousTimestamp),
+                  period,
+              }
+            : { reading: previousValue },
+        {
+            revertedAuditId: entry.id,
+            overrideReason: getOverrideReason(override),
+        }
+    );
+}
+
+/**
+ * Maps a token purchase row to a {@link TokenPurchase}
+ */
+function toTokenPurchase(row: TokenPurchaseDBResult): TokenPurchase {
+    return {
+        id: row.id,
+        token_id: row.token_id,
+        timestamp: new Date(row.timestamp),
+        units: Number(row.units),
+        new_reading: Number(row.new_reading),
+        created_at: row.created_at ? new Date(row.created_at) : undefined,
+        total_cost: Number(row.total_cost),
+        meter_id: row.meter_id ?? null,
+        entered_by: row.entered_by ?? null,
+        entered_by_name: row.entered_by_name ?? null,
+    };
+}
+
+/**
+ * Throws if a reading was inserted by a token purchase.
+ * Those readings change together with their token.
+ */
+async function assertNotTokenReading(
+    ownerId: string,
+    readingId: string
+): Promise<void> {
+    const linked = (await sql`
+      SELECT token_id FROM electricity_readings
+      WHERE reading_id = ${readingId} AND user_id = ${ownerId}
+  `) as SqlQueryResult<{ token_id: string | null }>;
+
+    if (linked[0]?.token_id || readingId.startsWith("token-reading-")) {
         throw new Error(
-            "Reading not found or you don't have permission to update it"
+            "This reading belongs to a token purchase. Edit or delete the token instead."
         );
     }
+}
+
+/**
+ * Edits the value and time of any reading. The period is recalculated from the new time.
+ *
+ * Like {@link addBackdatedReading}, returns the validation issues instead of
+ * saving a change out of line with the readings around it, unless overridden.
+ */
+export async function editElectricityReading(
+    readingId: string,
+    changes: { reading: number; timestamp: Date },
+    override?: ReadingOverride
+): Promise<ElectricityReading | { validation: ReadingValidation }> {
+    checkDbConnection();
+    const member = await requireAuth("editor");
+
+    if (!(changes.reading >= 0)) {
+        throw new Error("Reading must be zero or more");
+    }
 
+    await assertNotTokenReading(member.ownerId, readingId);
+
+    const previous = await loadStoredReading(member.ownerId, readingId);
+    const meterId = previous.meter_id ?? null;
+    const timeZone = await getMeterTimezone(member.ownerId, meterId);
+
+    const validation = await validateMeterReading(
+        member.ownerId,
+        meterId,
+        changes.reading,
+        changes.timestamp,
+        timeZone,
+        readingId
+    );
+    if (!canSaveReading(validation, override)) {
+        return { validation };
+    }
+
+    const period = await getPeriodFromDate(
+        member.ownerId,
+        changes.timestamp,
+        timeZone
+    );
+
+    return applyReadingChange(
+        member,
+        readingId,
+        previous,
+        {
+            reading: changes.reading,
+            timestamp: formatDateWithTimezone(changes.timestamp),
+            period,
+        },
+        { overrideReason: getOverrideReason(override) }
+    );
+}
+
+/**
+ * Deletes a reading. Owners only.
+ */
+export async function deleteElectricityReading(
+    readingId: string
+): Promise<void> {
+    checkDbConnection();
+    const member = await requireAuth("owner");
+
+    await assertNotTokenReading(member.ownerId, readingId);
+
+    const deleted = (await sql`
+      WITH deleted AS (
+        DELETE FROM electricity_readings
+        WHERE reading_id = ${readingId} AND user_id = ${member.ownerId}
+        RETURNING reading_id, reading, timestamp, period, meter_id
+      ), audit AS (
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, old_value)
+        SELECT ${member.ownerId}::text, ${member.userId}::text, ${member.userName}::text, 'reading', reading_id, 'delete', 'dashboard',
+          jsonb_build_object('reading', reading, 'timestamp', timestamp, 'period', period)
+        FROM deleted
+      )
+      SELECT meter_id FROM deleted
+  `) as SqlQueryResult<{ meter_id: number | null }>;
+
+    if (deleted.length === 0) {
+        throw new Error(
+            "Reading not found or you don't have permission to delete it"
+        );
+    }
+
+    await refreshUsageAnomalies(member.ownerId, deleted[0].meter_id ?? null);
     revalidatePath("/");
+}
 
-    return {
-        id: result[0]?.id,
-        reading_id: result[0]?.reading_id,
-        timestamp: new Date(result[0]?.timestamp),
-        reading: Number(result[0]?.reading),
-        period: result[0]?.period as Period,
-        created_at: result[0]?.created_at
-            ? new Date(result[0]?.created_at)
-            : undefined,
-    };
+/**
+ * Changes the units and cost of a token purchase.
+ *
+ * @remarks
+ * - The token's `new_reading` and its paired `token-reading-*` row shift by the change in units.
+ * - Later readings are real meter values and are left as they are.
+ */
+export async function updateTokenPurchase(
+    tokenId: string,
+    changes: { units: number; total_cost: number }
+): Promise<{ token: TokenPurchase; reading: ElectricityReading | null }> {
+    checkDbConnection();
+    const member = await requireAuth("editor");
+
+    if (!(changes.units > 0) || !(changes.total_cost >= 0)) {
+        throw new Error("Units must be positive and cost cannot be negative");
+    }
+
+    const previous = (await sql`
+      SELECT units, total_cost, new_reading FROM token_purchases
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+  `) as SqlQueryResult<{
+        units: number | string;
+        total_cost: number | string;
+        new_reading: number | string;
+    }>;
+
+    if (previous.length === 0) {
+        throw new Error(
+            "Token not found or you don't have permission to update it"
+        );
+    }
+
+    const delta = changes.units - Number(previous[0].units);
+
+    const paired = (await sql`
+      SELECT reading_id, reading FROM electricity_readings
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+  `) as SqlQueryResult<{ reading_id: string; reading: number | string }>;
+
+    try {
+        // The token, its reading and their audit entries change together
+        const [tokenResult, readingResult] = (await sql.transaction([
+            sql`
+      UPDATE token_purchases
+      SET units = ${changes.units},
+          total_cost = ${changes.total_cost},
+          new_reading = new_reading + ${delta}
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+      RETURNING id, token_id, timestamp, units, new_reading, created_at, total_cost, meter_id, entered_by, entered_by_name
+    `,
+            sql`
+      UPDATE electricity_readings
+      SET reading = reading + ${delta}
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+      RETURNING id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name
+    `,
+            auditQuery({
+                ownerId: member.ownerId,
+                actorId: member.userId,
+                actorName: member.userName,
+                entityType: "token",
+                entityId: tokenId,
+                action: "update",
+                source: "dashboard",
+                oldValue: {
+                    units: Number(previous[0].units),
+                    total_cost: Number(previous[0].total_cost),
+                    new_reading: Number(previous[0].new_reading),
+                },
+                newValue: {
+                    units: changes.units,
+                    total_cost: changes.total_cost,
+                    new_reading: Number(previous[0].new_reading) + delta,
+                },
+            }),
+            ...paired.map((reading) =>
+                auditQuery({
+                    ownerId: member.ownerId,
+                    actorId: member.userId,
+                    actorName: member.userName,
+                    entityType: "reading",
+                    entityId: reading.reading_id,
+                    action: "update",
+                    source: "dashboard",
+                    oldValue: { reading: Number(reading.reading) },
+                    newValue: {
+                        reading: Number(reading.reading) + delta,
+                        token_id: tokenId,
+                    },
+                })
+            ),
+        ])) as [
+            SqlQueryResult<TokenPurchaseDBResult>,
+            SqlQueryResult<ElectricityReadingDBResult>,
+        ];
+
+        await refreshUsageAnomalies(
+            member.ownerId,
+            tokenResult[0].meter_id ?? null
+        );
+        revalidatePath("/");
+
+        return {
+            token: toTokenPurchase(tokenResult[0]),
+            reading:
+                readingResult.length > 0
+                    ? toElectricityReading(readingResult[0])
+                    : null,
+        };
+    } catch (error) {
+        console.error("Error updating token purchase:", error);
+        throw new Error("Failed to update token purchase");
+    }
+}
+
+/**
+ * Deletes a token purchase and the reading it inserted. Owners only.
+ *
+ * @returns The ID of the deleted paired reading, or null if it had none.
+ */
+export async function deleteTokenPurchase(
+    tokenId: string
+): Promise<{ readingId: string | null }> {
+    checkDbConnection();
+    const member = await requireAuth("owner");
+
+    const token = (await sql`
+      SELECT units, total_cost, new_reading, timestamp, meter_id FROM token_purchases
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+  `) as SqlQueryResult<{
+        units: number | string;
+        total_cost: number | string;
+        new_reading: number | string;
+        timestamp: string;
+        meter_id: number | null;
+    }>;
+
+    if (token.length === 0) {
+        throw new Error("Token not found");
+    }
+
+    const paired = (await sql`
+      SELECT reading_id, reading FROM electricity_readings
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+  `) as SqlQueryResult<{ reading_id: string; reading: number | string }>;
+
+    try {
+        // The token, its reading and their audit entries go together
+        await sql.transaction([
+            sql`
+      DELETE FROM electricity_readings
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+    `,
+            sql`
+      DELETE FROM token_purchases
+      WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
+    `,
+            auditQuery({
+                ownerId: member.ownerId,
+                actorId: member.userId,
+                actorName: member.userName,
+                entityType: "token",
+                entityId: tokenId,
+                action: "delete",
+                source: "dashboard",
+                oldValue: {
+                    units: Number(token[0].units),
+                    total_cost: Number(token[0].total_cost),
+                    new_reading: Number(token[0].new_reading),
+                    timestamp: token[0].timestamp,
+                },
+            }),
+            ...paired.map((reading) =>
+                auditQuery({
+                    ownerId: member.ownerId,
+                    actorId: member.userId,
+                    actorName: member.userName,
+                    entityType: "reading",
+                    entityId: reading.reading_id,
+                    action: "delete",
+                    source: "dashboard",
+                    oldValue: {
+                        reading: Number(reading.reading),
+                        token_id: tokenId,
+                    },
+                })
+            ),
+        ]);
+
+        await refreshUsageAnomalies(member.ownerId, token[0].meter_id ?? null);
+        revalidatePath("/");
+        return { readingId: paired[0]?.reading_id ?? null };
+    } catch (error) {
+        console.error("Error deleting token purchase:", error);
+        throw new Error("Failed to delete token purchase");
+    }
 }
 
 /**
  * Adds a new electricity reading to the database.
  * Preserve the user's local time intent correctly
+ *
+ * A reading out of line with the readings around it is not saved; its
+ * validation issues are returned instead, and the reading can be sent again
+ * with an `override`, which needs a reason when there are errors.
  */
 export async function addElectricityReading(
     reading: number,
-    forceUpdate = false
-): Promise<{
-    reading: ElectricityReading;
-    isUpdate: boolean;
-    existingReading?: ElectricityReading;
-}> {
+    forceUpdate = false,
+    override?: ReadingOverride
+): Promise<
+    | {
+          reading: ElectricityReading;
+          isUpdate: boolean;
+          existingReading?: ElectricityReading;
+      }
+    | { reading: null; isUpdate: false; validation: ReadingValidation }
+> {
     checkDbConnection();
-    const user = await requireAuth();
+    const member = await requireAuth("editor");
+    const meterId = await requireWritableMeter(member.ownerId);
+    const timeZone = await getMeterTimezone(member.ownerId, meterId);
 
     const now = getCurrentLocalTime();
-    const period = getCurrentPeriod(); // Calculate period based on current hour
+    const period = await getPeriodFromDate(member.ownerId, now, timeZone);
 
     // Debug logging
     logTimezoneInfo("[SERVER] Adding electricity reading", now);
@@ -190,10 +746,27 @@ export async function addElectricityReading(
         };
     }
 
+    // An update keeps the time of the reading it replaces
+    const validation = await validateMeterReading(
+        member.ownerId,
+        meterId,
+        reading,
+        existingReading ? existingReading.timestamp : now,
+        timeZone,
+        existingReading?.reading_id
+    );
+    if (!canSaveReading(validation, override)) {
+        return { reading: null, isUpdate: false, validation };
+    }
+    const overrideReason = getOverrideReason(override);
+
     if (existingReading && forceUpdate) {
-        const updatedReading = await updateElectricityReading(
+        const updatedReading = await applyReadingChange(
+            member,
             existingReading.reading_id,
-            reading
+            await loadStoredReading(member.ownerId, existingReading.reading_id),
+            { reading },
+            { overrideReason }
         );
         return {
             reading: updatedReading,
@@ -203,30 +776,37 @@ export async function addElectricityReading(
     }
 
     // Create new reading with proper timezone handling
-    const readingId = `reading-${Date.now()}-${user.id}`;
+    const readingId = `reading-${Date.now()}-${member.userId}`;
     const formattedTimestamp = formatDateWithTimezone(now);
 
-    const result = (await sql`
-      INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id)
-      VALUES (${readingId}, ${formattedTimestamp}, ${reading}, ${period}, ${user.id})
-      RETURNING id, reading_id, timestamp, reading, period, created_at
-  `) as SqlQueryResult<ElectricityReadingDBResult>;
-
+    const [result] = (await sql.transaction([
+        sql`
+      INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id, meter_id, entered_by, entered_by_name, override_reason)
+      VALUES (${readingId}, ${formattedTimestamp}, ${reading}, ${period}, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}, ${overrideReason})
+      RETURNING id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name, override_reason
+    `,
+        auditQuery({
+            ownerId: member.ownerId,
+            actorId: member.userId,
+            actorName: member.userName,
+            entityType: "reading",
+            entityId: readingId,
+            action: "create",
+            source: "dashboard",
+            newValue: {
+                reading,
+                period,
+                timestamp: formattedTimestamp,
+                ...(overrideReason && { override_reason: overrideReason }),
+            },
+        }),
+    ])) as [SqlQueryResult<ElectricityReadingDBResult>];
+
+    await refreshUsageAnomalies(member.ownerId, meterId);
     revalidatePath("/");
 
-    const newReading: ElectricityReading = {
-        id: result[0]?.id,
-        reading_id: result[0]?.reading_id,
-        timestamp: new Date(result[0]?.timestamp),
-        reading: Number(result[0]?.reading),
-        period: result[0]?.period as Period,
-        created_at: result[0]?.created_at
-            ? new Date(result[0]?.created_at)
-            : undefined,
-    };
-
     return {
-        reading: newReading,
+        reading: toElectricityReading(result[0]),
         isUpdate: false,
     };
 }
@@ -234,17 +814,39 @@ export async function addElectricityReading(
 /**
  * Adds a backdated electricity reading to the database.
  * FIXED: Now correctly preserves the intended time and calculates period properly
+ *
+ * Like {@link addElectricityReading}, returns the validation issues instead of
+ * saving a reading out of line with the readings around it, unless overridden.
  */
 export async function addBackdatedReading(
-    readingData: Omit<ElectricityReading, "id" | "reading_id">
-): Promise<ElectricityReading> {
+    readingData: Omit<ElectricityReading, "id" | "reading_id">,
+    override?: ReadingOverride
+): Promise<ElectricityReading | { validation: ReadingValidation }> {
     checkDbConnection();
-    const user = await requireAuth();
+    const member = await requireAuth("editor");
+    const meterId = await requireWritableMeter(member.ownerId);
+    const timeZone = await getMeterTimezone(member.ownerId, meterId);
+
+    const validation = await validateMeterReading(
+        member.ownerId,
+        meterId,
+        readingData.reading,
+        readingData.timestamp,
+        timeZone
+    );
+    if (!canSaveReading(validation, override)) {
+        return { validation };
+    }
+    const overrideReason = getOverrideReason(override);
 
-    const readingId = `reading-backdated-${Date.now()}-${user.id}`;
+    const readingId = `reading-backdated-${Date.now()}-${member.userId}`;
 
     // Important: Calculate period based on the timestamp's hour, not just copy the provided period
-    const calculatedPeriod = getPeriodFromDate(readingData.timestamp);
+    const calculatedPeriod = await getPeriodFromDate(
+        member.ownerId,
+        readingData.timestamp,
+        timeZone
+    );
 
     // Debug logging
     logTimezoneInfo("[SERVER] Adding backdated reading", readingData.timestamp);
@@ -252,26 +854,96 @@ export async function addBackdatedReading(
     // FIXED: Use the simplified formatDateWithTimezone that preserves local time
     const formattedTimestamp = formatDateWithTimezone(readingData.timestamp);
 
-    const result = (await sql`
-    INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id)
-    VALUES (${readingId}, ${formattedTimestamp}, ${readingData.reading}, ${calculatedPeriod}, ${user.id})
-    RETURNING id, reading_id, timestamp, reading, period, created_at
-  `) as SqlQueryResult<ElectricityReadingDBResult>;
-
+    const [result] = (await sql.transaction([
+        sql`
+      INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id, meter_id, entered_by, entered_by_name, override_reason)
+      VALUES (${readingId}, ${formattedTimestamp}, ${readingData.reading}, ${calculatedPeriod}, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}, ${overrideReason})
+      RETURNING id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name, override_reason
+    `,
+        auditQuery({
+            ownerId: member.ownerId,
+            actorId: member.userId,
+            actorName: member.userName,
+            entityType: "reading",
+            entityId: readingId,
+            action: "create",
+            source: "backdated",
+            newValue: {
+                reading: readingData.reading,
+                period: calculatedPeriod,
+                timestamp: formattedTimestamp,
+                ...(overrideReason && { override_reason: overrideReason }),
+            },
+        }),
+    ])) as [SqlQueryResult<ElectricityReadingDBResult>];
+
+    await refreshUsageAnomalies(member.ownerId, meterId);
     revalidatePath("/");
 
-    const newReading: ElectricityReading = {
-        id: result[0]?.id,
-        reading_id: result[0]?.reading_id,
-        timestamp: new Date(result[0]?.timestamp),
-        reading: Number(result[0]?.reading),
-        period: result[0]?.period as Period,
-        created_at: result[0]?.created_at
-            ? new Date(result[0]?.created_at)
-            : undefined,
-    };
+    return toElectricityReading(result[0]);
+}
 
-    return newReading;
+/**
+ * Inserts a token purchase and the reading it tops the meter up to, with an
+ * audit entry for each, in one transaction. Each insert records its own audit
+ * entry, so an insert that conflicts with an existing id records nothing.
+ */
+async function insertTokenPurchase(
+    member: HouseholdContext,
+    {
+        tokenId,
+        readingId,
+        timestamp,
+        units,
+        cost,
+        newReading,
+        period,
+        meterId,
+    }: {
+        tokenId: string;
+        readingId: string;
+        timestamp: string;
+        units: number;
+        cost: number;
+        newReading: number;
+        period: Period;
+        meterId: number | null;
+    },
+    source: AuditSource
+) {
+    return (await sql.transaction([
+        sql`
+      WITH stored AS (
+        INSERT INTO token_purchases (token_id, timestamp, units, new_reading, total_cost, user_id, meter_id, entered_by, entered_by_name)
+        VALUES (${tokenId}, ${timestamp}, ${units}, ${newReading}, ${cost}, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName})
+        ON CONFLICT (token_id) DO NOTHING
+        RETURNING id, token_id, timestamp, units, new_reading, created_at, total_cost, meter_id, entered_by, entered_by_name
+      ), audit AS (
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${member.ownerId}, ${member.userId}, ${member.userName}, 'token', token_id, 'create', ${source},
+          jsonb_build_object('units', units, 'total_cost', total_cost, 'new_reading', new_reading)
+        FROM stored
+      )
+      SELECT * FROM stored
+    `,
+        sql`
+      WITH stored AS (
+        INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id, meter_id, entered_by, entered_by_name, token_id)
+        VALUES (${readingId}, ${timestamp}, ${newReading}, ${period}, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}, ${tokenId})
+        ON CONFLICT (reading_id) DO NOTHING
+        RETURNING id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name, token_id
+      ), audit AS (
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${member.ownerId}, ${member.userId}, ${member.userName}, 'reading', reading_id, 'create', ${source},
+          jsonb_build_object('reading', reading, 'period', period, 'token_id', token_id)
+        FROM stored
+      )
+      SELECT * FROM stored
+    `,
+    ])) as [
+        SqlQueryResult<TokenPurchaseDBResult>,
+        SqlQueryResult<ElectricityReadingDBResult>,
+    ];
 }
 
 /* Adds a new token purchase to the database and updates the electricity readings accordingly.
@@ -292,50 +964,257 @@ export async function addTokenPurchase(
     cost: number
 ): Promise<TokenPurchase> {
     checkDbConnection();
-    const user = await requireAuth();
+    const member = await requireAuth("editor");
+    const meterId = await requireWritableMeter(member.ownerId);
 
-    // Get the latest reading
+    // Get the latest reading of the selected meter
     const latestReading = await getLatestReading();
     const newReading = latestReading + units;
 
     const now = getCurrentLocalTime(); // Use local time
-    const tokenId = `token-${Date.now()}-${user.id}`;
-
-    // Insert token purchase
-    const tokenResult = (await sql`
-    INSERT INTO token_purchases (token_id, timestamp, units, new_reading, total_cost, user_id)
-    VALUES (${tokenId}, ${formatDateWithTimezone(
-        now
-    )}, ${units}, ${newReading}, ${cost}, ${user.id})
-    RETURNING id, token_id, timestamp, units, new_reading, created_at, total_cost
+    const period = await getPeriodFromDate(
+        member.ownerId,
+        now,
+        await getMeterTimezone(member.ownerId, meterId)
+    );
+
+    // The token and the reading it tops the meter up to are saved together
+    const [tokenResult] = await insertTokenPurchase(
+        member,
+        {
+            tokenId: `token-${Date.now()}-${member.userId}`,
+            readingId: `token-reading-${Date.now()}-${member.userId}`,
+            timestamp: formatDateWithTimezone(now),
+            units,
+            cost,
+            newReading,
+            period,
+            meterId,
+        },
+        "dashboard"
+    );
+
+    await refreshUsageAnomalies(member.ownerId, meterId);
+    revalidatePath("/");
+
+    return toTokenPurchase(tokenResult[0]);
+}
+
+/* Replays an entry captured while offline. Replays are idempotent: the ids are
+ * derived from the entry's `client_id`, so an entry that was already synced is
+ * reported as a duplicate instead of being inserted twice.
+ *
+ * @param entry - The outbox entry, with the time it was captured and its meter.
+ * @param resolution - Pass `overwrite` to replace the server reading a previous replay conflicted with.
+ * @returns A promise that resolves to an {@link OfflineSyncResult}.
+ * @throws {Error} If the database is not connected, the user may not edit, or the entry is invalid.
+ *
+ * @remarks
+ * - A reading conflicts when the meter already has a reading for the same date and period.
+ *   The server reading is returned so the user can choose which one to keep.
+ * - A reading out of line with the readings around it is saved flagged, with its
+ *   validation issues kept as its override reason, rather than rejected.
+ * - A token is added on top of the last reading before it was captured, together with
+ *   its token reading, in one transaction.
+ */
+export async function syncOfflineEntry(
+    entry: OutboxEntry,
+    resolution?: Extract<OutboxResolution, "overwrite">
+): Promise<OfflineSyncResult> {
+    checkDbConnection();
+    const member = await requireAuth("editor");
+
+    let meterId: number | null;
+    if (entry.meter_id === null) {
+        meterId = await requireWritableMeter(member.ownerId);
+    } else {
+        const owned = (await sql`
+      SELECT id FROM meters WHERE id = ${entry.meter_id} AND user_id = ${member.ownerId}
+    `) as SqlQueryResult<{ id: number }>;
+        if (owned.length === 0) {
+            throw new Error("Meter not found");
+        }
+        meterId = entry.meter_id;
+    }
+
+    const timestamp = new Date(entry.timestamp);
+    if (Number.isNaN(timestamp.getTime())) {
+        throw new Error("Invalid timestamp");
+    }
+    const formattedTimestamp = formatDateWithTimezone(timestamp);
+    const timeZone = await getMeterTimezone(member.ownerId, meterId);
+
+    if (entry.kind === "reading") {
+        if (!(Number(entry.reading) > 0)) {
+            throw new Error("Reading must be greater than 0");
+        }
+        const reading = Number(entry.reading);
+        const readingId = `reading-offline-${entry.client_id}`;
+
+        const synced = (await sql`
+      SELECT id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name
+      FROM electricity_readings
+      WHERE reading_id = ${readingId} AND user_id = ${member.ownerId}
+    `) as SqlQueryResult<ElectricityReadingDBResult>;
+        if (synced.length > 0) {
+            return {
+                status: "duplicate",
+                reading: toElectricityReading(synced[0]),
+            };
+        }
+
+        const period = await getPeriodFromDate(
+            member.ownerId,
+            timestamp,
+            timeZone
+        );
+        const existing = (await sql`
+      SELECT id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name
+      FROM electricity_readings
+      WHERE DATE(timestamp AT TIME ZONE ${timeZone}) = ${getLocalDateString(
+          timestamp,
+          timeZone
+      )}
+      AND period = ${period}
+      AND user_id = ${member.ownerId}
+      AND meter_id IS NOT DISTINCT FROM ${meterId}
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `) as SqlQueryResult<ElectricityReadingDBResult>;
+
+        if (existing.length > 0 && resolution !== "overwrite") {
+            return {
+                status: "conflict",
+                existingReading: toElectricityReading(existing[0]),
+            };
+        }
+
+        // Nobody is there to confirm an entry replayed later, so a reading
+        // out of line is saved with its issues kept as the reason
+        const overrideReason = getFlagReason(
+            await validateMeterReading(
+                member.ownerId,
+                meterId,
+                reading,
+                existing.length > 0
+                    ? new Date(existing[0].timestamp)
+                    : timestamp,
+                timeZone,
+                existing[0]?.reading_id
+            ),
+            "offline sync"
+        );
+
+        if (existing.length > 0) {
+            return {
+                status: "overwritten",
+                reading: await applyReadingChange(
+                    member,
+                    existing[0].reading_id,
+                    await loadStoredReading(
+                        member.ownerId,
+                        existing[0].reading_id
+                    ),
+                    { reading },
+                    { source: "offline", overrideReason }
+                ),
+            };
+        }
+
+        // A concurrent replay that inserts nothing records no audit entry
+        const result = (await sql`
+      WITH stored AS (
+        INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id, meter_id, entered_by, entered_by_name, override_reason)
+        VALUES (${readingId}, ${formattedTimestamp}, ${reading}, ${period}, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}, ${overrideReason})
+        ON CONFLICT (reading_id) DO NOTHING
+        RETURNING id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name, override_reason
+      ), audit AS (
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${member.ownerId}, ${member.userId}, ${member.userName}, 'reading', reading_id, 'create', 'offline',
+          jsonb_strip_nulls(jsonb_build_object('reading', reading, 'period', period, 'timestamp', timestamp, 'override_reason', override_reason))
+        FROM stored
+      )
+      SELECT * FROM stored
+    `) as SqlQueryResult<ElectricityReadingDBResult>;
+
+        // A concurrent replay of the same entry won the race
+        if (result.length === 0) {
+            return { status: "duplicate" };
+        }
+
+        await refreshUsageAnomalies(member.ownerId, meterId);
+        revalidatePath("/");
+        return { status: "synced", reading: toElectricityReading(result[0]) };
+    }
+
+    const units = Number(entry.units);
+    const cost = Number(entry.total_cost ?? 0);
+    if (!(units > 0)) {
+        throw new Error("Units must be greater than 0");
+    }
+    const tokenId = `token-offline-${entry.client_id}`;
+    const readingId = `token-reading-offline-${entry.client_id}`;
+
+    const synced = (await sql`
+    SELECT id, token_id, timestamp, units, new_reading, created_at, total_cost, meter_id, entered_by, entered_by_name
+    FROM token_purchases
+    WHERE token_id = ${tokenId} AND user_id = ${member.ownerId}
   `) as SqlQueryResult<TokenPurchaseDBResult>;
+    if (synced.length > 0) {
+        const syncedReading = (await sql`
+      SELECT id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name
+      FROM electricity_readings
+      WHERE reading_id = ${readingId} AND user_id = ${member.ownerId}
+    `) as SqlQueryResult<ElectricityReadingDBResult>;
+        return {
+            status: "duplicate",
+            token: toTokenPurchase(synced[0]),
+            reading: syncedReading[0]
+                ? toElectricityReading(syncedReading[0])
+                : undefined,
+        };
+    }
 
-    // Also add a new reading entry with the updated meter value using local time
-    const period = getCurrentPeriod(); // Use local time for period
-    const readingId = `token-reading-${Date.now()}-${user.id}`;
+    const previous = (await sql`
+    SELECT reading FROM electricity_readings
+    WHERE user_id = ${member.ownerId}
+    AND meter_id IS NOT DISTINCT FROM ${meterId}
+    AND timestamp <= ${formattedTimestamp}
+    ORDER BY timestamp DESC
+    LIMIT 1
+  `) as SqlQueryResult<{ reading: number | string }>;
+    const newReading = Number(previous[0]?.reading ?? 0) + units;
+    const period = await getPeriodFromDate(member.ownerId, timestamp, timeZone);
+
+    // A concurrent replay of the same entry that inserts nothing records
+    // nothing either
+    const [tokenResult, readingResult] = await insertTokenPurchase(
+        member,
+        {
+            tokenId,
+            readingId,
+            timestamp: formattedTimestamp,
+            units,
+            cost,
+            newReading,
+            period,
+            meterId,
+        },
+        "offline"
+    );
 
-    await sql`
-    INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id)
-    VALUES (${readingId}, ${formatDateWithTimezone(
-        now
-    )}, ${newReading}, ${period}, ${user.id})
-  `;
+    // A concurrent replay of the same entry won the race
+    if (tokenResult.length === 0) {
+        return { status: "duplicate" };
+    }
 
+    await refreshUsageAnomalies(member.ownerId, meterId);
     revalidatePath("/");
-
-    const newToken: TokenPurchase = {
-        id: tokenResult[0]?.id,
-        token_id: tokenResult[0]?.token_id,
-        timestamp: new Date(tokenResult[0]?.timestamp),
-        units: Number(tokenResult[0]?.units),
-        new_reading: Number(tokenResult[0]?.new_reading),
-        created_at: tokenResult[0]?.created_at
-            ? new Date(tokenResult[0]?.created_at)
-            : undefined,
-        total_cost: Number(tokenResult[0]?.total_cost),
+    return {
+        status: "synced",
+        token: toTokenPurchase(tokenResult[0]),
+        reading: toElectricityReading(readingResult[0]),
     };
-
-    return newToken;
 }
 
 /* Retrieves all electricity readings from the database.
@@ -353,16 +1232,19 @@ export async function getElectricityReadings(): Promise<ElectricityReading[]> {
         return [];
     }
 
-    const user = await getCurrentUser();
-    if (!user) {
+    const member = await getCurrentMember();
+    if (!member) {
         console.log("[SERVER] No user authenticated, returning empty readings");
         return [];
     }
 
+    const { meterId } = await getMeterScope(member.ownerId);
+
     const readings = (await sql`
-    SELECT id, reading_id, timestamp, reading, period, created_at
+    SELECT id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name, override_reason
     FROM electricity_readings
-     WHERE user_id = ${user.id}
+     WHERE user_id = ${member.ownerId}
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
     ORDER BY timestamp ASC
   `) as ElectricityReadingDBResult[];
 
@@ -378,6 +1260,10 @@ export async function getElectricityReadings(): Promise<ElectricityReading[]> {
             reading: Number(row.reading),
             period: row.period as "morning" | "evening" | "night",
             created_at: row.created_at ? new Date(row.created_at) : undefined,
+            meter_id: row.meter_id ?? null,
+            entered_by: row.entered_by ?? null,
+            entered_by_name: row.entered_by_name ?? null,
+            override_reason: row.override_reason ?? null,
         })
     );
 }
@@ -397,16 +1283,19 @@ export async function getTokenPurchases(): Promise<TokenPurchase[]> {
         return [];
     }
 
-    const user = await getCurrentUser();
-    if (!user) {
+    const member = await getCurrentMember();
+    if (!member) {
         console.log("[SERVER] No user authenticated, returning empty tokens");
         return [];
     }
 
+    const { meterId } = await getMeterScope(member.ownerId);
+
     const tokens = (await sql`
-    SELECT id, token_id, timestamp, units, new_reading, created_at, total_cost
+    SELECT id, token_id, timestamp, units, new_reading, created_at, total_cost, meter_id, entered_by, entered_by_name
     FROM token_purchases
-    WHERE user_id = ${user.id}
+    WHERE user_id = ${member.ownerId}
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
     ORDER BY timestamp ASC
   `) as TokenPurchaseDBResult[];
 
@@ -423,6 +1312,9 @@ export async function getTokenPurchases(): Promise<TokenPurchase[]> {
             new_reading: Number(row.new_reading),
             created_at: row.created_at ? new Date(row.created_at) : undefined,
             total_cost: Number(row.total_cost),
+            meter_id: row.meter_id ?? null,
+            entered_by: row.entered_by ?? null,
+            entered_by_name: row.entered_by_name ?? null,
         })
     );
 }
@@ -443,31 +1335,44 @@ export async function getLatestReading(): Promise<number> {
         return 0;
     }
 
-    const user = await getCurrentUser();
-    if (!user) {
+    const member = await getCurrentMember();
+    if (!member) {
         return 0;
     }
 
-    const result = (await sql`
+    const { meterId, isCombined } = await getMeterScope(member.ownerId);
+
+    // The combined view's balance is the sum of each meter's latest reading
+    const result = isCombined
+        ? ((await sql`
+    SELECT COALESCE(SUM(reading), 0) as reading
+    FROM (
+      SELECT DISTINCT ON (meter_id) reading
+      FROM electricity_readings
+      WHERE user_id = ${member.ownerId}
+      ORDER BY meter_id, timestamp DESC
+    ) latest
+  `) as SqlQueryResult<ElectricityReadingDBResult>)
+        : ((await sql`
     SELECT reading
     FROM electricity_readings
-    WHERE user_id = ${user.id}
+    WHERE user_id = ${member.ownerId}
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
     ORDER BY timestamp DESC
     LIMIT 1
-  `) as SqlQueryResult<ElectricityReadingDBResult>;
+  `) as SqlQueryResult<ElectricityReadingDBResult>);
 
     return result.length > 0 ? Number(result[0]?.reading) : 0;
 }
 
-/* Retrieves the total units of electricity used, calculated as the difference between
- * the first and last meter readings in the database.
+/* Retrieves the total units of electricity used: the sum of the daily usage
+ * in the usage summary, so it agrees with the summary, reports and AI context.
  *
  * @returns A promise that resolves to the total units used as a number, rounded to two decimal places.
  *          Returns 0 if the database is not connected or if readings are unavailable.
  *
  * @remarks
- * - Queries the `electricity_readings` table for the earliest and latest readings based on timestamp.
- * - If either reading is missing, returns 0.
+ * - Usage between readings includes the tokens bought in between (see `lib/consumption.ts`).
  * - Ensures the returned value is a number with two decimal precision.
  */
 export async function getTotalUnitsUsed(): Promise<number> {
@@ -475,219 +1380,72 @@ export async function getTotalUnitsUsed(): Promise<number> {
         return 0;
     }
 
-    const user = await getCurrentUser();
-    if (!user) {
-        return 0;
-    }
-
-    const readings = (await sql`
-    SELECT reading, timestamp
-    FROM electricity_readings
-     WHERE user_id = ${user.id} 
-    ORDER BY timestamp ASC
-  `) as SqlQueryResult<{
-        reading: number;
-        timestamp: string;
-        reading_id: string;
-    }>;
-
-    if (readings.length < 2) {
-        return 0;
-    }
-
-    let totalConsumption = 0;
-    // Calculate consumption between consecutive readings
-    for (let i = 1; i < readings.length; i++) {
-        const prevReading = Number(readings[i - 1].reading);
-        const currentReading = Number(readings[i].reading);
-
-        // Only count decreases (actual consumption)
-        // Ignore increases (token purchases)
-        if (prevReading > currentReading) {
-            totalConsumption += prevReading - currentReading;
-        }
-    }
+    const summary = await getUsageSummary();
+    const totalConsumption = summary.dailyUsage.reduce(
+        (sum, day) => sum + day.total,
+        0
+    );
 
     return Number.parseFloat(totalConsumption.toFixed(2));
 }
 
-/**
- * SIMPLIFIED & FIXED: Enhanced getUsageSummary with correct token handling
- *
- * Key insight: For days with token purchases, calculate usage as:
- * Daily usage = (Starting reading + All tokens purchased) - Ending reading
+/* Retrieves the usage summary of the selected meter, or of every meter in the
+ * combined view, calculated by {@link summarizeUsage}.
  *
- * Example:
- * - Morning: 50 kWh
- * - Token added: 50 kWh
- * - Evening: 92 kWh
- * - Usage = (50 + 50) - 92 = 8 kWh ✅
+ * @returns A promise that resolves to the {@link UsageSummary}. Returns an empty summary
+ *          if the database is not connected or no user is signed in.
  */
 export async function getUsageSummary(): Promise<UsageSummary> {
     if (!isDatabaseConnected()) {
-        return {
-            averageUsage: 0,
-            peakUsageDay: { date: "", usage: 0 },
-            totalTokensPurchased: 0,
-            dailyUsage: [],
-            totalUnitsCost: 0,
-            lastAverageCostPerKwh: 0,
-        };
+        return EMPTY_USAGE_SUMMARY;
     }
 
-    const user = await getCurrentUser();
-    if (!user) {
-        return {
-            averageUsage: 0,
-            peakUsageDay: { date: "", usage: 0 },
-            totalTokensPurchased: 0,
-            dailyUsage: [],
-            totalUnitsCost: 0,
-            lastAverageCostPerKwh: 0,
-        };
+    const member = await getCurrentMember();
+    if (!member) {
+        return EMPTY_USAGE_SUMMARY;
     }
 
-    // Get all readings and identify token readings
-    const readings = (await getElectricityReadings())
-        .map((r) => ({
-            ...r,
-            reading: Number(r.reading),
-            isTokenReading: r.reading_id.startsWith("token-reading-"),
-        }))
-        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-    const tokens = await getTokenPurchases();
-    // console.log("tokens ", tokens);
-    const totalTokensPurchased = tokens.reduce(
-        (sum, token) => sum + Number(token.units),
-        0
+    return summarizeUsage(
+        await getElectricityReadings(),
+        await getTokenPurchases(),
+        await getTariffProfiles(),
+        await getMeters(),
+        await loadReadingSchedule(member.ownerId)
     );
-    const totalUnitsCostAmt = tokens.reduce(
-        (sum, token) => sum + Number(token.total_cost || 0),
-        0
-    );
-
-    // Group readings by date
-    const dailyReadingsMap: Record<
-        string,
-        (ElectricityReading & { isTokenReading: boolean })[]
-    > = {};
-    for (const reading of readings) {
-        const date = reading.timestamp.toISOString().split("T")[0];
-        if (!dailyReadingsMap[date]) {
-            dailyReadingsMap[date] = [];
-        }
-        dailyReadingsMap[date].push(reading);
+}
+/* Forecasts when the balance of the selected meter, or of every meter in the
+ * combined view, runs out at the household's recent rate of use.
+ *
+ * @returns A promise that resolves to the {@link BalanceForecast}, or null if the
+ *          database is not connected, no user is signed in or there is too little
+ *          usage history to forecast from.
+ */
+export async function getBalanceForecast(): Promise<BalanceForecast | null> {
+    if (!isDatabaseConnected()) {
+        return null;
     }
 
-    // Group tokens by date for easier lookup
-    const dailyTokensMap: Record<string, TokenPurchase[]> = {};
-    for (const token of tokens) {
-        const date = token.timestamp.toISOString().split("T")[0];
-        if (!dailyTokensMap[date]) {
-            dailyTokensMap[date] = [];
-        }
-        dailyTokensMap[date].push(token);
+    const member = await getCurrentMember();
+    if (!member) {
+        return null;
     }
 
-    const allDates = Object.keys(dailyReadingsMap).sort((a, b) =>
-        a.localeCompare(b)
+    const { timeZone } = await getMeterScope(member.ownerId);
+    const summary = await getUsageSummary();
+    return forecastBalance(
+        summary.dailyUsage,
+        await getLatestReading(),
+        timeZone
     );
-
-    const dailyUsage: DailyUsage[] = [];
-    let previousEndingReading: number | null = null;
-
-    for (const element of allDates) {
-        const date = element;
-        const dayReadings = dailyReadingsMap[date];
-        const dayTokens = dailyTokensMap[date] || [];
-
-        dayReadings.sort(
-            (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
-        );
-
-        // Get only regular readings (not token readings)
-        // const regularReadings = dayReadings.filter((r) => !r.isTokenReading);
-        // Find first and last regular readings of the day
-        const firstReading = dayReadings[0];
-        const lastReading = dayReadings.at(-1);
-
-        // Get period-specific readings for display
-        const morningReading = dayReadings.find((r) => r.period === "morning");
-        const eveningReading = dayReadings.find((r) => r.period === "evening");
-        const nightReading = dayReadings.find((r) => r.period === "night");
-        // Calculate daily usage using the simplified formula
-        let dailyTotal = 0;
-
-        if (firstReading && lastReading) {
-            // Starting point: use previous day's ending or first reading
-            const startingReading =
-                previousEndingReading ?? firstReading.reading;
-
-            // Sum all tokens purchased on this day
-            const tokensAddedToday = dayTokens.reduce(
-                (sum, token) => sum + Number(token.units),
-                0
-            );
-
-            // Daily usage = (Starting + Tokens) - Ending
-            // This works because the meter counts down as you use electricity
-            dailyTotal =
-                startingReading + tokensAddedToday - lastReading.reading;
-
-            // Ensure non-negative
-            dailyTotal = Math.max(0, dailyTotal);
-        }
-
-        dailyUsage.push({
-            date,
-            morning: morningReading?.reading,
-            evening: eveningReading?.reading,
-            night: nightReading?.reading,
-            total: dailyTotal,
-        });
-
-        // Update previous ending reading for next iteration
-        if (lastReading) {
-            previousEndingReading = lastReading.reading;
-        }
-    }
-
-    const totalDailyUsage = dailyUsage.reduce((sum, day) => sum + day.total, 0);
-    const daysWithUsage = dailyUsage.filter((day) => day.total > 0).length;
-    const averageUsage =
-        daysWithUsage > 0 ? totalDailyUsage / daysWithUsage : 0;
-    const lastTokenPurchased = tokens.at(-1);
-    const lastAverageCostPerKwh =
-        lastTokenPurchased &&
-        lastTokenPurchased.units > 0 &&
-        lastTokenPurchased.total_cost &&
-        lastTokenPurchased.total_cost > 0
-            ? lastTokenPurchased.total_cost / lastTokenPurchased.units
-            : 0;
-    let peakUsageDay = { date: "", usage: 0 };
-
-    for (const day of dailyUsage) {
-        if (day.total > peakUsageDay.usage) {
-            peakUsageDay = { date: day.date, usage: day.total };
-        }
-    }
-
-    return {
-        averageUsage,
-        peakUsageDay,
-        totalTokensPurchased,
-        dailyUsage,
-        totalUnitsCost: totalUnitsCostAmt,
-        lastAverageCostPerKwh,
-    };
 }
+
 /**
  * Retrieves the monthly electricity usage based on readings from the database.
  *
- * This function calculates the total consumption for each month by summing up
- * only the decreases in the electricity meter readings (i.e., actual consumption).
- * It returns an array of objects, each containing the month (in 'YYYY-MM' format)
- * and the corresponding usage value.
+ * This function totals the daily usage of the usage summary by month, so
+ * token top-ups are counted the same way as everywhere else (see
+ * `lib/consumption.ts`). It returns an array of objects, each containing the
+ * month (in 'YYYY-MM' format) and the corresponding usage value.
  *
  * If the database is not connected, an empty array is returned.
  *
@@ -700,44 +1458,97 @@ export async function getMonthlyUsage(): Promise<
         return [];
     }
 
-    const user = await getCurrentUser();
-    if (!user) {
-        return [];
+    const summary = await getUsageSummary();
+    return getMonthlyConsumption(summary.dailyUsage);
+}
+
+/* Retrieves everything needed for a data export: raw readings, token purchases and
+ * priced daily usage per meter, limited to a date range.
+ *
+ * @param filter - Inclusive date range and meter; without a meter the selected meter is used.
+ * @returns A promise that resolves to the {@link ExportData}.
+ * @throws {Error} If the database is not connected, the user is not signed in or the meter is unknown.
+ *
+ * @remarks
+ * - Daily usage is calculated over the full history before filtering, so the first day
+ *   in the range still starts from the previous day's ending reading.
+ * - Daily usage is kept per meter rather than combined, with its `meter_id`.
+ */
+export async function getExportData(
+    filter: ExportFilter = {}
+): Promise<ExportData> {
+    checkDbConnection();
+    const member = await requireAuth("viewer");
+
+    const meters = await getMeters();
+    let meterId: number | null;
+    if (filter.meterId === "all") {
+        meterId = null;
+    } else if (filter.meterId === undefined) {
+        meterId = (await getMeterScope(member.ownerId)).meterId;
+    } else {
+        if (!meters.some((meter) => meter.id === filter.meterId)) {
+            throw new Error("Meter not found");
+        }
+        meterId = filter.meterId;
     }
 
-    const result = (await sql`
-WITH reading_changes AS (
-  SELECT 
-    timestamp,
-    reading,
-    LAG(reading) OVER (ORDER BY timestamp) as prev_reading,
-    date_trunc('month', timestamp) as month
-  FROM electricity_readings
-  WHERE user_id = ${user.id}
-),
-consumption_periods AS (
-  SELECT
-    month,
-    -- Only count decreases in reading (actual consumption)
-    SUM(CASE WHEN reading < prev_reading THEN prev_reading - reading ELSE 0 END) as usage
-  FROM reading_changes
-  WHERE prev_reading IS NOT NULL
-  GROUP BY month
-)
-SELECT 
-  to_char(month, 'YYYY-MM') as month,
-  usage
-FROM consumption_periods
-ORDER BY month
-  `) as MonthlyUsageRow[];
-
-    // Ensure result is treated as an array with a map method
-    const resultArray = Array.isArray(result) ? result : [];
-
-    return resultArray.map((row) => ({
-        month: row.month,
-        usage: Number(row.usage),
-    }));
+    const readingRows = (await sql`
+    SELECT id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name
+    FROM electricity_readings
+    WHERE user_id = ${member.ownerId}
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
+    ORDER BY timestamp ASC
+  `) as SqlQueryResult<ElectricityReadingDBResult>;
+
+    const tokenRows = (await sql`
+    SELECT id, token_id, timestamp, units, new_reading, created_at, total_cost, meter_id, entered_by, entered_by_name
+    FROM token_purchases
+    WHERE user_id = ${member.ownerId}
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
+    ORDER BY timestamp ASC
+  `) as SqlQueryResult<TokenPurchaseDBResult>;
+
+    const readings = readingRows.map(toElectricityReading);
+    const tokens = tokenRows.map(toTokenPurchase);
+    const schedule = await loadReadingSchedule(member.ownerId);
+
+    const perMeterUsage = calculateUsagePerMeter(
+        readings,
+        tokens,
+        await getTariffProfiles(),
+        meters,
+        schedule
+    );
+
+    const isInRange = (date: string) =>
+        (!filter.from || date >= filter.from) &&
+        (!filter.to || date <= filter.to);
+    // Dates are compared in the timezone of the entry's meter
+    const dateOf = (timestamp: Date, entryMeterId: number | null) =>
+        getLocalDateString(
+            timestamp,
+            meters.find((m) => m.id === entryMeterId)?.timezone ??
+                DEFAULT_TIMEZONE
+        );
+
+    return {
+        filter: { ...filter, meterId: meterId ?? "all" },
+        meters,
+        readings: readings.filter((r) =>
+            isInRange(dateOf(r.timestamp, r.meter_id ?? null))
+        ),
+        tokens: tokens.filter((t) =>
+            isInRange(dateOf(t.timestamp, t.meter_id ?? null))
+        ),
+        dailyUsage: perMeterUsage
+            .flatMap(({ meterId, dailyUsage }) =>
+                dailyUsage.map((day) => ({ ...day, meter_id: meterId }))
+            )
+            .filter((day) => isInRange(day.date))
+            .sort((a, b) => a.date.localeCompare(b.date)),
+        schedule,
+    };
 }
 
 /* Migrates electricity readings and token purchases from local storage to the database.
@@ -747,10 +1558,10 @@ ORDER BY month
  * @returns A promise that resolves to `true` if the migration succeeds, or `false` if an error occurs.
  *
  * @remarks
- * - Begins a database transaction to ensure atomicity of the migration.
+ * - Inserts the readings and tokens, with an audit entry for each, in one transaction.
  * - Each reading and token is inserted into the respective table if it does not already exist (using `ON CONFLICT DO NOTHING`).
  * - Skips invalid readings or tokens and logs a warning to the console.
- * - Commits the transaction on success, or rolls back if any error occurs.
+ * - Saves nothing if any insert fails.
  * - Triggers a cache revalidation for the root path after successful migration.
  * - Returns `false` and logs an error if the migration fails.
  */
@@ -760,13 +1571,12 @@ export async function migrateFromLocalStorage(
 ): Promise<boolean> {
     try {
         checkDbConnection();
-        const user = await requireAuth();
-
-        // Begin transaction
-        await sql`BEGIN`;
+        const member = await requireAuth("editor");
+        const meterId = await requireWritableMeter(member.ownerId);
+        const schedule = await loadReadingSchedule(member.ownerId);
+        const timeZone = await getMeterTimezone(member.ownerId, meterId);
 
-        // Insert readings
-        for (const reading of readings) {
+        const readingRows = readings.flatMap((reading) => {
             if (
                 !reading.reading_id ||
                 !reading.timestamp ||
@@ -774,24 +1584,25 @@ export async function migrateFromLocalStorage(
                 !reading.period
             ) {
                 console.warn("Skipping invalid reading:", reading);
-                continue;
+                return [];
             }
 
-            await sql`
-        INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id)
-        VALUES (
-          ${reading.reading_id}, 
-          ${reading.timestamp.toISOString()}, 
-          ${Number(reading.reading)}, 
-          ${reading.period},
-          ${user.id}
-        )
-        ON CONFLICT (reading_id) DO NOTHING
-      `;
-        }
+            // Local readings use the default periods, which the schedule may not have
+            const period = isSchedulePeriod(schedule, reading.period)
+                ? reading.period
+                : getPeriodForDate(schedule, reading.timestamp, timeZone);
+
+            return [
+                {
+                    reading_id: reading.reading_id,
+                    timestamp: reading.timestamp.toISOString(),
+                    reading: Number(reading.reading),
+                    period,
+                },
+            ];
+        });
 
-        // Insert tokens
-        for (const token of tokens) {
+        const tokenRows = tokens.flatMap((token) => {
             if (
                 !token.token_id ||
                 !token.timestamp ||
@@ -799,31 +1610,63 @@ export async function migrateFromLocalStorage(
                 token.new_reading === undefined
             ) {
                 console.warn("Skipping invalid token:", token);
-                continue;
+                return [];
             }
 
-            await sql`
-        INSERT INTO token_purchases (token_id, timestamp, units, new_reading, user_id, total_cost)
-        VALUES (
-          ${token.token_id}, 
-          ${token.timestamp.toISOString()}, 
-          ${Number(token.units)}, 
-          ${Number(token.new_reading)},
-          ${user.id},
-          ${Number(token.total_cost || 0)}
-        )
-        ON CONFLICT (token_id) DO NOTHING
-      `;
-        }
-
-        // Commit transaction
-        await sql`COMMIT`;
+            return [
+                {
+                    token_id: token.token_id,
+                    timestamp: token.timestamp.toISOString(),
+                    units: Number(token.units),
+                    new_reading: Number(token.new_reading),
+                    total_cost: Number(token.total_cost || 0),
+                },
+            ];
+        });
 
+        // One insert per table, each adding the audit entries of the rows it
+        // stored; rows already migrated are left out of both
+        await sql.transaction([
+            sql`
+        WITH rows AS (
+          SELECT DISTINCT ON (reading_id) *
+          FROM jsonb_to_recordset(${JSON.stringify(readingRows)}::jsonb)
+            AS r(reading_id TEXT, timestamp TEXT, reading DECIMAL, period TEXT)
+        ), stored AS (
+          INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id, meter_id, entered_by, entered_by_name)
+          SELECT reading_id, timestamp::timestamptz, reading, period, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}
+          FROM rows
+          ON CONFLICT (reading_id) DO NOTHING
+          RETURNING reading_id
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${member.ownerId}, ${member.userId}, ${member.userName}, 'reading', reading_id, 'create', 'migration',
+          jsonb_build_object('reading', reading, 'period', period, 'timestamp', timestamp)
+        FROM stored JOIN rows USING (reading_id)
+      `,
+            sql`
+        WITH rows AS (
+          SELECT DISTINCT ON (token_id) *
+          FROM jsonb_to_recordset(${JSON.stringify(tokenRows)}::jsonb)
+            AS t(token_id TEXT, timestamp TEXT, units DECIMAL, new_reading DECIMAL, total_cost DECIMAL)
+        ), stored AS (
+          INSERT INTO token_purchases (token_id, timestamp, units, new_reading, total_cost, user_id, meter_id, entered_by, entered_by_name)
+          SELECT token_id, timestamp::timestamptz, units, new_reading, total_cost, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}
+          FROM rows
+          ON CONFLICT (token_id) DO NOTHING
+          RETURNING token_id
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${member.ownerId}, ${member.userId}, ${member.userName}, 'token', token_id, 'create', 'migration',
+          jsonb_build_object('units', units, 'total_cost', total_cost, 'new_reading', new_reading)
+        FROM stored JOIN rows USING (token_id)
+      `,
+        ]);
+
+        await refreshUsageAnomalies(member.ownerId, meterId);
         revalidatePath("/");
         return true;
     } catch (error) {
-        // Rollback on error
-        await sql`ROLLBACK`;
         console.error("Migration error:", error);
         return false;
     }
@@ -0,0 +1,476 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type {
+    Household,
+    HouseholdInvitation,
+    HouseholdMember,
+    HouseholdRole,
+} from "@/lib/types";
+import { stackServerApp } from "@/stack/server";
+import {
+    ACTIVE_HOUSEHOLD_COOKIE,
+    getHouseholdContext,
+    hasRole,
+} from "@/lib/household-scope";
+import { SELECTED_METER_COOKIE } from "@/lib/meter-scope";
+
+const INVITATION_DAYS = 7;
+
+/**
+ * Returns the ID of the household whose data the current user works on,
+ * if the user owns it. Owners are the only members allowed to manage it.
+ */
+async function getManagedHouseholdId(): Promise<number | null> {
+    const member = await getHouseholdContext();
+    if (!member || !hasRole(member.role, "owner")) {
+        return null;
+    }
+
+    const household = (await sql`
+      SELECT id FROM households WHERE owner_user_id = ${member.ownerId}
+  `) as SqlQueryResult<{ id: number }>;
+
+    return household[0]?.id ?? null;
+}
+
+/**
+ * Switches the active household and resets the selected meter,
+ * since meters belong to the household's owner.
+ */
+async function setActiveHousehold(householdId: number | null) {
+    const cookieStore = await cookies();
+    if (householdId === null) {
+        cookieStore.delete(ACTIVE_HOUSEHOLD_COOKIE);
+    } else {
+        cookieStore.set(ACTIVE_HOUSEHOLD_COOKIE, String(householdId), {
+            path: "/",
+            sameSite: "lax",
+            maxAge: 60 * 60 * 24 * 365,
+        });
+    }
+    cookieStore.delete(SELECTED_METER_COOKIE);
+}
+
+/* Retrieves the households the current user belongs to.
+ *
+ * @returns A promise that resolves to an array of {@link Household} objects, the user's
+ *          own household first. Returns an empty array if the database is not connected
+ *          or no user is signed in.
+ */
+export async function getHouseholds(): Promise<Household[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    const households = (await sql`
+    SELECT h.id, h.name, h.owner_user_id, m.role,
+      (SELECT COUNT(*) FROM household_members c WHERE c.household_id = h.id) as member_count
+    FROM household_members m
+    JOIN households h ON h.id = m.household_id
+    WHERE m.user_id = ${member.userId}
+    ORDER BY (h.owner_user_id = ${member.userId}) DESC, h.name ASC
+  `) as SqlQueryResult<{
+        id: number;
+        name: string;
+        owner_user_id: string;
+        role: HouseholdRole;
+        member_count: number | string;
+    }>;
+
+    return households.map(
+        (row): Household => ({
+            id: row.id,
+            name: row.name,
+            role: row.role,
+            isOwner: row.owner_user_id === member.userId,
+            isActive: row.owner_user_id === member.ownerId,
+            memberCount: Number(row.member_count),
+        })
+    );
+}
+
+/**
+ * Creates a household that shares the current user's data.
+ * A user can own one household.
+ */
+export async function createHousehold(
+    name: string
+): Promise<{ success: boolean; error?: string }> {
+    const user = await stackServerApp.getUser();
+    if (!user) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!name || name.trim().length === 0) {
+        return { success: false, error: "Household name is required" };
+    }
+
+    try {
+        const existing = (await sql`
+      SELECT id FROM households WHERE owner_user_id = ${user.id}
+    `) as SqlQueryResult<{ id: number }>;
+        if (existing.length > 0) {
+            return { success: false, error: "You already own a household" };
+        }
+
+        // The owner can only have one household, so the member row finds it
+        // by its owner
+        await sql.transaction([
+            sql`
+      INSERT INTO households (name, owner_user_id)
+      VALUES (${name.trim()}, ${user.id})
+    `,
+            sql`
+      INSERT INTO household_members (household_id, user_id, display_name, role)
+      SELECT id, ${user.id}, ${
+          user.displayName ?? user.primaryEmail ?? null
+      }, 'owner'
+      FROM households
+      WHERE owner_user_id = ${user.id}
+    `,
+        ]);
+
+        await setActiveHousehold(null);
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error creating household:", error);
+        return { success: false, error: "Failed to create household" };
+    }
+}
+
+/**
+ * Switches to a household the user belongs to, or back to the user's own data
+ */
+export async function switchHousehold(
+    householdId: number | null
+): Promise<{ success: boolean; error?: string }> {
+    const user = await stackServerApp.getUser();
+    if (!user) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (householdId !== null) {
+        const membership = (await sql`
+      SELECT h.owner_user_id
+      FROM household_members m
+      JOIN households h ON h.id = m.household_id
+      WHERE m.household_id = ${householdId} AND m.user_id = ${user.id}
+    `) as SqlQueryResult<{ owner_user_id: string }>;
+
+        if (membership.length === 0) {
+            return { success: false, error: "Household not found" };
+        }
+
+        // The owner's own household is their personal data
+        if (membership[0].owner_user_id === user.id) {
+            householdId = null;
+        }
+    }
+
+    await setActiveHousehold(householdId);
+    revalidatePath("/");
+    return { success: true };
+}
+
+/**
+ * Returns the members of the active household
+ */
+export async function getHouseholdMembers(): Promise<HouseholdMember[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    const members = (await sql`
+    SELECT m.user_id, m.display_name, m.role, m.joined_at
+    FROM household_members m
+    JOIN households h ON h.id = m.household_id
+    WHERE h.owner_user_id = ${member.ownerId}
+    ORDER BY m.joined_at ASC
+  `) as SqlQueryResult<{
+        user_id: string;
+        display_name: string | null;
+        role: HouseholdRole;
+        joined_at: string;
+    }>;
+
+    return members.map(
+        (row): HouseholdMember => ({
+            user_id: row.user_id,
+            display_name: row.display_name,
+            role: row.role,
+            joined_at: new Date(row.joined_at),
+        })
+    );
+}
+
+/**
+ * Creates an invitation link token for the active household. Owners only.
+ */
+export async function createInvitation(
+    role: Exclude<HouseholdRole, "owner">
+): Promise<{ success: boolean; error?: string; invitation?: HouseholdInvitation }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (role !== "editor" && role !== "viewer") {
+        return { success: false, error: "Invalid role" };
+    }
+
+    const householdId = await getManagedHouseholdId();
+    if (!householdId) {
+        return {
+            success: false,
+            error: "Only the household owner can invite members",
+        };
+    }
+
+    try {
+        const token = randomBytes(24).toString("base64url");
+        const expiresAt = new Date(
+            Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000
+        );
+
+        await sql`
+      INSERT INTO household_invitations (household_id, token, role, created_by, expires_at)
+      VALUES (${householdId}, ${token}, ${role}, ${
+            member.userId
+        }, ${expiresAt.toISOString()})
+    `;
+
+        return {
+            success: true,
+            invitation: { token, role, expires_at: expiresAt },
+        };
+    } catch (error) {
+        console.error("Error creating invitation:", error);
+        return { success: false, error: "Failed to create invitation" };
+    }
+}
+
+/**
+ * Looks up an open invitation so it can be shown before it is accepted
+ */
+export async function getInvitation(
+    token: string
+): Promise<{ householdName: string; role: HouseholdRole } | null> {
+    if (!isDatabaseConnected()) {
+        return null;
+    }
+
+    const invitation = (await sql`
+    SELECT h.name, i.role
+    FROM household_invitations i
+    JOIN households h ON h.id = i.household_id
+    WHERE i.token = ${token}
+    AND i.accepted_at IS NULL
+    AND i.expires_at > NOW()
+  `) as SqlQueryResult<{ name: string; role: HouseholdRole }>;
+
+    if (invitation.length === 0) {
+        return null;
+    }
+
+    return { householdName: invitation[0].name, role: invitation[0].role };
+}
+
+/**
+ * Accepts an invitation, joins the household and makes it the active one
+ */
+export async function acceptInvitation(
+    token: string
+): Promise<{ success: boolean; error?: string }> {
+    const user = await stackServerApp.getUser();
+    if (!user) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    try {
+        const invitation = (await sql`
+      SELECT i.id, i.household_id, i.role, h.owner_user_id
+      FROM household_invitations i
+      JOIN households h ON h.id = i.household_id
+      WHERE i.token = ${token}
+      AND i.accepted_at IS NULL
+      AND i.expires_at > NOW()
+    `) as SqlQueryResult<{
+            id: number;
+            household_id: number;
+            role: HouseholdRole;
+            owner_user_id: string;
+        }>;
+
+        if (invitation.length === 0) {
+            return {
+                success: false,
+                error: "This invitation is invalid or has expired",
+            };
+        }
+
+        if (invitation[0].owner_user_id === user.id) {
+            return { success: false, error: "You already own this household" };
+        }
+
+        // Claiming the invitation only succeeds while it is unused, so of two
+        // requests at once only one joins; the member row is added only for
+        // the user who claimed it
+        const [claimed] = (await sql.transaction([
+            sql`
+      UPDATE household_invitations
+      SET accepted_by = ${user.id}, accepted_at = NOW()
+      WHERE id = ${invitation[0].id}
+      AND accepted_at IS NULL
+      AND expires_at > NOW()
+      RETURNING id
+    `,
+            sql`
+      INSERT INTO household_members (household_id, user_id, display_name, role)
+      SELECT household_id, ${user.id}, ${
+          user.displayName ?? user.primaryEmail ?? null
+      }, role
+      FROM household_invitations
+      WHERE id = ${invitation[0].id} AND accepted_by = ${user.id}
+      ON CONFLICT (household_id, user_id) DO UPDATE SET role = EXCLUDED.role
+    `,
+        ])) as SqlQueryResult<{ id: number }>[];
+
+        if (claimed.length === 0) {
+            return {
+                success: false,
+                error: "This invitation is invalid or has expired",
+            };
+        }
+
+        await setActiveHousehold(invitation[0].household_id);
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error accepting invitation:", error);
+        return { success: false, error: "Failed to accept invitation" };
+    }
+}
+
+/**
+ * Changes the role of a member of the active household. Owners only.
+ */
+export async function updateMemberRole(
+    userId: string,
+    role: Exclude<HouseholdRole, "owner">
+): Promise<{ success: boolean; error?: string }> {
+    if (role !== "editor" && role !== "viewer") {
+        return { success: false, error: "Invalid role" };
+    }
+
+    const householdId = await getManagedHouseholdId();
+    if (!householdId) {
+        return {
+            success: false,
+            error: "Only the household owner can manage members",
+        };
+    }
+
+    try {
+        const result = (await sql`
+      UPDATE household_members
+      SET role = ${role}
+      WHERE household_id = ${householdId}
+      AND user_id = ${userId}
+      AND role <> 'owner'
+      RETURNING id
+    `) as SqlQueryResult<{ id: number }>;
+
+        if (result.length === 0) {
+            return { success: false, error: "Member not found" };
+        }
+
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error updating member role:", error);
+        return { success: false, error: "Failed to update member role" };
+    }
+}
+
+/**
+ * Removes a member from the active household. Owners only.
+ */
+export async function removeMember(
+    userId: string
+): Promise<{ success: boolean; error?: string }> {
+    const householdId = await getManagedHouseholdId();
+    if (!householdId) {
+        return {
+            success: false,
+            error: "Only the household owner can manage members",
+        };
+    }
+
+    try {
+        const result = (await sql`
+      DELETE FROM household_members
+      WHERE household_id = ${householdId}
+      AND user_id = ${userId}
+      AND role <> 'owner'
+      RETURNING id
+    `) as SqlQueryResult<{ id: number }>;
+
+        if (result.length === 0) {
+            return { success: false, error: "Member not found" };
+        }
+
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error removing member:", error);
+        return { success: false, error: "Failed to remove member" };
+    }
+}
+
+/**
+ * Leaves a household the user joined and switches back to their own data
+ */
+export async function leaveHousehold(
+    householdId: number
+): Promise<{ success: boolean; error?: string }> {
+    const user = await stackServerApp.getUser();
+    if (!user) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    try {
+        const result = (await sql`
+      DELETE FROM household_members
+      WHERE household_id = ${householdId}
+      AND user_id = ${user.id}
+      AND role <> 'owner'
+      RETURNING id
+    `) as SqlQueryResult<{ id: number }>;
+
+        if (result.length === 0) {
+            return { success: false, error: "Household not found" };
+        }
+
+        await setActiveHousehold(null);
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error leaving household:", error);
+        return { success: false, error: "Failed to leave household" };
+    }
+}
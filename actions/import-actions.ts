@@ -0,0 +1,243 @@
+"use server";
+
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type {
+    ImportKind,
+    ImportPreview,
+    ImportResult,
+    ImportRow,
+    Period,
+} from "@/lib/types";
+import { revalidatePath } from "next/cache";
+import { refreshUsageAnomalies } from "@/lib/anomaly-store";
+import { requireHouseholdRole } from "@/lib/household-scope";
+import { getMeterTimezone, requireWritableMeter } from "@/lib/meter-scope";
+import { validateImport, type ExistingEntries } from "@/lib/import-validation";
+import { loadReadingSchedule } from "@/lib/reading-schedule-store";
+import { getFlagReason, validateReading } from "@/lib/reading-validation";
+import { loadMeterEntries } from "@/lib/reading-validation-store";
+
+const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Checks the request and resolves who imports into which meter
+ */
+async function requireImportScope(rows: ImportRow[]) {
+    if (!isDatabaseConnected()) {
+        throw new Error(
+            "Database is not connected. Please set the DATABASE_URL environment variable."
+        );
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(
+            `Files can contain at most ${MAX_IMPORT_ROWS} rows per import`
+        );
+    }
+
+    const member = await requireHouseholdRole("editor");
+    const meterId = await requireWritableMeter(member.ownerId);
+    const timeZone = await getMeterTimezone(member.ownerId, meterId);
+    return { member, meterId, timeZone };
+}
+
+/**
+ * Loads the readings and tokens already stored for a meter
+ */
+async function getExistingEntries(
+    ownerId: string,
+    meterId: number | null
+): Promise<ExistingEntries> {
+    const readings = (await sql`
+      SELECT timestamp, reading, period
+      FROM electricity_readings
+      WHERE user_id = ${ownerId}
+      AND meter_id IS NOT DISTINCT FROM ${meterId}
+  `) as SqlQueryResult<{
+        timestamp: string;
+        reading: number | string;
+        period: string;
+    }>;
+
+    const tokens = (await sql`
+      SELECT timestamp, units
+      FROM token_purchases
+      WHERE user_id = ${ownerId}
+      AND meter_id IS NOT DISTINCT FROM ${meterId}
+  `) as SqlQueryResult<{ timestamp: string; units: number | string }>;
+
+    return {
+        readings: readings.map((r) => ({
+            timestamp: new Date(r.timestamp),
+            reading: Number(r.reading),
+            period: r.period as Period,
+        })),
+        tokens: tokens.map((t) => ({
+            timestamp: new Date(t.timestamp),
+            units: Number(t.units),
+        })),
+    };
+}
+
+/* Validates mapped spreadsheet rows without saving them.
+ *
+ * @param kind - Whether the rows are readings or token purchases.
+ * @param rows - The rows after column mapping.
+ * @returns A promise that resolves to an {@link ImportPreview} with the number of
+ *          valid rows and the issues of the others.
+ */
+export async function previewImport(
+    kind: ImportKind,
+    rows: ImportRow[]
+): Promise<ImportPreview> {
+    const { member, meterId, timeZone } = await requireImportScope(rows);
+    const existing = await getExistingEntries(member.ownerId, meterId);
+    const schedule = await loadReadingSchedule(member.ownerId);
+    const validation = validateImport(
+        kind,
+        rows,
+        existing,
+        schedule,
+        timeZone
+    );
+
+    return {
+        kind,
+        total: rows.length,
+        valid:
+            kind === "readings"
+                ? validation.readings.length
+                : validation.tokens.length,
+        issues: validation.issues,
+    };
+}
+
+/* Imports historical readings or token purchases into the selected meter.
+ *
+ * @param kind - Whether the rows are readings or token purchases.
+ * @param rows - The rows after column mapping.
+ * @returns A promise that resolves to an {@link ImportResult}.
+ * @throws {Error} If the database is not connected, the user may not edit, or the import fails.
+ *
+ * @remarks
+ * - Rows are validated again on the server; rows with issues are left out.
+ * - Readings out of line with the readings around them are imported flagged, with
+ *   their validation issues kept as their override reason.
+ * - All valid rows are inserted with their audit entries in a single transaction,
+ *   one multi-row insert per table using `ON CONFLICT DO NOTHING`.
+ * - Ids are derived from the meter and timestamp, so importing the same file twice
+ *   does not create duplicates.
+ * - Imported tokens do not add a reading; the imported history already contains it.
+ */
+export async function importEntries(
+    kind: ImportKind,
+    rows: ImportRow[]
+): Promise<ImportResult> {
+    const { member, meterId, timeZone } = await requireImportScope(rows);
+    const existing = await getExistingEntries(member.ownerId, meterId);
+    const schedule = await loadReadingSchedule(member.ownerId);
+    const validation = validateImport(
+        kind,
+        rows,
+        existing,
+        schedule,
+        timeZone
+    );
+    const idPrefix = `${member.ownerId}-${meterId ?? "default"}`;
+
+    const imported = validation.readings.map((reading, index) => ({
+        id: -index - 1,
+        reading_id: `reading-import-${idPrefix}-${reading.timestamp.getTime()}`,
+        timestamp: reading.timestamp,
+        reading: reading.reading,
+        period: reading.period,
+    }));
+
+    // Each reading is also checked like one entered by hand, against the
+    // stored readings and the rest of the file. Nobody is there to confirm
+    // it, so one out of line is imported with its issues kept as the reason.
+    const stored =
+        imported.length > 0
+            ? await loadMeterEntries(member.ownerId, meterId)
+            : { readings: [], tokens: [] };
+    const timeline = [...stored.readings, ...imported];
+    const readings = imported.map((reading) => ({
+        reading_id: reading.reading_id,
+        timestamp: reading.timestamp.toISOString(),
+        reading: reading.reading,
+        period: reading.period,
+        override_reason: getFlagReason(
+            validateReading(
+                reading.reading,
+                reading.timestamp,
+                timeline,
+                stored.tokens,
+                timeZone,
+                reading.reading_id
+            ),
+            "import"
+        ),
+    }));
+    const tokens = validation.tokens.map((token) => ({
+        token_id: `token-import-${idPrefix}-${token.timestamp.getTime()}`,
+        timestamp: token.timestamp.toISOString(),
+        units: token.units,
+        new_reading: token.new_reading,
+        total_cost: token.total_cost,
+    }));
+
+    let inserted: number;
+    try {
+        // One insert per table, each adding the audit entries of the rows it
+        // stored; rows whose id already exists are left out of both
+        const results = (await sql.transaction([
+            sql`
+        WITH rows AS (
+          SELECT DISTINCT ON (reading_id) *
+          FROM jsonb_to_recordset(${JSON.stringify(readings)}::jsonb)
+            AS r(reading_id TEXT, timestamp TEXT, reading DECIMAL, period TEXT, override_reason TEXT)
+        ), stored AS (
+          INSERT INTO electricity_readings (reading_id, timestamp, reading, period, user_id, meter_id, entered_by, entered_by_name, override_reason)
+          SELECT reading_id, timestamp::timestamptz, reading, period, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}, override_reason
+          FROM rows
+          ON CONFLICT (reading_id) DO NOTHING
+          RETURNING reading_id
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${member.ownerId}, ${member.userId}, ${member.userName}, 'reading', reading_id, 'create', 'import',
+          jsonb_strip_nulls(jsonb_build_object('reading', reading, 'period', period, 'timestamp', timestamp, 'override_reason', override_reason))
+        FROM stored JOIN rows USING (reading_id)
+        RETURNING entity_id
+      `,
+            sql`
+        WITH rows AS (
+          SELECT DISTINCT ON (token_id) *
+          FROM jsonb_to_recordset(${JSON.stringify(tokens)}::jsonb)
+            AS t(token_id TEXT, timestamp TEXT, units DECIMAL, new_reading DECIMAL, total_cost DECIMAL)
+        ), stored AS (
+          INSERT INTO token_purchases (token_id, timestamp, units, new_reading, total_cost, user_id, meter_id, entered_by, entered_by_name)
+          SELECT token_id, timestamp::timestamptz, units, new_reading, total_cost, ${member.ownerId}, ${meterId}, ${member.userId}, ${member.userName}
+          FROM rows
+          ON CONFLICT (token_id) DO NOTHING
+          RETURNING token_id
+        )
+        INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, new_value)
+        SELECT ${member.ownerId}, ${member.userId}, ${member.userName}, 'token', token_id, 'create', 'import',
+          jsonb_build_object('units', units, 'total_cost', total_cost, 'new_reading', new_reading)
+        FROM stored JOIN rows USING (token_id)
+        RETURNING entity_id
+      `,
+        ])) as SqlQueryResult<{ entity_id: string }>[];
+
+        inserted = results[0].length + results[1].length;
+    } catch (error) {
+        console.error("Import error:", error);
+        throw new Error("Import failed, no entries were saved");
+    }
+
+    const skipped = readings.length + tokens.length - inserted;
+
+    await refreshUsageAnomalies(member.ownerId, meterId);
+    revalidatePath("/");
+
+    return { inserted, skipped, issues: validation.issues };
+}
@@ -0,0 +1,310 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { refreshUsageAnomalies } from "@/lib/anomaly-store";
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type { Meter, MeterDBResult } from "@/lib/types";
+import { getHouseholdContext, hasRole } from "@/lib/household-scope";
+import {
+    ALL_METERS,
+    SELECTED_METER_COOKIE,
+    getMeterScope,
+    loadMeters,
+} from "@/lib/meter-scope";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "@/lib/timezone-utils";
+
+export type MeterInput = {
+    nickname: string;
+    meter_number: string | null;
+    tariff_id: number | null;
+    timezone: string;
+    is_default?: boolean;
+};
+
+/**
+ * Validates meter input and returns an error message, or null when valid
+ */
+function validateMeterInput(input: MeterInput): string | null {
+    if (!input.nickname || input.nickname.trim().length === 0) {
+        return "Meter nickname is required";
+    }
+    if (!input.timezone || !isValidTimezone(input.timezone)) {
+        return "Please choose a valid timezone";
+    }
+    return null;
+}
+
+/* Retrieves the meters of the current household, default meter first.
+ *
+ * @returns A promise that resolves to an array of {@link Meter} objects. Returns an empty
+ *          array if the database is not connected or no user is signed in.
+ */
+export async function getMeters(): Promise<Meter[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    return loadMeters(member.ownerId);
+}
+
+/**
+ * Returns the meter the user is currently viewing: a meter ID, "all" for the
+ * combined view, or null if the account has no meters yet.
+ */
+export async function getSelectedMeterId(): Promise<number | "all" | null> {
+    if (!isDatabaseConnected()) {
+        return null;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return null;
+    }
+
+    const scope = await getMeterScope(member.ownerId);
+    if (scope.isCombined) {
+        return ALL_METERS;
+    }
+    return scope.meterId;
+}
+
+/**
+ * Returns the IANA timezone of the meter the user is viewing, which days and
+ * months are computed in. Falls back to UTC without a database or user.
+ */
+export async function getSelectedMeterTimezone(): Promise<string> {
+    if (!isDatabaseConnected()) {
+        return DEFAULT_TIMEZONE;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return DEFAULT_TIMEZONE;
+    }
+
+    return (await getMeterScope(member.ownerId)).timeZone;
+}
+
+/**
+ * Switches the meter used by every reading, token and summary action
+ */
+export async function selectMeter(
+    meterId: number | "all"
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (meterId !== ALL_METERS) {
+        const owned = (await sql`
+      SELECT id FROM meters WHERE id = ${meterId} AND user_id = ${member.ownerId}
+    `) as SqlQueryResult<{ id: number }>;
+        if (owned.length === 0) {
+            return { success: false, error: "Meter not found" };
+        }
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(SELECTED_METER_COOKIE, String(meterId), {
+        path: "/",
+        sameSite: "lax",
+        maxAge: 60 * 60 * 24 * 365,
+    });
+
+    revalidatePath("/");
+    return { success: true };
+}
+
+/**
+ * Creates a meter. The first meter of an account becomes its default.
+ */
+export async function createMeter(
+    input: MeterInput
+): Promise<{ success: boolean; error?: string; meter?: Meter }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can change meters",
+        };
+    }
+
+    const validationError = validateMeterInput(input);
+    if (validationError) {
+        return { success: false, error: validationError };
+    }
+
+    try {
+        const existing = (await sql`
+      SELECT COUNT(*) as count FROM meters WHERE user_id = ${member.ownerId}
+    `) as SqlQueryResult<{ count: number | string }>;
+        const isFirstMeter = Number(existing[0]?.count ?? 0) === 0;
+        const isDefault = isFirstMeter || Boolean(input.is_default);
+
+        if (isDefault && !isFirstMeter) {
+            await sql`UPDATE meters SET is_default = false WHERE user_id = ${member.ownerId}`;
+        }
+
+        const result = (await sql`
+      INSERT INTO meters (user_id, nickname, meter_number, tariff_id, timezone, is_default)
+      VALUES (${member.ownerId}, ${input.nickname.trim()}, ${
+            input.meter_number?.trim() || null
+        }, ${input.tariff_id}, ${input.timezone}, ${isDefault})
+      RETURNING id, nickname, meter_number, tariff_id, timezone, timezone_confirmed, is_default
+    `) as SqlQueryResult<MeterDBResult>;
+
+        // Readings recorded before meters existed belong to the first meter
+        if (isFirstMeter) {
+            await sql`
+        UPDATE electricity_readings SET meter_id = ${result[0].id}
+        WHERE user_id = ${member.ownerId} AND meter_id IS NULL
+      `;
+            await sql`
+        UPDATE token_purchases SET meter_id = ${result[0].id}
+        WHERE user_id = ${member.ownerId} AND meter_id IS NULL
+      `;
+        }
+
+        revalidatePath("/");
+        return {
+            success: true,
+            meter: {
+                id: result[0].id,
+                nickname: result[0].nickname,
+                meter_number: result[0].meter_number ?? null,
+                tariff_id: result[0].tariff_id ?? null,
+                timezone: result[0].timezone,
+                timezone_confirmed: Boolean(result[0].timezone_confirmed),
+                is_default: Boolean(result[0].is_default),
+            },
+        };
+    } catch (error) {
+        console.error("Error creating meter:", error);
+        return { success: false, error: "Failed to create meter" };
+    }
+}
+
+/**
+ * Updates a meter's nickname, number, tariff, timezone or default flag
+ */
+export async function updateMeter(
+    meterId: number,
+    input: MeterInput
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can change meters",
+        };
+    }
+
+    const validationError = validateMeterInput(input);
+    if (validationError) {
+        return { success: false, error: validationError };
+    }
+
+    try {
+        if (input.is_default) {
+            await sql`
+        UPDATE meters SET is_default = false
+        WHERE user_id = ${member.ownerId} AND id <> ${meterId}
+      `;
+        }
+
+        const result = (await sql`
+      UPDATE meters
+      SET nickname = ${input.nickname.trim()},
+          meter_number = ${input.meter_number?.trim() || null},
+          tariff_id = ${input.tariff_id},
+          timezone = ${input.timezone},
+          timezone_confirmed = true,
+          is_default = COALESCE(${input.is_default ?? null}::boolean, is_default),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${meterId} AND user_id = ${member.ownerId}
+      RETURNING id
+    `) as SqlQueryResult<{ id: number }>;
+
+        if (result.length === 0) {
+            return { success: false, error: "Meter not found" };
+        }
+
+        // Periods and daily usage follow the meter's timezone
+        await refreshUsageAnomalies(member.ownerId, meterId);
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error updating meter:", error);
+        return { success: false, error: "Failed to update meter" };
+    }
+}
+
+/**
+ * Deletes a meter that has no readings or tokens.
+ * The default meter cannot be deleted; make another meter the default first.
+ */
+export async function deleteMeter(
+    meterId: number
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "owner")) {
+        return {
+            success: false,
+            error: "Only household owners can delete meters",
+        };
+    }
+
+    try {
+        const meter = (await sql`
+      SELECT is_default,
+        (SELECT COUNT(*) FROM electricity_readings WHERE meter_id = ${meterId}) as readings,
+        (SELECT COUNT(*) FROM token_purchases WHERE meter_id = ${meterId}) as tokens
+      FROM meters
+      WHERE id = ${meterId} AND user_id = ${member.ownerId}
+    `) as SqlQueryResult<{
+            is_default: boolean;
+            readings: number | string;
+            tokens: number | string;
+        }>;
+
+        if (meter.length === 0) {
+            return { success: false, error: "Meter not found" };
+        }
+        if (meter[0].is_default) {
+            return {
+                success: false,
+                error: "Make another meter the default before deleting this one",
+            };
+        }
+        if (Number(meter[0].readings) > 0 || Number(meter[0].tokens) > 0) {
+            return {
+                success: false,
+                error: "This meter still has readings or tokens",
+            };
+        }
+
+        await sql`DELETE FROM meters WHERE id = ${meterId} AND user_id = ${member.ownerId}`;
+
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting meter:", error);
+        return { success: false, error: "Failed to delete meter" };
+    }
+}
@@ -0,0 +1,87 @@
+"use server";
+
+import { headers } from "next/headers";
+import { sql, isDatabaseConnected } from "@/lib/db";
+import type { PushSubscriptionInput } from "@/lib/types";
+import { getHouseholdContext } from "@/lib/household-scope";
+import { isWebPushConfigured } from "@/lib/web-push";
+
+/**
+ * Returns the VAPID public key browsers subscribe with, or null when Web Push
+ * is not configured and only in-tab reminders are available
+ */
+export async function getPushPublicKey(): Promise<string | null> {
+    if (!isDatabaseConnected() || !isWebPushConfigured()) {
+        return null;
+    }
+    return process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? null;
+}
+
+/**
+ * Saves this device's push subscription for the current user. The device gets
+ * notifications about the household being viewed; saving again after switching
+ * households moves it to the new one.
+ */
+export async function savePushSubscription(
+    subscription: PushSubscriptionInput
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!isDatabaseConnected() || !isWebPushConfigured()) {
+        return { success: false, error: "Push notifications are not available" };
+    }
+
+    const { endpoint, keys } = subscription;
+    if (!endpoint?.startsWith("https://") || !keys?.p256dh || !keys?.auth) {
+        return { success: false, error: "Invalid push subscription" };
+    }
+
+    try {
+        const userAgent = (await headers()).get("user-agent");
+        await sql`
+      INSERT INTO push_subscriptions (user_id, owner_id, endpoint, p256dh, auth, user_agent)
+      VALUES (${member.userId}, ${member.ownerId}, ${endpoint}, ${keys.p256dh}, ${keys.auth}, ${userAgent})
+      ON CONFLICT (endpoint) DO UPDATE SET
+        user_id = EXCLUDED.user_id,
+        owner_id = EXCLUDED.owner_id,
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        user_agent = EXCLUDED.user_agent,
+        updated_at = NOW()
+    `;
+        return { success: true };
+    } catch (error) {
+        console.error("Error saving push subscription:", error);
+        return { success: false, error: "Failed to save push subscription" };
+    }
+}
+
+/**
+ * Removes this device's push subscription
+ */
+export async function deletePushSubscription(
+    endpoint: string
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    try {
+        await sql`
+      DELETE FROM push_subscriptions
+      WHERE endpoint = ${endpoint} AND user_id = ${member.userId}
+    `;
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting push subscription:", error);
+        return { success: false, error: "Failed to remove push subscription" };
+    }
+}
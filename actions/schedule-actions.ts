@@ -0,0 +1,97 @@
+"use server";
+
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type { ReadingSchedule } from "@/lib/types";
+import { revalidatePath } from "next/cache";
+import { refreshUsageAnomalies } from "@/lib/anomaly-store";
+import { getHouseholdContext, hasRole } from "@/lib/household-scope";
+import {
+    DEFAULT_READING_SCHEDULE,
+    validateReadingSchedule,
+} from "@/lib/reading-schedule";
+import {
+    loadReadingSchedule,
+    replaceReadingSchedule,
+} from "@/lib/reading-schedule-store";
+
+/* Retrieves the reading schedule of the current household.
+ *
+ * @returns A promise that resolves to the {@link ReadingSchedule}. Returns the default
+ *          morning, evening and night schedule if the database is not connected, no user
+ *          is signed in or no schedule has been saved.
+ */
+export async function getReadingSchedule(): Promise<ReadingSchedule> {
+    if (!isDatabaseConnected()) {
+        return DEFAULT_READING_SCHEDULE;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return DEFAULT_READING_SCHEDULE;
+    }
+
+    return loadReadingSchedule(member.ownerId);
+}
+
+/**
+ * Saves the reading schedule of the current household. A period can only be
+ * removed when no reading uses it; renaming a period keeps its readings.
+ */
+export async function saveReadingSchedule(
+    schedule: ReadingSchedule
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can change the reading schedule",
+        };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    const errors = validateReadingSchedule(schedule);
+    if (errors.length > 0) {
+        return { success: false, error: errors[0] };
+    }
+
+    try {
+        const current = await loadReadingSchedule(member.ownerId);
+        const keys = schedule.periods.map((p) => p.key);
+        const removed = current.periods.filter((p) => !keys.includes(p.key));
+
+        if (removed.length > 0) {
+            const inUse = (await sql`
+        SELECT period, COUNT(*) AS count
+        FROM electricity_readings
+        WHERE user_id = ${member.ownerId}
+        AND period = ANY(${removed.map((p) => p.key)})
+        GROUP BY period
+      `) as SqlQueryResult<{ period: string; count: number | string }>;
+
+            if (inUse.length > 0) {
+                const period = removed.find((p) => p.key === inUse[0].period);
+                return {
+                    success: false,
+                    error: `${period?.name ?? inUse[0].period} has ${Number(
+                        inUse[0].count
+                    )} readings and cannot be removed. Rename it or change its hours instead.`,
+                };
+            }
+        }
+
+        await replaceReadingSchedule(member.ownerId, schedule);
+
+        await refreshUsageAnomalies(member.ownerId, null);
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error saving reading schedule:", error);
+        return { success: false, error: "Failed to save reading schedule" };
+    }
+}
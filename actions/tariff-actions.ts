@@ -0,0 +1,301 @@
+"use server";
+
+import { sql, isDatabaseConnected, type SqlQueryResult } from "@/lib/db";
+import type {
+    TariffProfile,
+    TariffTier,
+    TokenPurchasePreview,
+} from "@/lib/types";
+import { revalidatePath } from "next/cache";
+import { getHouseholdContext, hasRole } from "@/lib/household-scope";
+import { DEFAULT_TIMEZONE, getLocalDateString } from "@/lib/timezone-utils";
+import { getMonthKey, getTariffForDate, unitsForAmount } from "@/lib/tariff";
+import { getMeterScope } from "@/lib/meter-scope";
+import { loadTariffProfiles } from "@/lib/tariff-store";
+
+export type TariffProfileInput = Omit<TariffProfile, "id"> & { id?: number };
+
+/**
+ * Validates the tiers of a tariff profile.
+ * Returns an error message, or null when the tiers are valid.
+ */
+function validateTiers(tiers: TariffTier[]): string | null {
+    if (tiers.length === 0) {
+        return "At least one tariff block is required";
+    }
+
+    let previousBound = 0;
+    for (const [index, tier] of tiers.entries()) {
+        if (!(tier.rate_per_kwh >= 0)) {
+            return `Block ${index + 1} needs a rate of zero or more`;
+        }
+        const isLast = index === tiers.length - 1;
+        if (tier.up_to_kwh === null) {
+            if (!isLast) {
+                return "Only the last block can be open-ended";
+            }
+            continue;
+        }
+        if (!(tier.up_to_kwh > previousBound)) {
+            return `Block ${index + 1} must end above ${previousBound} kWh`;
+        }
+        previousBound = tier.up_to_kwh;
+    }
+
+    return null;
+}
+
+/* Retrieves the tariff profiles of the current household, with their tiers.
+ *
+ * @returns A promise that resolves to an array of {@link TariffProfile} objects ordered by
+ *          effective date. Returns an empty array if the database is not connected or
+ *          no user is signed in.
+ */
+export async function getTariffProfiles(): Promise<TariffProfile[]> {
+    if (!isDatabaseConnected()) {
+        return [];
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return [];
+    }
+
+    return loadTariffProfiles(member.ownerId);
+}
+
+/**
+ * Returns the tariff profile in effect today at the selected meter, or null
+ * if none is configured
+ */
+export async function getActiveTariff(): Promise<TariffProfile | null> {
+    if (!isDatabaseConnected()) {
+        return null;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return null;
+    }
+
+    const { timeZone } = await getMeterScope(member.ownerId);
+    return getTariffForDate(
+        await loadTariffProfiles(member.ownerId),
+        getLocalDateString(new Date(), timeZone)
+    );
+}
+
+/**
+ * Previews a token purchase: how many kWh the given amount buys today.
+ *
+ * @param amount - The money the user plans to spend, including VAT.
+ * @returns The expected units and price breakdown, or null if no tariff is in effect today.
+ *
+ * @remarks
+ * - The month's cumulative purchases decide which block the purchase starts in.
+ * - The monthly fixed levy is deducted from the first purchase of the month.
+ * - Only purchases for the selected meter count, and the meter's own tariff is used if set.
+ * - Today and the month are those of the meter's timezone; in the combined view each
+ *   purchase counts in the month of its own meter.
+ */
+export async function previewTokenPurchase(
+    amount: number
+): Promise<TokenPurchasePreview | null> {
+    if (!isDatabaseConnected() || !(amount > 0)) {
+        return null;
+    }
+
+    const member = await getHouseholdContext();
+    if (!member) {
+        return null;
+    }
+
+    const { meterId, timeZone } = await getMeterScope(member.ownerId);
+    const meterTariff = meterId
+        ? ((await sql`
+        SELECT tariff_id FROM meters WHERE id = ${meterId}
+      `) as SqlQueryResult<{ tariff_id: number | null }>)[0]?.tariff_id
+        : null;
+
+    const today = getLocalDateString(new Date(), timeZone);
+    const tariffs = await getTariffProfiles();
+    const tariff = getTariffForDate(
+        meterTariff ? tariffs.filter((t) => t.id === meterTariff) : tariffs,
+        today
+    );
+    if (!tariff) {
+        return null;
+    }
+
+    const monthTotals = (await sql`
+    SELECT COALESCE(SUM(t.units), 0) as units, COUNT(*) as purchases
+    FROM token_purchases t
+    LEFT JOIN meters m ON m.id = t.meter_id
+    WHERE t.user_id = ${member.ownerId}
+    AND (${meterId}::int IS NULL OR t.meter_id = ${meterId})
+    AND to_char(t.timestamp AT TIME ZONE COALESCE(m.timezone, ${DEFAULT_TIMEZONE}), 'YYYY-MM') = ${getMonthKey(
+        today
+    )}
+  `) as SqlQueryResult<{ units: number | string; purchases: number | string }>;
+
+    const monthToDateUnits = Number(monthTotals[0]?.units ?? 0);
+    const isFirstPurchaseOfMonth = Number(monthTotals[0]?.purchases ?? 0) === 0;
+
+    const breakdown = unitsForAmount(
+        tariff,
+        monthToDateUnits,
+        amount,
+        isFirstPurchaseOfMonth
+    );
+
+    return {
+        amount,
+        expectedUnits: breakdown.units,
+        monthToDateUnits,
+        tariffName: tariff.name,
+        breakdown,
+    };
+}
+
+/**
+ * Creates or updates a tariff profile and replaces its tiers.
+ */
+export async function saveTariffProfile(
+    input: TariffProfileInput
+): Promise<{ success: boolean; error?: string; id?: number }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "editor")) {
+        return {
+            success: false,
+            error: "Only household editors and owners can change tariffs",
+        };
+    }
+
+    if (!isDatabaseConnected()) {
+        return { success: false, error: "Database is not connected" };
+    }
+
+    if (!input.name || input.name.trim().length === 0) {
+        return { success: false, error: "Tariff name is required" };
+    }
+
+    if (!input.effective_from) {
+        return { success: false, error: "Effective date is required" };
+    }
+
+    if (input.effective_to && input.effective_to < input.effective_from) {
+        return {
+            success: false,
+            error: "End date must be on or after the effective date",
+        };
+    }
+
+    if (input.vat_rate < 0 || input.fixed_levy < 0 || input.levy_per_kwh < 0) {
+        return { success: false, error: "Taxes and levies cannot be negative" };
+    }
+
+    const tiers = input.tiers.map((tier, index) => ({
+        ...tier,
+        tier_order: index + 1,
+    }));
+    const tierError = validateTiers(tiers);
+    if (tierError) {
+        return { success: false, error: tierError };
+    }
+
+    try {
+        let tariffId = input.id;
+
+        if (tariffId) {
+            const existing = (await sql`
+        SELECT id FROM tariff_profiles
+        WHERE id = ${tariffId} AND user_id = ${member.ownerId}
+      `) as SqlQueryResult<{ id: number }>;
+            if (existing.length === 0) {
+                return { success: false, error: "Tariff not found" };
+            }
+        } else {
+            // Take the new id first, so the tiers can be inserted with the
+            // profile in one transaction
+            const next = (await sql`
+        SELECT nextval(pg_get_serial_sequence('tariff_profiles', 'id'))::int AS id
+      `) as SqlQueryResult<{ id: number }>;
+            tariffId = next[0].id;
+        }
+
+        await sql.transaction([
+            input.id
+                ? sql`
+        UPDATE tariff_profiles
+        SET name = ${input.name.trim()},
+            vat_rate = ${input.vat_rate},
+            fixed_levy = ${input.fixed_levy},
+            levy_per_kwh = ${input.levy_per_kwh},
+            effective_from = ${input.effective_from},
+            effective_to = ${input.effective_to},
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${tariffId} AND user_id = ${member.ownerId}
+      `
+                : sql`
+        INSERT INTO tariff_profiles (id, user_id, name, vat_rate, fixed_levy, levy_per_kwh, effective_from, effective_to)
+        VALUES (${tariffId}, ${member.ownerId}, ${input.name.trim()}, ${
+                      input.vat_rate
+                  }, ${input.fixed_levy}, ${input.levy_per_kwh}, ${
+                      input.effective_from
+                  }, ${input.effective_to})
+      `,
+            sql`DELETE FROM tariff_tiers WHERE tariff_id = ${tariffId}`,
+            sql`
+        INSERT INTO tariff_tiers (tariff_id, tier_order, up_to_kwh, rate_per_kwh)
+        SELECT ${tariffId}, tier_order, up_to_kwh, rate_per_kwh
+        FROM jsonb_to_recordset(${JSON.stringify(tiers)}::jsonb)
+          AS t(tier_order INTEGER, up_to_kwh DECIMAL, rate_per_kwh DECIMAL)
+      `,
+        ]);
+
+        revalidatePath("/");
+        return { success: true, id: tariffId };
+    } catch (error) {
+        console.error("Error saving tariff profile:", error);
+        return { success: false, error: "Failed to save tariff" };
+    }
+}
+
+/**
+ * Deletes a tariff profile and its tiers
+ */
+export async function deleteTariffProfile(
+    id: number
+): Promise<{ success: boolean; error?: string }> {
+    const member = await getHouseholdContext();
+    if (!member) {
+        return { success: false, error: "User not authenticated" };
+    }
+    if (!hasRole(member.role, "owner")) {
+        return {
+            success: false,
+            error: "Only household owners can delete tariffs",
+        };
+    }
+
+    try {
+        const result = (await sql`
+      DELETE FROM tariff_profiles
+      WHERE id = ${id} AND user_id = ${member.ownerId}
+      RETURNING id
+    `) as SqlQueryResult<{ id: number }>;
+
+        if (result.length === 0) {
+            return { success: false, error: "Tariff not found" };
+        }
+
+        revalidatePath("/");
+        return { success: true };
+    } catch (error) {
+        console.error("Error deleting tariff profile:", error);
+        return { success: false, error: "Failed to delete tariff" };
+    }
+}
@@ -3,6 +3,7 @@
 import { sql } from "@/lib/db"
 import {stackServerApp} from "@/stack/server"
 import { revalidatePath } from "next/cache"
+import { DEFAULT_TIMEZONE, isValidTimezone } from "@/lib/timezone-utils"
 
 export interface UserProfile {
   id: number
@@ -42,7 +43,14 @@ export async function getUserProfile(): Promise<UserProfile | null> {
   }
 }
 
-export async function updateMeterNumber(meterNumber: string): Promise<{ success: boolean; error?: string }> {
+/**
+ * Saves the meter number on the profile and the default meter. A default meter
+ * created here gets the given timezone, usually the browser's, or UTC.
+ */
+export async function updateMeterNumber(
+  meterNumber: string,
+  timezone?: string
+): Promise<{ success: boolean; error?: string }> {
   const user = await stackServerApp.getUser()
   if (!user) {
     return { success: false, error: "User not authenticated" }
@@ -52,6 +60,10 @@ export async function updateMeterNumber(meterNumber: string): Promise<{ success:
     return { success: false, error: "Meter number is required" }
   }
 
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    return { success: false, error: "Please choose a valid timezone" }
+  }
+
   try {
     // Upsert user profile with meter number
     await sql`
@@ -63,6 +75,29 @@ export async function updateMeterNumber(meterNumber: string): Promise<{ success:
         updated_at = CURRENT_TIMESTAMP
     `
 
+    // Keep the default meter in sync, creating it for accounts without meters
+    const updatedMeters = (await sql`
+      UPDATE meters
+      SET meter_number = ${meterNumber.trim()}, updated_at = CURRENT_TIMESTAMP
+      WHERE user_id = ${user.id} AND is_default
+      RETURNING id
+    `) as { id: number }[]
+    if (updatedMeters.length === 0) {
+      const inserted = (await sql`
+        INSERT INTO meters (user_id, nickname, meter_number, timezone, is_default)
+        VALUES (${user.id}, 'Main', ${meterNumber.trim()}, ${timezone ?? DEFAULT_TIMEZONE}, true)
+        RETURNING id
+      `) as { id: number }[]
+      await sql`
+        UPDATE electricity_readings SET meter_id = ${inserted[0].id}
+        WHERE user_id = ${user.id} AND meter_id IS NULL
+      `
+      await sql`
+        UPDATE token_purchases SET meter_id = ${inserted[0].id}
+        WHERE user_id = ${user.id} AND meter_id IS NULL
+      `
+    }
+
     revalidatePath("/")
     return { success: true }
   } catch (error) {
@@ -0,0 +1,48 @@
+/**
+ * Handles GET requests to the digest scheduler endpoint.
+ *
+ * Sends the daily and weekly email digests that are due. Call it every hour
+ * from a cron job; each subscription gets at most one digest per local day,
+ * so extra calls never send duplicates.
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`. Links in the emails point at
+ * APP_URL, or at the origin the endpoint was called on when it is not set.
+ *
+ * @param request - The incoming HTTP request object.
+ * @returns The number of digests sent and failed, or a JSON error response.
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { isDatabaseConnected } from "@/lib/db";
+import { runDigestScheduler } from "@/lib/digest-scheduler";
+import { isMailConfigured } from "@/lib/mail-transport";
+
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (
+        !secret ||
+        request.headers.get("authorization") !== `Bearer ${secret}`
+    ) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isDatabaseConnected() || !isMailConfigured()) {
+        return NextResponse.json(
+            { error: "Database or email is not configured" },
+            { status: 503 }
+        );
+    }
+
+    try {
+        return NextResponse.json(
+            await runDigestScheduler(
+                process.env.APP_URL ?? request.nextUrl.origin
+            )
+        );
+    } catch (error) {
+        console.error("Digest scheduler error:", error);
+        return NextResponse.json(
+            { error: "Failed to send email digests" },
+            { status: 500 }
+        );
+    }
+}
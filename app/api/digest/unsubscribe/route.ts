@@ -0,0 +1,63 @@
+/**
+ * Handles the digest unsubscribe link.
+ *
+ * Every digest links here with the subscription's unsubscribe token, so
+ * readers can stop the emails without signing in. GET only shows a
+ * confirmation page, as mail scanners open links; the subscription is removed
+ * by a POST, either from that page or as a one-click unsubscribe from the
+ * mail client (RFC 8058).
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { sql, isDatabaseConnected } from "@/lib/db";
+import { UNSUBSCRIBE_TOKEN_PARAM } from "@/lib/email-digest";
+
+const page = (body: string, status: number) =>
+    new NextResponse(
+        `<!DOCTYPE html><html><body style="font-family:Arial,Helvetica,sans-serif;padding:48px;text-align:center;">${body}<p><a href="/">Open the tracker</a></p></body></html>`,
+        { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+    );
+
+/**
+ * Asks the reader to confirm. The form posts back to this URL, token included.
+ */
+export async function GET(request: NextRequest) {
+    const token = request.nextUrl.searchParams.get(UNSUBSCRIBE_TOKEN_PARAM);
+    if (!token) {
+        return page("<p>This unsubscribe link is incomplete.</p>", 400);
+    }
+
+    return page(
+        `<p>Stop receiving email digests?</p><form method="post"><button type="submit" style="padding:10px 16px;font-size:14px;">Unsubscribe</button></form>`,
+        200
+    );
+}
+
+/**
+ * Removes the subscription, from the confirmation page or a mail client's
+ * one-click unsubscribe
+ */
+export async function POST(request: NextRequest) {
+    const token = request.nextUrl.searchParams.get(UNSUBSCRIBE_TOKEN_PARAM);
+    if (!token) {
+        return page("<p>This unsubscribe link is incomplete.</p>", 400);
+    }
+
+    if (!isDatabaseConnected()) {
+        return page("<p>Unsubscribing is not available right now.</p>", 503);
+    }
+
+    try {
+        await sql`
+      DELETE FROM email_digest_subscriptions
+      WHERE unsubscribe_token = ${token}
+    `;
+        // Unknown tokens were already unsubscribed
+        return page("<p>You will no longer receive email digests.</p>", 200);
+    } catch (error) {
+        console.error("Error unsubscribing from email digests:", error);
+        return page(
+            "<p>Failed to unsubscribe. Please try again later.</p>",
+            500
+        );
+    }
+}
@@ -1,37 +1,49 @@
 /**
  * Handles POST requests to the electricity chat API endpoint.
  *
- * This endpoint receives a list of chat messages, validates the input,
- * and generates a response using the Google Gemini API via the `chatAboutElectricity` action.
- * It expects the request body to contain a `messages` array, where each message has a `role` and `content`.
- * The latest user message is used as the prompt, and previous messages are used as conversation history.
+ * This endpoint receives the user's new message and the conversation it belongs to, validates
+ * the input, and generates a response with the configured AI provider via the
+ * `chatAboutElectricity` action. The conversation history is stored on the server, so only the
+ * new message is sent. Without a `threadId` a new conversation is started; its id is returned
+ * in the `X-Chat-Thread-Id` response header.
  *
  * @param req - The incoming HTTP request object.
  * @returns A `Response` object containing the AI-generated reply or an error message.
  *
- * @throws {Error} Returns a 500 response if the Google Gemini API key is not configured,
+ * @throws {Error} Returns a 500 response if the AI provider is not configured,
  *                 if the request body is invalid, or if an unexpected error occurs.
  *
  * @example
  * // Request body format:
  * {
- *   "messages": [
- *     { "role": "user", "content": "How can I save electricity?" },
- *     { "role": "assistant", "content": "You can start by..." },
- *     { "role": "user", "content": "What about using LED bulbs?" }
- *   ]
+ *   "threadId": 12,
+ *   "message": "What about using LED bulbs?"
  * }
  */
 import { chatAboutElectricity } from "@/actions/ai-analysis-actions";
+import { describeAIError, requireAIProvider } from "@/lib/ai-provider";
+
+/**
+ * Gets why the AI provider cannot be used, or null when it is configured
+ */
+function getAIConfigurationError(): string | null {
+    try {
+        requireAIProvider();
+        return null;
+    } catch (error) {
+        return describeAIError(error).message;
+    }
+}
 
 export async function POST(req: Request) {
     try {
-        // Check if Google Gemini API key is configured
-        if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-            console.error("GOOGLE_GENERATIVE_AI_API_KEY not configured");
+        // Check if the AI provider is configured
+        const configError = getAIConfigurationError();
+        if (configError) {
+            console.error("AI provider not configured:", configError);
             return new Response(
                 JSON.stringify({
-                    error: "Google Gemini API key not configured",
+                    error: configError,
                 }),
                 {
                     status: 500,
@@ -42,11 +54,14 @@ export async function POST(req: Request) {
 
         const body = await req.json();
 
-        const { messages } = body;
+        const { message, threadId } = body;
 
-        if (!messages || !Array.isArray(messages)) {
+        if (
+            typeof message !== "string" ||
+            (threadId != null && !Number.isInteger(threadId))
+        ) {
             return new Response(
-                JSON.stringify({ error: "Invalid messages format" }),
+                JSON.stringify({ error: "Invalid message format" }),
                 {
                     status: 400,
                     headers: { "Content-Type": "application/json" },
@@ -54,27 +69,15 @@ export async function POST(req: Request) {
             );
         }
 
-        // Get the latest user message
-        const userMessage = messages.at(-1)?.content || "";
-
-        if (!userMessage.trim()) {
+        if (!message.trim()) {
             return new Response(JSON.stringify({ error: "Empty message" }), {
                 status: 400,
                 headers: { "Content-Type": "application/json" },
             });
         }
-        // Get conversation history (excluding the latest message)
-
-        const conversationHistory = messages
-            .slice(0, -1)
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            .map((msg: any) => `${msg.role}: ${msg.content}`);
 
         // Stream the AI response
-        const response = await chatAboutElectricity(
-            userMessage,
-            conversationHistory
-        );
+        const response = await chatAboutElectricity(message, threadId ?? null);
 
         return response;
     } catch (error) {
@@ -0,0 +1,115 @@
+/**
+ * Handles GET requests to the data export endpoint.
+ *
+ * Exports the readings, token purchases and priced daily usage of the current
+ * household as CSV, JSON or XLSX, for use in budgeting spreadsheets.
+ *
+ * Query parameters:
+ * - `format`: `csv` (default), `json` or `xlsx`.
+ * - `dataset`: `daily` (default), `readings` or `tokens`. CSV holds one dataset;
+ *   JSON and XLSX always contain all three.
+ * - `from` / `to`: inclusive YYYY-MM-DD date range, both optional.
+ * - `meter`: a meter id or `all`; defaults to the selected meter.
+ *
+ * @param request - The incoming HTTP request object.
+ * @returns The export as a file download, or a JSON error response.
+ *
+ * @example
+ * // Daily usage of every meter in 2025 as CSV:
+ * GET /api/export?format=csv&dataset=daily&from=2025-01-01&to=2025-12-31&meter=all
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { getExportData } from "@/actions/electricity-actions";
+import { buildExportTables, toCsv, toXlsx } from "@/lib/export-format";
+import type { ExportDataset, ExportFilter, ExportFormat } from "@/lib/types";
+
+const FORMATS: ExportFormat[] = ["csv", "json", "xlsx"];
+const DATASETS: ExportDataset[] = ["daily", "readings", "tokens"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const format = (params.get("format") ?? "csv") as ExportFormat;
+    const dataset = (params.get("dataset") ?? "daily") as ExportDataset;
+    const from = params.get("from") || undefined;
+    const to = params.get("to") || undefined;
+    const meter = params.get("meter");
+
+    if (!FORMATS.includes(format)) {
+        return NextResponse.json(
+            { error: "Format must be csv, json or xlsx" },
+            { status: 400 }
+        );
+    }
+    if (!DATASETS.includes(dataset)) {
+        return NextResponse.json(
+            { error: "Dataset must be daily, readings or tokens" },
+            { status: 400 }
+        );
+    }
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+        return NextResponse.json(
+            { error: "Dates must use the YYYY-MM-DD format" },
+            { status: 400 }
+        );
+    }
+    if (meter && meter !== "all" && !/^\d+$/.test(meter)) {
+        return NextResponse.json(
+            { error: "Meter must be a meter id or all" },
+            { status: 400 }
+        );
+    }
+
+    const filter: ExportFilter = { from, to };
+    if (meter) {
+        filter.meterId = meter === "all" ? "all" : Number(meter);
+    }
+
+    try {
+        const data = await getExportData(filter);
+        const range = [from, to].filter(Boolean).join("_to_") || "all-time";
+        const fileName = `electricity-${format === "csv" ? `${dataset}-` : ""}${range}`;
+
+        if (format === "json") {
+            return new NextResponse(JSON.stringify(data, null, 2), {
+                headers: {
+                    "Content-Type": "application/json",
+                    "Content-Disposition": `attachment; filename="${fileName}.json"`,
+                },
+            });
+        }
+
+        const tables = buildExportTables(data);
+
+        if (format === "xlsx") {
+            return new NextResponse(new Uint8Array(toXlsx(tables)), {
+                headers: {
+                    "Content-Type":
+                        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+                    "Content-Disposition": `attachment; filename="${fileName}.xlsx"`,
+                },
+            });
+        }
+
+        return new NextResponse(toCsv(tables[dataset]), {
+            headers: {
+                "Content-Type": "text/csv; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${fileName}.csv"`,
+            },
+        });
+    } catch (error) {
+        console.error("Export error:", error);
+        const message =
+            error instanceof Error ? error.message : "Failed to export data";
+        const status =
+            message === "Authentication required"
+                ? 401
+                : message === "Meter not found"
+                  ? 404
+                  : 500;
+        return NextResponse.json(
+            { error: status === 500 ? "Failed to export data" : message },
+            { status }
+        );
+    }
+}
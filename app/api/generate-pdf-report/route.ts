@@ -1,6 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { jsPDF } from "jspdf";
 import { ElectricityReading, TokenPurchase } from "@/lib/types";
+import { getUsageSummary } from "@/actions/electricity-actions";
+import { getSelectedMeterTimezone } from "@/actions/meter-actions";
+import { getLocalDateString } from "@/lib/timezone-utils";
 
 export async function POST(request: NextRequest) {
     try {
@@ -13,23 +16,35 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Months, dates and times follow the meter's timezone, not the server's
+        const timeZone = await getSelectedMeterTimezone();
+        const isInMonth = (timestamp: string | Date) =>
+            getLocalDateString(new Date(timestamp), timeZone).startsWith(
+                `${month}-`
+            );
+
         // Filter data for the selected month
         const [year, monthNum] = month.split("-");
-        const monthReadings = readings.filter((reading: ElectricityReading) => {
-            const date = new Date(reading.timestamp);
-            return (
-                date.getFullYear() === Number(year) &&
-                date.getMonth() === Number(monthNum) - 1
-            );
-        });
+        const monthReadings = readings.filter((reading: ElectricityReading) =>
+            isInMonth(reading.timestamp)
+        );
 
-        const monthTokens = tokens.filter((token: TokenPurchase) => {
-            const date = new Date(token.timestamp);
-            return (
-                date.getFullYear() === Number(year) &&
-                date.getMonth() === Number(monthNum) - 1
-            );
-        });
+        const monthTokens = tokens.filter((token: TokenPurchase) =>
+            isInMonth(token.timestamp)
+        );
+
+        // Daily usage priced with the user's tariff
+        const summary = await getUsageSummary();
+        const monthDailyUsage = summary.dailyUsage.filter((day) =>
+            day.date.startsWith(month)
+        );
+        const pricedDays = monthDailyUsage.filter(
+            (day) => day.cost !== undefined
+        );
+        const totalTariffCost = pricedDays.reduce(
+            (sum, day) => sum + (day.cost ?? 0),
+            0
+        );
 
         // Create PDF
         const doc = new jsPDF();
@@ -54,6 +69,10 @@ export async function POST(request: NextRequest) {
             month: "long",
         });
         doc.text(monthName, pageWidth / 2, 45, { align: "center" });
+        doc.setFontSize(9);
+        doc.text(`Times shown in ${timeZone}`, pageWidth / 2, 53, {
+            align: "center",
+        });
 
         // Summary Statistics
         let yPosition = 70;
@@ -72,12 +91,11 @@ export async function POST(request: NextRequest) {
             0
         );
 
-        let totalUsage = 0;
-        for (let i = 1; i < monthReadings.length; i++) {
-            const usage =
-                monthReadings[i - 1].reading - monthReadings[i].reading;
-            if (usage > 0) totalUsage += usage;
-        }
+        // Same daily usage as the dashboard, token top-ups included
+        const totalUsage = monthDailyUsage.reduce(
+            (sum, day) => sum + day.total,
+            0
+        );
 
         const avgDailyUsage =
             totalUsage /
@@ -98,6 +116,14 @@ export async function POST(request: NextRequest) {
             20,
             yPosition
         );
+        if (pricedDays.length > 0) {
+            yPosition += 10;
+            doc.text(
+                `Usage Cost (tariff): ${totalTariffCost.toFixed(2)}`,
+                20,
+                yPosition
+            );
+        }
 
         // Readings Table
         yPosition += 25;
@@ -138,13 +164,63 @@ export async function POST(request: NextRequest) {
                 }
 
                 const date = new Date(reading.timestamp);
-                doc.text(date.toLocaleDateString(), 20, yPosition);
-                doc.text(date.toLocaleTimeString(), 60, yPosition);
+                doc.text(
+                    date.toLocaleDateString(undefined, { timeZone }),
+                    20,
+                    yPosition
+                );
+                doc.text(
+                    date.toLocaleTimeString(undefined, { timeZone }),
+                    60,
+                    yPosition
+                );
                 doc.text(reading.period, 100, yPosition);
                 doc.text(reading.reading.toString(), 140, yPosition);
                 yPosition += 8;
             });
 
+        // Daily Usage & Cost
+        if (monthDailyUsage.length > 0) {
+            yPosition += 15;
+            if (yPosition > pageHeight - 50) {
+                doc.addPage();
+                yPosition = 30;
+            }
+            doc.setFontSize(16);
+            doc.setFont("helvetica", "bold");
+            doc.text("Daily Usage & Cost", 20, yPosition);
+
+            yPosition += 15;
+            doc.setFontSize(10);
+            doc.setFont("helvetica", "bold");
+
+            doc.text("Date", 20, yPosition);
+            doc.text("Usage (kWh)", 80, yPosition);
+            doc.text("Cost", 140, yPosition);
+
+            yPosition += 5;
+            doc.line(20, yPosition, pageWidth - 20, yPosition);
+
+            yPosition += 10;
+            doc.setFont("helvetica", "normal");
+
+            monthDailyUsage.forEach((day) => {
+                if (yPosition > pageHeight - 30) {
+                    doc.addPage();
+                    yPosition = 30;
+                }
+
+                doc.text(day.date, 20, yPosition);
+                doc.text(day.total.toFixed(2), 80, yPosition);
+                doc.text(
+                    day.cost === undefined ? "N/A" : day.cost.toFixed(2),
+                    140,
+                    yPosition
+                );
+                yPosition += 8;
+            });
+        }
+
         // Token Purchases
         if (monthTokens.length > 0) {
             yPosition += 15;
@@ -173,7 +249,11 @@ export async function POST(request: NextRequest) {
                 }
 
                 const date = new Date(token.timestamp);
-                doc.text(date.toLocaleDateString(), 20, yPosition);
+                doc.text(
+                    date.toLocaleDateString(undefined, { timeZone }),
+                    20,
+                    yPosition
+                );
                 doc.text(token.units.toString(), 80, yPosition);
                 doc.text(
                     token.total_cost
@@ -193,7 +273,9 @@ export async function POST(request: NextRequest) {
             doc.setFontSize(8);
             doc.setFont("helvetica", "normal");
             doc.text(
-                `Generated on ${new Date().toLocaleDateString()} - Page ${i} of ${totalPages}`,
+                `Generated on ${new Date().toLocaleDateString(undefined, {
+                    timeZone,
+                })} - Page ${i} of ${totalPages}`,
                 pageWidth / 2,
                 pageHeight - 10,
                 { align: "center" }
@@ -0,0 +1,44 @@
+/**
+ * Handles GET requests to the push scheduler endpoint.
+ *
+ * Sends the reading reminders, missed-reading nudges and low-balance warnings
+ * that are due. Call it every five minutes from a cron job; notifications are
+ * logged per device and day, so extra calls never send duplicates.
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`, the header Vercel Cron sends
+ * when the CRON_SECRET environment variable is set.
+ *
+ * @param request - The incoming HTTP request object.
+ * @returns The number of notifications sent, expired and failed, or a JSON error response.
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { isDatabaseConnected } from "@/lib/db";
+import { runPushScheduler } from "@/lib/push-scheduler";
+import { isWebPushConfigured } from "@/lib/web-push";
+
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (
+        !secret ||
+        request.headers.get("authorization") !== `Bearer ${secret}`
+    ) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isDatabaseConnected() || !isWebPushConfigured()) {
+        return NextResponse.json(
+            { error: "Database or Web Push is not configured" },
+            { status: 503 }
+        );
+    }
+
+    try {
+        return NextResponse.json(await runPushScheduler());
+    } catch (error) {
+        console.error("Push scheduler error:", error);
+        return NextResponse.json(
+            { error: "Failed to send push notifications" },
+            { status: 500 }
+        );
+    }
+}
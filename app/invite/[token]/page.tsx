@@ -0,0 +1,50 @@
+/**
+ * InvitePage lets a signed-in user accept an invitation link to a household.
+ *
+ * @returns {Promise<JSX.Element>} The invitation details with an accept button,
+ *          or a message if the link is invalid or has expired.
+ */
+import type { Metadata } from "next";
+import { getInvitation } from "@/actions/household-actions";
+import { AcceptInvitationButton } from "@/components/accept-invitation-button";
+import { ProtectedContent } from "@/components/auth/protected-content";
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+
+export const metadata: Metadata = {
+    title: "Household Invitation - Electricity Tracker",
+};
+
+export default async function InvitePage({
+    params,
+}: Readonly<{ params: Promise<{ token: string }> }>) {
+    const { token } = await params;
+    const invitation = await getInvitation(token);
+
+    return (
+        <main className="container mx-auto max-w-md pt-16 pb-8 px-4">
+            <ProtectedContent message="Sign in to accept this household invitation">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Household Invitation</CardTitle>
+                        <CardDescription>
+                            {invitation
+                                ? `You have been invited to join ${invitation.householdName} as ${invitation.role === "editor" ? "an editor" : "a viewer"}.`
+                                : "This invitation is invalid or has expired."}
+                        </CardDescription>
+                    </CardHeader>
+                    {invitation && (
+                        <CardContent>
+                            <AcceptInvitationButton token={token} />
+                        </CardContent>
+                    )}
+                </Card>
+            </ProtectedContent>
+        </main>
+    );
+}
@@ -5,6 +5,8 @@
  * - Setting the page metadata (title and description).
  * - Checking the database connection status.
  * - Fetching initial electricity readings, token purchases, latest reading, and total units used from the database if connected.
+ * - Fetching the user's meters; data is scoped to the meter selected in the header.
+ * - Resolving the active household, whose owner's data is shown to its members.
  * - Displaying an alert if the database is not connected, with a fallback to local storage mode.
  * - Rendering the main ElectricityTracker component with the fetched or default data.
  * - Providing a theme toggle for light/dark mode.
@@ -22,9 +24,19 @@ import {
 import { isDatabaseConnected } from "@/lib/db";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Database } from "lucide-react";
-import { ElectricityReading, TokenPurchase } from "@/lib/types";
+import {
+    ElectricityReading,
+    Household,
+    Meter,
+    ReadingSchedule,
+    TokenPurchase,
+} from "@/lib/types";
 import { stackServerApp } from "@/stack/server";
 import { getUserProfile } from "@/actions/user-profile-actions";
+import { getMeters, getSelectedMeterId } from "@/actions/meter-actions";
+import { getHouseholds } from "@/actions/household-actions";
+import { getReadingSchedule } from "@/actions/schedule-actions";
+import { DEFAULT_READING_SCHEDULE } from "@/lib/reading-schedule";
 import { AppHeader } from "@/components/app-header";
 
 export const metadata: Metadata = {
@@ -43,6 +55,10 @@ export default async function HomePage() {
     let totalUnits = 0;
     let userProfile = null;
     let showMeterDialog = false;
+    let meters: Meter[] = [];
+    let selectedMeterId: number | "all" | null = null;
+    let activeHousehold: Household | null = null;
+    let schedule: ReadingSchedule = DEFAULT_READING_SCHEDULE;
 
     // Only try to fetch data if database is connected
     if (dbConnected && user) {
@@ -53,7 +69,12 @@ export default async function HomePage() {
             latestReading = await getLatestReading();
             totalUnits = await getTotalUnitsUsed();
             userProfile = await getUserProfile();
-            showMeterDialog = !userProfile?.meter_number;
+            meters = await getMeters();
+            selectedMeterId = await getSelectedMeterId();
+            schedule = await getReadingSchedule();
+            activeHousehold =
+                (await getHouseholds()).find((h) => h.isActive) ?? null;
+            showMeterDialog = !userProfile?.meter_number && meters.length === 0;
         } catch (error) {
             console.error("Error fetching initial data:", error);
         }
@@ -65,6 +86,9 @@ export default async function HomePage() {
                 <AppHeader
                     meterNumber={userProfile?.meter_number}
                     showMeterDialog={showMeterDialog}
+                    meters={meters}
+                    selectedMeterId={selectedMeterId}
+                    activeHousehold={activeHousehold}
                 />
             </header>
             <main className="container mx-auto pt-16 pb-8 px-4">
@@ -89,11 +113,14 @@ export default async function HomePage() {
                 </div>
 
                 <ElectricityTracker
+                    key={`${activeHousehold?.id ?? "own"}-${selectedMeterId}`}
                     initialReadings={readings}
                     initialTokens={tokens}
                     initialLatestReading={latestReading}
                     initialTotalUnits={totalUnits}
+                    initialSchedule={schedule}
                     dbConnected={dbConnected}
+                    selectedMeterId={selectedMeterId}
                 />
             </main>
         </>
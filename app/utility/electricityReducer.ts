@@ -1,4 +1,5 @@
 import { ElectricityState, ElectricityAction } from "@/lib/types";
+import { DEFAULT_READING_SCHEDULE } from "@/lib/reading-schedule";
 
 export const initialElectricityState = {
     isLoading: true,
@@ -17,6 +18,10 @@ export const initialElectricityState = {
     latestReading: 0,
     nextUpdate: null,
     readings: [],
+    schedule: DEFAULT_READING_SCHEDULE,
+    forecast: null,
+    budgetStatus: null,
+    anomalies: [],
 };
 
 export function reducer(state: ElectricityState, action: ElectricityAction) {
@@ -120,6 +125,49 @@ export function reducer(state: ElectricityState, action: ElectricityAction) {
                         : r
                 ),
             };
+        case "REMOVE_READING":
+            return {
+                ...state,
+                readings: state.readings.filter(
+                    (r) => r.reading_id !== action.payload
+                ),
+            };
+        case "UPDATE_TOKEN":
+            return {
+                ...state,
+                tokens: state.tokens.map((t) =>
+                    t.token_id === action.payload.tokenId
+                        ? action.payload.updatedToken
+                        : t
+                ),
+            };
+        case "SET_SCHEDULE":
+            return {
+                ...state,
+                schedule: action.payload,
+            };
+        case "SET_FORECAST":
+            return {
+                ...state,
+                forecast: action.payload,
+            };
+        case "SET_BUDGET_STATUS":
+            return {
+                ...state,
+                budgetStatus: action.payload,
+            };
+        case "SET_ANOMALIES":
+            return {
+                ...state,
+                anomalies: action.payload,
+            };
+        case "REMOVE_TOKEN":
+            return {
+                ...state,
+                tokens: state.tokens.filter(
+                    (t) => t.token_id !== action.payload
+                ),
+            };
         default:
             return state;
     }
@@ -1,5 +1,6 @@
 /**
- * Displays a summary dashboard with the latest electricity reading, total units used, and the next update time.
+ * Displays a summary dashboard with the latest electricity reading, total units used, the next update time
+ * and, when one is set, progress against the monthly budget.
  *
  * @component
  * @param latestReading - The most recent electricity meter reading in kWh.
@@ -18,12 +19,15 @@ import {
     Zap,
     Battery,
     AlertTriangle,
+    Wallet,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import type { ElectricityReading } from "@/lib/types";
 import { getUsageSummary } from "@/actions/electricity-actions";
 import { useElectricity } from "@/contexts/ElectricityContext";
 import { getTimeString } from "@/lib/date-utils";
+import { formatBudgetAmount } from "@/lib/budget";
 
 type DashboardSummaryProps = {
     readings?: ElectricityReading[]; // Add this for predictions
@@ -101,6 +105,13 @@ export default function DashboardSummary({
     };
 
     const balanceStatus = getBalanceStatus();
+    const { budgetStatus } = state;
+
+    const getBudgetColor = (percent: number) => {
+        if (percent >= 100) return "text-red-600";
+        if (percent >= 80) return "text-orange-600";
+        return "text-green-600";
+    };
 
     return (
         <div className="space-y-4">
@@ -146,6 +157,60 @@ export default function DashboardSummary({
                 </div>
             </div>
 
+            {/* Monthly Budget */}
+            {budgetStatus && (
+                <div className="bg-amber-50 dark:bg-amber-950 p-4 rounded-lg border border-amber-200">
+                    <div className="flex items-center justify-between mb-2">
+                        <h3 className="text-sm font-medium text-amber-800 dark:text-amber-300 flex items-center gap-2">
+                            <Wallet className="h-4 w-4" />
+                            Monthly Budget
+                        </h3>
+                        <span
+                            className={`text-sm font-medium ${getBudgetColor(
+                                budgetStatus.percentUsed
+                            )}`}
+                        >
+                            {budgetStatus.percentUsed.toFixed(0)}%
+                        </span>
+                    </div>
+                    <p className="text-2xl font-bold">
+                        {formatBudgetAmount(
+                            budgetStatus.budget.kind,
+                            budgetStatus.used
+                        )}
+                        <span className="text-sm font-normal text-muted-foreground">
+                            {" "}
+                            of{" "}
+                            {formatBudgetAmount(
+                                budgetStatus.budget.kind,
+                                budgetStatus.budget.amount
+                            )}{" "}
+                            {budgetStatus.budget.kind === "money"
+                                ? "spent"
+                                : "used"}
+                        </span>
+                    </p>
+                    <Progress
+                        value={Math.min(budgetStatus.percentUsed, 100)}
+                        className="h-2 my-2"
+                    />
+                    <p className="text-sm">
+                        Projected by month end:{" "}
+                        <span
+                            className={`font-medium ${getBudgetColor(
+                                budgetStatus.projectedPercent
+                            )}`}
+                        >
+                            {formatBudgetAmount(
+                                budgetStatus.budget.kind,
+                                budgetStatus.projected
+                            )}
+                        </span>{" "}
+                        ({Math.ceil(budgetStatus.daysLeftInMonth)} days left)
+                    </p>
+                </div>
+            )}
+
             {/* Predictions Row */}
             {readings.length >= 7 && (
                 <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
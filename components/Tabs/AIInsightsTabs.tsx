@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
     Card,
     CardContent,
@@ -9,64 +9,87 @@ import {
     CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    ArrowDownRight,
+    ArrowUpRight,
+    ArrowRight,
     Brain,
     MessageCircle,
     Lightbulb,
     RefreshCw,
-    Send,
     Sparkles,
     AlertCircle,
     Settings,
     Star,
 } from "lucide-react";
-import { generateElectricityInsights } from "@/actions/ai-analysis-actions";
-import { useChat } from "ai/react";
+import {
+    generateElectricityInsights,
+    getInsightReport,
+    getInsightReports,
+} from "@/actions/ai-analysis-actions";
+import { AIChat } from "@/components/ai-chat";
+import { InsightReportContent } from "@/components/insight-report-content";
 import { useToast } from "@/hooks/use-toast";
+import type {
+    InsightChange,
+    InsightReport,
+    InsightReportResult,
+    InsightReportSummary,
+} from "@/lib/types";
+
+const CHANGE_ICONS = {
+    up: ArrowUpRight,
+    down: ArrowDownRight,
+    changed: ArrowRight,
+};
 
 interface AIInsightsProps {
     hasData: boolean;
 }
 export default function AIInsightsTabs({ hasData }: Readonly<AIInsightsProps>) {
-    const [insights, setInsights] = useState<string>("");
+    const [report, setReport] = useState<InsightReport | null>(null);
+    const [changes, setChanges] = useState<InsightChange[]>([]);
+    const [reports, setReports] = useState<InsightReportSummary[]>([]);
     const [isGeneratingInsights, setIsGeneratingInsights] = useState(false);
-    const [lastGenerated, setLastGenerated] = useState<Date | null>(null);
+    const [insightsError, setInsightsError] = useState<string>("");
     const [configError, setConfigError] = useState<string>("");
     const { toast } = useToast();
 
-    // Chat functionality using AI SDK's useChat hook
-    const {
-        messages,
-        input,
-        handleInputChange,
-        handleSubmit,
-        isLoading: isChatLoading,
-        error: chatError,
-    } = useChat({
-        api: "/api/electricity-chat",
-        onError: (error) => {
-            console.error("Chat error:", error);
-            toast({
-                title: "Chat Error",
-                description:
-                    error.message ||
-                    "Failed to send message. Please try again.",
-                variant: "destructive",
-            });
-        },
-    });
+    const loadReports = useCallback(async () => {
+        setReports(await getInsightReports());
+    }, []);
 
-    // Generate initial insights when component mounts
+    // Show the latest report when the component mounts; it is only written
+    // again when the data changed since
     useEffect(() => {
-        if (hasData && !insights && !configError) {
+        if (hasData && !report && !configError) {
             handleGenerateInsights();
         }
     }, [hasData]);
 
+    const showResult = (result: InsightReportResult) => {
+        if ("error" in result) {
+            if (result.configuration) {
+                setConfigError(result.error);
+            } else {
+                setInsightsError(result.error);
+            }
+            return;
+        }
+        setReport(result.report);
+        setChanges(result.changes);
+    };
+
     const handleGenerateInsights = async () => {
         if (!hasData) {
             toast({
@@ -79,27 +102,28 @@ export default function AIInsightsTabs({ hasData }: Readonly<AIInsightsProps>) {
         }
 
         setIsGeneratingInsights(true);
+        setInsightsError("");
         setConfigError("");
 
         try {
-            const newInsights = await generateElectricityInsights();
-
-            // Check if the response indicates a configuration error
-            if (
-                newInsights.includes("Configuration Error") ||
-                newInsights.includes("API key")
-            ) {
-                setConfigError(newInsights);
-                setInsights("");
-            } else {
-                setInsights(newInsights);
-                setLastGenerated(new Date());
-                toast({
-                    title: "Insights Generated",
-                    description:
-                        "Google Gemini has analyzed your electricity data!",
-                });
+            const result = await generateElectricityInsights();
+            showResult(result);
+            if ("error" in result) {
+                return;
             }
+
+            await loadReports();
+            toast(
+                result.cached
+                    ? {
+                          title: "No New Data",
+                          description: `Your data has not changed since report ${result.report.version}, so it is shown again.`,
+                      }
+                    : {
+                          title: "Insights Generated",
+                          description: `${result.report.provider} has analyzed your electricity data!`,
+                      }
+            );
         } catch (error) {
             console.error("Error generating insights:", error);
             const errorMessage =
@@ -118,6 +142,11 @@ export default function AIInsightsTabs({ hasData }: Readonly<AIInsightsProps>) {
         }
     };
 
+    const handleSelectReport = async (value: string) => {
+        setInsightsError("");
+        showResult(await getInsightReport(Number(value)));
+    };
+
     const formatInsights = (text: string) => {
         // Split by sections and format nicely
         const sections = text.split(/\*\*([^*]+)\*\*/g);
@@ -323,14 +352,37 @@ export default function AIInsightsTabs({ hasData }: Readonly<AIInsightsProps>) {
                                         </CardDescription>
                                     </div>
                                     <div className="flex items-center gap-2">
-                                        {lastGenerated && (
-                                            <Badge
-                                                variant="secondary"
-                                                className="text-xs"
+                                        {reports.length > 0 && report && (
+                                            <Select
+                                                value={String(report.id)}
+                                                onValueChange={
+                                                    handleSelectReport
+                                                }
+                                                disabled={isGeneratingInsights}
                                             >
-                                                Updated{" "}
-                                                {lastGenerated.toLocaleTimeString()}
-                                            </Badge>
+                                                <SelectTrigger
+                                                    className="h-8 w-[200px]"
+                                                    aria-label="Select report"
+                                                >
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {reports.map((past) => (
+                                                        <SelectItem
+                                                            key={past.id}
+                                                            value={String(
+                                                                past.id
+                                                            )}
+                                                        >
+                                                            Report{" "}
+                                                            {past.version} ·{" "}
+                                                            {new Date(
+                                                                past.createdAt
+                                                            ).toLocaleDateString()}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
                                         )}
                                         <Button
                                             onClick={handleGenerateInsights}
@@ -368,9 +420,92 @@ export default function AIInsightsTabs({ hasData }: Readonly<AIInsightsProps>) {
                                         <Skeleton className="h-4 w-1/2" />
                                         <Skeleton className="h-20 w-full" />
                                     </div>
-                                ) : insights ? (
-                                    <div className="prose prose-sm max-w-none dark:prose-invert">
-                                        {formatInsights(insights)}
+                                ) : report ? (
+                                    <div className="space-y-4">
+                                        {insightsError && (
+                                            <div className="text-red-600 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-lg">
+                                                {insightsError}
+                                            </div>
+                                        )}
+                                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                            <Badge variant="secondary">
+                                                Report {report.version}
+                                            </Badge>
+                                            <span>
+                                                Written by {report.provider} on{" "}
+                                                {new Date(
+                                                    report.createdAt
+                                                ).toLocaleString()}
+                                            </span>
+                                        </div>
+                                        {report.version > 1 && (
+                                            <div className="rounded-lg border p-3">
+                                                <h4 className="text-sm font-semibold mb-2">
+                                                    What changed since the last
+                                                    report
+                                                </h4>
+                                                {changes.length === 0 ? (
+                                                    <p className="text-sm text-muted-foreground">
+                                                        No notable changes in
+                                                        your usage figures.
+                                                    </p>
+                                                ) : (
+                                                    <ul className="space-y-1 text-sm">
+                                                        {changes.map(
+                                                            (change) => {
+                                                                const Icon =
+                                                                    CHANGE_ICONS[
+                                                                        change
+                                                                            .direction
+                                                                    ];
+                                                                return (
+                                                                    <li
+                                                                        key={
+                                                                            change.label
+                                                                        }
+                                                                        className="flex items-center gap-2"
+                                                                    >
+                                                                        <Icon className="h-4 w-4 text-blue-600" />
+                                                                        <span className="font-medium">
+                                                                            {
+                                                                                change.label
+                                                                            }
+                                                                            :
+                                                                        </span>
+                                                                        <span className="text-muted-foreground">
+                                                                            {
+                                                                                change.previous
+                                                                            }{" "}
+                                                                            →{" "}
+                                                                            {
+                                                                                change.current
+                                                                            }
+                                                                        </span>
+                                                                    </li>
+                                                                );
+                                                            }
+                                                        )}
+                                                    </ul>
+                                                )}
+                                            </div>
+                                        )}
+                                        {report.format === "markdown" ? (
+                                            <div className="prose prose-sm max-w-none dark:prose-invert">
+                                                {formatInsights(report.content)}
+                                            </div>
+                                        ) : (
+                                            <InsightReportContent
+                                                key={report.id}
+                                                report={report}
+                                            />
+                                        )}
+                                    </div>
+                                ) : insightsError ? (
+                                    <div className="text-center py-8">
+                                        <AlertCircle className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                                        <p className="text-gray-500 mb-4">
+                                            {insightsError}
+                                        </p>
                                     </div>
                                 ) : !configError ? (
                                     <div className="text-center py-8">
@@ -421,128 +556,7 @@ export default function AIInsightsTabs({ hasData }: Readonly<AIInsightsProps>) {
                                         </p>
                                     </div>
                                 ) : (
-                                    <div className="space-y-4">
-                                        {/* Chat Messages */}
-                                        <div className="h-96 overflow-y-auto border rounded-lg p-4 space-y-4 bg-gray-50 dark:bg-gray-900">
-                                            {messages.length === 0 ? (
-                                                <div className="text-center text-gray-500 py-8">
-                                                    <MessageCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                                                    <p>
-                                                        Start a conversation!
-                                                        Ask me anything about
-                                                        your electricity usage.
-                                                    </p>
-                                                    <div className="mt-4 text-sm space-y-1">
-                                                        <p className="font-medium">
-                                                            Try asking:
-                                                        </p>
-                                                        <p>
-                                                            &quot;What are my
-                                                            peak usage
-                                                            hours?&quot;
-                                                        </p>
-                                                        <p>
-                                                            &quot;How can I
-                                                            reduce my
-                                                            electricity
-                                                            bill?&quot;
-                                                        </p>
-                                                        <p>
-                                                            &quot;Are there any
-                                                            unusual patterns in
-                                                            my usage?&quot;
-                                                        </p>
-                                                        <p>
-                                                            &quot;What
-                                                            appliances might be
-                                                            using the most
-                                                            power?&quot;
-                                                        </p>
-                                                    </div>
-                                                </div>
-                                            ) : (
-                                                messages.map((message) => (
-                                                    <div
-                                                        key={message.id}
-                                                        className={`flex ${
-                                                            message.role ===
-                                                            "user"
-                                                                ? "justify-end"
-                                                                : "justify-start"
-                                                        }`}
-                                                    >
-                                                        <div
-                                                            className={`md:max-w-[80%] rounded-lg px-4 py-2 ${
-                                                                message.role ===
-                                                                "user"
-                                                                    ? "bg-gradient-to-r from-blue-600 to-indigo-600 text-white"
-                                                                    : "bg-white dark:bg-gray-800 border"
-                                                            }`}
-                                                        >
-                                                            <div className="whitespace-pre-wrap">
-                                                                {
-                                                                    message.content
-                                                                }
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                ))
-                                            )}
-
-                                            {isChatLoading && (
-                                                <div className="flex justify-start">
-                                                    <div className="bg-white dark:bg-gray-800 border rounded-lg px-4 py-2">
-                                                        <div className="flex items-center gap-2">
-                                                            <div className="animate-pulse">
-                                                                Google Gemini is
-                                                                thinking...
-                                                            </div>
-                                                            <RefreshCw className="h-4 w-4 animate-spin" />
-                                                        </div>
-                                                    </div>
-                                                </div>
-                                            )}
-                                        </div>
-
-                                        {/* Chat Input */}
-                                        <form
-                                            onSubmit={handleSubmit}
-                                            className="flex gap-2"
-                                        >
-                                            <Textarea
-                                                value={input}
-                                                onChange={handleInputChange}
-                                                placeholder="Ask me about your electricity usage..."
-                                                className="flex-1 min-h-[60px] resize-none"
-                                                disabled={isChatLoading}
-                                                onKeyDown={(e) => {
-                                                    if (
-                                                        e.key === "Enter" &&
-                                                        !e.shiftKey
-                                                    ) {
-                                                        e.preventDefault();
-                                                        handleSubmit(e);
-                                                    }
-                                                }}
-                                            />
-                                            <Button
-                                                type="submit"
-                                                disabled={
-                                                    isChatLoading ||
-                                                    !input.trim()
-                                                }
-                                                className="self-end bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-                                            >
-                                                <Send className="h-4 w-4" />
-                                            </Button>
-                                        </form>
-
-                                        {chatError && (
-                                            <div className="text-red-600 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-lg">
-                                                Error: {chatError.message}
-                                            </div>
-                                        )}
-                                    </div>
+                                    <AIChat />
                                 )}
                             </CardContent>
                         </Card>
@@ -27,13 +27,14 @@ import {
     CardContent,
 } from "../ui/card";
 import UsageChart from "../usage-chart";
-import { ElectricityReading } from "@/lib/types";
+import { ElectricityReading, TokenPurchase } from "@/lib/types";
 
 interface AnalyticsProps {
     readings: ElectricityReading[];
+    tokens: TokenPurchase[];
 }
 
-function AnalyticsTabs({ readings }: Readonly<AnalyticsProps>) {
+function AnalyticsTabs({ readings, tokens }: Readonly<AnalyticsProps>) {
     return (
         <TabsContent value="analytics" className="mt-0 space-y-6">
             <Card className="shadow-lg">
@@ -47,7 +48,7 @@ function AnalyticsTabs({ readings }: Readonly<AnalyticsProps>) {
                     </CardDescription>
                 </CardHeader>
                 <CardContent>
-                    <UsageChart readings={readings} />
+                    <UsageChart readings={readings} tokens={tokens} />
                 </CardContent>
             </Card>
         </TabsContent>
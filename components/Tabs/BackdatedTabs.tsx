@@ -1,7 +1,9 @@
 import { TabsContent } from "@radix-ui/react-tabs";
-import { CalendarClock } from "lucide-react";
+import { CalendarClock, FileUp } from "lucide-react";
 import React from "react";
 import BackdatedReadingForm from "../backdated-reading-form";
+import { ImportWizardDialog } from "../import-wizard-dialog";
+import { Button } from "../ui/button";
 import {
     Card,
     CardHeader,
@@ -9,11 +11,12 @@ import {
     CardDescription,
     CardContent,
 } from "../ui/card";
-import { ElectricityReading } from "@/lib/types";
+import { ElectricityReading, ReadingOverride } from "@/lib/types";
 
 interface BackdatedTabsProps {
     onSubmit: (
-        reading: Omit<ElectricityReading, "id" | "reading_id">
+        reading: Omit<ElectricityReading, "id" | "reading_id">,
+        override?: ReadingOverride
     ) => Promise<void>;
     isSubmitting: boolean;
 }
@@ -22,6 +25,8 @@ function BackdatedTabs({
     onSubmit,
     isSubmitting,
 }: Readonly<BackdatedTabsProps>) {
+    const [showImport, setShowImport] = React.useState(false);
+
     return (
         <TabsContent value="backdated" className="mt-0">
             <Card className="shadow-lg">
@@ -33,6 +38,16 @@ function BackdatedTabs({
                     <CardDescription>
                         Record readings for past dates and times
                     </CardDescription>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="w-fit"
+                        onClick={() => setShowImport(true)}
+                    >
+                        <FileUp className="h-4 w-4 mr-2" />
+                        Import from CSV or Excel
+                    </Button>
                 </CardHeader>
                 <CardContent>
                     <BackdatedReadingForm
@@ -41,6 +56,10 @@ function BackdatedTabs({
                     />
                 </CardContent>
             </Card>
+            <ImportWizardDialog
+                open={showImport}
+                onOpenChange={setShowImport}
+            />
         </TabsContent>
     );
 }
@@ -3,6 +3,7 @@ import { Zap } from "lucide-react";
 import React from "react";
 import DashboardSummary from "../DashboardSummary";
 import NotificationsAlert from "../NotificationsAlert";
+import PinnedChatAnswers from "../pinned-chat-answers";
 import SmartAlerts from "../small-alerts";
 import {
     Card,
@@ -15,7 +16,11 @@ import { UpdateMeterReading } from "../update-mete-reading";
 import UpdateReminderNotification from "../UpdateReminderNotification";
 import UsageSummary from "../usage-summary";
 import WeatherUsageCorrelation from "../WeatherUsageCorelation";
-import { ElectricityReading, TokenPurchase } from "@/lib/types";
+import {
+    ElectricityReading,
+    ReadingOverride,
+    TokenPurchase,
+} from "@/lib/types";
 // import { useElectricity } from "@/contexts/ElectricityContext";
 
 type DashboardTabsProps = {
@@ -24,7 +29,10 @@ type DashboardTabsProps = {
     tokens: TokenPurchase[];
     currentReading: string | number;
     setCurrentReading: (value: string) => void;
-    handleAddReading: (forceUpdate?: boolean) => Promise<void>;
+    handleAddReading: (
+        forceUpdate?: boolean,
+        override?: ReadingOverride
+    ) => Promise<void>;
     isSubmitting: boolean;
     isSubmitted: boolean;
     enableNotifications: () => void;
@@ -71,6 +79,7 @@ function DashboardTabs({
                         <WeatherUsageCorrelation />
                         {showNotification && <UpdateReminderNotification />}
                         <SmartAlerts readings={readings} tokens={tokens} />
+                        <PinnedChatAnswers />
                     </div>
                 </CardContent>
             </Card>
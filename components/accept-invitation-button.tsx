@@ -0,0 +1,41 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { acceptInvitation } from "@/actions/household-actions";
+import { useToast } from "@/hooks/use-toast";
+
+export function AcceptInvitationButton({
+    token,
+}: Readonly<{ token: string }>) {
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const handleAccept = async () => {
+        setIsLoading(true);
+        const result = await acceptInvitation(token);
+
+        if (result.success) {
+            toast({
+                title: "Invitation Accepted",
+                description: "You are now viewing the household's meters",
+            });
+            router.push("/");
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to accept invitation",
+                variant: "destructive",
+            });
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Button onClick={handleAccept} disabled={isLoading} className="w-full">
+            {isLoading ? "Joining..." : "Join Household"}
+        </Button>
+    );
+}
@@ -1,7 +1,7 @@
 /**
  * AddToken component allows users to input and add new electricity tokens,
- * displaying a form for entering token units and cost, and a table listing
- * the history of added tokens.
+ * displaying a purchase planner, a form for entering token units and cost,
+ * and a table listing the history of added tokens.
  *
  * @component
  * @param {Object} props - Component props.
@@ -29,6 +29,7 @@ import { Button } from "./ui/button";
 import { formatDate } from "@/lib/date-utils";
 import { useMediaQuery } from "react-responsive";
 import TokenMobileSummaryTable from "./usageSummaryComponents/TokenMobileSummaryTable";
+import TokenPurchasePlanner from "./token-purchase-planner";
 
 type AddTokenProps = {
     tokenUnits: string | number;
@@ -59,6 +60,12 @@ export default function AddToken({
      const isMobile = useMediaQuery({ maxWidth: 768 });
     return (
         <div className="grid gap-4">
+            <TokenPurchasePlanner
+                onApply={(units, cost) => {
+                    setTokenUnits(units);
+                    setTokenCost(cost);
+                }}
+            />
             <div className="flex flex-col sm:flex-row sm:items-center gap-4 space-y-1.5">
                 <div className="flex flex-1 flex-col space-y-1.5">
                     <Label htmlFor="tokenUnits">Token Units</Label>
@@ -0,0 +1,387 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useChat, type Message } from "ai/react";
+import {
+    MessageCircle,
+    Pencil,
+    Pin,
+    PinOff,
+    Plus,
+    RefreshCw,
+    Send,
+    Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ConfirmDeleteDialog } from "@/components/confirm-delete-dialog";
+import {
+    deleteChatThread,
+    getChatMessages,
+    getChatThreads,
+    renameChatThread,
+    setChatAnswerPinned,
+} from "@/actions/chat-actions";
+import { useToast } from "@/hooks/use-toast";
+import type { ChatMessage, ChatThread } from "@/lib/types";
+
+const SUGGESTED_QUESTIONS = [
+    "What are my peak usage hours?",
+    "How can I reduce my electricity bill?",
+    "Are there any unusual patterns in my usage?",
+    "What appliances might be using the most power?",
+];
+
+// Stored messages keep their database id, so answers can be pinned; those
+// still streaming have an id made up by useChat
+const STORED_ID_PREFIX = "stored-";
+
+const toUIMessage = (message: ChatMessage): Message => ({
+    id: `${STORED_ID_PREFIX}${message.id}`,
+    role: message.role,
+    content: message.content,
+    createdAt: message.createdAt,
+});
+
+const getStoredId = (message: Message) =>
+    message.id.startsWith(STORED_ID_PREFIX)
+        ? Number(message.id.slice(STORED_ID_PREFIX.length))
+        : null;
+
+/**
+ * Chat with the electricity assistant. Conversations are stored on the
+ * server, listed beside the chat to resume, rename or delete, and answers
+ * can be pinned to the dashboard.
+ */
+export function AIChat() {
+    const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [threadId, setThreadId] = useState<number | null>(null);
+    const [pinnedIds, setPinnedIds] = useState<Set<number>>(new Set());
+    const [renaming, setRenaming] = useState<ChatThread | null>(null);
+    const [deleting, setDeleting] = useState<ChatThread | null>(null);
+    const { toast } = useToast();
+
+    // The request body is built outside React's render, so it reads the ref
+    const threadIdRef = useRef<number | null>(null);
+    threadIdRef.current = threadId;
+
+    const loadThreads = useCallback(async () => {
+        setThreads(await getChatThreads());
+    }, []);
+
+    const {
+        messages,
+        setMessages,
+        input,
+        handleInputChange,
+        handleSubmit,
+        isLoading: isChatLoading,
+        error: chatError,
+    } = useChat({
+        api: "/api/electricity-chat",
+        experimental_prepareRequestBody: ({ messages }) => ({
+            message: messages.at(-1)?.content ?? "",
+            threadId: threadIdRef.current,
+        }),
+        onResponse: (response) => {
+            const id = Number(response.headers.get("X-Chat-Thread-Id"));
+            if (id) setThreadId(id);
+        },
+        onFinish: async () => {
+            // Reload the stored messages for their ids, and the thread list
+            // for a new or reordered thread
+            const id = threadIdRef.current;
+            if (id) showStoredMessages(await getChatMessages(id));
+            await loadThreads();
+        },
+        onError: (error) => {
+            console.error("Chat error:", error);
+            toast({
+                title: "Chat Error",
+                description:
+                    error.message ||
+                    "Failed to send message. Please try again.",
+                variant: "destructive",
+            });
+        },
+    });
+
+    useEffect(() => {
+        loadThreads();
+    }, [loadThreads]);
+
+    const showStoredMessages = (stored: ChatMessage[]) => {
+        setMessages(stored.map(toUIMessage));
+        setPinnedIds(new Set(stored.filter((m) => m.pinned).map((m) => m.id)));
+    };
+
+    const openThread = async (thread: ChatThread) => {
+        setThreadId(thread.id);
+        showStoredMessages(await getChatMessages(thread.id));
+    };
+
+    const startNewThread = () => {
+        setThreadId(null);
+        setMessages([]);
+        setPinnedIds(new Set());
+    };
+
+    const handleRename = async () => {
+        if (!renaming) return;
+        const result = await renameChatThread(renaming.id, renaming.title);
+        if (!result.success) {
+            toast({
+                title: "Error",
+                description: result.error,
+                variant: "destructive",
+            });
+            return;
+        }
+        setRenaming(null);
+        await loadThreads();
+    };
+
+    const handleDelete = async () => {
+        if (!deleting) return;
+        const result = await deleteChatThread(deleting.id);
+        if (!result.success) {
+            toast({
+                title: "Error",
+                description: result.error,
+                variant: "destructive",
+            });
+        } else if (deleting.id === threadId) {
+            startNewThread();
+        }
+        setDeleting(null);
+        await loadThreads();
+    };
+
+    const handleTogglePin = async (messageId: number) => {
+        const pinned = !pinnedIds.has(messageId);
+        const result = await setChatAnswerPinned(messageId, pinned);
+        if (!result.success) {
+            toast({
+                title: "Error",
+                description: result.error,
+                variant: "destructive",
+            });
+            return;
+        }
+        setPinnedIds((current) => {
+            const next = new Set(current);
+            if (pinned) next.add(messageId);
+            else next.delete(messageId);
+            return next;
+        });
+        toast({
+            title: pinned ? "Answer Pinned" : "Answer Unpinned",
+            description: pinned
+                ? "The answer is now shown on your dashboard."
+                : "The answer was removed from your dashboard.",
+        });
+    };
+
+    return (
+        <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            {/* Conversations */}
+            <div className="space-y-2">
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={startNewThread}
+                    disabled={isChatLoading}
+                >
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Chat
+                </Button>
+                <div className="max-h-96 overflow-y-auto space-y-1">
+                    {threads.map((thread) =>
+                        renaming?.id === thread.id ? (
+                            <Input
+                                key={thread.id}
+                                value={renaming.title}
+                                autoFocus
+                                onChange={(e) =>
+                                    setRenaming({
+                                        ...renaming,
+                                        title: e.target.value,
+                                    })
+                                }
+                                onBlur={handleRename}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter") handleRename();
+                                    if (e.key === "Escape") setRenaming(null);
+                                }}
+                            />
+                        ) : (
+                            <div
+                                key={thread.id}
+                                className={`group flex items-center gap-1 rounded-md px-2 py-1 text-sm ${
+                                    thread.id === threadId
+                                        ? "bg-muted font-medium"
+                                        : "hover:bg-muted/50"
+                                }`}
+                            >
+                                <button
+                                    type="button"
+                                    className="flex-1 truncate text-left"
+                                    onClick={() => openThread(thread)}
+                                    disabled={isChatLoading}
+                                    title={thread.title}
+                                >
+                                    {thread.title}
+                                </button>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    onClick={() => setRenaming(thread)}
+                                    aria-label="Rename conversation"
+                                >
+                                    <Pencil className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    onClick={() => setDeleting(thread)}
+                                    aria-label="Delete conversation"
+                                >
+                                    <Trash2 className="h-3 w-3" />
+                                </Button>
+                            </div>
+                        )
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-4">
+                {/* Chat Messages */}
+                <div className="h-96 overflow-y-auto border rounded-lg p-4 space-y-4 bg-gray-50 dark:bg-gray-900">
+                    {messages.length === 0 ? (
+                        <div className="text-center text-gray-500 py-8">
+                            <MessageCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                            <p>
+                                Start a conversation! Ask me anything about
+                                your electricity usage.
+                            </p>
+                            <div className="mt-4 text-sm space-y-1">
+                                <p className="font-medium">Try asking:</p>
+                                {SUGGESTED_QUESTIONS.map((question) => (
+                                    <p key={question}>&quot;{question}&quot;</p>
+                                ))}
+                            </div>
+                        </div>
+                    ) : (
+                        messages.map((message) => {
+                            const storedId = getStoredId(message);
+                            return (
+                                <div
+                                    key={message.id}
+                                    className={`flex ${
+                                        message.role === "user"
+                                            ? "justify-end"
+                                            : "justify-start"
+                                    }`}
+                                >
+                                    <div
+                                        className={`md:max-w-[80%] rounded-lg px-4 py-2 ${
+                                            message.role === "user"
+                                                ? "bg-gradient-to-r from-blue-600 to-indigo-600 text-white"
+                                                : "bg-white dark:bg-gray-800 border"
+                                        }`}
+                                    >
+                                        <div className="whitespace-pre-wrap">
+                                            {message.content}
+                                        </div>
+                                        {message.role === "assistant" &&
+                                            storedId !== null && (
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="sm"
+                                                className="mt-1 h-7 px-2 text-xs text-muted-foreground"
+                                                onClick={() =>
+                                                    handleTogglePin(storedId)
+                                                }
+                                            >
+                                                {pinnedIds.has(storedId) ? (
+                                                    <>
+                                                        <PinOff className="h-3 w-3 mr-1" />
+                                                        Unpin
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <Pin className="h-3 w-3 mr-1" />
+                                                        Pin to dashboard
+                                                    </>
+                                                )}
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })
+                    )}
+
+                    {isChatLoading && (
+                        <div className="flex justify-start">
+                            <div className="bg-white dark:bg-gray-800 border rounded-lg px-4 py-2">
+                                <div className="flex items-center gap-2">
+                                    <div className="animate-pulse">
+                                        The assistant is thinking...
+                                    </div>
+                                    <RefreshCw className="h-4 w-4 animate-spin" />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Chat Input */}
+                <form onSubmit={handleSubmit} className="flex gap-2">
+                    <Textarea
+                        value={input}
+                        onChange={handleInputChange}
+                        placeholder="Ask me about your electricity usage..."
+                        className="flex-1 min-h-[60px] resize-none"
+                        disabled={isChatLoading}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter" && !e.shiftKey) {
+                                e.preventDefault();
+                                handleSubmit(e);
+                            }
+                        }}
+                    />
+                    <Button
+                        type="submit"
+                        disabled={isChatLoading || !input.trim()}
+                        className="self-end bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                    >
+                        <Send className="h-4 w-4" />
+                    </Button>
+                </form>
+
+                {chatError && (
+                    <div className="text-red-600 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-lg">
+                        Error: {chatError.message}
+                    </div>
+                )}
+            </div>
+
+            <ConfirmDeleteDialog
+                open={deleting !== null}
+                title="Delete Conversation"
+                description={`"${deleting?.title}" and any answers pinned from it will be deleted. This cannot be undone.`}
+                onOpenChange={(open) => !open && setDeleting(null)}
+                onConfirm={handleDelete}
+            />
+        </div>
+    );
+}
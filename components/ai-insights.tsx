@@ -26,7 +26,6 @@ import {
     CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -35,14 +34,13 @@ import {
     MessageCircle,
     Lightbulb,
     RefreshCw,
-    Send,
     Sparkles,
     AlertCircle,
     Settings,
     Star,
 } from "lucide-react";
 import { generateElectricityInsights } from "@/actions/ai-analysis-actions";
-import { useChat } from "ai/react";
+import { AIChat } from "@/components/ai-chat";
 import { useToast } from "@/hooks/use-toast";
 
 interface AIInsightsProps {
@@ -56,28 +54,6 @@ export default function AIInsights({ hasData }: Readonly<AIInsightsProps>) {
     const [configError, setConfigError] = useState<string>("");
     const { toast } = useToast();
 
-    // Chat functionality using AI SDK's useChat hook
-    const {
-        messages,
-        input,
-        handleInputChange,
-        handleSubmit,
-        isLoading: isChatLoading,
-        error: chatError,
-    } = useChat({
-        api: "/api/electricity-chat",
-        onError: (error) => {
-            console.error("Chat error:", error);
-            toast({
-                title: "Chat Error",
-                description:
-                    error.message ||
-                    "Failed to send message. Please try again.",
-                variant: "destructive",
-            });
-        },
-    });
-
     // Generate initial insights when component mounts
     useEffect(() => {
         if (hasData && !insights && !configError) {
@@ -100,18 +76,33 @@ export default function AIInsights({ hasData }: Readonly<AIInsightsProps>) {
         setConfigError("");
 
         try {
-            const newInsights = await generateElectricityInsights();
+            const result = await generateElectricityInsights();
 
-            // Check if the response indicates a configuration error
-            if (
-                newInsights.includes("Configuration Error") ||
-                newInsights.includes("API key")
-            ) {
-                setConfigError(newInsights);
-                setInsights("");
+            if ("error" in result) {
+                if (result.configuration) {
+                    setConfigError(result.error);
+                    setInsights("");
+                } else {
+                    setInsights(result.error);
+                }
             } else {
-                setInsights(newInsights);
-                setLastGenerated(new Date());
+                const { report } = result;
+                setInsights(
+                    report.format === "markdown"
+                        ? report.content
+                        : [
+                              report.content.summary,
+                              "**Key Findings**",
+                              ...report.content.keyFindings.map(
+                                  (finding) => `- ${finding}`
+                              ),
+                              "**Recommended Actions**",
+                              ...report.content.actions.map(
+                                  (action) => `- ${action.title}`
+                              ),
+                          ].join("\n")
+                );
+                setLastGenerated(new Date(result.report.createdAt));
                 toast({
                     title: "Insights Generated",
                     description:
@@ -430,119 +421,7 @@ export default function AIInsights({ hasData }: Readonly<AIInsightsProps>) {
                                     </p>
                                 </div>
                             ) : (
-                                <div className="space-y-4">
-                                    {/* Chat Messages */}
-                                    <div className="h-96 overflow-y-auto border rounded-lg p-4 space-y-4 bg-gray-50 dark:bg-gray-900">
-                                        {messages.length === 0 ? (
-                                            <div className="text-center text-gray-500 py-8">
-                                                <MessageCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                                                <p>
-                                                    Start a conversation! Ask me
-                                                    anything about your
-                                                    electricity usage.
-                                                </p>
-                                                <div className="mt-4 text-sm space-y-1">
-                                                    <p className="font-medium">
-                                                        Try asking:
-                                                    </p>
-                                                    <p>
-                                                        &quot;What are my peak usage
-                                                        hours?&quot;
-                                                    </p>
-                                                    <p>
-                                                        &quot;How can I reduce my
-                                                        electricity bill?&quot;
-                                                    </p>
-                                                    <p>
-                                                        &quot;Are there any unusual
-                                                        patterns in my usage?&quot;
-                                                    </p>
-                                                    <p>
-                                                        &quot;What appliances might
-                                                        be using the most
-                                                        power?&quot;
-                                                    </p>
-                                                </div>
-                                            </div>
-                                        ) : (
-                                            messages.map((message) => (
-                                                <div
-                                                    key={message.id}
-                                                    className={`flex ${
-                                                        message.role === "user"
-                                                            ? "justify-end"
-                                                            : "justify-start"
-                                                    }`}
-                                                >
-                                                    <div
-                                                        className={`md:max-w-[80%] rounded-lg px-4 py-2 ${
-                                                            message.role ===
-                                                            "user"
-                                                                ? "bg-gradient-to-r from-blue-600 to-indigo-600 text-white"
-                                                                : "bg-white dark:bg-gray-800 border"
-                                                        }`}
-                                                    >
-                                                        <div className="whitespace-pre-wrap">
-                                                            {message.content}
-                                                        </div>
-                                                    </div>
-                                                </div>
-                                            ))
-                                        )}
-
-                                        {isChatLoading && (
-                                            <div className="flex justify-start">
-                                                <div className="bg-white dark:bg-gray-800 border rounded-lg px-4 py-2">
-                                                    <div className="flex items-center gap-2">
-                                                        <div className="animate-pulse">
-                                                            Google Gemini is
-                                                            thinking...
-                                                        </div>
-                                                        <RefreshCw className="h-4 w-4 animate-spin" />
-                                                    </div>
-                                                </div>
-                                            </div>
-                                        )}
-                                    </div>
-
-                                    {/* Chat Input */}
-                                    <form
-                                        onSubmit={handleSubmit}
-                                        className="flex gap-2"
-                                    >
-                                        <Textarea
-                                            value={input}
-                                            onChange={handleInputChange}
-                                            placeholder="Ask me about your electricity usage..."
-                                            className="flex-1 min-h-[60px] resize-none"
-                                            disabled={isChatLoading}
-                                            onKeyDown={(e) => {
-                                                if (
-                                                    e.key === "Enter" &&
-                                                    !e.shiftKey
-                                                ) {
-                                                    e.preventDefault();
-                                                    handleSubmit(e);
-                                                }
-                                            }}
-                                        />
-                                        <Button
-                                            type="submit"
-                                            disabled={
-                                                isChatLoading || !input.trim()
-                                            }
-                                            className="self-end bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-                                        >
-                                            <Send className="h-4 w-4" />
-                                        </Button>
-                                    </form>
-
-                                    {chatError && (
-                                        <div className="text-red-600 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-lg">
-                                            Error: {chatError.message}
-                                        </div>
-                                    )}
-                                </div>
+                                <AIChat />
                             )}
                         </CardContent>
                     </Card>
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Zap, Settings } from "lucide-react";
 import { SignInButton } from "@/components/auth/sign-in-button";
 import { Button } from "@/components/ui/button";
@@ -15,17 +16,63 @@ import {
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ThemeToggle } from "./theme-toggle";
+import { TariffSettingsDialog } from "@/components/tariff-settings-dialog";
+import { ReadingScheduleDialog } from "@/components/reading-schedule-dialog";
+import { EmailDigestDialog } from "@/components/email-digest-dialog";
+import { BudgetDialog } from "@/components/budget-dialog";
+import { MeterManagementDialog } from "@/components/meter-management-dialog";
+import { HouseholdDialog } from "@/components/household-dialog";
+import { BackupRestoreDialog } from "@/components/backup-restore-dialog";
+import { SyncStatusIndicator } from "@/components/sync-status-indicator";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { selectMeter } from "@/actions/meter-actions";
+import type { Household, Meter } from "@/lib/types";
 
 interface AppHeaderProps {
     meterNumber?: string | null;
     showMeterDialog?: boolean;
+    meters?: Meter[];
+    selectedMeterId?: number | "all" | null;
+    activeHousehold?: Household | null;
 }
 
 export function AppHeader({
     meterNumber,
     showMeterDialog = false,
+    meters = [],
+    selectedMeterId = null,
+    activeHousehold = null,
 }: Readonly<AppHeaderProps>) {
     const [meterDialogOpen, setMeterDialogOpen] = useState(showMeterDialog);
+    const [tariffDialogOpen, setTariffDialogOpen] = useState(false);
+    const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+    const [digestDialogOpen, setDigestDialogOpen] = useState(false);
+    const [budgetDialogOpen, setBudgetDialogOpen] = useState(false);
+    const [manageMetersOpen, setManageMetersOpen] = useState(false);
+    const [householdDialogOpen, setHouseholdDialogOpen] = useState(false);
+    const [backupDialogOpen, setBackupDialogOpen] = useState(false);
+    const router = useRouter();
+
+    const selectedMeter = meters.find((m) => m.id === selectedMeterId);
+    const displayedMeterNumber =
+        selectedMeterId === "all"
+            ? null
+            : selectedMeter?.meter_number ?? meterNumber;
+    const hasMeters = meters.length > 0 || Boolean(meterNumber);
+    const unsetTimezoneMeter = meters.find((m) => !m.timezone_confirmed);
+
+    const handleMeterChange = async (value: string) => {
+        const result = await selectMeter(value === "all" ? "all" : Number(value));
+        if (result.success) {
+            router.refresh();
+        }
+    };
 
     return (
         <>
@@ -43,21 +90,58 @@ export function AppHeader({
                         </span>
                     </Link>
 
-                    {meterNumber && (
+                    {activeHousehold && !activeHousehold.isOwner && (
+                        <div className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-muted text-xs">
+                            <span className="font-medium">
+                                {activeHousehold.name}
+                            </span>
+                            <span className="text-muted-foreground capitalize">
+                                ({activeHousehold.role})
+                            </span>
+                        </div>
+                    )}
+
+                    {meters.length > 1 && selectedMeterId !== null && (
+                        <Select
+                            value={String(selectedMeterId)}
+                            onValueChange={handleMeterChange}
+                        >
+                            <SelectTrigger
+                                className="h-8 w-[140px] sm:w-[180px]"
+                                aria-label="Select meter"
+                            >
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {meters.map((meter) => (
+                                    <SelectItem
+                                        key={meter.id}
+                                        value={String(meter.id)}
+                                    >
+                                        {meter.nickname}
+                                    </SelectItem>
+                                ))}
+                                <SelectItem value="all">All meters</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    )}
+
+                    {displayedMeterNumber && (
                         <div className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-muted">
                             <span className="text-xs font-medium text-muted-foreground">
                                 Meter:
                             </span>
                             <span className="text-sm font-mono font-semibold">
-                                {meterNumber}
+                                {displayedMeterNumber}
                             </span>
                         </div>
                     )}
                 </div>
 
                 <div className="flex items-center gap-2">
+                    <SyncStatusIndicator />
                     <ThemeToggle />
-                    {meterNumber && (
+                    {hasMeters && (
                         <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                                 <Button variant="ghost" size="icon">
@@ -73,6 +157,41 @@ export function AppHeader({
                                 >
                                     Update Meter Number
                                 </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setManageMetersOpen(true)}
+                                >
+                                    Manage Meters
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setHouseholdDialogOpen(true)}
+                                >
+                                    Household
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setTariffDialogOpen(true)}
+                                >
+                                    Tariff Settings
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setBudgetDialogOpen(true)}
+                                >
+                                    Monthly Budget
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setScheduleDialogOpen(true)}
+                                >
+                                    Reading Schedule
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setDigestDialogOpen(true)}
+                                >
+                                    Email Digest
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setBackupDialogOpen(true)}
+                                >
+                                    Backup & Restore
+                                </DropdownMenuItem>
                             </DropdownMenuContent>
                         </DropdownMenu>
                     )}
@@ -80,12 +199,57 @@ export function AppHeader({
                 </div>
             </div>
 
+            {unsetTimezoneMeter && (
+                <div className="mx-2 mt-2 flex items-center justify-between gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm dark:border-amber-800 dark:bg-amber-950">
+                    <span>
+                        Choose the timezone of {unsetTimezoneMeter.nickname}.
+                        Its readings are split into periods in{" "}
+                        {unsetTimezoneMeter.timezone} until you do.
+                    </span>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setManageMetersOpen(true)}
+                    >
+                        Set timezone
+                    </Button>
+                </div>
+            )}
+
             <MeterNumberDialog
                 open={meterDialogOpen}
                 onOpenChange={setMeterDialogOpen}
                 currentMeterNumber={meterNumber}
                 isFirstTime={showMeterDialog}
             />
+            <TariffSettingsDialog
+                open={tariffDialogOpen}
+                onOpenChange={setTariffDialogOpen}
+            />
+            <BudgetDialog
+                open={budgetDialogOpen}
+                onOpenChange={setBudgetDialogOpen}
+            />
+            <ReadingScheduleDialog
+                open={scheduleDialogOpen}
+                onOpenChange={setScheduleDialogOpen}
+            />
+            <EmailDigestDialog
+                open={digestDialogOpen}
+                onOpenChange={setDigestDialogOpen}
+            />
+            <MeterManagementDialog
+                open={manageMetersOpen}
+                onOpenChange={setManageMetersOpen}
+            />
+            <HouseholdDialog
+                open={householdDialogOpen}
+                onOpenChange={setHouseholdDialogOpen}
+            />
+            <BackupRestoreDialog
+                open={backupDialogOpen}
+                onOpenChange={setBackupDialogOpen}
+            />
         </>
     );
 }
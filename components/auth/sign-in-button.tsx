@@ -12,6 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { clearCachedPages } from "@/lib/offline-outbox"
 
 export function SignInButton() {
   const user = useUser()
@@ -67,6 +68,7 @@ export function SignInButton() {
         </DropdownMenuItem>
         <DropdownMenuItem
           onClick={async () => {
+            await clearCachedPages()
             await user.signOut()
             window.location.href = "/"
           }}
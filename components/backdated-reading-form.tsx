@@ -2,14 +2,16 @@
  * BackdatedReadingForm component allows users to submit a backdated electricity meter reading.
  *
  * This form provides UI controls for selecting a date, time (with presets and custom input),
- * and entering a meter reading value. The period (morning, evening, night) is automatically
- * determined based on the selected time. Upon submission, the form combines the selected date
+ * and entering a meter reading value. The period is automatically determined from the selected
+ * time using the reading schedule, whose reminder times are offered as presets. Upon submission, the form combines the selected date
  * and time into a timestamp and calls the provided `onSubmit` handler with the reading data.
+ * A reading that fails validation against the readings around it can be saved anyway with an override.
  *
  * @component
  * @param {Object} props - Component props.
- * @param {(reading: Omit<ElectricityReading, "id" | "reading_id">) => Promise<void>} props.onSubmit
- *   Callback function invoked when the form is submitted. Receives the reading data (without `id` and `reading_id`).
+ * @param {(reading: Omit<ElectricityReading, "id" | "reading_id">, override?: ReadingOverride) => Promise<void>} props.onSubmit
+ *   Callback function invoked when the form is submitted. Receives the reading data (without `id` and `reading_id`),
+ *   and the override when the user saves a reading despite its validation issues.
  * @param {boolean} props.isSubmitting
  *   Indicates whether the form is currently submitting, disabling the submit button and showing a loading state.
  *
@@ -44,13 +46,28 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { format } from "date-fns";
 import { CalendarIcon, Clock, Info, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { ElectricityReading } from "@/lib/types";
-import { getPeriodFromHour, logTimezoneInfo } from "@/lib/timezone-utils";
+import type {
+    ElectricityReading,
+    ReadingOverride,
+    ReadingValidation,
+} from "@/lib/types";
+import { logTimezoneInfo } from "@/lib/timezone-utils";
+import {
+    describePeriod,
+    formatPeriodHours,
+    formatReminderTime,
+    getPeriodForHour,
+} from "@/lib/reading-schedule";
+import { useElectricity } from "@/contexts/ElectricityContext";
 import { ProtectedContent } from "@/components/auth/protected-content";
+import { ReadingValidationAlert } from "./reading-validation-alert";
+
+type BackdatedReadingData = Omit<ElectricityReading, "id" | "reading_id">;
 
 interface BackdatedReadingFormProps {
     onSubmit: (
-        reading: Omit<ElectricityReading, "id" | "reading_id">
+        reading: BackdatedReadingData,
+        override?: ReadingOverride
     ) => Promise<void>;
     isSubmitting: boolean;
 }
@@ -59,12 +76,26 @@ export default function BackdatedReadingForm({
     onSubmit,
     isSubmitting,
 }: Readonly<BackdatedReadingFormProps>) {
+    const { state } = useElectricity();
+    const { schedule } = state;
+    // Default to the last reminder of the day
+    const lastReminder =
+        schedule.periods
+            .map((p) => p.reminder_time)
+            .sort((a, b) => a.localeCompare(b))
+            .at(-1) ?? "21:00";
     const [date, setDate] = useState<Date | undefined>(new Date());
-    const [time, setTime] = useState("21:00"); // Default to night period (9:00 PM)
-    const [customTime, setCustomTime] = useState("21:00");
+    const [time, setTime] = useState(lastReminder);
+    const [customTime, setCustomTime] = useState(lastReminder);
     const [reading, setReading] = useState("");
     const [showSuccess, setShowSuccess] = useState(false);
     const [lastSubmittedTime, setLastSubmittedTime] = useState<string>("");
+    // Reading held back by validation, until it is overridden or cancelled
+    const [pending, setPending] = useState<{
+        data: BackdatedReadingData;
+        label: string;
+        validation: ReadingValidation;
+    } | null>(null);
   
     // Get current date and time for validation
     const now = useMemo(() => new Date(), []);
@@ -99,59 +130,36 @@ export default function BackdatedReadingForm({
 
     // Get available time options based on current time (if today is selected)
     const getAvailableTimeOptions = useMemo(() => {
-        if (!isSelectedDateToday) {
-            // If not today, all times are available
-            return [
-                {
-                    value: "07:00",
-                    label: "7:00 AM (Morning)",
-                    period: "morning",
-                },
-                {
-                    value: "17:00",
-                    label: "5:00 PM (Evening)",
-                    period: "evening",
-                },
-                { value: "21:00", label: "9:00 PM (Night)", period: "night" },
-                { value: "custom", label: "Custom Time", period: null },
-            ];
-        }
-
-        // If today, only show times that have already passed
-        const options = [];
-
-        // Morning option (7:00 AM) - available if current time is after 7:00 AM
-        if (currentHour > 7 || (currentHour === 7 && currentMinute > 0)) {
-            options.push({
-                value: "07:00",
-                label: "7:00 AM (Morning)",
-                period: "morning",
-            });
-        }
-
-        // Evening option (5:00 PM) - available if current time is after 5:00 PM
-        if (currentHour > 17 || (currentHour === 17 && currentMinute > 0)) {
-            options.push({
-                value: "17:00",
-                label: "5:00 PM (Evening)",
-                period: "evening",
-            });
-        }
-
-        // Night option (9:00 PM) - available if current time is after 9:00 PM
-        if (currentHour > 21 || (currentHour === 21 && currentMinute > 0)) {
-            options.push({
-                value: "21:00",
-                label: "9:00 PM (Night)",
-                period: "night",
-            });
-        }
+        const options: {
+            value: string;
+            label: string;
+            period: string | null;
+        }[] = [...schedule.periods]
+            .sort((a, b) => a.reminder_time.localeCompare(b.reminder_time))
+            .filter((period) => {
+                // If today, only show times that have already passed
+                if (!isSelectedDateToday) return true;
+                const [hours, minutes] = period.reminder_time
+                    .split(":")
+                    .map(Number);
+                return (
+                    currentHour > hours ||
+                    (currentHour === hours && currentMinute > minutes)
+                );
+            })
+            .map((period) => ({
+                value: period.reminder_time,
+                label: `${formatReminderTime(period.reminder_time)} (${
+                    period.name
+                })`,
+                period: period.key,
+            }));
 
         // Custom time is always available (with validation)
         options.push({ value: "custom", label: "Custom Time", period: null });
 
         return options;
-    }, [isSelectedDateToday, currentHour, currentMinute]);
+    }, [schedule, isSelectedDateToday, currentHour, currentMinute]);
 
     // Validate custom time input
     const isCustomTimeValid = useMemo(() => {
@@ -189,19 +197,51 @@ export default function BackdatedReadingForm({
         }
 
         // Calculate period from timestamp for consistency
-        const calculatedPeriod = getPeriodFromHour(timestamp.getHours());
+        const calculatedPeriod = getPeriodForHour(
+            schedule,
+            timestamp.getHours()
+        );
 
         // Debug logging
         logTimezoneInfo("[CLIENT] Submitting backdated reading", timestamp);
 
-        await onSubmit({
-            timestamp,
-            reading: Number(reading),
-            period: calculatedPeriod,
-        });
+        await submitReading(
+            {
+                timestamp,
+                reading: Number(reading),
+                period: calculatedPeriod,
+            },
+            `${format(date!, "PP")} at ${timeToUse}`
+        );
+    };
+
+    const submitReading = async (
+        data: BackdatedReadingData,
+        label: string,
+        override?: ReadingOverride
+    ) => {
+        try {
+            await onSubmit(data, override);
+        } catch (error) {
+            if (
+                typeof error === "object" &&
+                error !== null &&
+                "validation" in error
+            ) {
+                setPending({
+                    data,
+                    label,
+                    validation: (error as { validation: ReadingValidation })
+                        .validation,
+                });
+                return;
+            }
+            throw error;
+        }
+        setPending(null);
 
         // Show success message
-        setLastSubmittedTime(`${format(date!, "PP")} at ${timeToUse}`);
+        setLastSubmittedTime(label);
         setShowSuccess(true);
         setTimeout(() => setShowSuccess(false), 5000);
 
@@ -248,23 +288,26 @@ export default function BackdatedReadingForm({
     // Get the current detected period for display
     const currentTimeForPeriod = time === "custom" ? customTime : time;
     const [hours] = currentTimeForPeriod.split(":").map(Number);
-    const detectedPeriod = getPeriodFromHour(hours);
-
-    const getPeriodDisplayName = (period: string) => {
-        switch (period) {
-            case "morning":
-                return "Morning (5:00 AM - 11:59 AM)";
-            case "evening":
-                return "Evening (12:00 PM - 7:59 PM)";
-            case "night":
-                return "Night (8:00 PM - 4:59 AM)";
-            default:
-                return period;
-        }
-    };
+    const detectedPeriod = getPeriodForHour(schedule, hours);
+
+    const getPeriodDisplayName = (period: string) =>
+        describePeriod(schedule, period);
 
     return (
         <div className="space-y-4">
+            {/* Validation issues of the submitted reading */}
+            {pending && (
+                <ReadingValidationAlert
+                    reading={pending.data.reading}
+                    validation={pending.validation}
+                    isSubmitting={isSubmitting}
+                    onOverride={(override) =>
+                        submitReading(pending.data, pending.label, override)
+                    }
+                    onCancel={() => setPending(null)}
+                />
+            )}
+
             {/* Success message */}
             {showSuccess && (
                 <Alert className="border-green-200 bg-green-50 dark:bg-green-950">
@@ -322,9 +365,11 @@ export default function BackdatedReadingForm({
                             </strong>
                         </p>
                         <div className="text-sm text-blue-700 dark:text-blue-300">
-                            <p>• Morning: 5:00 AM - 11:59 AM</p>
-                            <p>• Evening: 12:00 PM - 7:59 PM</p>
-                            <p>• Night: 8:00 PM - 4:59 AM</p>
+                            {schedule.periods.map((period) => (
+                                <p key={period.key}>
+                                    • {period.name}: {formatPeriodHours(period)}
+                                </p>
+                            ))}
                         </div>
                     </div>
                 </AlertDescription>
@@ -488,7 +533,7 @@ export default function BackdatedReadingForm({
                         <Button
                             type="submit"
                             className="w-full"
-                            disabled={isSubmitting || !isFormValid}
+                            disabled={isSubmitting || !isFormValid || pending !== null}
                         >
                             {isSubmitting ? (
                                 <div className="flex items-center gap-2">
@@ -0,0 +1,299 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    createBackup,
+    previewRestore,
+    restoreBackup,
+    type RestoreResult,
+} from "@/actions/backup-actions";
+import { useToast } from "@/hooks/use-toast";
+import { getLocalDateString } from "@/lib/timezone-utils";
+import type { RestoreMode, RestoreSummary } from "@/lib/types";
+
+interface BackupRestoreDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for downloading a backup archive of the household and restoring
+ * one, either merged into the existing data or replacing it.
+ */
+export function BackupRestoreDialog({
+    open,
+    onOpenChange,
+}: Readonly<BackupRestoreDialogProps>) {
+    const [archive, setArchive] = useState<unknown>(null);
+    const [fileName, setFileName] = useState("");
+    const [mode, setMode] = useState<RestoreMode>("merge");
+    const [summary, setSummary] = useState<RestoreSummary | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const reset = () => {
+        setArchive(null);
+        setFileName("");
+        setSummary(null);
+        setErrors([]);
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+    };
+
+    const showError = (description: string) => {
+        toast({ title: "Error", description, variant: "destructive" });
+    };
+
+    const showPreview = (result: RestoreResult) => {
+        setSummary(result.summary ?? null);
+        setErrors(result.errors ?? []);
+        if (!result.success && !result.errors) {
+            showError(result.error || "Failed to check backup");
+        }
+    };
+
+    const handleBackup = async () => {
+        setIsLoading(true);
+        try {
+            const backup = await createBackup();
+            const url = window.URL.createObjectURL(
+                new Blob([JSON.stringify(backup, null, 2)], {
+                    type: "application/json",
+                })
+            );
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `electricity-backup-${getLocalDateString()}.json`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            window.URL.revokeObjectURL(url);
+        } catch (error) {
+            showError(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to create backup"
+            );
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        reset();
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(await file.text());
+        } catch {
+            setErrors(["The file is not valid JSON"]);
+            return;
+        }
+
+        setArchive(parsed);
+        setFileName(file.name);
+        setIsLoading(true);
+        showPreview(await previewRestore(parsed, mode));
+        setIsLoading(false);
+    };
+
+    const handleModeChange = async (value: RestoreMode) => {
+        setMode(value);
+        if (!archive) return;
+        setIsLoading(true);
+        showPreview(await previewRestore(archive, value));
+        setIsLoading(false);
+    };
+
+    const handleRestore = async () => {
+        setIsLoading(true);
+        const result = await restoreBackup(archive, mode);
+        setIsLoading(false);
+
+        if (!result.success || !result.summary) {
+            setErrors(result.errors ?? []);
+            showError(result.error || "Failed to restore backup");
+            return;
+        }
+
+        toast({
+            title: "Backup Restored",
+            description: `Restored ${result.summary.readings} readings and ${result.summary.tokens} token purchases`,
+        });
+        handleOpenChange(false);
+        router.refresh();
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Backup & Restore</DialogTitle>
+                    <DialogDescription>
+                        Download everything in this household as a backup
+                        file, or restore one to recover data or move it to
+                        another account.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6">
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Backup</h4>
+                        <p className="text-sm text-muted-foreground">
+                            Includes the meter number, meters, tariffs, the
+                            reading schedule, readings and token purchases.
+                        </p>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleBackup}
+                            disabled={isLoading}
+                        >
+                            <Download className="h-4 w-4 mr-2" />
+                            Download Backup
+                        </Button>
+                    </div>
+
+                    <div className="space-y-3 border-t pt-4">
+                        <h4 className="text-sm font-medium">Restore</h4>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="restore-file">
+                                    Backup file
+                                </Label>
+                                <Input
+                                    id="restore-file"
+                                    type="file"
+                                    accept=".json,application/json"
+                                    onChange={handleFileChange}
+                                    disabled={isLoading}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="restore-mode">Mode</Label>
+                                <Select
+                                    value={mode}
+                                    onValueChange={(value) =>
+                                        handleModeChange(value as RestoreMode)
+                                    }
+                                    disabled={isLoading}
+                                >
+                                    <SelectTrigger id="restore-mode">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="merge">
+                                            Merge with existing data
+                                        </SelectItem>
+                                        <SelectItem value="replace">
+                                            Replace existing data
+                                        </SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        {errors.length > 0 && (
+                            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+                                <p className="font-medium">
+                                    This backup cannot be restored:
+                                </p>
+                                <ul className="list-disc pl-5">
+                                    {errors.map((error) => (
+                                        <li key={error}>{error}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        {summary && (
+                            <div className="space-y-2 text-sm">
+                                <p>
+                                    {fileName}: {summary.readings} readings
+                                    and {summary.tokens} token purchases will
+                                    be restored
+                                    {summary.unchanged > 0 &&
+                                        `, ${summary.unchanged} entries are already present`}
+                                    .
+                                </p>
+                                {mode === "replace" && (
+                                    <p className="flex items-center gap-2 text-amber-600">
+                                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                                        All current readings, tokens, meters
+                                        and tariffs of this household will be
+                                        deleted first, and its reading
+                                        schedule replaced.
+                                    </p>
+                                )}
+                                {summary.conflicts.length > 0 && (
+                                    <div className="max-h-48 overflow-y-auto rounded-md border">
+                                        {summary.conflicts.map((conflict) => (
+                                            <div
+                                                key={`${conflict.entity_type}-${conflict.entity_id}-${conflict.resolution}`}
+                                                className="border-b p-2 last:border-b-0"
+                                            >
+                                                <div className="font-mono text-xs">
+                                                    {conflict.entity_id}
+                                                </div>
+                                                <div className="text-muted-foreground">
+                                                    {conflict.message}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <Button
+                                    type="button"
+                                    variant={
+                                        mode === "replace"
+                                            ? "destructive"
+                                            : "default"
+                                    }
+                                    onClick={handleRestore}
+                                    disabled={isLoading}
+                                    className="w-full"
+                                >
+                                    {isLoading && (
+                                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    )}
+                                    {mode === "replace"
+                                        ? "Replace With Backup"
+                                        : "Merge Backup"}
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    deleteMonthlyBudget,
+    getMonthlyBudget,
+    saveMonthlyBudget,
+} from "@/actions/budget-actions";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_BUDGET_THRESHOLDS, validateBudget } from "@/lib/budget";
+import type { BudgetKind, MonthlyBudget } from "@/lib/types";
+
+interface BudgetDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// Thresholds are edited as a comma-separated list, e.g. "50, 80, 100"
+const parseThresholds = (value: string) =>
+    value
+        .split(",")
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .map(Number);
+
+/**
+ * Dialog for the household's monthly budget: an amount of money to spend on
+ * tokens or of kWh to use, and the percentages at which to alert.
+ */
+export function BudgetDialog({
+    open,
+    onOpenChange,
+}: Readonly<BudgetDialogProps>) {
+    const [hasBudget, setHasBudget] = useState(false);
+    const [kind, setKind] = useState<BudgetKind>("money");
+    const [amount, setAmount] = useState("");
+    const [thresholds, setThresholds] = useState(
+        DEFAULT_BUDGET_THRESHOLDS.join(", ")
+    );
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    useEffect(() => {
+        if (!open) return;
+        getMonthlyBudget()
+            .then((budget) => {
+                setHasBudget(budget !== null);
+                setKind(budget?.kind ?? "money");
+                setAmount(budget ? String(budget.amount) : "");
+                setThresholds(
+                    (
+                        budget?.alertThresholds ?? DEFAULT_BUDGET_THRESHOLDS
+                    ).join(", ")
+                );
+            })
+            .catch((error) =>
+                console.error("Error loading monthly budget:", error)
+            );
+    }, [open]);
+
+    const budget: MonthlyBudget = {
+        kind,
+        amount: Number.parseFloat(amount),
+        alertThresholds: parseThresholds(thresholds),
+    };
+    const error = amount ? validateBudget(budget) : null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (error) return;
+        setIsLoading(true);
+
+        const result = await saveMonthlyBudget(budget);
+
+        if (result.success) {
+            toast({
+                title: "Budget Saved",
+                description:
+                    "Progress against the budget is shown on the dashboard",
+            });
+            onOpenChange(false);
+            router.refresh();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to save budget",
+                variant: "destructive",
+            });
+        }
+
+        setIsLoading(false);
+    };
+
+    const handleRemove = async () => {
+        setIsLoading(true);
+
+        const result = await deleteMonthlyBudget();
+
+        if (result.success) {
+            toast({
+                title: "Budget Removed",
+                description: "The monthly budget has been removed",
+            });
+            onOpenChange(false);
+            router.refresh();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to remove budget",
+                variant: "destructive",
+            });
+        }
+
+        setIsLoading(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle>Monthly Budget</DialogTitle>
+                    <DialogDescription>
+                        Set a target for the calendar month across all meters,
+                        as money spent on tokens or kWh used.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="grid gap-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="budget-kind">Budget in</Label>
+                        <Select
+                            value={kind}
+                            onValueChange={(value) =>
+                                setKind(value as BudgetKind)
+                            }
+                        >
+                            <SelectTrigger id="budget-kind">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="money">
+                                    Money spent (R)
+                                </SelectItem>
+                                <SelectItem value="kwh">
+                                    Units used (kWh)
+                                </SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="budget-amount">
+                            {kind === "money" ? "Amount (R)" : "Units (kWh)"}
+                        </Label>
+                        <Input
+                            id="budget-amount"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder={
+                                kind === "money" ? "e.g., 800" : "e.g., 350"
+                            }
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            required
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="budget-thresholds">
+                            Alert at (% of budget)
+                        </Label>
+                        <Input
+                            id="budget-thresholds"
+                            placeholder="50, 80, 100"
+                            value={thresholds}
+                            onChange={(e) => setThresholds(e.target.value)}
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    <DialogFooter>
+                        {hasBudget && (
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleRemove}
+                                disabled={isLoading}
+                            >
+                                Remove Budget
+                            </Button>
+                        )}
+                        <Button type="submit" disabled={isLoading || !!error}>
+                            Save Budget
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { getMeters } from "@/actions/meter-actions";
+import { toast } from "@/hooks/use-toast";
+import type { ExportDataset, ExportFormat, Meter } from "@/lib/types";
+
+const SELECTED_METER = "selected";
+
+/**
+ * Downloads a file from the export endpoint
+ *
+ * @param params - Query parameters of `/api/export`
+ */
+export async function downloadExport(params: Record<string, string>) {
+    const response = await fetch(
+        `/api/export?${new URLSearchParams(params).toString()}`
+    );
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Export failed: ${response.status}`);
+    }
+
+    const fileName =
+        /filename="([^"]+)"/.exec(
+            response.headers.get("Content-Disposition") ?? ""
+        )?.[1] ?? "electricity-export";
+
+    const url = window.URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+}
+
+/**
+ * Export of raw readings, token purchases and daily usage with costs as
+ * CSV, JSON or XLSX, limited to a date range and meter.
+ */
+export default function DataExport() {
+    const [format, setFormat] = useState<ExportFormat>("xlsx");
+    const [dataset, setDataset] = useState<ExportDataset>("daily");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [meter, setMeter] = useState(SELECTED_METER);
+    const [meters, setMeters] = useState<Meter[]>([]);
+    const [exporting, setExporting] = useState(false);
+
+    useEffect(() => {
+        getMeters()
+            .then(setMeters)
+            .catch((error) => console.error("Error loading meters:", error));
+    }, []);
+
+    const handleExport = async () => {
+        if (from && to && from > to) {
+            toast({
+                title: "Invalid Date Range",
+                description: "The start date must be before the end date",
+                variant: "destructive",
+            });
+            return;
+        }
+
+        setExporting(true);
+        try {
+            const params: Record<string, string> = { format, dataset };
+            if (from) params.from = from;
+            if (to) params.to = to;
+            if (meter !== SELECTED_METER) params.meter = meter;
+
+            await downloadExport(params);
+            toast({
+                title: "Export Complete",
+                description: "Your data has been downloaded",
+            });
+        } catch (error) {
+            toast({
+                title: "Export Failed",
+                description:
+                    error instanceof Error ? error.message : "Unknown error",
+                variant: "destructive",
+            });
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <FileSpreadsheet className="h-5 w-5 text-green-600" />
+                    Export Data
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                <div className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="export-format">Format</Label>
+                            <Select
+                                value={format}
+                                onValueChange={(value) =>
+                                    setFormat(value as ExportFormat)
+                                }
+                            >
+                                <SelectTrigger id="export-format">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="xlsx">
+                                        Excel (XLSX)
+                                    </SelectItem>
+                                    <SelectItem value="csv">CSV</SelectItem>
+                                    <SelectItem value="json">JSON</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="export-dataset">Data</Label>
+                            <Select
+                                value={format === "csv" ? dataset : "all"}
+                                onValueChange={(value) =>
+                                    setDataset(value as ExportDataset)
+                                }
+                                disabled={format !== "csv"}
+                            >
+                                <SelectTrigger id="export-dataset">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {format !== "csv" && (
+                                        <SelectItem value="all">
+                                            Everything
+                                        </SelectItem>
+                                    )}
+                                    <SelectItem value="daily">
+                                        Daily usage and costs
+                                    </SelectItem>
+                                    <SelectItem value="readings">
+                                        Readings
+                                    </SelectItem>
+                                    <SelectItem value="tokens">
+                                        Token purchases
+                                    </SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="export-from">From</Label>
+                            <Input
+                                id="export-from"
+                                type="date"
+                                value={from}
+                                onChange={(e) => setFrom(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="export-to">To</Label>
+                            <Input
+                                id="export-to"
+                                type="date"
+                                value={to}
+                                onChange={(e) => setTo(e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    {meters.length > 1 && (
+                        <div className="space-y-2">
+                            <Label htmlFor="export-meter">Meter</Label>
+                            <Select value={meter} onValueChange={setMeter}>
+                                <SelectTrigger id="export-meter">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={SELECTED_METER}>
+                                        Selected meter
+                                    </SelectItem>
+                                    <SelectItem value="all">
+                                        All meters
+                                    </SelectItem>
+                                    {meters.map((m) => (
+                                        <SelectItem
+                                            key={m.id}
+                                            value={String(m.id)}
+                                        >
+                                            {m.nickname}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                        {format === "csv"
+                            ? "CSV files hold one table; choose which one to export."
+                            : "Contains daily usage with costs, readings and token purchases."}{" "}
+                        Leave the dates empty to export everything.
+                    </p>
+
+                    <Button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className="w-full"
+                    >
+                        {exporting ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                            <Download className="h-4 w-4 mr-2" />
+                        )}
+                        Export
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
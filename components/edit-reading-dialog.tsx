@@ -0,0 +1,168 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createLocalDate, getLocalDateString } from "@/lib/timezone-utils";
+import type {
+    ElectricityReading,
+    ReadingOverride,
+    ReadingValidation,
+} from "@/lib/types";
+import { ReadingValidationAlert } from "./reading-validation-alert";
+
+interface EditReadingDialogProps {
+    reading: ElectricityReading | null;
+    onOpenChange: (open: boolean) => void;
+    // Resolves to the validation issues when the change was held back
+    onSave: (
+        reading: number,
+        timestamp: Date,
+        override?: ReadingOverride
+    ) => Promise<boolean | ReadingValidation>;
+}
+
+const toTimeString = (date: Date) =>
+    `${String(date.getHours()).padStart(2, "0")}:${String(
+        date.getMinutes()
+    ).padStart(2, "0")}`;
+
+/**
+ * Dialog for correcting the value and time of an existing reading.
+ * The period is recalculated on the server from the new time. A change out
+ * of line with the readings around it can be saved anyway with an override.
+ */
+export function EditReadingDialog({
+    reading,
+    onOpenChange,
+    onSave,
+}: Readonly<EditReadingDialogProps>) {
+    const [value, setValue] = useState("");
+    const [date, setDate] = useState("");
+    const [time, setTime] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+    const [validation, setValidation] = useState<ReadingValidation | null>(
+        null
+    );
+
+    useEffect(() => {
+        if (reading) {
+            setValue(String(reading.reading));
+            setDate(getLocalDateString(reading.timestamp));
+            setTime(toTimeString(reading.timestamp));
+            setValidation(null);
+        }
+    }, [reading]);
+
+    const save = async (override?: ReadingOverride) => {
+        const [year, month, day] = date.split("-").map(Number);
+        const [hour, minute] = time.split(":").map(Number);
+
+        setIsSaving(true);
+        const saved = await onSave(
+            Number(value),
+            createLocalDate(year, month, day, hour, minute),
+            override
+        );
+        setIsSaving(false);
+        if (typeof saved === "object") {
+            setValidation(saved);
+        } else if (saved) {
+            setValidation(null);
+            onOpenChange(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await save();
+    };
+
+    return (
+        <Dialog open={reading !== null} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <form onSubmit={handleSubmit}>
+                    <DialogHeader>
+                        <DialogTitle>Edit Reading</DialogTitle>
+                        <DialogDescription>
+                            Correct the meter value or the time it was read.
+                            The change is recorded in the reading&apos;s
+                            history.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-4">
+                        {validation && (
+                            <ReadingValidationAlert
+                                reading={value}
+                                validation={validation}
+                                isSubmitting={isSaving}
+                                onOverride={save}
+                                onCancel={() => setValidation(null)}
+                            />
+                        )}
+                        <div className="grid gap-2">
+                            <Label htmlFor="edit-reading-value">
+                                Reading (kWh)
+                            </Label>
+                            <Input
+                                id="edit-reading-value"
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={value}
+                                onChange={(e) => setValue(e.target.value)}
+                                required
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div className="grid gap-2">
+                                <Label htmlFor="edit-reading-date">Date</Label>
+                                <Input
+                                    id="edit-reading-date"
+                                    type="date"
+                                    value={date}
+                                    onChange={(e) => setDate(e.target.value)}
+                                    required
+                                />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="edit-reading-time">Time</Label>
+                                <Input
+                                    id="edit-reading-time"
+                                    type="time"
+                                    value={time}
+                                    onChange={(e) => setTime(e.target.value)}
+                                    required
+                                />
+                            </div>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSaving}>
+                            {isSaving ? "Saving..." : "Save"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { TokenPurchase } from "@/lib/types";
+
+interface EditTokenDialogProps {
+    token: TokenPurchase | null;
+    onOpenChange: (open: boolean) => void;
+    onSave: (units: number, totalCost: number) => Promise<boolean>;
+}
+
+/**
+ * Dialog for correcting the units and cost of a token purchase.
+ * The reading recorded with the token moves by the same number of units.
+ */
+export function EditTokenDialog({
+    token,
+    onOpenChange,
+    onSave,
+}: Readonly<EditTokenDialogProps>) {
+    const [units, setUnits] = useState("");
+    const [cost, setCost] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (token) {
+            setUnits(String(token.units));
+            setCost(String(token.total_cost ?? 0));
+        }
+    }, [token]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        const saved = await onSave(Number(units), Number(cost));
+        setIsSaving(false);
+        if (saved) {
+            onOpenChange(false);
+        }
+    };
+
+    return (
+        <Dialog open={token !== null} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <form onSubmit={handleSubmit}>
+                    <DialogHeader>
+                        <DialogTitle>Edit Token Purchase</DialogTitle>
+                        <DialogDescription>
+                            The meter reading recorded with this token is
+                            adjusted by the change in units.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid grid-cols-2 gap-2 py-4">
+                        <div className="grid gap-2">
+                            <Label htmlFor="edit-token-units">Units (kWh)</Label>
+                            <Input
+                                id="edit-token-units"
+                                type="number"
+                                step="0.01"
+                                min="0.01"
+                                value={units}
+                                onChange={(e) => setUnits(e.target.value)}
+                                required
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="edit-token-cost">Total cost</Label>
+                            <Input
+                                id="edit-token-cost"
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={cost}
+                                onChange={(e) => setCost(e.target.value)}
+                                required
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSaving}>
+                            {isSaving ? "Saving..." : "Save"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -25,6 +25,8 @@
  * @param {number} initialLatestReading - The latest meter reading value.
  * @param {number} initialTotalUnits - The total units consumed (calculated from readings).
  * @param {boolean} dbConnected - Indicates if the app is connected to a backend database.
+ * @param {ReadingSchedule} initialSchedule - The household's reading schedule (periods and reminder times).
+ * @param {number | "all" | null} selectedMeterId - The selected meter, offline entries are queued for it.
  *
  * Architecture:
  * - Uses ElectricityProvider context for state management with useReducer.
@@ -57,9 +59,12 @@
  * - useDataMigration: Manages data migration from local storage to database.
  * - useMissedReadings: Automatically detects and tracks missed reading periods.
  * - useTotalUnitsCalculation: Calculates total units consumed from readings.
+ * - useBalanceForecast: Forecasts when the balance runs out.
+ * - useBudgetStatus: Tracks the monthly budget and alerts at its thresholds.
+ * - useUsageAnomalies: Detects usage spikes and likely reading typos.
  * 
  * UI Structure:
- * - LowBalanceNotification: Shows when electricity balance is low.
+ * - LowBalanceNotification: Shows when the balance is about to run out.
  * - Tabbed interface with Dashboard, Analytics, Reports, AI Insights, Add Token, and Backdated sections.
  * - Alert system for migration, missed readings, and update reminders.
  * - Responsive design with mobile-optimized tab navigation.
@@ -112,19 +117,25 @@ import AIInsightsTabs from "./Tabs/AIInsightsTabs";
 import AddTokenTabs from "./Tabs/AddTokenTabs";
 import BackdatedTabs from "./Tabs/BackdatedTabs";
 import DashboardTabs from "./Tabs/DashboardTabs";
+import { useBalanceForecast } from "@/hooks/use-balance-forecast";
+import { useBudgetStatus } from "@/hooks/use-budget-status";
 import { useDataMigration } from "@/hooks/use-data-migration";
 import { useElectricityNotifications } from "@/hooks/use-electricity-notifications";
 import { useElectricityReadings } from "@/hooks/use-electricity-readings";
 import { useElectricityTokens } from "@/hooks/use-electricity-tokens";
 import { useMissedReadings } from "@/hooks/use-missed-readings";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+import { usePushLink } from "@/hooks/use-push-link";
 import { useTotalUnitsCalculation } from "@/hooks/use-total-units-calculation";
+import { useUsageAnomalies } from "@/hooks/use-usage-anomalies";
 import { ElectricityLoading } from "./electricity-loading";
 import { useUser } from "@stackframe/stack";
 import { ProtectedContent } from "@/components/auth/protected-content";
 
 function ElectricityTrackerContent({
     dbConnected,
-}: Readonly<{ dbConnected: boolean }>) {
+    selectedMeterId,
+}: Readonly<{ dbConnected: boolean; selectedMeterId: number | "all" | null }>) {
     const { state, dispatch } = useElectricity();
     const {
         notificationsEnabled,
@@ -137,8 +148,11 @@ function ElectricityTrackerContent({
     const { enableNotifications } =
         useElectricityNotifications(notificationsEnabled);
     const { handleAddReading, handleAddBackdatedReading } =
-        useElectricityReadings(dbConnected);
-    const { handleAddToken } = useElectricityTokens(dbConnected);
+        useElectricityReadings(dbConnected, selectedMeterId);
+    const { handleAddToken } = useElectricityTokens(
+        dbConnected,
+        selectedMeterId
+    );
     const { handleMigrateData } = useDataMigration(
         dbConnected,
         clearElectricityData
@@ -147,6 +161,11 @@ function ElectricityTrackerContent({
     // Auto-calculated hooks
     useMissedReadings();
     useTotalUnitsCalculation(dbConnected);
+    useBalanceForecast(dbConnected);
+    useBudgetStatus(dbConnected);
+    useUsageAnomalies(dbConnected);
+    useOfflineSync(dbConnected);
+    usePushLink(selectedMeterId);
 
     const handleEnableNotifications = async () => {
         const granted = await enableNotifications();
@@ -168,6 +187,7 @@ function ElectricityTrackerContent({
             {user && (
                 <LowBalanceNotification
                     currentBalance={state.latestReading}
+                    forecast={state.forecast}
                     onBuyTokens={handleBuyTokens}
                 />
             )}
@@ -296,7 +316,10 @@ function ElectricityTrackerContent({
                                     notificationsEnabled={notificationsEnabled}
                                     showNotification={state.showNotification}
                                 />
-                                <AnalyticsTabs readings={state.readings} />
+                                <AnalyticsTabs
+                                    readings={state.readings}
+                                    tokens={state.tokens}
+                                />
                                 <ReportsTabs
                                     readings={state.readings}
                                     tokens={state.tokens}
@@ -345,9 +368,13 @@ export default function ElectricityTracker(
             initialTokens={props.initialTokens}
             initialLatestReading={props.initialLatestReading}
             initialTotalUnits={props.initialTotalUnits}
+            initialSchedule={props.initialSchedule}
             dbConnected={props.dbConnected}
         >
-            <ElectricityTrackerContent dbConnected={props.dbConnected} />
+            <ElectricityTrackerContent
+                dbConnected={props.dbConnected}
+                selectedMeterId={props.selectedMeterId ?? null}
+            />
         </ElectricityProvider>
     );
 }
@@ -0,0 +1,179 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { useUser } from "@stackframe/stack";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    getDigestSubscription,
+    saveDigestSubscription,
+    unsubscribeDigest,
+} from "@/actions/digest-actions";
+import { useToast } from "@/hooks/use-toast";
+import type { EmailDigestFrequency, EmailDigestSubscription } from "@/lib/types";
+
+interface EmailDigestDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for subscribing to daily or weekly email summaries of the
+ * household's usage, or unsubscribing from them.
+ */
+export function EmailDigestDialog({
+    open,
+    onOpenChange,
+}: Readonly<EmailDigestDialogProps>) {
+    const user = useUser();
+    const [subscription, setSubscription] =
+        useState<EmailDigestSubscription | null>(null);
+    const [email, setEmail] = useState("");
+    const [frequency, setFrequency] = useState<EmailDigestFrequency>("daily");
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        if (!open) return;
+        getDigestSubscription()
+            .then((current) => {
+                setSubscription(current);
+                setEmail(current?.email ?? user?.primaryEmail ?? "");
+                setFrequency(current?.frequency ?? "daily");
+            })
+            .catch((error) =>
+                console.error("Error loading email digest:", error)
+            );
+    }, [open, user?.primaryEmail]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+
+        const result = await saveDigestSubscription({ email, frequency });
+
+        if (result.success) {
+            toast({
+                title: subscription ? "Digest Updated" : "Subscribed",
+                description:
+                    frequency === "daily"
+                        ? `A summary of yesterday's usage will be sent to ${email} every morning`
+                        : `A summary of last week's usage will be sent to ${email} every Monday`,
+            });
+            onOpenChange(false);
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to save email digest",
+                variant: "destructive",
+            });
+        }
+
+        setIsLoading(false);
+    };
+
+    const handleUnsubscribe = async () => {
+        setIsLoading(true);
+
+        const result = await unsubscribeDigest();
+
+        if (result.success) {
+            toast({
+                title: "Unsubscribed",
+                description: "You will no longer receive email digests",
+            });
+            onOpenChange(false);
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to unsubscribe",
+                variant: "destructive",
+            });
+        }
+
+        setIsLoading(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle>Email Digest</DialogTitle>
+                    <DialogDescription>
+                        Get yesterday&apos;s usage, the week so far, the peak
+                        day, the days of balance left and any missed readings
+                        by email.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="grid gap-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="digest-email">Email</Label>
+                        <Input
+                            id="digest-email"
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            required
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="digest-frequency">Frequency</Label>
+                        <Select
+                            value={frequency}
+                            onValueChange={(value) =>
+                                setFrequency(value as EmailDigestFrequency)
+                            }
+                        >
+                            <SelectTrigger id="digest-frequency">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="daily">
+                                    Daily, every morning
+                                </SelectItem>
+                                <SelectItem value="weekly">
+                                    Weekly, on Monday mornings
+                                </SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <DialogFooter>
+                        {subscription && (
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleUnsubscribe}
+                                disabled={isLoading}
+                            >
+                                Unsubscribe
+                            </Button>
+                        )}
+                        <Button type="submit" disabled={isLoading}>
+                            {subscription ? "Save Digest" : "Subscribe"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -4,6 +4,7 @@
  * @component
  * @param {Object} props - Component props.
  * @param {ElectricityReading[]} props.readings - Array of electricity readings to visualize.
+ * @param {TokenPurchase[]} props.tokens - Token purchases, so top-ups are not counted as negative usage.
  *
  * @description
  * This component provides a dashboard for visualizing electricity usage trends over time.
@@ -20,7 +21,7 @@
  *
  * @example
  * ```tsx
- * <EnhancedUsageCharts readings={myReadingsArray} />
+ * <EnhancedUsageCharts readings={myReadingsArray} tokens={myTokensArray} />
  * ```
  */
 "use client";
@@ -73,10 +74,12 @@ import {
     ChevronLeft,
     ChevronRight,
 } from "lucide-react";
-import type { ElectricityReading } from "@/lib/types";
+import type { ElectricityReading, TokenPurchase } from "@/lib/types";
+import { getDailyConsumption, getUsageIntervals } from "@/lib/consumption";
 
 interface EnhancedUsageChartsProps {
     readings: ElectricityReading[];
+    tokens: TokenPurchase[];
 }
 
 interface ProcessedData {
@@ -119,6 +122,7 @@ const PERIOD_COLORS = {
 
 export default function EnhancedUsageCharts({
     readings,
+    tokens,
 }: Readonly<EnhancedUsageChartsProps>) {
     const [timePeriod, setTimePeriod] = useState<TimePeriod>("weekly");
     const [chartType, setChartType] = useState<ChartType>("area");
@@ -130,101 +134,30 @@ export default function EnhancedUsageCharts({
         return startOfWeek;
     });
 
-    // Process readings into chart data
+    // Process readings into chart data, each period getting the usage up to its reading
     const processedData = useMemo(() => {
         if (readings.length < 2) return [];
 
-        // Sort readings by timestamp
-        const sortedReadings = [...readings].sort((a, b) => {
-            const timestampA =
-                a.timestamp instanceof Date
-                    ? a.timestamp
-                    : new Date(a.timestamp);
-            const timestampB =
-                b.timestamp instanceof Date
-                    ? b.timestamp
-                    : new Date(b.timestamp);
-            return timestampA.getTime() - timestampB.getTime();
-        });
-
-        // Group readings by day
-        const readingsByDay: Record<string, ElectricityReading[]> = {};
-        for (const reading of sortedReadings) {
-            const date = reading.timestamp.toISOString().split("T")[0];
-            if (!readingsByDay[date]) {
-                readingsByDay[date] = [];
+        return getDailyConsumption(getUsageIntervals(readings, tokens)).map(
+            (day): ProcessedData => {
+                const dateObj = new Date(day.date);
+                return {
+                    date: day.date,
+                    morning: Number((day.periods.morning ?? 0).toFixed(2)),
+                    evening: Number((day.periods.evening ?? 0).toFixed(2)),
+                    night: Number((day.periods.night ?? 0).toFixed(2)),
+                    total: Number(day.total.toFixed(2)),
+                    formattedDate: dateObj.toLocaleDateString(undefined, {
+                        month: "short",
+                        day: "numeric",
+                    }),
+                    dayOfWeek: dateObj.toLocaleDateString(undefined, {
+                        weekday: "short",
+                    }),
+                };
             }
-            readingsByDay[date].push(reading);
-        }
-
-        const data: ProcessedData[] = [];
-        const dates = Object.keys(readingsByDay).sort();
-
-        dates.forEach((date, index) => {
-            const dayReadings = readingsByDay[date].toSorted(
-                (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
-            );
-
-            let morningConsumption = 0;
-            let eveningConsumption = 0;
-            let nightConsumption = 0;
-
-            // Calculate consumption between consecutive readings within the day
-            for (let i = 1; i < dayReadings.length; i++) {
-                const prevReading = dayReadings[i - 1];
-                const currentReading = dayReadings[i];
-                const consumption = Math.max(
-                    0,
-                    prevReading.reading - currentReading.reading
-                );
-
-                if (currentReading.period === "morning")
-                    morningConsumption += consumption;
-                else if (currentReading.period === "evening")
-                    eveningConsumption += consumption;
-                else if (currentReading.period === "night")
-                    nightConsumption += consumption;
-            }
-
-            // Calculate consumption from previous day's last reading to current day's first reading
-            if (index > 0) {
-                const prevDayReadings = readingsByDay[dates[index - 1]];
-                if (prevDayReadings.length > 0 && dayReadings.length > 0) {
-                    const lastPrevReading =
-                        prevDayReadings[prevDayReadings.length - 1];
-                    const firstCurrentReading = dayReadings[0];
-                    const overnightConsumption = Math.max(
-                        0,
-                        lastPrevReading.reading - firstCurrentReading.reading
-                    );
-
-                    if (firstCurrentReading.period === "morning")
-                        morningConsumption += overnightConsumption;
-                }
-            }
-
-            const dateObj = new Date(date);
-            const total =
-                morningConsumption + eveningConsumption + nightConsumption;
-
-            data.push({
-                date,
-                morning: Number(morningConsumption.toFixed(2)),
-                evening: Number(eveningConsumption.toFixed(2)),
-                night: Number(nightConsumption.toFixed(2)),
-                total: Number(total.toFixed(2)),
-                formattedDate: dateObj.toLocaleDateString(undefined, {
-                    month: "short",
-                    day: "numeric",
-                }),
-                dayOfWeek: dateObj.toLocaleDateString(undefined, {
-                    weekday: "short",
-                }),
-            });
-        });
-
-        return data;
-    }, [readings]);
+        );
+    }, [readings, tokens]);
 
     // Filter data based on time period
     const filteredData = useMemo(() => {
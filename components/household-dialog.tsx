@@ -0,0 +1,365 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Copy, LogOut, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    createHousehold,
+    createInvitation,
+    getHouseholdMembers,
+    getHouseholds,
+    leaveHousehold,
+    removeMember,
+    switchHousehold,
+    updateMemberRole,
+} from "@/actions/household-actions";
+import { useToast } from "@/hooks/use-toast";
+import type { Household, HouseholdMember, HouseholdRole } from "@/lib/types";
+
+interface HouseholdDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+type InviteRole = Exclude<HouseholdRole, "owner">;
+
+/**
+ * Dialog for sharing meters with a household: switching between households,
+ * inviting members with a link and managing their roles.
+ */
+export function HouseholdDialog({
+    open,
+    onOpenChange,
+}: Readonly<HouseholdDialogProps>) {
+    const [households, setHouseholds] = useState<Household[]>([]);
+    const [members, setMembers] = useState<HouseholdMember[]>([]);
+    const [householdName, setHouseholdName] = useState("");
+    const [inviteRole, setInviteRole] = useState<InviteRole>("viewer");
+    const [inviteLink, setInviteLink] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const activeHousehold = households.find((h) => h.isActive);
+    const ownsHousehold = households.some((h) => h.isOwner);
+    const isOwner = activeHousehold?.role === "owner";
+
+    const loadHouseholds = useCallback(async () => {
+        try {
+            const [loadedHouseholds, loadedMembers] = await Promise.all([
+                getHouseholds(),
+                getHouseholdMembers(),
+            ]);
+            setHouseholds(loadedHouseholds);
+            setMembers(loadedMembers);
+        } catch (error) {
+            console.error("Error loading households:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (open) {
+            loadHouseholds();
+            setInviteLink("");
+        }
+    }, [open, loadHouseholds]);
+
+    const showResult = async (
+        result: { success: boolean; error?: string },
+        fallbackError: string
+    ) => {
+        if (result.success) {
+            await loadHouseholds();
+            router.refresh();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || fallbackError,
+                variant: "destructive",
+            });
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        const result = await createHousehold(householdName);
+        if (result.success) {
+            setHouseholdName("");
+        }
+        await showResult(result, "Failed to create household");
+        setIsLoading(false);
+    };
+
+    const handleInvite = async () => {
+        setIsLoading(true);
+        const result = await createInvitation(inviteRole);
+        if (result.success && result.invitation) {
+            setInviteLink(
+                `${window.location.origin}/invite/${result.invitation.token}`
+            );
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to create invitation",
+                variant: "destructive",
+            });
+        }
+        setIsLoading(false);
+    };
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(inviteLink);
+        toast({
+            title: "Link Copied",
+            description: "Share it with the person you want to invite",
+        });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Household</DialogTitle>
+                    <DialogDescription>
+                        Members of a household share its meters, readings and
+                        tokens. Viewers can only look, editors can add
+                        readings and tokens, owners can also delete and manage
+                        members.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {households.length > 0 && (
+                    <div className="space-y-2">
+                        {households.map((household) => (
+                            <div
+                                key={household.id}
+                                className="flex items-center justify-between rounded-md border p-2 text-sm"
+                            >
+                                <div>
+                                    <div className="font-medium">
+                                        {household.name}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground capitalize">
+                                        {household.role} ·{" "}
+                                        {household.memberCount} members
+                                        {household.isActive && " · active"}
+                                    </div>
+                                </div>
+                                <div className="flex gap-1">
+                                    {!household.isActive && (
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={async () =>
+                                                showResult(
+                                                    await switchHousehold(
+                                                        household.id
+                                                    ),
+                                                    "Failed to switch household"
+                                                )
+                                            }
+                                        >
+                                            Switch
+                                        </Button>
+                                    )}
+                                    {!household.isOwner && (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={async () =>
+                                                showResult(
+                                                    await leaveHousehold(
+                                                        household.id
+                                                    ),
+                                                    "Failed to leave household"
+                                                )
+                                            }
+                                        >
+                                            <LogOut className="h-4 w-4" />
+                                            <span className="sr-only">
+                                                Leave
+                                            </span>
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                        {activeHousehold && !activeHousehold.isOwner && !ownsHousehold && (
+                            <Button
+                                type="button"
+                                variant="link"
+                                size="sm"
+                                className="px-0"
+                                onClick={async () =>
+                                    showResult(
+                                        await switchHousehold(null),
+                                        "Failed to switch household"
+                                    )
+                                }
+                            >
+                                Back to my own data
+                            </Button>
+                        )}
+                    </div>
+                )}
+
+                {!ownsHousehold && (
+                    <form onSubmit={handleCreate} className="grid gap-2">
+                        <Label htmlFor="household-name">
+                            Share your meters with a household
+                        </Label>
+                        <div className="flex gap-2">
+                            <Input
+                                id="household-name"
+                                placeholder="e.g., Home"
+                                value={householdName}
+                                onChange={(e) =>
+                                    setHouseholdName(e.target.value)
+                                }
+                                required
+                            />
+                            <Button type="submit" disabled={isLoading}>
+                                Create
+                            </Button>
+                        </div>
+                    </form>
+                )}
+
+                {activeHousehold && members.length > 0 && (
+                    <div className="space-y-2">
+                        <Label>Members</Label>
+                        {members.map((member) => (
+                            <div
+                                key={member.user_id}
+                                className="flex items-center justify-between gap-2 text-sm"
+                            >
+                                <span className="truncate">
+                                    {member.display_name ?? member.user_id}
+                                </span>
+                                {isOwner && member.role !== "owner" ? (
+                                    <div className="flex items-center gap-1">
+                                        <Select
+                                            value={member.role}
+                                            onValueChange={async (value) =>
+                                                showResult(
+                                                    await updateMemberRole(
+                                                        member.user_id,
+                                                        value as InviteRole
+                                                    ),
+                                                    "Failed to update role"
+                                                )
+                                            }
+                                        >
+                                            <SelectTrigger className="h-8 w-[110px]">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="editor">
+                                                    Editor
+                                                </SelectItem>
+                                                <SelectItem value="viewer">
+                                                    Viewer
+                                                </SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={async () =>
+                                                showResult(
+                                                    await removeMember(
+                                                        member.user_id
+                                                    ),
+                                                    "Failed to remove member"
+                                                )
+                                            }
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                            <span className="sr-only">
+                                                Remove
+                                            </span>
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <span className="text-xs text-muted-foreground capitalize">
+                                        {member.role}
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {isOwner && (
+                    <div className="grid gap-2">
+                        <Label>Invite someone</Label>
+                        <div className="flex gap-2">
+                            <Select
+                                value={inviteRole}
+                                onValueChange={(value) =>
+                                    setInviteRole(value as InviteRole)
+                                }
+                            >
+                                <SelectTrigger className="w-[120px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="editor">Editor</SelectItem>
+                                    <SelectItem value="viewer">Viewer</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleInvite}
+                                disabled={isLoading}
+                            >
+                                Create invitation link
+                            </Button>
+                        </div>
+                        {inviteLink && (
+                            <div className="flex gap-2">
+                                <Input value={inviteLink} readOnly />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={handleCopy}
+                                >
+                                    <Copy className="h-4 w-4" />
+                                    <span className="sr-only">Copy link</span>
+                                </Button>
+                            </div>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                            Links expire after 7 days and can be used once.
+                        </p>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
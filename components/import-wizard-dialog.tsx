@@ -0,0 +1,387 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { AlertTriangle, CheckCircle2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { importEntries, previewImport } from "@/actions/import-actions";
+import { getSelectedMeterTimezone } from "@/actions/meter-actions";
+import {
+    getElectricityReadings,
+    getLatestReading,
+    getTokenPurchases,
+    getTotalUnitsUsed,
+} from "@/actions/electricity-actions";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+    IMPORT_FIELDS,
+    guessColumnMapping,
+    readSpreadsheet,
+    toImportRows,
+    type ImportColumnMapping,
+    type ImportField,
+    type Spreadsheet,
+} from "@/lib/spreadsheet-import";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone-utils";
+import type { ImportKind, ImportPreview } from "@/lib/types";
+
+interface ImportWizardDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+type WizardStep = "upload" | "map" | "preview";
+
+const NOT_MAPPED = "none";
+
+// Only the first issues are listed, the rest are counted
+const MAX_LISTED_ISSUES = 50;
+
+/**
+ * Wizard for importing historical readings or token purchases from a CSV or
+ * Excel file: upload, map columns, preview validation issues, then import.
+ */
+export function ImportWizardDialog({
+    open,
+    onOpenChange,
+}: Readonly<ImportWizardDialogProps>) {
+    const [step, setStep] = useState<WizardStep>("upload");
+    const [kind, setKind] = useState<ImportKind>("readings");
+    const [fileName, setFileName] = useState("");
+    const [spreadsheet, setSpreadsheet] = useState<Spreadsheet | null>(null);
+    const [mapping, setMapping] = useState<ImportColumnMapping>({});
+    // Dates in the file are read on the wall clock of the meter imported into
+    const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const { dispatch } = useElectricity();
+    const { toast } = useToast();
+
+    const fields = IMPORT_FIELDS[kind];
+    const isMappingComplete = fields.every(
+        (f) => !f.required || mapping[f.field] !== undefined
+    );
+
+    const reset = () => {
+        setStep("upload");
+        setFileName("");
+        setSpreadsheet(null);
+        setMapping({});
+        setPreview(null);
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+    };
+
+    const showError = (error: unknown, fallback: string) => {
+        toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : fallback,
+            variant: "destructive",
+        });
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setIsLoading(true);
+        try {
+            const [sheet, meterTimeZone] = await Promise.all([
+                readSpreadsheet(file),
+                getSelectedMeterTimezone(),
+            ]);
+            setFileName(file.name);
+            setSpreadsheet(sheet);
+            setTimeZone(meterTimeZone);
+            setMapping(guessColumnMapping(kind, sheet.headers));
+            setStep("map");
+        } catch (error) {
+            showError(error, "Failed to read the file");
+        } finally {
+            setIsLoading(false);
+            e.target.value = "";
+        }
+    };
+
+    const handleMappingChange = (field: ImportField, value: string) => {
+        setMapping((current) => {
+            const next = { ...current };
+            if (value === NOT_MAPPED) {
+                delete next[field];
+            } else {
+                next[field] = Number(value);
+            }
+            return next;
+        });
+    };
+
+    const handlePreview = async () => {
+        if (!spreadsheet) return;
+        setIsLoading(true);
+        try {
+            setPreview(
+                await previewImport(
+                    kind,
+                    toImportRows(kind, spreadsheet, mapping, timeZone)
+                )
+            );
+            setStep("preview");
+        } catch (error) {
+            showError(error, "Failed to validate the file");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!spreadsheet) return;
+        setIsLoading(true);
+        try {
+            const result = await importEntries(
+                kind,
+                toImportRows(kind, spreadsheet, mapping, timeZone)
+            );
+
+            const [readings, tokens, latestReading, totalUnits] =
+                await Promise.all([
+                    getElectricityReadings(),
+                    getTokenPurchases(),
+                    getLatestReading(),
+                    getTotalUnitsUsed(),
+                ]);
+            dispatch({ type: "SET_READINGS", payload: readings });
+            dispatch({ type: "SET_TOKENS", payload: tokens });
+            dispatch({ type: "SET_LATEST_READING", payload: latestReading });
+            dispatch({ type: "SET_TOTAL_UNITS", payload: totalUnits });
+
+            toast({
+                title: "Import Complete",
+                description: `Imported ${result.inserted} ${kind === "readings" ? "readings" : "token purchases"}${
+                    result.skipped > 0
+                        ? `, ${result.skipped} were already imported`
+                        : ""
+                }${
+                    result.issues.length > 0
+                        ? `, ${result.issues.length} rows with issues were left out`
+                        : ""
+                }`,
+            });
+            handleOpenChange(false);
+        } catch (error) {
+            showError(error, "Failed to import the file");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import from CSV or Excel</DialogTitle>
+                    <DialogDescription>
+                        Import historical readings or token purchases into the
+                        selected meter.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === "upload" && (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="import-kind">What to import</Label>
+                            <Select
+                                value={kind}
+                                onValueChange={(value) =>
+                                    setKind(value as ImportKind)
+                                }
+                            >
+                                <SelectTrigger id="import-kind">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="readings">
+                                        Meter readings
+                                    </SelectItem>
+                                    <SelectItem value="tokens">
+                                        Token purchases
+                                    </SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="import-file">File</Label>
+                            <Input
+                                id="import-file"
+                                type="file"
+                                accept=".csv,.xlsx,.xls,text/csv"
+                                onChange={handleFileChange}
+                                disabled={isLoading}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                The first row must contain column headers.
+                                {kind === "readings"
+                                    ? " Readings need a date and time and a reading; the period is worked out from the time when missing."
+                                    : " Token purchases need a date and time, the units and the cost."}
+                            </p>
+                        </div>
+                    </div>
+                )}
+
+                {step === "map" && spreadsheet && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            {fileName}: {spreadsheet.rows.length} rows. Choose
+                            the column for each field.
+                        </p>
+                        {fields.map((definition) => (
+                            <div
+                                key={definition.field}
+                                className="grid grid-cols-2 items-center gap-4"
+                            >
+                                <Label>
+                                    {definition.label}
+                                    {definition.required ? " *" : ""}
+                                </Label>
+                                <Select
+                                    value={
+                                        mapping[definition.field] === undefined
+                                            ? NOT_MAPPED
+                                            : String(mapping[definition.field])
+                                    }
+                                    onValueChange={(value) =>
+                                        handleMappingChange(
+                                            definition.field,
+                                            value
+                                        )
+                                    }
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NOT_MAPPED}>
+                                            Not mapped
+                                        </SelectItem>
+                                        {spreadsheet.headers.map(
+                                            (header, index) => (
+                                                <SelectItem
+                                                    key={`${header}-${index}`}
+                                                    value={String(index)}
+                                                >
+                                                    {header}
+                                                </SelectItem>
+                                            )
+                                        )}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {step === "preview" && preview && (
+                    <div className="space-y-3">
+                        <div className="flex items-center gap-2 text-sm">
+                            <CheckCircle2 className="h-4 w-4 text-green-500" />
+                            {preview.valid} of {preview.total} rows are ready
+                            to import
+                        </div>
+                        {preview.issues.length > 0 && (
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2 text-sm">
+                                    <AlertTriangle className="h-4 w-4 text-amber-500" />
+                                    {preview.issues.length} rows will be left
+                                    out
+                                </div>
+                                <div className="max-h-60 overflow-y-auto rounded-md border text-sm">
+                                    {preview.issues
+                                        .slice(0, MAX_LISTED_ISSUES)
+                                        .map((issue) => (
+                                            <div
+                                                key={`${issue.row}-${issue.message}`}
+                                                className="flex gap-3 border-b p-2 last:border-b-0"
+                                            >
+                                                <span className="w-16 shrink-0 text-muted-foreground">
+                                                    Row {issue.row}
+                                                </span>
+                                                <span>{issue.message}</span>
+                                            </div>
+                                        ))}
+                                    {preview.issues.length >
+                                        MAX_LISTED_ISSUES && (
+                                        <div className="p-2 text-muted-foreground">
+                                            and{" "}
+                                            {preview.issues.length -
+                                                MAX_LISTED_ISSUES}{" "}
+                                            more
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {step !== "upload" && (
+                    <DialogFooter className="gap-2">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() =>
+                                setStep(step === "preview" ? "map" : "upload")
+                            }
+                            disabled={isLoading}
+                        >
+                            Back
+                        </Button>
+                        {step === "map" ? (
+                            <Button
+                                type="button"
+                                onClick={handlePreview}
+                                disabled={isLoading || !isMappingComplete}
+                            >
+                                {isLoading && (
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                )}
+                                Check Rows
+                            </Button>
+                        ) : (
+                            <Button
+                                type="button"
+                                onClick={handleImport}
+                                disabled={isLoading || !preview?.valid}
+                            >
+                                {isLoading && (
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                )}
+                                Import {preview?.valid ?? 0} Rows
+                            </Button>
+                        )}
+                    </DialogFooter>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, CheckSquare, Lightbulb } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { setInsightActionDone } from "@/actions/ai-analysis-actions";
+import { useToast } from "@/hooks/use-toast";
+import type { InsightConfidence, InsightReport } from "@/lib/types";
+
+type StructuredInsightReport = Extract<InsightReport, { format: "structured" }>;
+
+const CONFIDENCE_STYLES: Record<InsightConfidence, string> = {
+    low: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+    medium: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+    high: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+};
+
+/**
+ * The findings, anomalies and recommended actions of an insight report.
+ * Actions are a checklist: marking one as done is stored with the report.
+ */
+export function InsightReportContent({
+    report,
+}: Readonly<{ report: StructuredInsightReport }>) {
+    const { content } = report;
+    const [completed, setCompleted] = useState<Set<number>>(
+        new Set(report.completedActions)
+    );
+    const { toast } = useToast();
+
+    const handleToggleAction = async (index: number, done: boolean) => {
+        const result = await setInsightActionDone(report.id, index, done);
+        if (!result.success) {
+            toast({
+                title: "Error",
+                description: result.error,
+                variant: "destructive",
+            });
+            return;
+        }
+        setCompleted((current) => {
+            const next = new Set(current);
+            if (done) next.add(index);
+            else next.delete(index);
+            return next;
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <p className="text-gray-700 dark:text-gray-300">
+                    {content.summary}
+                </p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Badge
+                        variant="secondary"
+                        className={CONFIDENCE_STYLES[content.confidence]}
+                    >
+                        {content.confidence} confidence
+                    </Badge>
+                    <span>{content.confidenceReason}</span>
+                </div>
+            </div>
+
+            <div>
+                <h3 className="text-lg font-semibold mb-2 text-blue-700 dark:text-blue-300 flex items-center gap-2">
+                    <Lightbulb className="h-5 w-5" />
+                    Key Findings
+                </h3>
+                <ul className="list-disc list-inside space-y-1 text-gray-700 dark:text-gray-300">
+                    {content.keyFindings.map((finding) => (
+                        <li key={finding}>{finding}</li>
+                    ))}
+                </ul>
+            </div>
+
+            {content.anomalies.length > 0 && (
+                <div>
+                    <h3 className="text-lg font-semibold mb-2 text-orange-700 dark:text-orange-300 flex items-center gap-2">
+                        <AlertTriangle className="h-5 w-5" />
+                        Anomalies
+                    </h3>
+                    <div className="space-y-2">
+                        {content.anomalies.map((anomaly) => (
+                            <div
+                                key={anomaly.title}
+                                className="rounded-lg border border-orange-200 bg-orange-50 dark:border-orange-800 dark:bg-orange-950 p-3"
+                            >
+                                <p className="font-medium">{anomaly.title}</p>
+                                <p className="text-sm text-gray-700 dark:text-gray-300">
+                                    {anomaly.description}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <h3 className="text-lg font-semibold mb-2 text-green-700 dark:text-green-300 flex items-center gap-2">
+                    <CheckSquare className="h-5 w-5" />
+                    Recommended Actions
+                    <span className="text-sm font-normal text-muted-foreground">
+                        {completed.size} of {content.actions.length} done
+                    </span>
+                </h3>
+                <div className="space-y-2">
+                    {content.actions.map((action, index) => {
+                        const done = completed.has(index);
+                        const id = `insight-action-${report.id}-${index}`;
+                        return (
+                            <div
+                                key={id}
+                                className="flex items-start gap-3 rounded-lg border p-3"
+                            >
+                                <Checkbox
+                                    id={id}
+                                    checked={done}
+                                    onCheckedChange={(checked) =>
+                                        handleToggleAction(
+                                            index,
+                                            checked === true
+                                        )
+                                    }
+                                    className="mt-1"
+                                />
+                                <div className="flex-1 space-y-1">
+                                    <label
+                                        htmlFor={id}
+                                        className={`font-medium cursor-pointer ${
+                                            done
+                                                ? "line-through text-muted-foreground"
+                                                : ""
+                                        }`}
+                                    >
+                                        {action.title}
+                                    </label>
+                                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                                        {action.description}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        Saves about{" "}
+                                        {action.estimatedKwhSavings.toFixed(0)}{" "}
+                                        kWh ($
+                                        {action.estimatedCostSavings.toFixed(2)})
+                                        a month
+                                    </p>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -6,21 +6,30 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { AlertTriangle, Zap, X, ShoppingCart } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+    describeForecast,
+    describeForecastRange,
+    getForecastUrgency,
+} from "@/lib/balance-forecast";
+import type { BalanceForecast } from "@/lib/types";
 
 type LowBalanceNotificationProps = {
     currentBalance: number;
+    forecast?: BalanceForecast | null;
     onBuyTokens: () => void;
 };
 
 export function LowBalanceNotification({
     currentBalance,
+    forecast = null,
     onBuyTokens,
 }: Readonly<LowBalanceNotificationProps>) {
     const [isDismissed, setIsDismissed] = useState(false);
     const [isVisible, setIsVisible] = useState(false);
 
-    // Determine urgency level
+    // Without enough usage history to forecast from, fall back to fixed kWh thresholds
     const getUrgencyLevel = (balance: number) => {
+        if (forecast) return getForecastUrgency(forecast);
         if (balance < 20) return "critical";
         if (balance < 30) return "warning";
         if (balance < 50) return "notice";
@@ -29,16 +38,19 @@ export function LowBalanceNotification({
 
     const urgencyLevel = getUrgencyLevel(currentBalance);
     const shouldShow = urgencyLevel !== "none" && !isDismissed;
+    const hasRecovered = forecast
+        ? urgencyLevel === "none"
+        : currentBalance >= 60;
 
     // Auto-show when balance drops, auto-hide when balance recovers
     useEffect(() => {
-        if (currentBalance >= 60) {
+        if (hasRecovered) {
             setIsDismissed(false); // Reset dismissal when balance recovers
             setIsVisible(false);
         } else if (shouldShow) {
             setIsVisible(true);
         }
-    }, [currentBalance, shouldShow]);
+    }, [hasRecovered, shouldShow]);
 
     // Don't allow dismissal of critical alerts
     const canDismiss = urgencyLevel !== "critical";
@@ -113,6 +125,19 @@ export function LowBalanceNotification({
     };
 
     const getMessage = () => {
+        if (forecast) {
+            const outlook = describeForecast(forecast);
+            const sentence = `${outlook[0].toUpperCase()}${outlook.slice(1)}.`;
+            switch (urgencyLevel) {
+                case "critical":
+                    return `${sentence} Purchase tokens immediately to avoid power interruption.`;
+                case "warning":
+                    return `${sentence} Consider purchasing tokens soon.`;
+                default:
+                    return `${sentence} You may want to purchase tokens.`;
+            }
+        }
+
         switch (urgencyLevel) {
             case "critical":
                 return "Your electricity balance is critically low. Purchase tokens immediately to avoid power interruption.";
@@ -144,6 +169,13 @@ export function LowBalanceNotification({
 
                         <AlertDescription className="text-sm mb-3">
                             {getMessage()}
+                            {forecast && describeForecastRange(forecast) && (
+                                <span className="block text-xs mt-1 opacity-80">
+                                    Likely {describeForecastRange(forecast)}
+                                    {forecast.confidence === "low" &&
+                                        ", based on little usage history"}
+                                </span>
+                            )}
                         </AlertDescription>
 
                         {/* Balance Progress Bar */}
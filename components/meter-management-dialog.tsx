@@ -0,0 +1,336 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Pencil, Star, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    createMeter,
+    deleteMeter,
+    getMeters,
+    updateMeter,
+} from "@/actions/meter-actions";
+import { getTariffProfiles } from "@/actions/tariff-actions";
+import { useToast } from "@/hooks/use-toast";
+import type { Meter, TariffProfile } from "@/lib/types";
+
+interface MeterManagementDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+type MeterForm = {
+    id?: number;
+    nickname: string;
+    meter_number: string;
+    tariff_id: string;
+    timezone: string;
+    is_default: boolean;
+};
+
+const NO_TARIFF = "none";
+
+const emptyForm = (): MeterForm => ({
+    nickname: "",
+    meter_number: "",
+    tariff_id: NO_TARIFF,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    is_default: false,
+});
+
+const toForm = (meter: Meter): MeterForm => ({
+    id: meter.id,
+    nickname: meter.nickname,
+    meter_number: meter.meter_number ?? "",
+    tariff_id: meter.tariff_id === null ? NO_TARIFF : String(meter.tariff_id),
+    // A guessed timezone is replaced by the browser's until the owner picks one
+    timezone: meter.timezone_confirmed
+        ? meter.timezone
+        : Intl.DateTimeFormat().resolvedOptions().timeZone,
+    is_default: meter.is_default,
+});
+
+/**
+ * Dialog for managing the meters of an account: nickname, meter number,
+ * tariff, timezone and which meter is the default.
+ */
+export function MeterManagementDialog({
+    open,
+    onOpenChange,
+}: Readonly<MeterManagementDialogProps>) {
+    const [meters, setMeters] = useState<Meter[]>([]);
+    const [tariffs, setTariffs] = useState<TariffProfile[]>([]);
+    const [form, setForm] = useState<MeterForm>(emptyForm);
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    const timezones = useMemo(() => Intl.supportedValuesOf("timeZone"), []);
+
+    const loadMeters = useCallback(async () => {
+        try {
+            const [loadedMeters, loadedTariffs] = await Promise.all([
+                getMeters(),
+                getTariffProfiles(),
+            ]);
+            setMeters(loadedMeters);
+            setTariffs(loadedTariffs);
+        } catch (error) {
+            console.error("Error loading meters:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (open) {
+            loadMeters();
+            setForm(emptyForm());
+        }
+    }, [open, loadMeters]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+
+        const input = {
+            nickname: form.nickname,
+            meter_number: form.meter_number || null,
+            tariff_id:
+                form.tariff_id === NO_TARIFF ? null : Number(form.tariff_id),
+            timezone: form.timezone,
+            is_default: form.is_default,
+        };
+        const result = form.id
+            ? await updateMeter(form.id, input)
+            : await createMeter(input);
+
+        if (result.success) {
+            toast({
+                title: "Meter Saved",
+                description: `${form.nickname} has been saved`,
+            });
+            setForm(emptyForm());
+            await loadMeters();
+            router.refresh();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to save meter",
+                variant: "destructive",
+            });
+        }
+
+        setIsLoading(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteMeter(id);
+        if (result.success) {
+            await loadMeters();
+            router.refresh();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to delete meter",
+                variant: "destructive",
+            });
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Manage Meters</DialogTitle>
+                    <DialogDescription>
+                        Each meter keeps its own readings, tokens and tariff.
+                        Switch between meters from the header.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {meters.length > 0 && (
+                    <div className="space-y-2">
+                        {meters.map((meter) => (
+                            <div
+                                key={meter.id}
+                                className="flex items-center justify-between rounded-md border p-2 text-sm"
+                            >
+                                <div>
+                                    <div className="flex items-center gap-1 font-medium">
+                                        {meter.nickname}
+                                        {meter.is_default && (
+                                            <Star className="h-3 w-3 fill-current text-yellow-500" />
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {meter.meter_number ?? "No number"} ·{" "}
+                                        {tariffs.find(
+                                            (t) => t.id === meter.tariff_id
+                                        )?.name ?? "Tariffs by date"}{" "}
+                                        · {meter.timezone}
+                                        {!meter.timezone_confirmed && (
+                                            <span className="text-amber-600">
+                                                {" "}
+                                                (not set, edit to choose)
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="flex gap-1">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setForm(toForm(meter))}
+                                    >
+                                        <Pencil className="h-4 w-4" />
+                                        <span className="sr-only">Edit</span>
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => handleDelete(meter.id)}
+                                        disabled={meter.is_default}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                        <span className="sr-only">Delete</span>
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="grid gap-4">
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="meter-nickname">Nickname</Label>
+                            <Input
+                                id="meter-nickname"
+                                placeholder="e.g., Cottage"
+                                value={form.nickname}
+                                onChange={(e) =>
+                                    setForm({ ...form, nickname: e.target.value })
+                                }
+                                required
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="meter-number-input">
+                                Meter number
+                            </Label>
+                            <Input
+                                id="meter-number-input"
+                                placeholder="e.g., 12345678901"
+                                value={form.meter_number}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        meter_number: e.target.value,
+                                    })
+                                }
+                            />
+                        </div>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="meter-tariff">Tariff</Label>
+                        <Select
+                            value={form.tariff_id}
+                            onValueChange={(value) =>
+                                setForm({ ...form, tariff_id: value })
+                            }
+                        >
+                            <SelectTrigger id="meter-tariff">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_TARIFF}>
+                                    Use tariffs by effective date
+                                </SelectItem>
+                                {tariffs.map((tariff) => (
+                                    <SelectItem
+                                        key={tariff.id}
+                                        value={String(tariff.id)}
+                                    >
+                                        {tariff.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="meter-timezone">Timezone</Label>
+                        <Input
+                            id="meter-timezone"
+                            list="meter-timezones"
+                            value={form.timezone}
+                            onChange={(e) =>
+                                setForm({ ...form, timezone: e.target.value })
+                            }
+                            required
+                        />
+                        <datalist id="meter-timezones">
+                            {timezones.map((timezone) => (
+                                <option key={timezone} value={timezone} />
+                            ))}
+                        </datalist>
+                        <p className="text-xs text-muted-foreground">
+                            Reading periods, days and months of this meter
+                            follow its local time.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="meter-default"
+                            checked={form.is_default}
+                            onCheckedChange={(checked) =>
+                                setForm({ ...form, is_default: checked === true })
+                            }
+                        />
+                        <Label htmlFor="meter-default">Default meter</Label>
+                    </div>
+
+                    <DialogFooter>
+                        {form.id && (
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => setForm(emptyForm())}
+                                disabled={isLoading}
+                            >
+                                New Meter
+                            </Button>
+                        )}
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading
+                                ? "Saving..."
+                                : form.id
+                                ? "Update Meter"
+                                : "Add Meter"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
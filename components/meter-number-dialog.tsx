@@ -38,7 +38,10 @@ export function MeterNumberDialog({
     e.preventDefault()
     setIsLoading(true)
 
-    const result = await updateMeterNumber(meterNumber)
+    const result = await updateMeterNumber(
+      meterNumber,
+      Intl.DateTimeFormat().resolvedOptions().timeZone
+    )
 
     if (result.success) {
       toast({
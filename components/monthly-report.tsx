@@ -4,7 +4,7 @@
  * Features:
  * - Fetches and displays monthly usage data.
  * - Shows total, average, highest, and lowest usage statistics.
- * - Provides a CSV export option for the monthly report.
+ * - Provides CSV, JSON and XLSX exports of readings, tokens and daily usage.
  * - Visualizes usage comparison for each month.
  * - Offers insights and usage trends based on the data.
  * - Displays loading skeletons while data is being fetched.
@@ -22,9 +22,11 @@ import { Button } from "@/components/ui/button";
 import { Download, Calendar, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import PDFReportGenerator from "./pdf-report-generator";
+import DataExport, { downloadExport } from "./data-export";
 import SocialSharing from "./social-sharing";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ElectricityReading, TokenPurchase } from "@/lib/types";
+import { toast } from "@/hooks/use-toast";
 
 interface MonthlyData {
     month: string;
@@ -59,28 +61,18 @@ export default function MonthlyReport({
         fetchMonthlyData();
     }, []);
 
-    const handleExportCSV = () => {
-        if (monthlyData.length === 0) return;
-
-        // Create CSV content
-        const headers = ["Month", "Usage (kWh)"];
-        const csvContent = [
-            headers.join(","),
-            ...monthlyData.map((item) => `${item.month},${item.usage}`),
-        ].join("\n");
-
-        // Create download link
-        const blob = new Blob([csvContent], {
-            type: "text/csv;charset=utf-8;",
-        });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement("a");
-        link.setAttribute("href", url);
-        link.setAttribute("download", "electricity_monthly_report.csv");
-        link.style.visibility = "hidden";
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    const handleExportCSV = async () => {
+        // Daily usage with period readings and costs, built on the server
+        try {
+            await downloadExport({ format: "csv", dataset: "daily" });
+        } catch (error) {
+            toast({
+                title: "Export Failed",
+                description:
+                    error instanceof Error ? error.message : "Unknown error",
+                variant: "destructive",
+            });
+        }
     };
 
     // Calculate statistics for sharing
@@ -314,6 +306,7 @@ export default function MonthlyReport({
 
                 <TabsContent value="export" className="space-y-6">
                     <PDFReportGenerator readings={readings} tokens={tokens} />
+                    <DataExport />
                 </TabsContent>
 
                 <TabsContent value="share" className="space-y-6">
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Pin, PinOff } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+    getPinnedChatAnswers,
+    setChatAnswerPinned,
+} from "@/actions/chat-actions";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/date-utils";
+import type { PinnedChatAnswer } from "@/lib/types";
+
+/**
+ * Answers from the AI chat the user pinned to the dashboard. Shows nothing
+ * until an answer is pinned.
+ */
+export default function PinnedChatAnswers() {
+    const [answers, setAnswers] = useState<PinnedChatAnswer[]>([]);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        getPinnedChatAnswers().then(setAnswers);
+    }, []);
+
+    const handleUnpin = async (answer: PinnedChatAnswer) => {
+        const result = await setChatAnswerPinned(answer.id, false);
+        if (!result.success) {
+            toast({
+                title: "Error",
+                description: result.error,
+                variant: "destructive",
+            });
+            return;
+        }
+        setAnswers((current) => current.filter((a) => a.id !== answer.id));
+    };
+
+    if (answers.length === 0) return null;
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <Pin className="h-4 w-4 text-blue-500" />
+                    Pinned Answers
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {answers.map((answer) => (
+                    <div key={answer.id} className="rounded-md border p-3">
+                        <div className="flex items-start justify-between gap-2">
+                            <div className="text-sm font-medium">
+                                {answer.question}
+                            </div>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 shrink-0"
+                                onClick={() => handleUnpin(answer)}
+                                aria-label="Unpin answer"
+                            >
+                                <PinOff className="h-3 w-3" />
+                            </Button>
+                        </div>
+                        <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground line-clamp-6">
+                            {answer.answer}
+                        </p>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                            {formatDate(answer.createdAt)}
+                        </p>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+}
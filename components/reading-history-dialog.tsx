@@ -0,0 +1,204 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    getReadingHistory,
+    revertReadingChange,
+} from "@/actions/electricity-actions";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate, getTimeString } from "@/lib/date-utils";
+import type {
+    AuditEntry,
+    ReadingOverride,
+    ReadingValidation,
+} from "@/lib/types";
+import { ReadingValidationAlert } from "./reading-validation-alert";
+
+interface ReadingHistoryDialogProps {
+    readingId: string | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+    create: "Created",
+    update: "Changed",
+    delete: "Deleted",
+    revert: "Reverted",
+};
+
+const formatValue = (value: Record<string, unknown> | null) =>
+    value && value.reading !== undefined ? `${value.reading} kWh` : "-";
+
+/**
+ * Dialog showing the change history of a single reading: who changed it,
+ * from which value, when and where, with one-click revert of each change.
+ */
+export function ReadingHistoryDialog({
+    readingId,
+    onOpenChange,
+}: Readonly<ReadingHistoryDialogProps>) {
+    const [history, setHistory] = useState<AuditEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [revertingId, setRevertingId] = useState<number | null>(null);
+    // A revert held back because the old reading no longer fits around it
+    const [heldBack, setHeldBack] = useState<{
+        entry: AuditEntry;
+        validation: ReadingValidation;
+    } | null>(null);
+    const { dispatch } = useElectricity();
+    const { toast } = useToast();
+
+    const loadHistory = useCallback(async () => {
+        if (!readingId) return;
+        setIsLoading(true);
+        try {
+            setHistory(await getReadingHistory(readingId));
+        } catch (error) {
+            console.error("Error loading reading history:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [readingId]);
+
+    useEffect(() => {
+        loadHistory();
+    }, [loadHistory]);
+
+    const handleRevert = async (
+        entry: AuditEntry,
+        override?: ReadingOverride
+    ) => {
+        setRevertingId(entry.id);
+        try {
+            const reading = await revertReadingChange(entry.id, override);
+            if ("validation" in reading) {
+                setHeldBack({ entry, validation: reading.validation });
+                return;
+            }
+            setHeldBack(null);
+            dispatch({
+                type: "UPDATE_READING",
+                payload: {
+                    readingId: reading.reading_id,
+                    updatedReading: reading,
+                },
+            });
+            toast({
+                title: "Reading Reverted",
+                description: `Reading restored to ${reading.reading} kWh`,
+            });
+            await loadHistory();
+        } catch (error) {
+            toast({
+                title: "Error",
+                description:
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to revert reading",
+                variant: "destructive",
+            });
+        } finally {
+            setRevertingId(null);
+        }
+    };
+
+    return (
+        <Dialog open={readingId !== null} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Reading History</DialogTitle>
+                    <DialogDescription>
+                        Every change to this reading, newest first. Reverting
+                        restores the value and time from before the change.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {heldBack && (
+                    <ReadingValidationAlert
+                        reading={Number(heldBack.entry.old_value?.reading)}
+                        validation={heldBack.validation}
+                        isSubmitting={revertingId !== null}
+                        onOverride={(override) =>
+                            handleRevert(heldBack.entry, override)
+                        }
+                        onCancel={() => setHeldBack(null)}
+                    />
+                )}
+
+                {isLoading ? (
+                    <div className="flex justify-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                    </div>
+                ) : history.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        No changes have been recorded for this reading.
+                    </p>
+                ) : (
+                    <div className="space-y-2">
+                        {history.map((entry) => (
+                            <div
+                                key={entry.id}
+                                className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                            >
+                                <div>
+                                    <div className="font-medium">
+                                        {ACTION_LABELS[entry.action]}{" "}
+                                        {entry.action === "create"
+                                            ? formatValue(entry.new_value)
+                                            : `${formatValue(
+                                                  entry.old_value
+                                              )} → ${formatValue(
+                                                  entry.new_value
+                                              )}`}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {formatDate(entry.created_at)}{" "}
+                                        {getTimeString(entry.created_at)} ·{" "}
+                                        {entry.actor_name ?? "Unknown"} ·{" "}
+                                        {entry.source}
+                                    </div>
+                                    {typeof entry.new_value?.override_reason ===
+                                        "string" && (
+                                        <div className="text-xs text-muted-foreground">
+                                            Saved despite validation issues:{" "}
+                                            {entry.new_value.override_reason}
+                                        </div>
+                                    )}
+                                </div>
+                                {(entry.action === "update" ||
+                                    entry.action === "revert") &&
+                                    entry.old_value?.reading !== undefined &&
+                                    !entry.new_value?.token_id && (
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleRevert(entry)}
+                                            disabled={revertingId !== null}
+                                        >
+                                            {revertingId === entry.id ? (
+                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                            ) : (
+                                                <Undo2 className="h-4 w-4 mr-1" />
+                                            )}
+                                            Revert
+                                        </Button>
+                                    )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
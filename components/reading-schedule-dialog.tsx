@@ -0,0 +1,299 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    getReadingSchedule,
+    saveReadingSchedule,
+} from "@/actions/schedule-actions";
+import { useToast } from "@/hooks/use-toast";
+import {
+    DEFAULT_READING_SCHEDULE,
+    MAX_SCHEDULE_PERIODS,
+    toPeriodKey,
+    validateReadingSchedule,
+} from "@/lib/reading-schedule";
+import type { ReadingSchedule } from "@/lib/types";
+
+interface ReadingScheduleDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+type PeriodForm = {
+    key: string | null; // null until a new period is saved
+    name: string;
+    start_hour: string;
+    end_hour: string;
+    reminder_time: string;
+};
+
+const toForm = (schedule: ReadingSchedule): PeriodForm[] =>
+    schedule.periods.map((period) => ({
+        key: period.key,
+        name: period.name,
+        start_hour: String(period.start_hour),
+        end_hour: String(period.end_hour),
+        reminder_time: period.reminder_time,
+    }));
+
+/**
+ * Builds the schedule from the form. New periods get a key derived from
+ * their name, numbered when another period already uses it.
+ */
+const toSchedule = (periods: PeriodForm[]): ReadingSchedule => {
+    const taken = new Set(
+        periods.map((p) => p.key).filter((key): key is string => key !== null)
+    );
+    return {
+        periods: periods.map((period) => {
+            let key = period.key;
+            if (key === null) {
+                const base = toPeriodKey(period.name) || "period";
+                key = base;
+                for (let n = 2; taken.has(key); n++) key = `${base}-${n}`;
+                taken.add(key);
+            }
+            return {
+                key,
+                name: period.name.trim(),
+                start_hour: Number.parseInt(period.start_hour, 10),
+                end_hour: Number.parseInt(period.end_hour, 10),
+                reminder_time: period.reminder_time,
+            };
+        }),
+    };
+};
+
+/**
+ * Dialog for the household's reading schedule: the named periods readings
+ * are grouped into, the hours each covers and when to send a reminder.
+ */
+export function ReadingScheduleDialog({
+    open,
+    onOpenChange,
+}: Readonly<ReadingScheduleDialogProps>) {
+    const [periods, setPeriods] = useState<PeriodForm[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    useEffect(() => {
+        if (!open) return;
+        getReadingSchedule()
+            .then((schedule) => setPeriods(toForm(schedule)))
+            .catch((error) => {
+                console.error("Error loading reading schedule:", error);
+                setPeriods(toForm(DEFAULT_READING_SCHEDULE));
+            });
+    }, [open]);
+
+    const errors = validateReadingSchedule(toSchedule(periods));
+
+    const updatePeriod = (
+        index: number,
+        field: keyof Omit<PeriodForm, "key">,
+        value: string
+    ) => {
+        setPeriods((prev) =>
+            prev.map((period, i) =>
+                i === index ? { ...period, [field]: value } : period
+            )
+        );
+    };
+
+    const addPeriod = () => {
+        setPeriods((prev) => [
+            ...prev,
+            {
+                key: null,
+                name: "",
+                start_hour: "0",
+                end_hour: "0",
+                reminder_time: "12:00",
+            },
+        ]);
+    };
+
+    const removePeriod = (index: number) => {
+        setPeriods((prev) => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (errors.length > 0) return;
+        setIsLoading(true);
+
+        const result = await saveReadingSchedule(toSchedule(periods));
+
+        if (result.success) {
+            toast({
+                title: "Schedule Saved",
+                description:
+                    "New readings and reminders will follow this schedule",
+            });
+            onOpenChange(false);
+            router.refresh();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to save schedule",
+                variant: "destructive",
+            });
+        }
+
+        setIsLoading(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Reading Schedule</DialogTitle>
+                    <DialogDescription>
+                        Each reading is filed under the period its time falls
+                        in. Periods run from the start hour up to the end hour
+                        and may wrap past midnight; together they must cover
+                        the whole day.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="grid gap-4">
+                    <div className="grid gap-2">
+                        <div className="hidden sm:grid grid-cols-[1fr_70px_70px_110px_36px] gap-2 text-xs text-muted-foreground">
+                            <span>Name</span>
+                            <span>From</span>
+                            <span>Until</span>
+                            <span>Reminder</span>
+                            <span />
+                        </div>
+                        {periods.map((period, index) => (
+                            <div
+                                key={period.key ?? `new-${index}`}
+                                className="grid grid-cols-[1fr_70px_70px_110px_36px] gap-2 items-center"
+                            >
+                                <Input
+                                    aria-label={`Period ${index + 1} name`}
+                                    placeholder="e.g., Early shift"
+                                    value={period.name}
+                                    onChange={(e) =>
+                                        updatePeriod(
+                                            index,
+                                            "name",
+                                            e.target.value
+                                        )
+                                    }
+                                    required
+                                />
+                                <Input
+                                    aria-label={`Period ${index + 1} start hour`}
+                                    type="number"
+                                    min={0}
+                                    max={23}
+                                    value={period.start_hour}
+                                    onChange={(e) =>
+                                        updatePeriod(
+                                            index,
+                                            "start_hour",
+                                            e.target.value
+                                        )
+                                    }
+                                    required
+                                />
+                                <Input
+                                    aria-label={`Period ${index + 1} end hour`}
+                                    type="number"
+                                    min={0}
+                                    max={23}
+                                    value={period.end_hour}
+                                    onChange={(e) =>
+                                        updatePeriod(
+                                            index,
+                                            "end_hour",
+                                            e.target.value
+                                        )
+                                    }
+                                    required
+                                />
+                                <Input
+                                    aria-label={`Period ${index + 1} reminder time`}
+                                    type="time"
+                                    value={period.reminder_time}
+                                    onChange={(e) =>
+                                        updatePeriod(
+                                            index,
+                                            "reminder_time",
+                                            e.target.value
+                                        )
+                                    }
+                                    required
+                                />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removePeriod(index)}
+                                    disabled={periods.length <= 1}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                    <span className="sr-only">Remove</span>
+                                </Button>
+                            </div>
+                        ))}
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={addPeriod}
+                            disabled={periods.length >= MAX_SCHEDULE_PERIODS}
+                            className="justify-self-start"
+                        >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add period
+                        </Button>
+                    </div>
+
+                    {periods.length > 0 && errors.length > 0 && (
+                        <ul className="list-disc pl-5 text-sm text-red-600">
+                            {errors.map((error) => (
+                                <li key={error}>{error}</li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() =>
+                                setPeriods(toForm(DEFAULT_READING_SCHEDULE))
+                            }
+                        >
+                            Reset to default
+                        </Button>
+                        <Button
+                            type="submit"
+                            disabled={isLoading || errors.length > 0}
+                        >
+                            Save Schedule
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, XCircle } from "lucide-react";
+import { MAX_OVERRIDE_REASON_LENGTH } from "@/lib/reading-validation";
+import type { ReadingOverride, ReadingValidation } from "@/lib/types";
+
+interface ReadingValidationAlertProps {
+    reading: string | number;
+    validation: ReadingValidation;
+    isSubmitting: boolean;
+    onOverride: (override: ReadingOverride) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Shows why a reading was not saved and lets the user save it anyway.
+ * Warnings only need confirming; errors need a reason, which is kept on
+ * the reading.
+ */
+export function ReadingValidationAlert({
+    reading,
+    validation,
+    isSubmitting,
+    onOverride,
+    onCancel,
+}: Readonly<ReadingValidationAlertProps>) {
+    const [reason, setReason] = useState("");
+    const { issues, requiresReason } = validation;
+
+    return (
+        <Alert
+            className={
+                requiresReason
+                    ? "border-red-200 bg-red-50 dark:bg-red-950"
+                    : "border-amber-200 bg-amber-50 dark:bg-amber-950"
+            }
+        >
+            {requiresReason ? (
+                <XCircle className="h-4 w-4 text-red-600" />
+            ) : (
+                <AlertTriangle className="h-4 w-4 text-amber-600" />
+            )}
+            <AlertTitle>
+                {requiresReason
+                    ? `Reading of ${reading} kWh Looks Wrong`
+                    : `Check Reading of ${reading} kWh`}
+            </AlertTitle>
+            <AlertDescription>
+                <div className="space-y-3 mt-2">
+                    <ul className="list-disc pl-4 space-y-1 text-sm">
+                        {issues.map((issue) => (
+                            <li key={issue.message}>{issue.message}</li>
+                        ))}
+                    </ul>
+                    <div className="space-y-1">
+                        <Label htmlFor="override-reason" className="text-sm">
+                            {requiresReason
+                                ? "Reason for saving anyway"
+                                : "Note (optional)"}
+                        </Label>
+                        <Textarea
+                            id="override-reason"
+                            placeholder="e.g., Meter was replaced"
+                            value={reason}
+                            maxLength={MAX_OVERRIDE_REASON_LENGTH}
+                            onChange={(e) => setReason(e.target.value)}
+                            rows={2}
+                        />
+                    </div>
+                    <div className="flex gap-2">
+                        <Button
+                            type="button"
+                            size="sm"
+                            onClick={() => onOverride({ reason })}
+                            disabled={
+                                isSubmitting ||
+                                (requiresReason && !reason.trim())
+                            }
+                        >
+                            {isSubmitting ? "Saving..." : "Save Anyway"}
+                        </Button>
+                        <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={onCancel}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </Button>
+                    </div>
+                </div>
+            </AlertDescription>
+        </Alert>
+    );
+}
@@ -6,8 +6,16 @@ import { useState, useEffect } from "react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { TrendingUp, Lightbulb, Battery, Clock, X } from "lucide-react"
-import type { ElectricityReading, TokenPurchase } from "@/lib/types"
+import { TrendingUp, Lightbulb, Battery, Clock, Wallet, AlertTriangle, X } from "lucide-react"
+import { useElectricity } from "@/contexts/ElectricityContext"
+import { resolveUsageAnomaly } from "@/actions/anomaly-actions"
+import { useToast } from "@/hooks/use-toast"
+import { getMissedPeriods } from "@/lib/reading-schedule"
+import { describeForecast, getForecastUrgency } from "@/lib/balance-forecast"
+import { formatBudgetAmount } from "@/lib/budget"
+import { getDailyConsumption, getUsageIntervals } from "@/lib/consumption"
+import { getLocalDateString, shiftDate } from "@/lib/timezone-utils"
+import type { AnomalyKind, ElectricityReading, TokenPurchase, UsageAnomaly } from "@/lib/types"
 
 interface SmartAlertsProps {
   readings: ElectricityReading[]
@@ -22,50 +30,61 @@ interface AlertItem {
   action?: string
   icon: React.ReactNode
   priority: number
+  anomaly?: UsageAnomaly
+}
+
+const ANOMALY_TITLES: Record<AnomalyKind, string> = {
+  spike: "Unusual Usage Spike Detected",
+  "reading-increase": "Reading Higher Than Before",
+  transposition: "Possible Reading Typo",
+  "entry-error": "Possible Reading Error",
 }
 
 export default function SmartAlerts({ readings, tokens }: SmartAlertsProps) {
   const [alerts, setAlerts] = useState<AlertItem[]>([])
   const [dismissedAlerts, setDismissedAlerts] = useState<string[]>([])
+  const { state, dispatch } = useElectricity()
+  const { schedule, forecast, budgetStatus, anomalies } = state
+  const { toast } = useToast()
 
   useEffect(() => {
     const newAlerts: AlertItem[] = []
 
-    // Check for unusual usage spikes
-    if (readings.length >= 3) {
-      const recent = readings.slice(-3)
-      let totalUsage = 0
-      let usageCount = 0
-
-      for (let i = 1; i < recent.length; i++) {
-        const usage = recent[i - 1].reading - recent[i].reading
-        if (usage > 0) {
-          totalUsage += usage
-          usageCount++
-        }
-      }
-
-      if (usageCount > 0) {
-        const avgUsage = totalUsage / usageCount
-        const lastUsage = recent[0].reading - recent[1].reading
-
-        if (lastUsage > avgUsage * 1.5 && lastUsage > 0) {
-          newAlerts.push({
-            id: "usage-spike",
-            type: "warning",
-            title: "Unusual Usage Spike Detected",
-            message: `Your last reading shows ${lastUsage.toFixed(1)} kWh usage, which is ${((lastUsage / avgUsage - 1) * 100).toFixed(0)}% higher than average.`,
-            action: "Check appliances",
-            icon: <TrendingUp className="h-4 w-4" />,
-            priority: 2,
-          })
-        }
-      }
+    // Usage spikes and likely reading typos found by anomaly detection
+    for (const anomaly of anomalies) {
+      newAlerts.push({
+        id: `anomaly-${anomaly.readingId}-${anomaly.kind}`,
+        type: "warning",
+        title: ANOMALY_TITLES[anomaly.kind],
+        message: anomaly.message,
+        icon: anomaly.kind === "spike" ? <TrendingUp className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />,
+        priority: 2,
+        anomaly,
+      })
     }
 
-    // Check for low meter balance
+    // Check for low meter balance, by the days it lasts when there is a forecast
     const latestReading = readings[readings.length - 1]?.reading || 0
-    if (latestReading < 50) {
+    if (forecast) {
+      const urgency = getForecastUrgency(forecast)
+      if (urgency !== "none") {
+        const outlook = describeForecast(forecast)
+        newAlerts.push({
+          id: "low-balance",
+          type: urgency === "notice" ? "info" : urgency,
+          title:
+            urgency === "critical"
+              ? "Critical: Balance Runs Out Soon"
+              : urgency === "warning"
+                ? "Low Meter Balance"
+                : "Balance Running Down",
+          message: `${forecast.balance.toFixed(1)} kWh, ${outlook}. ${urgency === "critical" ? "Immediate action required!" : "Consider purchasing tokens soon."}`,
+          action: "Buy tokens",
+          icon: <Battery className="h-4 w-4" />,
+          priority: urgency === "critical" ? 1 : urgency === "warning" ? 2 : 3,
+        })
+      }
+    } else if (latestReading < 50) {
       const alertType = latestReading < 20 ? "critical" : "warning"
       newAlerts.push({
         id: "low-balance",
@@ -78,24 +97,35 @@ export default function SmartAlerts({ readings, tokens }: SmartAlertsProps) {
       })
     }
 
-    // Check for missed readings
-    const today = new Date()
-    const todayStr = today.toISOString().split("T")[0]
-    const todayReadings = readings.filter((r) => new Date(r.timestamp).toISOString().split("T")[0] === todayStr)
-
-    const currentHour = today.getHours()
-    const missedPeriods = []
+    // Check progress against the monthly budget
+    if (budgetStatus) {
+      const { budget, used, projected, reachedThreshold } = budgetStatus
+      const progress = `${formatBudgetAmount(budget.kind, used)} of ${formatBudgetAmount(budget.kind, budget.amount)} ${budget.kind === "money" ? "spent" : "used"} this month`
 
-    if (currentHour >= 8 && !todayReadings.some((r) => r.period === "morning")) {
-      missedPeriods.push("morning")
-    }
-    if (currentHour >= 18 && !todayReadings.some((r) => r.period === "evening")) {
-      missedPeriods.push("evening")
-    }
-    if (currentHour >= 22 && !todayReadings.some((r) => r.period === "night")) {
-      missedPeriods.push("night")
+      if (reachedThreshold !== null) {
+        newAlerts.push({
+          id: `budget-${reachedThreshold}`,
+          type: reachedThreshold >= 100 ? "critical" : reachedThreshold >= 80 ? "warning" : "info",
+          title: reachedThreshold >= 100 ? "Monthly Budget Exceeded" : `${reachedThreshold}% of Monthly Budget Used`,
+          message: `${progress}, heading for ${formatBudgetAmount(budget.kind, projected)} by the end of the month.`,
+          icon: <Wallet className="h-4 w-4" />,
+          priority: reachedThreshold >= 100 ? 1 : 2,
+        })
+      } else if (budgetStatus.projectedPercent >= 100) {
+        newAlerts.push({
+          id: "budget-projected",
+          type: "info",
+          title: "On Course to Exceed Budget",
+          message: `${progress}. At the current rate the month ends at ${formatBudgetAmount(budget.kind, projected)}.`,
+          icon: <Wallet className="h-4 w-4" />,
+          priority: 3,
+        })
+      }
     }
 
+    // Check for missed readings
+    const missedPeriods = getMissedPeriods(schedule, readings)
+
     if (missedPeriods.length > 0) {
       newAlerts.push({
         id: "missed-readings",
@@ -108,15 +138,12 @@ export default function SmartAlerts({ readings, tokens }: SmartAlertsProps) {
       })
     }
 
-    // Energy efficiency tips
+    // Energy efficiency tips, from the usage of the last seven days
     if (readings.length >= 7) {
-      let weeklyUsage = 0
-      const weekReadings = readings.slice(-7)
-
-      for (let i = 1; i < weekReadings.length; i++) {
-        const usage = weekReadings[i - 1].reading - weekReadings[i].reading
-        if (usage > 0) weeklyUsage += usage
-      }
+      const weekStart = shiftDate(getLocalDateString(), -6)
+      const weeklyUsage = getDailyConsumption(getUsageIntervals(readings, tokens))
+        .filter((day) => day.date >= weekStart)
+        .reduce((sum, day) => sum + day.total, 0)
 
       if (weeklyUsage > 35) {
         newAlerts.push({
@@ -136,12 +163,32 @@ export default function SmartAlerts({ readings, tokens }: SmartAlertsProps) {
       .sort((a, b) => a.priority - b.priority)
 
     setAlerts(filteredAlerts)
-  }, [readings, tokens, dismissedAlerts])
+  }, [readings, tokens, schedule, forecast, budgetStatus, anomalies, dismissedAlerts])
 
   const dismissAlert = (alertId: string) => {
     setDismissedAlerts((prev) => [...prev, alertId])
   }
 
+  // Anomalies detected in the browser are not stored, so they are only hidden
+  const resolveAnomaly = async (anomaly: UsageAnomaly, status: "confirmed" | "dismissed") => {
+    if (anomaly.id !== null) {
+      const result = await resolveUsageAnomaly(anomaly.id, status)
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to resolve anomaly",
+          variant: "destructive",
+        })
+        return
+      }
+    }
+
+    dispatch({
+      type: "SET_ANOMALIES",
+      payload: anomalies.filter((a) => a !== anomaly),
+    })
+  }
+
   const getAlertStyles = (type: AlertItem["type"]) => {
     switch (type) {
       case "critical":
@@ -177,6 +224,21 @@ export default function SmartAlerts({ readings, tokens }: SmartAlertsProps) {
                     {alert.action}
                   </Button>
                 )}
+                {alert.anomaly && (
+                  <div className="mt-2 flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="bg-transparent"
+                      onClick={() => resolveAnomaly(alert.anomaly!, "confirmed")}
+                    >
+                      {alert.anomaly.kind === "spike" ? "Confirm spike" : "Confirm error"}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => resolveAnomaly(alert.anomaly!, "dismissed")}>
+                      Not a problem
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
             <Button variant="ghost" size="sm" onClick={() => dismissAlert(alert.id)} className="h-6 w-6 p-0">
@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+    replayOutbox,
+    resolveOutboxEntry,
+    retryOutboxEntry,
+    useOutboxEntries,
+} from "@/hooks/use-offline-sync";
+import { useToast } from "@/hooks/use-toast";
+import type { OutboxEntry, OutboxResolution } from "@/lib/types";
+
+const describeEntry = (entry: OutboxEntry) =>
+    entry.kind === "reading"
+        ? `Reading of ${entry.reading} kWh`
+        : `Token of ${entry.units} kWh`;
+
+/**
+ * Header indicator for entries captured offline. Shows how many are waiting
+ * to sync and lets the user resolve the ones that conflict with a reading
+ * already saved for the same period, or were rejected by the server.
+ */
+export function SyncStatusIndicator() {
+    const entries = useOutboxEntries();
+    const [isOnline, setIsOnline] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        const updateOnline = () => setIsOnline(navigator.onLine);
+        updateOnline();
+        window.addEventListener("online", updateOnline);
+        window.addEventListener("offline", updateOnline);
+        return () => {
+            window.removeEventListener("online", updateOnline);
+            window.removeEventListener("offline", updateOnline);
+        };
+    }, []);
+
+    if (isOnline && entries.length === 0) return null;
+
+    const needsAttention = entries.filter((e) => e.conflict || e.error);
+
+    const showError = (error: unknown) => {
+        toast({
+            title: "Error",
+            description:
+                error instanceof Error ? error.message : "Failed to sync entry",
+            variant: "destructive",
+        });
+    };
+
+    const handleResolve = async (
+        entry: OutboxEntry,
+        resolution: OutboxResolution
+    ) => {
+        setBusyId(entry.client_id);
+        try {
+            await resolveOutboxEntry(entry, resolution);
+        } catch (error) {
+            showError(error);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRetry = async (entry: OutboxEntry) => {
+        setBusyId(entry.client_id);
+        try {
+            await retryOutboxEntry(entry);
+        } catch (error) {
+            showError(error);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleSyncNow = async () => {
+        setIsSyncing(true);
+        try {
+            await replayOutbox();
+        } catch (error) {
+            showError(error);
+        } finally {
+            setIsSyncing(false);
+        }
+    };
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" className="relative">
+                    {isOnline ? (
+                        <RefreshCw className="w-2.5 h-2.5 sm:w-5 sm:h-5" />
+                    ) : (
+                        <CloudOff className="w-2.5 h-2.5 sm:w-5 sm:h-5" />
+                    )}
+                    {entries.length > 0 && (
+                        <span
+                            className={`absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full text-[10px] leading-4 text-white ${
+                                needsAttention.length > 0
+                                    ? "bg-red-500"
+                                    : "bg-amber-500"
+                            }`}
+                        >
+                            {entries.length}
+                        </span>
+                    )}
+                    <span className="sr-only">
+                        {entries.length} entries waiting to sync
+                    </span>
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80">
+                <div className="space-y-3">
+                    <div>
+                        <h4 className="text-sm font-medium">
+                            {isOnline ? "Pending sync" : "You are offline"}
+                        </h4>
+                        <p className="text-xs text-muted-foreground">
+                            {entries.length === 0
+                                ? "New readings and tokens are saved on this device until the connection returns."
+                                : `${entries.length} ${
+                                      entries.length === 1
+                                          ? "entry is"
+                                          : "entries are"
+                                  } saved on this device.`}
+                        </p>
+                    </div>
+
+                    {entries.length > 0 && (
+                        <div className="max-h-72 overflow-y-auto space-y-2">
+                            {entries.map((entry) => (
+                                <div
+                                    key={entry.client_id}
+                                    className="rounded-md border p-2 text-sm space-y-1"
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-medium">
+                                            {describeEntry(entry)}
+                                        </span>
+                                        <span className="text-xs text-muted-foreground">
+                                            {new Date(
+                                                entry.timestamp
+                                            ).toLocaleString()}
+                                        </span>
+                                    </div>
+
+                                    {entry.conflict && (
+                                        <>
+                                            <p className="flex items-start gap-1 text-xs text-amber-600">
+                                                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                                A {entry.conflict.period}{" "}
+                                                reading of{" "}
+                                                {entry.conflict.reading} kWh
+                                                is already saved for this
+                                                period.
+                                            </p>
+                                            <div className="flex gap-2">
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    disabled={
+                                                        busyId ===
+                                                        entry.client_id
+                                                    }
+                                                    onClick={() =>
+                                                        handleResolve(
+                                                            entry,
+                                                            "discard"
+                                                        )
+                                                    }
+                                                >
+                                                    Keep saved
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    disabled={
+                                                        busyId ===
+                                                            entry.client_id ||
+                                                        !isOnline
+                                                    }
+                                                    onClick={() =>
+                                                        handleResolve(
+                                                            entry,
+                                                            "overwrite"
+                                                        )
+                                                    }
+                                                >
+                                                    Use mine
+                                                </Button>
+                                            </div>
+                                        </>
+                                    )}
+
+                                    {entry.error && (
+                                        <>
+                                            <p className="flex items-start gap-1 text-xs text-red-600">
+                                                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                                {entry.error}
+                                            </p>
+                                            <div className="flex gap-2">
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    disabled={
+                                                        busyId ===
+                                                        entry.client_id
+                                                    }
+                                                    onClick={() =>
+                                                        handleResolve(
+                                                            entry,
+                                                            "discard"
+                                                        )
+                                                    }
+                                                >
+                                                    Discard
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    disabled={
+                                                        busyId ===
+                                                            entry.client_id ||
+                                                        !isOnline
+                                                    }
+                                                    onClick={() =>
+                                                        handleRetry(entry)
+                                                    }
+                                                >
+                                                    Retry
+                                                </Button>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {isOnline && entries.length > needsAttention.length && (
+                        <Button
+                            size="sm"
+                            className="w-full"
+                            onClick={handleSyncNow}
+                            disabled={isSyncing}
+                        >
+                            {isSyncing && (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            )}
+                            Sync Now
+                        </Button>
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,403 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useState } from "react";
+import { Plus, Trash2, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    deleteTariffProfile,
+    getTariffProfiles,
+    saveTariffProfile,
+} from "@/actions/tariff-actions";
+import { useToast } from "@/hooks/use-toast";
+import { getLocalDateString } from "@/lib/timezone-utils";
+import type { TariffProfile } from "@/lib/types";
+
+interface TariffSettingsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+type TierForm = { up_to_kwh: string; rate_per_kwh: string };
+
+type TariffForm = {
+    id?: number;
+    name: string;
+    vat_rate: string;
+    fixed_levy: string;
+    levy_per_kwh: string;
+    effective_from: string;
+    effective_to: string;
+    tiers: TierForm[];
+};
+
+const emptyForm = (): TariffForm => ({
+    name: "",
+    vat_rate: "0",
+    fixed_levy: "0",
+    levy_per_kwh: "0",
+    effective_from: getLocalDateString(),
+    effective_to: "",
+    tiers: [
+        { up_to_kwh: "50", rate_per_kwh: "" },
+        { up_to_kwh: "", rate_per_kwh: "" },
+    ],
+});
+
+const toForm = (tariff: TariffProfile): TariffForm => ({
+    id: tariff.id,
+    name: tariff.name,
+    vat_rate: String(tariff.vat_rate),
+    fixed_levy: String(tariff.fixed_levy),
+    levy_per_kwh: String(tariff.levy_per_kwh),
+    effective_from: tariff.effective_from,
+    effective_to: tariff.effective_to ?? "",
+    tiers: tariff.tiers.map((tier) => ({
+        up_to_kwh: tier.up_to_kwh === null ? "" : String(tier.up_to_kwh),
+        rate_per_kwh: String(tier.rate_per_kwh),
+    })),
+});
+
+/**
+ * Dialog for managing block tariff profiles: tier boundaries, rates, VAT,
+ * levies and the dates each profile is in effect.
+ */
+export function TariffSettingsDialog({
+    open,
+    onOpenChange,
+}: Readonly<TariffSettingsDialogProps>) {
+    const [tariffs, setTariffs] = useState<TariffProfile[]>([]);
+    const [form, setForm] = useState<TariffForm>(emptyForm);
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+
+    const loadTariffs = useCallback(async () => {
+        try {
+            setTariffs(await getTariffProfiles());
+        } catch (error) {
+            console.error("Error loading tariffs:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (open) {
+            loadTariffs();
+            setForm(emptyForm());
+        }
+    }, [open, loadTariffs]);
+
+    const updateTier = (index: number, field: keyof TierForm, value: string) => {
+        setForm((prev) => ({
+            ...prev,
+            tiers: prev.tiers.map((tier, i) =>
+                i === index ? { ...tier, [field]: value } : tier
+            ),
+        }));
+    };
+
+    const addTier = () => {
+        setForm((prev) => ({
+            ...prev,
+            tiers: [...prev.tiers, { up_to_kwh: "", rate_per_kwh: "" }],
+        }));
+    };
+
+    const removeTier = (index: number) => {
+        setForm((prev) => ({
+            ...prev,
+            tiers: prev.tiers.filter((_, i) => i !== index),
+        }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+
+        const result = await saveTariffProfile({
+            id: form.id,
+            name: form.name,
+            vat_rate: Number(form.vat_rate) || 0,
+            fixed_levy: Number(form.fixed_levy) || 0,
+            levy_per_kwh: Number(form.levy_per_kwh) || 0,
+            effective_from: form.effective_from,
+            effective_to: form.effective_to || null,
+            tiers: form.tiers.map((tier, index) => ({
+                tier_order: index + 1,
+                up_to_kwh:
+                    tier.up_to_kwh.trim() === ""
+                        ? null
+                        : Number(tier.up_to_kwh),
+                rate_per_kwh: Number(tier.rate_per_kwh),
+            })),
+        });
+
+        if (result.success) {
+            toast({
+                title: "Tariff Saved",
+                description: "Daily costs will now use this tariff",
+            });
+            setForm(emptyForm());
+            await loadTariffs();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to save tariff",
+                variant: "destructive",
+            });
+        }
+
+        setIsLoading(false);
+    };
+
+    const handleDelete = async (id: number) => {
+        const result = await deleteTariffProfile(id);
+        if (result.success) {
+            await loadTariffs();
+        } else {
+            toast({
+                title: "Error",
+                description: result.error || "Failed to delete tariff",
+                variant: "destructive",
+            });
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Tariff Settings</DialogTitle>
+                    <DialogDescription>
+                        Blocks are applied to the kWh used in each calendar
+                        month. Leave the last block&apos;s limit empty for
+                        &quot;and above&quot;.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {tariffs.length > 0 && (
+                    <div className="space-y-2">
+                        {tariffs.map((tariff) => (
+                            <div
+                                key={tariff.id}
+                                className="flex items-center justify-between rounded-md border p-2 text-sm"
+                            >
+                                <div>
+                                    <div className="font-medium">
+                                        {tariff.name}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {tariff.effective_from} →{" "}
+                                        {tariff.effective_to ?? "ongoing"} ·{" "}
+                                        {tariff.tiers.length} blocks · VAT{" "}
+                                        {tariff.vat_rate}%
+                                    </div>
+                                </div>
+                                <div className="flex gap-1">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setForm(toForm(tariff))}
+                                    >
+                                        <Pencil className="h-4 w-4" />
+                                        <span className="sr-only">Edit</span>
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => handleDelete(tariff.id)}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                        <span className="sr-only">Delete</span>
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="grid gap-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="tariff-name">Name</Label>
+                        <Input
+                            id="tariff-name"
+                            placeholder="e.g., Domestic 2025"
+                            value={form.name}
+                            onChange={(e) =>
+                                setForm({ ...form, name: e.target.value })
+                            }
+                            required
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="tariff-from">Effective from</Label>
+                            <Input
+                                id="tariff-from"
+                                type="date"
+                                value={form.effective_from}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        effective_from: e.target.value,
+                                    })
+                                }
+                                required
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="tariff-to">Effective to</Label>
+                            <Input
+                                id="tariff-to"
+                                type="date"
+                                value={form.effective_to}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        effective_to: e.target.value,
+                                    })
+                                }
+                            />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="tariff-vat">VAT (%)</Label>
+                            <Input
+                                id="tariff-vat"
+                                type="number"
+                                step="0.01"
+                                value={form.vat_rate}
+                                onChange={(e) =>
+                                    setForm({ ...form, vat_rate: e.target.value })
+                                }
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="tariff-fixed">Monthly levy</Label>
+                            <Input
+                                id="tariff-fixed"
+                                type="number"
+                                step="0.01"
+                                value={form.fixed_levy}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        fixed_levy: e.target.value,
+                                    })
+                                }
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="tariff-levy">Levy per kWh</Label>
+                            <Input
+                                id="tariff-levy"
+                                type="number"
+                                step="0.0001"
+                                value={form.levy_per_kwh}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        levy_per_kwh: e.target.value,
+                                    })
+                                }
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label>Blocks</Label>
+                        {form.tiers.map((tier, index) => (
+                            <div
+                                key={`tier-${index}`}
+                                className="flex items-center gap-2"
+                            >
+                                <Input
+                                    aria-label={`Block ${index + 1} limit`}
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="Up to kWh (empty = above)"
+                                    value={tier.up_to_kwh}
+                                    onChange={(e) =>
+                                        updateTier(
+                                            index,
+                                            "up_to_kwh",
+                                            e.target.value
+                                        )
+                                    }
+                                />
+                                <Input
+                                    aria-label={`Block ${index + 1} rate`}
+                                    type="number"
+                                    step="0.0001"
+                                    placeholder="Rate per kWh"
+                                    value={tier.rate_per_kwh}
+                                    onChange={(e) =>
+                                        updateTier(
+                                            index,
+                                            "rate_per_kwh",
+                                            e.target.value
+                                        )
+                                    }
+                                    required
+                                />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removeTier(index)}
+                                    disabled={form.tiers.length === 1}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                    <span className="sr-only">Remove block</span>
+                                </Button>
+                            </div>
+                        ))}
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={addTier}
+                            className="justify-self-start"
+                        >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add block
+                        </Button>
+                    </div>
+
+                    <DialogFooter>
+                        {form.id && (
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => setForm(emptyForm())}
+                                disabled={isLoading}
+                            >
+                                New Tariff
+                            </Button>
+                        )}
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading
+                                ? "Saving..."
+                                : form.id
+                                ? "Update Tariff"
+                                : "Save Tariff"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,170 @@
+/**
+ * TokenPurchasePlanner previews a token purchase before it is recorded.
+ *
+ * The user enters the amount of money they plan to spend and the planner asks the
+ * server how many kWh that buys, using the tariff in effect today and the month's
+ * cumulative purchases to pick the starting block. The price breakdown is shown
+ * per block, and the predicted units and cost can be copied into the token form.
+ *
+ * @component
+ * @param {(units: string, cost: string) => void} props.onApply - Fills the token form with the preview.
+ */
+"use client";
+
+import { useState } from "react";
+import { Calculator, Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { previewTokenPurchase } from "@/actions/tariff-actions";
+import type { TokenPurchasePreview } from "@/lib/types";
+
+type TokenPurchasePlannerProps = {
+    onApply: (units: string, cost: string) => void;
+};
+
+export default function TokenPurchasePlanner({
+    onApply,
+}: Readonly<TokenPurchasePlannerProps>) {
+    const [amount, setAmount] = useState("");
+    const [preview, setPreview] = useState<TokenPurchasePreview | null>(null);
+    const [noTariff, setNoTariff] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handlePreview = async () => {
+        const value = Number(amount);
+        if (!value || value <= 0) return;
+
+        setIsLoading(true);
+        try {
+            const result = await previewTokenPurchase(value);
+            setPreview(result);
+            setNoTariff(result === null);
+        } catch (error) {
+            console.error("Error previewing token purchase:", error);
+            setPreview(null);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+            <div className="flex items-center gap-2 text-sm font-medium">
+                <Calculator className="h-4 w-4 text-purple-500" />
+                How many kWh will I get?
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <div className="flex flex-1 flex-col space-y-1.5">
+                    <Label htmlFor="plannerAmount">Amount to spend</Label>
+                    <Input
+                        id="plannerAmount"
+                        placeholder="Enter amount"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        type="number"
+                        step="0.01"
+                    />
+                </div>
+                <Button
+                    variant="outline"
+                    onClick={handlePreview}
+                    disabled={isLoading || !amount}
+                >
+                    {isLoading ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                        "Preview"
+                    )}
+                </Button>
+            </div>
+
+            {noTariff && (
+                <p className="text-sm text-muted-foreground">
+                    No tariff is set up for today. Add one under Settings →
+                    Tariff Settings to preview purchases.
+                </p>
+            )}
+
+            {preview && (
+                <div className="space-y-2 text-sm">
+                    <div className="flex justify-between font-semibold">
+                        <span>Expected units</span>
+                        <span>{preview.expectedUnits.toFixed(2)} kWh</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        {preview.tariffName} ·{" "}
+                        {preview.monthToDateUnits.toFixed(2)} kWh already
+                        bought this month
+                    </p>
+                    <table className="w-full text-xs">
+                        <tbody className="divide-y">
+                            {preview.breakdown.tiers.map((tier) => (
+                                <tr key={tier.tier_order}>
+                                    <td className="py-1">
+                                        Block {tier.tier_order}
+                                    </td>
+                                    <td className="py-1">
+                                        {tier.units.toFixed(2)} kWh @{" "}
+                                        {tier.rate_per_kwh}
+                                    </td>
+                                    <td className="py-1 text-right">
+                                        {tier.amount.toFixed(2)}
+                                    </td>
+                                </tr>
+                            ))}
+                            {preview.breakdown.levyCost > 0 && (
+                                <tr>
+                                    <td className="py-1" colSpan={2}>
+                                        Levies
+                                    </td>
+                                    <td className="py-1 text-right">
+                                        {preview.breakdown.levyCost.toFixed(2)}
+                                    </td>
+                                </tr>
+                            )}
+                            {preview.breakdown.fixedCost > 0 && (
+                                <tr>
+                                    <td className="py-1" colSpan={2}>
+                                        Monthly fixed levy
+                                    </td>
+                                    <td className="py-1 text-right">
+                                        {preview.breakdown.fixedCost.toFixed(2)}
+                                    </td>
+                                </tr>
+                            )}
+                            <tr>
+                                <td className="py-1" colSpan={2}>
+                                    VAT
+                                </td>
+                                <td className="py-1 text-right">
+                                    {preview.breakdown.vat.toFixed(2)}
+                                </td>
+                            </tr>
+                            <tr className="font-semibold">
+                                <td className="py-1" colSpan={2}>
+                                    Total
+                                </td>
+                                <td className="py-1 text-right">
+                                    {preview.breakdown.total.toFixed(2)}
+                                </td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() =>
+                            onApply(
+                                preview.expectedUnits.toFixed(2),
+                                preview.amount.toFixed(2)
+                            )
+                        }
+                    >
+                        Use these values
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,13 +1,14 @@
 /**
  * UpdateMeterReading component allows users to input and update the current electricity meter reading
- * for a specific period (morning, evening, or night). It handles duplicate reading detection and provides
- * an option to force update an existing reading.
+ * for the current period of the reading schedule. It handles duplicate reading detection and provides
+ * an option to force update an existing reading. Readings that fail validation against the readings
+ * around them can be saved anyway, with a reason when there are errors.
  *
  * @component
  * @param {Object} props - Component props.
  * @param {string | number} props.currentReading - The current value of the meter reading input.
  * @param {(value: string) => void} props.setCurrentReading - Function to update the current reading state.
- * @param {(forceUpdate?: boolean) => Promise<void>} props.handleAddReading - Function to submit the new reading. Accepts an optional boolean to force update.
+ * @param {(forceUpdate?: boolean, override?: ReadingOverride) => Promise<void>} props.handleAddReading - Function to submit the new reading. Accepts an optional boolean to force update and an override for validation issues.
  * @param {boolean} props.isSubmitting - Indicates if the form submission is in progress.
  * @param {boolean} props.isSubmitted - Indicates if the form has been submitted.
  * @param {string} [props.label] - Optional label for the input field. Defaults to "Update Electricity Reading".
@@ -41,12 +42,17 @@ import {
     CheckCircle,
     Zap,
 } from "lucide-react";
-import { getPeriodFromHour } from "@/lib/timezone-utils";
+import { describePeriod, getPeriodForHour } from "@/lib/reading-schedule";
+import type { ReadingOverride, ReadingValidation } from "@/lib/types";
+import { ReadingValidationAlert } from "./reading-validation-alert";
 
 type UpdateMeterReadingProps = {
     currentReading: string | number;
     setCurrentReading: (value: string) => void;
-    handleAddReading: (forceUpdate?: boolean) => Promise<void>;  
+    handleAddReading: (
+        forceUpdate?: boolean,
+        override?: ReadingOverride
+    ) => Promise<void>;
 };
 
 export const UpdateMeterReading = ({
@@ -60,6 +66,11 @@ export const UpdateMeterReading = ({
         reading: number;
     } | null>(null);
     const [pendingReading, setPendingReading] = useState<string>("");
+    // Validation issues of the pending reading, and whether it replaces the existing one
+    const [validation, setValidation] = useState<ReadingValidation | null>(
+        null
+    );
+    const [pendingForceUpdate, setPendingForceUpdate] = useState(false);
     // Add states for success feedback
     const [showSuccess, setShowSuccess] = useState(false);
     const [lastSuccessfulReading, setLastSuccessfulReading] =
@@ -88,22 +99,12 @@ export const UpdateMeterReading = ({
     const getCurrentPeriodForDisplay = () => {
         const now = new Date();
         const localHour = now.getHours();
-        const period = getPeriodFromHour(localHour);
+        const period = getPeriodForHour(state.schedule, localHour);
         return period;
     };
 
-    const getPeriodDisplayName = (period: string) => {
-        switch (period) {
-            case "morning":
-                return "Morning (5:00 AM - 11:59 AM)";
-            case "evening":
-                return "Evening (12:00 PM - 7:59 PM)";
-            case "night":
-                return "Night (8:00 PM - 4:59 AM)";
-            default:
-                return period;
-        }
-    };
+    const getPeriodDisplayName = (period: string) =>
+        describePeriod(state.schedule, period);
 
     const handleSubmit = async () => {
         if (!currentReading || Number.isNaN(Number(currentReading))) {
@@ -125,6 +126,8 @@ export const UpdateMeterReading = ({
                 setShowSuccess(false);
             }, 5000);
         } catch (error: unknown) {
+            if (handleValidationError(error, false)) return;
+
             // Check if this is a duplicate reading error
             if (
                 typeof error === "object" &&
@@ -159,10 +162,56 @@ export const UpdateMeterReading = ({
                 setShowSuccess(false);
             }, 5000);
         } catch (error) {
+            if (handleValidationError(error, true)) {
+                setShowDuplicateAlert(false);
+                return;
+            }
             console.error("Error forcing update:", error);
         }
     };
 
+    // Shows the issues of a reading that failed validation; returns false for other errors
+    const handleValidationError = (error: unknown, forceUpdate: boolean) => {
+        if (
+            typeof error !== "object" ||
+            error === null ||
+            !("validation" in error)
+        ) {
+            return false;
+        }
+        setValidation((error as { validation: ReadingValidation }).validation);
+        setPendingForceUpdate(forceUpdate);
+        return true;
+    };
+
+    const handleOverride = async (override: ReadingOverride) => {
+        try {
+            await handleAddReading(pendingForceUpdate, override);
+
+            setLastSuccessfulReading(pendingReading);
+            setShowSuccess(true);
+
+            setValidation(null);
+            setPendingForceUpdate(false);
+            setExistingReading(null);
+            setPendingReading("");
+            setCurrentReading("");
+
+            setTimeout(() => {
+                setShowSuccess(false);
+            }, 5000);
+        } catch (error) {
+            console.error("Error saving reading anyway:", error);
+        }
+    };
+
+    const handleCancelOverride = () => {
+        setValidation(null);
+        setPendingForceUpdate(false);
+        setExistingReading(null);
+        setPendingReading("");
+    };
+
     const handleCancelUpdate = () => {
         setShowDuplicateAlert(false);
         setExistingReading(null);
@@ -174,6 +223,17 @@ export const UpdateMeterReading = ({
 
     return (
         <div className="space-y-4">
+            {/* Validation Alert */}
+            {validation && (
+                <ReadingValidationAlert
+                    reading={pendingReading}
+                    validation={validation}
+                    isSubmitting={state.isSubmitting}
+                    onOverride={handleOverride}
+                    onCancel={handleCancelOverride}
+                />
+            )}
+
             {/* Duplicate Reading Alert */}
             {showDuplicateAlert && existingReading && (
                 <Alert className="border-amber-200 bg-amber-50 dark:bg-amber-950">
@@ -286,13 +346,14 @@ export const UpdateMeterReading = ({
                                 ? "border-red-500"
                                 : ""
                         }
-                        disabled={showDuplicateAlert}
+                        disabled={showDuplicateAlert || validation !== null}
                     />
                     <Button
                         onClick={handleSubmit}
                         disabled={
                             state.isSubmitting ||
                             showDuplicateAlert ||
+                            validation !== null ||
                             !currentReading
                         }
                         className={`hover:decoration-wavy hover:underline hover:underline-offset-4 hover:white focus:decoration-wavy focus:underline focus:underline-offset-4 focus:white transition-all duration-200 ${
@@ -6,12 +6,13 @@
  *   grouped by period (morning, evening, night), with gradients, shadows, and legends.
  * - The "Quick Overview" tab provides summary statistics and period distribution.
  * - Handles responsive resizing and updates chart dimensions on window resize or tab switch.
- * - Calculates daily consumption from an array of electricity readings, supporting
- *   grouping by day and period, and handles meter resets.
+ * - Shows the consumption between consecutive readings from `lib/consumption.ts`, with
+ *   token top-ups counted, grouped by day and period.
  *
  * @component
  * @param {Object} props - Component props.
  * @param {ElectricityReading[]} props.readings - Array of electricity readings to visualize.
+ * @param {TokenPurchase[]} props.tokens - Token purchases bought between the readings.
  * @returns {JSX.Element} The rendered UsageChart component.
  */
 "use client";
@@ -24,7 +25,9 @@ import {
     CardHeader,
     CardTitle,
 } from "@/components/ui/card";
-import type { ElectricityReading, Period } from "@/lib/types";
+import type { ElectricityReading, Period, TokenPurchase } from "@/lib/types";
+import { getUsageIntervals } from "@/lib/consumption";
+import { getLocalDateString } from "@/lib/timezone-utils";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import EnhancedUsageCharts from "./enhanced-usage-charts";
@@ -32,6 +35,7 @@ import { BarChart3, TrendingUp, PieChart, Activity } from "lucide-react";
 
 interface UsageChartProps {
     readings: ElectricityReading[];
+    tokens: TokenPurchase[];
 }
 
 interface DailyConsumption {
@@ -43,7 +47,10 @@ interface DailyConsumption {
 
 type TimePeriod = "weekly" | "monthly" | "all";
 
-export default function UsageChart({ readings }: Readonly<UsageChartProps>) {
+export default function UsageChart({
+    readings,
+    tokens,
+}: Readonly<UsageChartProps>) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [chartWidth, setChartWidth] = useState(0);
     const [chartHeight, setChartHeight] = useState(0);
@@ -54,99 +61,25 @@ export default function UsageChart({ readings }: Readonly<UsageChartProps>) {
     const [timePeriod] = useState<TimePeriod>("weekly");
     const [currentWeekStart, setCurrentWeekStart] = useState<Date>(new Date());
 
-    // Calculate daily consumption from readings - KEEPING ORIGINAL LOGIC
+    // Consumption between consecutive readings, dated by the later reading
     useEffect(() => {
         if (readings.length < 2) {
             setDailyConsumption([]);
             return;
         }
 
-        // Sort readings by timestamp
-        const sortedReadings = [...readings].sort((a, b) => {
-            const timestampA =
-                a.timestamp instanceof Date
-                    ? a.timestamp
-                    : new Date(a.timestamp);
-            const timestampB =
-                b.timestamp instanceof Date
-                    ? b.timestamp
-                    : new Date(b.timestamp);
-            return timestampA.getTime() - timestampB.getTime();
-        });
-
-        // Group readings by day
-        const readingsByDay: Record<string, ElectricityReading[]> = {};
-        for (const reading of sortedReadings) {
-            const date = reading.timestamp.toISOString().split("T")[0];
-            if (!readingsByDay[date]) {
-                readingsByDay[date] = [];
-            }
-            readingsByDay[date].push(reading);
-        }
-
-        // Calculate consumption for each day and period
-        const consumption: DailyConsumption[] = [];
-
-        // Process each day
-        Object.entries(readingsByDay).forEach(([date, dayReadings]) => {
-            // Sort by timestamp
-            dayReadings.sort(
-                (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
-            );
-
-            // Calculate consumption between consecutive readings
-            for (let i = 1; i < dayReadings.length; i++) {
-                const prevReading = dayReadings[i - 1];
-                const currentReading = dayReadings[i];
-
-                const prevValue = Number(prevReading.reading);
-                const currentValue = Number(currentReading.reading);
-
-                // Only calculate if the current reading is greater than the previous one
-                // (to handle cases where the meter might have been reset)
-                if (prevValue >= currentValue) {
-                    consumption.push({
-                        date,
-                        timestamp: currentReading.timestamp,
-                        consumption: Number(
-                            (prevValue - currentValue).toFixed(2)
-                        ),
-                        period: currentReading.period,
-                    });
-                }
-            }
-        });
-
-        // Also calculate consumption between days (last reading of previous day to first reading of next day)
-        const days = Object.keys(readingsByDay).sort((a, b) => a.localeCompare(b));
-        for (let i = 1; i < days.length; i++) {
-            const prevDay = days[i - 1];
-            const currentDay = days[i];
-
-            const prevDayReadings = readingsByDay[prevDay];
-            const currentDayReadings = readingsByDay[currentDay];
-
-            if (prevDayReadings.length > 0 && currentDayReadings.length > 0) {
-                const lastReadingPrevDay =
-                    prevDayReadings[prevDayReadings.length - 1];
-                const firstReadingCurrentDay = currentDayReadings[0];
-
-                const prevValue = Number(lastReadingPrevDay.reading);
-                const currentValue = Number(firstReadingCurrentDay.reading);
-
-                // Only calculate if the current reading is greater than the previous one
-                if (prevValue >= currentValue) {
-                    consumption.push({
-                        date: currentDay,
-                        timestamp: firstReadingCurrentDay.timestamp,
-                        consumption: Number(
-                            (prevValue - currentValue).toFixed(2)
-                        ),
-                        period: firstReadingCurrentDay.period,
-                    });
-                }
-            }
-        }
+        const consumption: DailyConsumption[] = getUsageIntervals(
+            readings,
+            tokens
+        )
+            // A reading that went up without a token is not usage
+            .filter((interval) => interval.consumption >= 0)
+            .map((interval) => ({
+                date: getLocalDateString(new Date(interval.end.timestamp)),
+                timestamp: new Date(interval.end.timestamp),
+                consumption: Number(interval.consumption.toFixed(2)),
+                period: interval.end.period,
+            }));
 
         // Sort by timestamp
         consumption.sort(
@@ -164,7 +97,7 @@ export default function UsageChart({ readings }: Readonly<UsageChartProps>) {
             weekStart.setDate(weekStart.getDate() - 6); // Start of the week (7 days including today)
             setCurrentWeekStart(weekStart);
         }
-    }, [readings]);
+    }, [readings, tokens]);
 
     // KEEPING ORIGINAL DIMENSION LOGIC BUT ADDING TAB SWITCH DETECTION
     useEffect(() => {
@@ -507,9 +440,7 @@ export default function UsageChart({ readings }: Readonly<UsageChartProps>) {
     }, [filteredData, chartWidth, chartHeight]);
 
     // Enhanced color function with gradients
-    const getEnhancedColorsForPeriod = (
-        period: "morning" | "evening" | "night"
-    ) => {
+    const getEnhancedColorsForPeriod = (period: Period) => {
         switch (period) {
             case "morning":
                 return {
@@ -580,7 +511,7 @@ export default function UsageChart({ readings }: Readonly<UsageChartProps>) {
                 </TabsList>
 
                 <TabsContent value="enhanced" className="space-y-6">
-                    <EnhancedUsageCharts readings={readings} />
+                    <EnhancedUsageCharts readings={readings} tokens={tokens} />
                 </TabsContent>
 
                 <TabsContent value="overview" className="space-y-6">
@@ -3,7 +3,9 @@
  *
  * Fetches and presents aggregated usage statistics such as average daily usage,
  * peak usage day, total tokens purchased, and a breakdown of daily usage.
- * Also displays a history of token purchases if available.
+ * Also displays a history of token purchases if available. Each period reading
+ * opens its change history, where a mistyped value can be reverted, and any
+ * reading or token can be edited or deleted after confirmation.
  *
  * @component
  * @param {Object} props - Component props.
@@ -36,6 +38,14 @@ import TokenMobileSummaryTable from "./usageSummaryComponents/TokenMobileSummary
 import TokenDesktopSummaryTable from "./usageSummaryComponents/TokenDesktopSummaryTable";
 import DesktopSummaryTable from "./usageSummaryComponents/DesktopSummaryTable";
 import StatisticsCard from "./usageSummaryComponents/StatisticsCards";
+import { ReadingHistoryDialog } from "./reading-history-dialog";
+import { EditReadingDialog } from "./edit-reading-dialog";
+import { EditTokenDialog } from "./edit-token-dialog";
+import { ConfirmDeleteDialog } from "./confirm-delete-dialog";
+import type { ReadingAction } from "./usageSummaryComponents/ReadingActionsMenu";
+import type { TokenAction } from "./usageSummaryComponents/TokenDesktopSummaryTable";
+import { useEntryActions } from "@/hooks/use-entry-actions";
+import { useElectricity } from "@/contexts/ElectricityContext";
 interface UsageSummaryProps {
     readings: ElectricityReading[];
     tokens: TokenPurchase[];
@@ -54,10 +64,40 @@ export default function UsageSummary({
     const [loading, setLoading] = useState(true);
     const [selectedMonth, setSelectedMonth] = useState<string>("all");
     const [availableMonths, setAvailableMonths] = useState<MonthOption[]>([]);
+    const [readingAction, setReadingAction] = useState<{
+        action: ReadingAction;
+        readingId: string;
+    } | null>(null);
+    const [tokenAction, setTokenAction] = useState<{
+        action: TokenAction;
+        tokenId: string;
+    } | null>(null);
     const isMobile = useMediaQuery({ maxWidth: 768 });
+    const { editReading, deleteReading, editToken, deleteToken } =
+        useEntryActions();
+    const { schedule } = useElectricity().state;
 
     const readingsCount = readings.length;
     const tokensCount = tokens.length;
+    // Edits to existing entries (e.g. a revert) also refresh the summary
+    const readingsTotal = useMemo(
+        () => readings.reduce((sum, r) => sum + Number(r.reading), 0),
+        [readings]
+    );
+    const tokensTotal = useMemo(
+        () => tokens.reduce((sum, t) => sum + Number(t.units), 0),
+        [tokens]
+    );
+
+    const selectedReading =
+        readingAction?.action === "edit"
+            ? readings.find((r) => r.reading_id === readingAction.readingId) ??
+              null
+            : null;
+    const selectedToken =
+        tokenAction?.action === "edit"
+            ? tokens.find((t) => t.token_id === tokenAction.tokenId) ?? null
+            : null;
 
     useEffect(() => {
         const fetchSummary = async () => {
@@ -97,7 +137,7 @@ export default function UsageSummary({
         };
 
         fetchSummary();
-    }, [readingsCount, tokensCount]);
+    }, [readingsCount, tokensCount, readingsTotal, tokensTotal]);
 
     // Filter daily usage based on selected month
     const filteredDailyUsage = useMemo(() => {
@@ -118,6 +158,7 @@ export default function UsageSummary({
                 peakUsageDay: { date: "", usage: 0 },
                 totalUsage: 0,
                 daysWithData: 0,
+                totalCost: null,
             };
         }
 
@@ -130,6 +171,13 @@ export default function UsageSummary({
             (day) => day.total > 0
         ).length;
         const averageUsage = daysWithData > 0 ? totalUsage / daysWithData : 0;
+        const pricedDays = filteredDailyUsage.filter(
+            (day) => day.cost !== undefined
+        );
+        const totalCost =
+            pricedDays.length > 0
+                ? pricedDays.reduce((sum, day) => sum + (day.cost ?? 0), 0)
+                : null;
 
         // Find peak usage day
         let peakUsageDay = filteredDailyUsage[0];
@@ -147,6 +195,7 @@ export default function UsageSummary({
             },
             totalUsage,
             daysWithData,
+            totalCost,
         };
     }, [filteredDailyUsage]);
 
@@ -253,6 +302,11 @@ export default function UsageSummary({
                         <div className="text-2xl font-bold">
                             {periodStats.totalUsage.toFixed(2)} kWh
                         </div>
+                        {periodStats.totalCost !== null && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                                Tariff cost: R {periodStats.totalCost.toFixed(2)}
+                            </div>
+                        )}
                         {trend && (
                             <div className="flex items-center gap-1 mt-1">
                                 {trend.isIncrease && (
@@ -305,11 +359,59 @@ export default function UsageSummary({
                     </div>
                 </div>
                 {isMobile ? (
-                    <MobileSummaryTable data={filteredDailyUsage} />
+                    <MobileSummaryTable
+                        data={filteredDailyUsage}
+                        periods={schedule.periods}
+                        onReadingAction={(action, readingId) =>
+                            setReadingAction({ action, readingId })
+                        }
+                    />
                 ) : (
-                    <DesktopSummaryTable data={filteredDailyUsage} />
+                    <DesktopSummaryTable
+                        data={filteredDailyUsage}
+                        periods={schedule.periods}
+                        onReadingAction={(action, readingId) =>
+                            setReadingAction({ action, readingId })
+                        }
+                    />
                 )}
             </div>
+            <ReadingHistoryDialog
+                readingId={
+                    readingAction?.action === "history"
+                        ? readingAction.readingId
+                        : null
+                }
+                onOpenChange={(open) => {
+                    if (!open) setReadingAction(null);
+                }}
+            />
+            <EditReadingDialog
+                reading={selectedReading}
+                onOpenChange={(open) => {
+                    if (!open) setReadingAction(null);
+                }}
+                onSave={(value, timestamp, override) =>
+                    editReading(
+                        readingAction?.readingId ?? "",
+                        value,
+                        timestamp,
+                        override
+                    )
+                }
+            />
+            <ConfirmDeleteDialog
+                open={readingAction?.action === "delete"}
+                title="Delete reading?"
+                description="The reading is removed from your history and usage is recalculated. The deletion is kept in the audit log."
+                onOpenChange={(open) => {
+                    if (!open) setReadingAction(null);
+                }}
+                onConfirm={() => {
+                    if (readingAction) deleteReading(readingAction.readingId);
+                    setReadingAction(null);
+                }}
+            />
 
             {/* Token Purchase History */}
             {filteredTokens.length > 0 && (
@@ -325,16 +427,43 @@ export default function UsageSummary({
                             {isMobile ? (
                                 <TokenMobileSummaryTable
                                     filteredTokens={filteredTokens}
+                                    onTokenAction={(action, tokenId) =>
+                                        setTokenAction({ action, tokenId })
+                                    }
                                 />
                             ) : (
                                 <TokenDesktopSummaryTable
                                     filteredTokens={filteredTokens}
+                                    onTokenAction={(action, tokenId) =>
+                                        setTokenAction({ action, tokenId })
+                                    }
                                 />
                             )}
                         </div>
                     </div>
                 </div>
             )}
+            <EditTokenDialog
+                token={selectedToken}
+                onOpenChange={(open) => {
+                    if (!open) setTokenAction(null);
+                }}
+                onSave={(units, totalCost) =>
+                    editToken(tokenAction?.tokenId ?? "", units, totalCost)
+                }
+            />
+            <ConfirmDeleteDialog
+                open={tokenAction?.action === "delete"}
+                title="Delete token purchase?"
+                description="The token and the meter reading recorded with it are removed. The deletion is kept in the audit log."
+                onOpenChange={(open) => {
+                    if (!open) setTokenAction(null);
+                }}
+                onConfirm={() => {
+                    if (tokenAction) deleteToken(tokenAction.tokenId);
+                    setTokenAction(null);
+                }}
+            />
 
             {/* Insights */}
             {filteredDailyUsage.length > 0 && (
@@ -395,6 +524,14 @@ export default function UsageSummary({
                             over{" "}
                             <strong>{periodStats.daysWithData} days</strong>
                         </li>
+                        {periodStats.totalCost !== null && (
+                            <li>
+                                Estimated cost at your tariff:{" "}
+                                <strong>
+                                    R {periodStats.totalCost.toFixed(2)}
+                                </strong>
+                            </li>
+                        )}
                         {filteredTokens.length > 0 && (
                             <li>
                                 You purchased{" "}
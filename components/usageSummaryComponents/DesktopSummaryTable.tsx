@@ -1,18 +1,28 @@
 import React from "react";
 import { formatDate } from "@/lib/date-utils";
 import { Zap } from "lucide-react";
+import type { Period, SchedulePeriod } from "@/lib/types";
+import ReadingActionsMenu, { type ReadingAction } from "./ReadingActionsMenu";
+import { periodTextColor } from "./periodColors";
 
 interface DesktopSummaryTableProps {
     date: string;
-    morning?: number;
-    evening?: number;
-    night?: number;
+    readings?: Partial<Record<Period, number>>;
     total: number;
+    cost?: number;
+    readingIds?: Partial<Record<Period, string>>;
+    interpolated?: boolean;
 }
 
 function DesktopSummaryTable({
     data,
-}: Readonly<{ data: DesktopSummaryTableProps[] }>) {
+    periods,
+    onReadingAction,
+}: Readonly<{
+    data: DesktopSummaryTableProps[];
+    periods: SchedulePeriod[];
+    onReadingAction?: (action: ReadingAction, readingId: string) => void;
+}>) {
     return (
         <div className="relative overflow-auto max-h-[500px]">
             <table className="w-full">
@@ -20,12 +30,18 @@ function DesktopSummaryTable({
                 <thead className="sticky top-0 z-10">
                     <tr className="bg-muted text-sm font-medium border-b">
                         <th className="p-3 text-left min-w-[100px]">Date</th>
-                        <th className="p-3 text-left min-w-[80px]">Morning</th>
-                        <th className="p-3 text-left min-w-[80px]">Evening</th>
-                        <th className="p-3 text-left min-w-[80px]">Night</th>
+                        {periods.map((period) => (
+                            <th
+                                key={period.key}
+                                className="p-3 text-left min-w-[80px]"
+                            >
+                                {period.name}
+                            </th>
+                        ))}
                         <th className="p-3 text-left min-w-[100px]">
                             Total Usage
                         </th>
+                        <th className="p-3 text-left min-w-[80px]">Cost</th>
                     </tr>
                 </thead>
 
@@ -40,32 +56,57 @@ function DesktopSummaryTable({
                                 <td className="p-3 font-medium">
                                     {formatDate(new Date(day.date))}
                                 </td>
+                                {periods.map((period, index) => {
+                                    const reading = day.readings?.[period.key];
+                                    return (
+                                        <td key={period.key} className="p-3">
+                                            {reading !== undefined ? (
+                                                <>
+                                                    <span
+                                                        className={`${periodTextColor(index)} font-medium`}
+                                                    >
+                                                        {reading} kWh
+                                                    </span>
+                                                    <ReadingActionsMenu
+                                                        readingId={
+                                                            day.readingIds?.[
+                                                                period.key
+                                                            ]
+                                                        }
+                                                        onReadingAction={
+                                                            onReadingAction
+                                                        }
+                                                    />
+                                                </>
+                                            ) : (
+                                                <span className="text-muted-foreground">
+                                                    -
+                                                </span>
+                                            )}
+                                        </td>
+                                    );
+                                })}
                                 <td className="p-3">
-                                    {day.morning !== undefined ? (
-                                        <span className="text-blue-600 font-medium">
-                                            {day.morning} kWh
-                                        </span>
-                                    ) : (
-                                        <span className="text-muted-foreground">
-                                            -
-                                        </span>
-                                    )}
-                                </td>
-                                <td className="p-3">
-                                    {day.evening !== undefined ? (
-                                        <span className="text-orange-600 font-medium">
-                                            {day.evening} kWh
-                                        </span>
-                                    ) : (
-                                        <span className="text-muted-foreground">
-                                            -
+                                    <div className="flex items-center gap-1">
+                                        <Zap className="h-4 w-4 text-yellow-500" />
+                                        <span className="font-bold">
+                                            {day.total?.toFixed(2) || "0.00"}{" "}
+                                            kWh
                                         </span>
-                                    )}
+                                        {day.interpolated && (
+                                            <span
+                                                className="text-xs text-muted-foreground"
+                                                title="Partly estimated from readings either side of a gap"
+                                            >
+                                                (est.)
+                                            </span>
+                                        )}
+                                    </div>
                                 </td>
                                 <td className="p-3">
-                                    {day.night !== undefined ? (
-                                        <span className="text-purple-600 font-medium">
-                                            {day.night} kWh
+                                    {day.cost !== undefined ? (
+                                        <span className="font-medium">
+                                            R {day.cost.toFixed(2)}
                                         </span>
                                     ) : (
                                         <span className="text-muted-foreground">
@@ -73,21 +114,12 @@ function DesktopSummaryTable({
                                         </span>
                                     )}
                                 </td>
-                                <td className="p-3">
-                                    <div className="flex items-center gap-1">
-                                        <Zap className="h-4 w-4 text-yellow-500" />
-                                        <span className="font-bold">
-                                            {day.total?.toFixed(2) || "0.00"}{" "}
-                                            kWh
-                                        </span>
-                                    </div>
-                                </td>
                             </tr>
                         ))
                     ) : (
                         <tr>
                             <td
-                                colSpan={5}
+                                colSpan={periods.length + 3}
                                 className="p-8 text-center text-muted-foreground"
                             >
                                 No data available for selected period
@@ -1,18 +1,28 @@
 import React from "react";
 import { formatDate } from "@/lib/date-utils";
 import { Zap } from "lucide-react";
+import type { Period, SchedulePeriod } from "@/lib/types";
+import ReadingActionsMenu, { type ReadingAction } from "./ReadingActionsMenu";
+import { periodTextColor } from "./periodColors";
 
 interface MobileSummaryTableProps {
     date: string;
-    morning?: number;
-    evening?: number;
-    night?: number;
+    readings?: Partial<Record<Period, number>>;
     total: number;
+    cost?: number;
+    readingIds?: Partial<Record<Period, string>>;
+    interpolated?: boolean;
 }
 
 function MobileSummaryTable({
     data,
-}: Readonly<{ data: MobileSummaryTableProps[] }>) {
+    periods,
+    onReadingAction,
+}: Readonly<{
+    data: MobileSummaryTableProps[];
+    periods: SchedulePeriod[];
+    onReadingAction?: (action: ReadingAction, readingId: string) => void;
+}>) {
     return (
         <div className="space-y-3 md:hidden">
             {data.map((day) => (
@@ -29,40 +39,51 @@ function MobileSummaryTable({
                             <span className="font-bold">
                                 {day.total?.toFixed(2) || "0.00"} kWh
                             </span>
+                            {day.interpolated && (
+                                <span
+                                    className="text-xs text-muted-foreground"
+                                    title="Partly estimated from readings either side of a gap"
+                                >
+                                    est.
+                                </span>
+                            )}
+                            {day.cost !== undefined && (
+                                <span className="text-xs text-muted-foreground">
+                                    (R {day.cost.toFixed(2)})
+                                </span>
+                            )}
                         </div>
                     </div>
 
-                    <div className="grid grid-cols-3 gap-4 text-sm">
-                        <div className="text-center">
-                            <div className="text-blue-600 font-medium">
-                                {day.morning !== undefined
-                                    ? `${day.morning} kWh`
-                                    : "-"}
-                            </div>
-                            <div className="text-xs text-muted-foreground mt-1">
-                                Morning
-                            </div>
-                        </div>
-                        <div className="text-center">
-                            <div className="text-orange-600 font-medium">
-                                {day.evening !== undefined
-                                    ? `${day.evening} kWh`
-                                    : "-"}
-                            </div>
-                            <div className="text-xs text-muted-foreground mt-1">
-                                Evening
-                            </div>
-                        </div>
-                        <div className="text-center">
-                            <div className="text-purple-600 font-medium">
-                                {day.night !== undefined
-                                    ? `${day.night} kWh`
-                                    : "-"}
-                            </div>
-                            <div className="text-xs text-muted-foreground mt-1">
-                                Night
-                            </div>
-                        </div>
+                    <div
+                        className="grid gap-4 text-sm"
+                        style={{
+                            gridTemplateColumns: `repeat(${periods.length}, minmax(0, 1fr))`,
+                        }}
+                    >
+                        {periods.map((period, index) => {
+                            const reading = day.readings?.[period.key];
+                            return (
+                                <div key={period.key} className="text-center">
+                                    <div
+                                        className={`${periodTextColor(index)} font-medium`}
+                                    >
+                                        {reading !== undefined
+                                            ? `${reading} kWh`
+                                            : "-"}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground mt-1">
+                                        {period.name}
+                                        <ReadingActionsMenu
+                                            readingId={
+                                                day.readingIds?.[period.key]
+                                            }
+                                            onReadingAction={onReadingAction}
+                                        />
+                                    </div>
+                                </div>
+                            );
+                        })}
                     </div>
                 </div>
             ))}
@@ -0,0 +1,64 @@
+import React from "react";
+import { History, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export type ReadingAction = "history" | "edit" | "delete";
+
+/**
+ * Row actions for a single period reading: history, edit and delete.
+ * Readings inserted by a token purchase are changed through the token instead.
+ */
+function ReadingActionsMenu({
+    readingId,
+    onReadingAction,
+}: Readonly<{
+    readingId?: string;
+    onReadingAction?: (action: ReadingAction, readingId: string) => void;
+}>) {
+    if (!readingId || !onReadingAction) return null;
+    const isTokenReading = readingId.startsWith("token-reading-");
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger
+                className="ml-1 inline-flex align-middle text-muted-foreground hover:text-foreground"
+                title="Reading actions"
+            >
+                <MoreHorizontal className="h-3.5 w-3.5" />
+                <span className="sr-only">Reading actions</span>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+                <DropdownMenuItem
+                    onClick={() => onReadingAction("history", readingId)}
+                >
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                </DropdownMenuItem>
+                {!isTokenReading && (
+                    <>
+                        <DropdownMenuItem
+                            onClick={() => onReadingAction("edit", readingId)}
+                        >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                            onClick={() => onReadingAction("delete", readingId)}
+                            className="text-destructive focus:text-destructive"
+                        >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                        </DropdownMenuItem>
+                    </>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
+
+export default ReadingActionsMenu;
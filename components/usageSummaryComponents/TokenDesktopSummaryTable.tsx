@@ -1,5 +1,7 @@
 import React from "react";
 import { formatDate } from "@/lib/date-utils";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 
 interface TokenMobileSummaryTableProps {
     id: number;
@@ -11,9 +13,15 @@ interface TokenMobileSummaryTableProps {
     total_cost?: number;
 }
 
+export type TokenAction = "edit" | "delete";
+
 function TokenDesktopSummaryTable({
     filteredTokens,
-}: Readonly<{ filteredTokens: TokenMobileSummaryTableProps[] }>) {
+    onTokenAction,
+}: Readonly<{
+    filteredTokens: TokenMobileSummaryTableProps[];
+    onTokenAction?: (action: TokenAction, tokenId: string) => void;
+}>) {
     return (
         <table className="w-full">
             {/* Header */}
@@ -23,6 +31,11 @@ function TokenDesktopSummaryTable({
                     <th className="p-3 text-left min-w-[100px]">Units Added</th>
                     <th className="p-3 text-left min-w-[100px]">New Reading</th>
                     <th className="p-3 text-left min-w-[80px]">Total Cost</th>
+                    {onTokenAction && (
+                        <th className="p-3 text-right min-w-[80px]">
+                            <span className="sr-only">Actions</span>
+                        </th>
+                    )}
                 </tr>
             </thead>
 
@@ -47,6 +60,38 @@ function TokenDesktopSummaryTable({
                                 ? `R ${token.total_cost.toFixed(2)}`
                                 : "-"}
                         </td>
+                        {onTokenAction && (
+                            <td className="p-3 text-right whitespace-nowrap">
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7"
+                                    onClick={() =>
+                                        onTokenAction(
+                                            "edit",
+                                            String(token.token_id)
+                                        )
+                                    }
+                                >
+                                    <Pencil className="h-3.5 w-3.5" />
+                                    <span className="sr-only">Edit token</span>
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 text-destructive"
+                                    onClick={() =>
+                                        onTokenAction(
+                                            "delete",
+                                            String(token.token_id)
+                                        )
+                                    }
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                    <span className="sr-only">Delete token</span>
+                                </Button>
+                            </td>
+                        )}
                     </tr>
                 ))}
             </tbody>
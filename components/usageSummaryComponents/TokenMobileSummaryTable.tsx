@@ -1,5 +1,7 @@
 import React from "react";
 import { formatDate } from "@/lib/date-utils";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 
 interface TokenMobileSummaryTableProps {
     id: number;
@@ -11,9 +13,15 @@ interface TokenMobileSummaryTableProps {
     total_cost?: number;
 }
 
+export type TokenAction = "edit" | "delete";
+
 function TokenMobileSummaryTable({
     filteredTokens,
-}: Readonly<{ filteredTokens: TokenMobileSummaryTableProps[] }>) {
+    onTokenAction,
+}: Readonly<{
+    filteredTokens: TokenMobileSummaryTableProps[];
+    onTokenAction?: (action: TokenAction, tokenId: string) => void;
+}>) {
     return (
         <div className="space-y-3 md:hidden">
             {filteredTokens.map((token) => (
@@ -25,9 +33,47 @@ function TokenMobileSummaryTable({
                         <span className="font-semibold">
                             {formatDate(token.timestamp)}
                         </span>
-                        <span className="text-green-600 font-semibold">
-                            +{token.units} kWh
-                        </span>
+                        <div className="flex items-center gap-1">
+                            <span className="text-green-600 font-semibold">
+                                +{token.units} kWh
+                            </span>
+                            {onTokenAction && (
+                                <>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-7 w-7"
+                                        onClick={() =>
+                                            onTokenAction(
+                                                "edit",
+                                                String(token.token_id)
+                                            )
+                                        }
+                                    >
+                                        <Pencil className="h-3.5 w-3.5" />
+                                        <span className="sr-only">
+                                            Edit token
+                                        </span>
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-7 w-7 text-destructive"
+                                        onClick={() =>
+                                            onTokenAction(
+                                                "delete",
+                                                String(token.token_id)
+                                            )
+                                        }
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                        <span className="sr-only">
+                                            Delete token
+                                        </span>
+                                    </Button>
+                                </>
+                            )}
+                        </div>
                     </div>
 
                     <div className="grid grid-cols-2 gap-4 text-sm">
@@ -0,0 +1,13 @@
+/** Text colours of the period columns, repeated for longer schedules */
+const PERIOD_TEXT_COLORS = [
+    "text-blue-600",
+    "text-orange-600",
+    "text-purple-600",
+    "text-green-600",
+    "text-pink-600",
+    "text-teal-600",
+];
+
+export function periodTextColor(index: number): string {
+    return PERIOD_TEXT_COLORS[index % PERIOD_TEXT_COLORS.length];
+}
@@ -18,6 +18,7 @@ import type {
     ElectricityState,
     ElectricityAction,
     ElectricityReading,
+    ReadingSchedule,
     TokenPurchase,
 } from "@/lib/types";
 import {
@@ -40,6 +41,7 @@ interface ElectricityProviderProps {
     initialTokens: TokenPurchase[];
     initialLatestReading: number;
     initialTotalUnits: number;
+    initialSchedule?: ReadingSchedule;
     dbConnected: boolean;
 }
 
@@ -49,6 +51,7 @@ export function ElectricityProvider({
     initialTokens,
     initialLatestReading,
     initialTotalUnits,
+    initialSchedule,
     dbConnected,
 }: Readonly<ElectricityProviderProps>) {
     const [state, dispatch] = useReducer(reducer, initialElectricityState);
@@ -64,6 +67,9 @@ export function ElectricityProvider({
                 payload: initialLatestReading,
             });
             dispatch({ type: "SET_TOTAL_UNITS", payload: initialTotalUnits });
+            if (initialSchedule) {
+                dispatch({ type: "SET_SCHEDULE", payload: initialSchedule });
+            }
         } else {
             // Load from localStorage
             const localReadings = parseLocalStorageReadings(
@@ -82,6 +88,7 @@ export function ElectricityProvider({
         initialTokens,
         initialLatestReading,
         initialTotalUnits,
+        initialSchedule,
     ]);
 
     // Persist to localStorage only when not using database
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect } from "react";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import { getBalanceForecast } from "@/actions/electricity-actions";
+
+/**
+ * Keeps the balance forecast up to date as readings and tokens change
+ */
+export function useBalanceForecast(dbConnected: boolean) {
+    const { state, dispatch } = useElectricity();
+    const { readings, tokens } = state;
+
+    useEffect(() => {
+        if (!dbConnected) return;
+
+        let cancelled = false;
+        getBalanceForecast()
+            .then((forecast) => {
+                if (!cancelled) {
+                    dispatch({ type: "SET_FORECAST", payload: forecast });
+                }
+            })
+            .catch((error) =>
+                console.error("Error fetching balance forecast:", error)
+            );
+
+        return () => {
+            cancelled = true;
+        };
+    }, [dbConnected, readings, tokens, dispatch]);
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect } from "react";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import { getBudgetStatus } from "@/actions/budget-actions";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useToast } from "@/hooks/use-toast";
+import { formatBudgetAmount } from "@/lib/budget";
+
+/**
+ * Keeps the monthly budget progress up to date as readings and tokens change,
+ * and shows a toast the first time each alert threshold is reached in a month
+ */
+export function useBudgetStatus(dbConnected: boolean) {
+    const { state, dispatch } = useElectricity();
+    const { readings, tokens, budgetStatus } = state;
+    const { toast } = useToast();
+    // "YYYY-MM:threshold" of the last threshold a toast was shown for
+    const [lastAlert, setLastAlert] = useLocalStorage<string | null>(
+        "budgetAlertShown",
+        null
+    );
+
+    useEffect(() => {
+        if (!dbConnected) return;
+
+        let cancelled = false;
+        getBudgetStatus()
+            .then((status) => {
+                if (!cancelled) {
+                    dispatch({ type: "SET_BUDGET_STATUS", payload: status });
+                }
+            })
+            .catch((error) =>
+                console.error("Error fetching budget status:", error)
+            );
+
+        return () => {
+            cancelled = true;
+        };
+    }, [dbConnected, readings, tokens, dispatch]);
+
+    useEffect(() => {
+        if (!budgetStatus || budgetStatus.reachedThreshold === null) return;
+
+        const { budget, month, used, reachedThreshold } = budgetStatus;
+        const [alertMonth, alertThreshold] = (lastAlert ?? "").split(":");
+        if (
+            alertMonth === month &&
+            Number(alertThreshold) >= reachedThreshold
+        ) {
+            return;
+        }
+
+        setLastAlert(`${month}:${reachedThreshold}`);
+        toast({
+            title:
+                reachedThreshold >= 100
+                    ? "Monthly Budget Exceeded"
+                    : `${reachedThreshold}% of Monthly Budget Used`,
+            description: `${formatBudgetAmount(
+                budget.kind,
+                used
+            )} of ${formatBudgetAmount(budget.kind, budget.amount)} ${
+                budget.kind === "money" ? "spent" : "used"
+            } this month.`,
+            variant: reachedThreshold >= 100 ? "destructive" : "default",
+        });
+    }, [budgetStatus, lastAlert, setLastAlert, toast]);
+}
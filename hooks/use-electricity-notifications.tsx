@@ -1,19 +1,60 @@
 "use client"
 
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
 import { useElectricity } from "@/contexts/ElectricityContext"
-import { getNextUpdateTime } from "@/lib/date-utils"
+import { getNextReminder } from "@/lib/reading-schedule"
+import { getPushPublicKey, savePushSubscription } from "@/actions/push-actions"
+import { getPushSubscription, isPushSupported, subscribeToPush } from "@/lib/push-subscription"
+
+/**
+ * Subscribes this device to Web Push and saves the subscription, returning
+ * false when push is unavailable and only in-tab reminders can be shown
+ */
+async function enablePush(): Promise<boolean> {
+  if (!isPushSupported()) return false
+  const publicKey = await getPushPublicKey()
+  if (!publicKey) return false
+
+  try {
+    const subscription = await subscribeToPush(publicKey)
+    const result = await savePushSubscription(subscription)
+    return result.success
+  } catch (error) {
+    console.error("Error subscribing to push notifications:", error)
+    return false
+  }
+}
 
 export function useElectricityNotifications(notificationsEnabled: boolean) {
-  const { dispatch } = useElectricity()
+  const { state, dispatch } = useElectricity()
+  const { schedule } = state
+  // With Web Push the server sends reminders, even when the tab is closed
+  const [pushActive, setPushActive] = useState(false)
 
+  // Re-save the subscription on load so it follows the active household
   useEffect(() => {
-    const next = getNextUpdateTime()
-    dispatch({ type: "SET_NEXT_UPDATE", payload: next })
+    if (!notificationsEnabled || !isPushSupported()) return
+    if (Notification.permission !== "granted") return
+
+    let cancelled = false
+    getPushSubscription()
+      .then((subscription) => (subscription ? enablePush() : false))
+      .then((active) => {
+        if (!cancelled) setPushActive(active)
+      })
+      .catch((error) => console.error("Error checking push subscription:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [notificationsEnabled])
+
+  useEffect(() => {
+    dispatch({ type: "SET_NEXT_UPDATE", payload: getNextReminder(schedule).time })
 
     const interval = setInterval(() => {
       const now = new Date()
-      const next = getNextUpdateTime()
+      const { time: next, period } = getNextReminder(schedule, now)
       dispatch({ type: "SET_NEXT_UPDATE", payload: next })
 
       // Calculate time until next update
@@ -29,8 +70,7 @@ export function useElectricityNotifications(notificationsEnabled: boolean) {
 
       // Show notification 5 minutes before update time
       if (notificationsEnabled && diffMins <= 5 && diffMins > 0) {
-        const period = getPeriodFromHour(next.getHours())
-        showUpdateNotification(period)
+        if (!pushActive) showUpdateNotification(period.name.toLowerCase())
         dispatch({ type: "SET_SHOW_NOTIFICATION", payload: true })
       } else {
         dispatch({ type: "SET_SHOW_NOTIFICATION", payload: false })
@@ -38,7 +78,7 @@ export function useElectricityNotifications(notificationsEnabled: boolean) {
     }, 60000) // Check every 1 minute
 
     return () => clearInterval(interval)
-  }, [notificationsEnabled, dispatch])
+  }, [notificationsEnabled, pushActive, schedule, dispatch])
 
   const showUpdateNotification = (period: string) => {
     if ("Notification" in globalThis && Notification.permission === "granted") {
@@ -52,16 +92,12 @@ export function useElectricityNotifications(notificationsEnabled: boolean) {
   const enableNotifications = async () => {
     if ("Notification" in globalThis) {
       const permission = await Notification.requestPermission()
-      return permission === "granted"
+      if (permission !== "granted") return false
+      setPushActive(await enablePush())
+      return true
     }
     return false
   }
 
   return { enableNotifications }
 }
-
-function getPeriodFromHour(hour: number): "morning" | "evening" | "night" {
-  if (hour >= 5 && hour < 12) return "morning"
-  if (hour >= 12 && hour < 20) return "evening"
-  return "night"
-}
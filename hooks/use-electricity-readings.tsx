@@ -7,23 +7,101 @@ import {
     addBackdatedReading,
 } from "@/actions/electricity-actions";
 import { useToast } from "@/hooks/use-toast";
-import type { ElectricityReading } from "@/lib/types";
+import {
+    getOfflineReadingId,
+    isNetworkError,
+    isOutboxSupported,
+    queueOutboxEntry,
+} from "@/lib/offline-outbox";
+import { getPeriodForHour } from "@/lib/reading-schedule";
+import {
+    canSaveReading,
+    getOverrideReason,
+    validateReading,
+} from "@/lib/reading-validation";
+import type {
+    ElectricityReading,
+    ReadingOverride,
+    ReadingValidation,
+} from "@/lib/types";
 import { Button } from "@/components/ui/button";
 
-export function useElectricityReadings(dbConnected: boolean) {
+// Thrown, like a duplicate reading, when the user has to confirm a reading
+const createValidationError = (validation: ReadingValidation) => {
+    const error = new Error("Reading needs confirmation") as Error & {
+        validation?: ReadingValidation;
+    };
+    error.validation = validation;
+    return error;
+};
+
+const isValidationError = (
+    error: unknown
+): error is Error & { validation: ReadingValidation } =>
+    typeof error === "object" && error !== null && "validation" in error;
+
+export function useElectricityReadings(
+    dbConnected: boolean,
+    selectedMeterId: number | "all" | null = null
+) {
     const { state, dispatch } = useElectricity();
     const { toast } = useToast();
 
-    const getPeriodFromHour = (
-        hour: number
-    ): "morning" | "evening" | "night" => {
-        if (hour >= 5 && hour < 12) return "morning";
-        if (hour >= 12 && hour < 20) return "evening";
-        return "night";
-    };
+    const getPeriodFromHour = (hour: number) =>
+        getPeriodForHour(state.schedule, hour);
+
+    // Queues the reading in the offline outbox and shows it straight away
+    const saveReadingOffline = useCallback(
+        async (readingValue: number) => {
+            dispatch({ type: "SET_IS_SUBMITTED", payload: false });
+            if (selectedMeterId === "all") {
+                toast({
+                    title: "❌ Failed to Add Reading",
+                    description:
+                        "Select a single meter before adding readings offline.",
+                    variant: "destructive",
+                });
+                return;
+            }
+
+            try {
+                const entry = await queueOutboxEntry({
+                    kind: "reading",
+                    meter_id: selectedMeterId,
+                    reading: readingValue,
+                });
+                const timestamp = new Date(entry.timestamp);
+                dispatch({
+                    type: "ADD_NEW_READING",
+                    payload: {
+                        id: Date.now(),
+                        reading_id: getOfflineReadingId(entry),
+                        timestamp,
+                        reading: readingValue,
+                        period: getPeriodFromHour(timestamp.getHours()),
+                    },
+                });
+                dispatch({ type: "SET_LATEST_READING", payload: readingValue });
+                dispatch({ type: "SET_CURRENT_READING", payload: "" });
+                toast({
+                    title: "📴 Saved Offline",
+                    description: `Reading of ${readingValue} kWh will sync when you are back online.`,
+                });
+            } catch (error) {
+                console.error("Error saving reading offline:", error);
+                toast({
+                    title: "❌ Failed to Add Reading",
+                    description:
+                        "You are offline and the reading could not be saved on this device.",
+                    variant: "destructive",
+                });
+            }
+        },
+        [selectedMeterId, state.schedule, dispatch, toast]
+    );
 
     const handleAddReading = useCallback(
-        async (forceUpdate = false) => {
+        async (forceUpdate = false, override?: ReadingOverride) => {
             dispatch({ type: "SET_IS_SUBMITTED", payload: true });
 
             if (!state.currentReading || Number.isNaN(state.currentReading)) {
@@ -55,12 +133,22 @@ export function useElectricityReadings(dbConnected: boolean) {
                     description: "Adding your electricity reading",
                 });
 
+                if (dbConnected && isOutboxSupported() && !navigator.onLine) {
+                    await saveReadingOffline(readingValue);
+                    return;
+                }
+
                 if (dbConnected) {
                     const result = await addElectricityReading(
                         readingValue,
-                        forceUpdate
+                        forceUpdate,
+                        override
                     );
 
+                    if (result.reading === null) {
+                        throw createValidationError(result.validation);
+                    }
+
                     if (
                         !result.isUpdate &&
                         result.existingReading &&
@@ -133,12 +221,30 @@ export function useElectricityReadings(dbConnected: boolean) {
                         throw error;
                     }
 
+                    const existingReading =
+                        existingReadingIndex === -1
+                            ? undefined
+                            : state.readings[existingReadingIndex];
+                    const validation = validateReading(
+                        readingValue,
+                        now,
+                        state.readings,
+                        state.tokens,
+                        Intl.DateTimeFormat().resolvedOptions().timeZone,
+                        existingReading?.reading_id
+                    );
+                    if (!canSaveReading(validation, override)) {
+                        throw createValidationError(validation);
+                    }
+                    const overrideReason = getOverrideReason(override);
+
                     if (existingReadingIndex !== -1 && forceUpdate) {
                         const updatedReadings = [...state.readings];
                         updatedReadings[existingReadingIndex] = {
                             ...updatedReadings[existingReadingIndex],
                             reading: readingValue,
                             timestamp: now,
+                            override_reason: overrideReason,
                         };
                         dispatch({
                             type: "SET_READINGS",
@@ -151,6 +257,7 @@ export function useElectricityReadings(dbConnected: boolean) {
                             timestamp: now,
                             reading: readingValue,
                             period,
+                            override_reason: overrideReason,
                         };
                         dispatch({
                             type: "ADD_NEW_READING",
@@ -168,6 +275,16 @@ export function useElectricityReadings(dbConnected: boolean) {
                 dispatch({ type: "SET_IS_SUBMITTED", payload: false });
             } catch (error: unknown) {
                 if (
+                    dbConnected &&
+                    isOutboxSupported() &&
+                    isNetworkError(error)
+                ) {
+                    // The connection dropped while the reading was being sent
+                    await saveReadingOffline(Number(state.currentReading));
+                } else if (isValidationError(error)) {
+                    // The form shows the issues and asks for an override
+                    throw error;
+                } else if (
                     typeof error === "object" &&
                     error !== null &&
                     "existingReading" in error &&
@@ -202,16 +319,34 @@ export function useElectricityReadings(dbConnected: boolean) {
                 dispatch({ type: "SET_IS_SUBMITTING", payload: false });
             }
         },
-        [state.currentReading, state.readings, dbConnected, dispatch, toast]
+        [
+            state.currentReading,
+            state.readings,
+            state.tokens,
+            state.schedule,
+            dbConnected,
+            saveReadingOffline,
+            dispatch,
+            toast,
+        ]
     );
 
     const handleAddBackdatedReading = useCallback(
-        async (readingData: Omit<ElectricityReading, "id" | "reading_id">) => {
+        async (
+            readingData: Omit<ElectricityReading, "id" | "reading_id">,
+            override?: ReadingOverride
+        ) => {
             try {
                 dispatch({ type: "SET_IS_SUBMITTING", payload: true });
 
                 if (dbConnected) {
-                    const newReading = await addBackdatedReading(readingData);
+                    const newReading = await addBackdatedReading(
+                        readingData,
+                        override
+                    );
+                    if ("validation" in newReading) {
+                        throw createValidationError(newReading.validation);
+                    }
                     dispatch({ type: "ADD_NEW_READING", payload: newReading });
 
                     const now = new Date();
@@ -222,12 +357,24 @@ export function useElectricityReadings(dbConnected: boolean) {
                         });
                     }
                 } else {
+                    const validation = validateReading(
+                        readingData.reading,
+                        readingData.timestamp,
+                        state.readings,
+                        state.tokens,
+                        Intl.DateTimeFormat().resolvedOptions().timeZone
+                    );
+                    if (!canSaveReading(validation, override)) {
+                        throw createValidationError(validation);
+                    }
+
                     const newReading: ElectricityReading = {
                         id: Date.now(),
                         reading_id: `reading-${Date.now()}`,
                         timestamp: readingData.timestamp,
                         reading: readingData.reading,
                         period: readingData.period,
+                        override_reason: getOverrideReason(override),
                     };
                     dispatch({ type: "ADD_NEW_READING", payload: newReading });
 
@@ -247,6 +394,7 @@ export function useElectricityReadings(dbConnected: boolean) {
                     } kWh has been recorded for ${readingData.timestamp.toLocaleString()}.`,
                 });
             } catch (error) {
+                if (isValidationError(error)) throw error;
                 console.error("Error adding backdated reading:", error);
                 toast({
                     title: "Error",
@@ -258,7 +406,7 @@ export function useElectricityReadings(dbConnected: boolean) {
                 dispatch({ type: "SET_IS_SUBMITTING", payload: false });
             }
         },
-        [dbConnected, dispatch, toast]
+        [dbConnected, state.readings, state.tokens, dispatch, toast]
     );
 
     return {
@@ -3,30 +3,104 @@
 import { useCallback } from "react"
 import { useElectricity } from "@/contexts/ElectricityContext"
 import { addTokenPurchase } from "@/actions/electricity-actions"
+import { previewTokenPurchase } from "@/actions/tariff-actions"
 import { useToast } from "@/hooks/use-toast"
+import {
+  getOfflineReadingId,
+  getOfflineTokenId,
+  isNetworkError,
+  isOutboxSupported,
+  queueOutboxEntry,
+} from "@/lib/offline-outbox"
+import { getPeriodForHour } from "@/lib/reading-schedule"
 import type { ElectricityReading, TokenPurchase } from "@/lib/types"
 
-export function useElectricityTokens(dbConnected: boolean) {
+export function useElectricityTokens(dbConnected: boolean, selectedMeterId: number | "all" | null = null) {
   const { state, dispatch } = useElectricity()
   const { toast } = useToast()
 
-  const getPeriodFromHour = (hour: number): "morning" | "evening" | "night" => {
-    if (hour >= 5 && hour < 12) return "morning"
-    if (hour >= 12 && hour < 20) return "evening"
-    return "night"
-  }
+  const getPeriodFromHour = (hour: number) => getPeriodForHour(state.schedule, hour)
+
+  // Queues the purchase in the offline outbox and shows it straight away
+  const saveTokenOffline = useCallback(
+    async (units: number, cost: number): Promise<boolean> => {
+      if (selectedMeterId === "all") {
+        toast({
+          title: "Error",
+          description: "Select a single meter before adding tokens offline.",
+          variant: "destructive",
+        })
+        return false
+      }
+
+      const entry = await queueOutboxEntry({ kind: "token", meter_id: selectedMeterId, units, total_cost: cost })
+      const timestamp = new Date(entry.timestamp)
+      const newReading = state.latestReading + units
+
+      dispatch({
+        type: "ADD_TOKEN",
+        payload: {
+          id: Date.now(),
+          token_id: getOfflineTokenId(entry),
+          timestamp,
+          units,
+          new_reading: newReading,
+          total_cost: cost,
+        },
+      })
+      dispatch({
+        type: "ADD_NEW_READING",
+        payload: {
+          id: Date.now() + 1,
+          reading_id: getOfflineReadingId(entry),
+          timestamp,
+          reading: newReading,
+          period: getPeriodFromHour(timestamp.getHours()),
+        },
+      })
+      dispatch({ type: "SET_LATEST_READING", payload: newReading })
+      return true
+    },
+    [selectedMeterId, state.latestReading, state.schedule, dispatch, toast],
+  )
 
   const handleAddToken = useCallback(async () => {
     if (!state.tokenUnits || Number.isNaN(state.tokenUnits)) return
     if (!state.tokenCost || Number.isNaN(state.tokenCost)) return
 
+    let predictionMismatch = ""
+    let savedOffline = false
+
     try {
       dispatch({ type: "SET_IS_SUBMITTING", payload: true })
 
-      if (dbConnected) {
-        const newToken = await addTokenPurchase(Number(state.tokenUnits), Number(state.tokenCost))
-        dispatch({ type: "ADD_TOKEN", payload: newToken })
-        dispatch({ type: "SET_LATEST_READING", payload: Number(newToken.new_reading) })
+      if (dbConnected && isOutboxSupported() && !navigator.onLine) {
+        if (!(await saveTokenOffline(Number(state.tokenUnits), Number(state.tokenCost)))) return
+        savedOffline = true
+      } else if (dbConnected) {
+        // Predict the units for the entered cost before the purchase changes the month's blocks
+        const prediction = await previewTokenPurchase(Number(state.tokenCost)).catch(() => null)
+
+        const newToken = await addTokenPurchase(Number(state.tokenUnits), Number(state.tokenCost)).catch((error) => {
+          // The connection dropped while the purchase was being sent
+          if (isOutboxSupported() && isNetworkError(error)) return null
+          throw error
+        })
+
+        if (!newToken) {
+          if (!(await saveTokenOffline(Number(state.tokenUnits), Number(state.tokenCost)))) return
+          savedOffline = true
+        } else {
+          dispatch({ type: "ADD_TOKEN", payload: newToken })
+          dispatch({ type: "SET_LATEST_READING", payload: Number(newToken.new_reading) })
+
+          if (prediction && Math.abs(prediction.expectedUnits - newToken.units) >= 0.01) {
+            const difference = newToken.units - prediction.expectedUnits
+            predictionMismatch = `Your tariff predicts ${prediction.expectedUnits.toFixed(2)} kWh for ${prediction.amount.toFixed(
+              2,
+            )}, which is ${difference > 0 ? "+" : ""}${difference.toFixed(2)} kWh off. Check the receipt or your tariff settings.`
+          }
+        }
       } else {
         const units = Number(state.tokenUnits)
         const costs = Number(state.tokenCost)
@@ -61,10 +135,19 @@ export function useElectricityTokens(dbConnected: boolean) {
       dispatch({ type: "SET_TOKEN_UNITS", payload: "" })
       dispatch({ type: "SET_TOKEN_COST", payload: "" })
 
-      toast({
-        title: "Token Added",
-        description: `${Number(state.tokenUnits)} kWh added to your meter.`,
-      })
+      if (savedOffline) {
+        toast({
+          title: "Saved Offline",
+          description: `${Number(state.tokenUnits)} kWh will be added to your meter when you are back online.`,
+        })
+      } else {
+        toast({
+          title: predictionMismatch ? "Token Added - Check Units" : "Token Added",
+          description: `${Number(state.tokenUnits)} kWh added to your meter.${
+            predictionMismatch ? ` ${predictionMismatch}` : ""
+          }`,
+        })
+      }
     } catch (error) {
       console.error("Error adding token:", error)
       toast({
@@ -75,7 +158,16 @@ export function useElectricityTokens(dbConnected: boolean) {
     } finally {
       dispatch({ type: "SET_IS_SUBMITTING", payload: false })
     }
-  }, [state.tokenUnits, state.tokenCost, state.latestReading, dbConnected, dispatch, toast])
+  }, [
+    state.tokenUnits,
+    state.tokenCost,
+    state.latestReading,
+    state.schedule,
+    dbConnected,
+    saveTokenOffline,
+    dispatch,
+    toast,
+  ])
 
   return { handleAddToken }
 }
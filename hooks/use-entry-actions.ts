@@ -0,0 +1,157 @@
+"use client";
+
+import { useCallback } from "react";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import {
+    deleteElectricityReading,
+    deleteTokenPurchase,
+    editElectricityReading,
+    getLatestReading,
+    getTotalUnitsUsed,
+    updateTokenPurchase,
+} from "@/actions/electricity-actions";
+import { useToast } from "@/hooks/use-toast";
+import type { ReadingOverride, ReadingValidation } from "@/lib/types";
+
+/**
+ * Edits and deletes existing readings and token purchases, keeping the
+ * client state, latest reading and total units in step with the database.
+ * Each action resolves to true on success and shows a toast either way,
+ * except a reading edit held back by validation, which resolves to its
+ * validation issues so they can be overridden.
+ */
+export function useEntryActions() {
+    const { dispatch } = useElectricity();
+    const { toast } = useToast();
+
+    const refreshTotals = useCallback(async () => {
+        const [latestReading, totalUnits] = await Promise.all([
+            getLatestReading(),
+            getTotalUnitsUsed(),
+        ]);
+        dispatch({ type: "SET_LATEST_READING", payload: latestReading });
+        dispatch({ type: "SET_TOTAL_UNITS", payload: totalUnits });
+    }, [dispatch]);
+
+    const showError = useCallback(
+        (error: unknown, fallback: string) => {
+            toast({
+                title: "Error",
+                description: error instanceof Error ? error.message : fallback,
+                variant: "destructive",
+            });
+        },
+        [toast]
+    );
+
+    const editReading = useCallback(
+        async (
+            readingId: string,
+            reading: number,
+            timestamp: Date,
+            override?: ReadingOverride
+        ): Promise<boolean | ReadingValidation> => {
+            try {
+                const updatedReading = await editElectricityReading(
+                    readingId,
+                    { reading, timestamp },
+                    override
+                );
+                if ("validation" in updatedReading) {
+                    return updatedReading.validation;
+                }
+                dispatch({
+                    type: "UPDATE_READING",
+                    payload: { readingId, updatedReading },
+                });
+                await refreshTotals();
+                toast({
+                    title: "Reading Updated",
+                    description: `Reading changed to ${reading} kWh`,
+                });
+                return true;
+            } catch (error) {
+                showError(error, "Failed to update reading");
+                return false;
+            }
+        },
+        [dispatch, refreshTotals, showError, toast]
+    );
+
+    const deleteReading = useCallback(
+        async (readingId: string) => {
+            try {
+                await deleteElectricityReading(readingId);
+                dispatch({ type: "REMOVE_READING", payload: readingId });
+                await refreshTotals();
+                toast({
+                    title: "Reading Deleted",
+                    description: "The reading has been removed",
+                });
+                return true;
+            } catch (error) {
+                showError(error, "Failed to delete reading");
+                return false;
+            }
+        },
+        [dispatch, refreshTotals, showError, toast]
+    );
+
+    const editToken = useCallback(
+        async (tokenId: string, units: number, totalCost: number) => {
+            try {
+                const { token, reading } = await updateTokenPurchase(tokenId, {
+                    units,
+                    total_cost: totalCost,
+                });
+                dispatch({
+                    type: "UPDATE_TOKEN",
+                    payload: { tokenId, updatedToken: token },
+                });
+                if (reading) {
+                    dispatch({
+                        type: "UPDATE_READING",
+                        payload: {
+                            readingId: reading.reading_id,
+                            updatedReading: reading,
+                        },
+                    });
+                }
+                await refreshTotals();
+                toast({
+                    title: "Token Updated",
+                    description: `Token changed to ${units} kWh`,
+                });
+                return true;
+            } catch (error) {
+                showError(error, "Failed to update token");
+                return false;
+            }
+        },
+        [dispatch, refreshTotals, showError, toast]
+    );
+
+    const deleteToken = useCallback(
+        async (tokenId: string) => {
+            try {
+                const { readingId } = await deleteTokenPurchase(tokenId);
+                dispatch({ type: "REMOVE_TOKEN", payload: tokenId });
+                if (readingId) {
+                    dispatch({ type: "REMOVE_READING", payload: readingId });
+                }
+                await refreshTotals();
+                toast({
+                    title: "Token Deleted",
+                    description: "The token and its reading have been removed",
+                });
+                return true;
+            } catch (error) {
+                showError(error, "Failed to delete token");
+                return false;
+            }
+        },
+        [dispatch, refreshTotals, showError, toast]
+    );
+
+    return { editReading, deleteReading, editToken, deleteToken };
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import {
+    getLatestReading,
+    getTotalUnitsUsed,
+    syncOfflineEntry,
+} from "@/actions/electricity-actions";
+import { useToast } from "@/hooks/use-toast";
+import {
+    OUTBOX_CHANGE_EVENT,
+    OUTBOX_SYNCED_EVENT,
+    getOfflineReadingId,
+    getOfflineTokenId,
+    getOutboxEntries,
+    isNetworkError,
+    isOutboxSupported,
+    putOutboxEntry,
+    registerServiceWorker,
+    removeOutboxEntry,
+} from "@/lib/offline-outbox";
+import type {
+    OfflineSyncResult,
+    OutboxEntry,
+    OutboxResolution,
+} from "@/lib/types";
+
+/** An entry that left the outbox, `result` is null when it was discarded */
+interface SyncedEntry {
+    entry: OutboxEntry;
+    result: OfflineSyncResult | null;
+}
+
+let activeReplay: Promise<void> | null = null;
+
+const announceSynced = (synced: SyncedEntry[]) =>
+    window.dispatchEvent(
+        new CustomEvent<SyncedEntry[]>(OUTBOX_SYNCED_EVENT, { detail: synced })
+    );
+
+async function runReplay(): Promise<void> {
+    if (!isOutboxSupported() || !navigator.onLine) return;
+
+    const synced: SyncedEntry[] = [];
+    for (const entry of await getOutboxEntries()) {
+        // Conflicts and rejected entries wait for the user
+        if (entry.conflict || entry.error) continue;
+
+        try {
+            const result = await syncOfflineEntry(entry);
+            if (result.status === "conflict") {
+                await putOutboxEntry({
+                    ...entry,
+                    conflict: result.existingReading ?? null,
+                });
+            } else {
+                await removeOutboxEntry(entry.client_id);
+            }
+            synced.push({ entry, result });
+        } catch (error) {
+            // Still offline, the next replay picks up from here
+            if (isNetworkError(error)) break;
+            await putOutboxEntry({
+                ...entry,
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : "The server rejected this entry",
+            });
+        }
+    }
+
+    if (synced.length > 0) announceSynced(synced);
+}
+
+/**
+ * Replays the queued entries oldest first. Calls made while a replay is
+ * running share it, so an entry is never sent twice at the same time.
+ */
+export function replayOutbox(): Promise<void> {
+    activeReplay ??= runReplay().finally(() => {
+        activeReplay = null;
+    });
+    return activeReplay;
+}
+
+/**
+ * Resolves a conflicting entry: `overwrite` replaces the server reading with
+ * the offline one, `discard` keeps the server reading and drops the entry.
+ * Discarding is also how entries the server rejected are removed.
+ */
+export async function resolveOutboxEntry(
+    entry: OutboxEntry,
+    resolution: OutboxResolution
+): Promise<void> {
+    const result =
+        resolution === "overwrite"
+            ? await syncOfflineEntry(entry, "overwrite")
+            : null;
+    await removeOutboxEntry(entry.client_id);
+    announceSynced([{ entry, result }]);
+}
+
+/**
+ * Clears the error of a rejected entry and replays it again
+ */
+export async function retryOutboxEntry(entry: OutboxEntry): Promise<void> {
+    await putOutboxEntry({ ...entry, error: undefined });
+    await replayOutbox();
+}
+
+/**
+ * Tracks the queued entries for components outside the electricity context
+ */
+export function useOutboxEntries() {
+    const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+    useEffect(() => {
+        const refresh = () => {
+            getOutboxEntries()
+                .then(setEntries)
+                .catch((error) =>
+                    console.error("Error reading offline outbox:", error)
+                );
+        };
+
+        refresh();
+        window.addEventListener(OUTBOX_CHANGE_EVENT, refresh);
+        return () => window.removeEventListener(OUTBOX_CHANGE_EVENT, refresh);
+    }, []);
+
+    return entries;
+}
+
+/**
+ * Keeps the offline outbox flowing for the electricity tracker: registers the
+ * service worker, replays queued entries on load, when the connection returns
+ * and when the service worker asks for it, and swaps the optimistic entries in
+ * the state for the synced ones.
+ */
+export function useOfflineSync(dbConnected: boolean) {
+    const { dispatch } = useElectricity();
+    const { toast } = useToast();
+
+    const applySynced = useCallback(
+        async (synced: SyncedEntry[]) => {
+            let conflicts = 0;
+            let added = 0;
+
+            for (const { entry, result } of synced) {
+                if (result?.status === "conflict") {
+                    conflicts++;
+                    continue;
+                }
+
+                // Replace the optimistic entries, they may be missing after a reload
+                dispatch({
+                    type: "REMOVE_READING",
+                    payload: getOfflineReadingId(entry),
+                });
+                if (entry.kind === "token") {
+                    dispatch({
+                        type: "REMOVE_TOKEN",
+                        payload: getOfflineTokenId(entry),
+                    });
+                }
+                if (result?.token) {
+                    dispatch({ type: "ADD_TOKEN", payload: result.token });
+                }
+                if (result?.reading) {
+                    dispatch({
+                        type: "REMOVE_READING",
+                        payload: result.reading.reading_id,
+                    });
+                    dispatch({
+                        type: "ADD_NEW_READING",
+                        payload: result.reading,
+                    });
+                }
+                if (result?.status === "synced") added++;
+            }
+
+            const [latestReading, totalUnits] = await Promise.all([
+                getLatestReading(),
+                getTotalUnitsUsed(),
+            ]);
+            dispatch({ type: "SET_LATEST_READING", payload: latestReading });
+            dispatch({ type: "SET_TOTAL_UNITS", payload: totalUnits });
+
+            if (added > 0) {
+                toast({
+                    title: "Offline Entries Synced",
+                    description: `${added} ${
+                        added === 1 ? "entry" : "entries"
+                    } captured offline ${added === 1 ? "was" : "were"} saved.`,
+                });
+            }
+            if (conflicts > 0) {
+                toast({
+                    title: "Sync Conflict",
+                    description: `${conflicts} offline ${
+                        conflicts === 1 ? "reading clashes" : "readings clash"
+                    } with readings already saved for the same period. Use the sync indicator in the header to choose which to keep.`,
+                    variant: "destructive",
+                });
+            }
+        },
+        [dispatch, toast]
+    );
+
+    useEffect(() => {
+        if (!dbConnected || !isOutboxSupported()) return;
+
+        const handleSynced = (event: Event) => {
+            applySynced((event as CustomEvent<SyncedEntry[]>).detail).catch(
+                (error) => console.error("Error applying synced entries:", error)
+            );
+        };
+        const handleReplay = () => {
+            replayOutbox().catch((error) =>
+                console.error("Error replaying offline outbox:", error)
+            );
+        };
+        const handleMessage = (event: MessageEvent) => {
+            if (event.data?.type === "replay-outbox") handleReplay();
+        };
+
+        window.addEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+        window.addEventListener("online", handleReplay);
+        navigator.serviceWorker?.addEventListener("message", handleMessage);
+
+        registerServiceWorker();
+        handleReplay();
+
+        return () => {
+            window.removeEventListener(OUTBOX_SYNCED_EVENT, handleSynced);
+            window.removeEventListener("online", handleReplay);
+            navigator.serviceWorker?.removeEventListener(
+                "message",
+                handleMessage
+            );
+        };
+    }, [dbConnected, applySynced]);
+}
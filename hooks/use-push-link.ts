@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import { selectMeter } from "@/actions/meter-actions";
+import { useToast } from "@/hooks/use-toast";
+import { parsePushLink } from "@/lib/push-notifications";
+import { getPeriodForHour, getPeriodName } from "@/lib/reading-schedule";
+
+/**
+ * Opens what a push notification link points to: switches to its meter, then
+ * focuses the reading form for its period or opens its tab. A period that
+ * has already ended opens the backdated form instead.
+ */
+export function usePushLink(selectedMeterId: number | "all" | null) {
+    const { state, dispatch } = useElectricity();
+    const { toast } = useToast();
+    const router = useRouter();
+    const { isLoading, schedule } = state;
+
+    useEffect(() => {
+        if (isLoading) return;
+        const target = parsePushLink(
+            new URLSearchParams(window.location.search)
+        );
+        if (!target.period && !target.tab) return;
+
+        const clearLink = () => router.replace("/", { scroll: false });
+
+        // The tracker remounts for the new meter and handles the link then
+        if (target.meterId !== null && target.meterId !== selectedMeterId) {
+            selectMeter(target.meterId).then((result) => {
+                if (result.success) {
+                    router.refresh();
+                } else {
+                    clearLink();
+                }
+            });
+            return;
+        }
+
+        if (target.tab) {
+            dispatch({ type: "SET_ACTIVE_TAB", payload: target.tab });
+        } else if (target.period) {
+            const currentPeriod = getPeriodForHour(
+                schedule,
+                new Date().getHours()
+            );
+            if (target.period === currentPeriod) {
+                dispatch({ type: "SET_ACTIVE_TAB", payload: "dashboard" });
+                // Wait for the dashboard tab to render the form
+                setTimeout(() => {
+                    const input = document.getElementById("reading");
+                    input?.scrollIntoView({ block: "center" });
+                    input?.focus();
+                }, 100);
+            } else {
+                dispatch({ type: "SET_ACTIVE_TAB", payload: "backdated" });
+                toast({
+                    title: "Period Ended",
+                    description: `The ${getPeriodName(
+                        schedule,
+                        target.period
+                    ).toLowerCase()} period is over. Add its reading as a backdated reading.`,
+                });
+            }
+        }
+
+        clearLink();
+    }, [isLoading, schedule, selectedMeterId, dispatch, router, toast]);
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect } from "react";
+import { useElectricity } from "@/contexts/ElectricityContext";
+import { getUsageAnomalies } from "@/actions/anomaly-actions";
+import { detectAnomalies } from "@/lib/anomaly-detection";
+
+/**
+ * Keeps the open usage anomalies up to date as readings and tokens change.
+ * With a database they are detected when readings and tokens are saved, so
+ * this only loads them. Without one they are detected in the browser and not
+ * stored.
+ */
+export function useUsageAnomalies(dbConnected: boolean) {
+    const { state, dispatch } = useElectricity();
+    const { readings, tokens, schedule } = state;
+
+    useEffect(() => {
+        if (!dbConnected) {
+            const detected = detectAnomalies(
+                readings,
+                tokens,
+                schedule,
+                Intl.DateTimeFormat().resolvedOptions().timeZone
+            );
+            dispatch({
+                type: "SET_ANOMALIES",
+                payload: detected.map((anomaly) => ({
+                    ...anomaly,
+                    id: null,
+                    status: "open",
+                })),
+            });
+            return;
+        }
+
+        let cancelled = false;
+        getUsageAnomalies()
+            .then((anomalies) => {
+                if (!cancelled) {
+                    dispatch({ type: "SET_ANOMALIES", payload: anomalies });
+                }
+            })
+            .catch((error) =>
+                console.error("Error fetching usage anomalies:", error)
+            );
+
+        return () => {
+            cancelled = true;
+        };
+    }, [dbConnected, readings, tokens, schedule, dispatch]);
+}
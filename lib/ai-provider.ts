@@ -0,0 +1,417 @@
+import "server-only";
+
+import {
+    APICallError,
+    LoadAPIKeyError,
+    RetryError,
+    simulateReadableStream,
+    type LanguageModel,
+    type LanguageModelV1,
+    type LanguageModelV1Prompt,
+} from "ai";
+import { createDeepSeek } from "@ai-sdk/deepseek";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+
+/**
+ * AI providers. The provider the insights and chat use is chosen with
+ * AI_PROVIDER: "google" (Gemini, the default), "openai", "deepseek", "local"
+ * for an OpenAI-compatible endpoint such as Ollama, or "mock" for canned
+ * replies that need no network. AI_MODEL overrides the provider's default
+ * models; the local endpoint is set with AI_BASE_URL and, when it needs
+ * one, AI_API_KEY. Another provider can be plugged in with `setAIProvider`.
+ *
+ * Each provider maps its own errors to a message the user can act on, so
+ * callers do not have to guess from error messages.
+ */
+
+export type AIProviderName =
+    | "google"
+    | "openai"
+    | "deepseek"
+    | "local"
+    | "mock";
+
+/** What a model is used for; providers may pick a different model for each */
+export type AIModelPurpose = "insights" | "chat";
+
+export type AIErrorKind =
+    | "configuration"
+    | "quota"
+    | "rate-limit"
+    | "access"
+    | "unavailable"
+    | "unknown";
+
+export interface AIErrorDescription {
+    kind: AIErrorKind;
+    title: string;
+    message: string;
+}
+
+export interface AIProvider {
+    name: AIProviderName;
+    label: string; // shown to the user, e.g. "Google Gemini"
+    isConfigured(): boolean;
+    getModel(purpose: AIModelPurpose): LanguageModel;
+    describeError(error: unknown): AIErrorDescription;
+}
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = [
+    "google",
+    "openai",
+    "deepseek",
+    "local",
+    "mock",
+];
+
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+const ERROR_TITLES: Record<AIErrorKind, string> = {
+    configuration: "Configuration Error",
+    quota: "Quota Exceeded",
+    "rate-limit": "Rate Limited",
+    access: "Access Error",
+    unavailable: "Service Unavailable",
+    unknown: "Error",
+};
+
+type ErrorMessages = Record<Exclude<AIErrorKind, "unknown">, string>;
+
+/**
+ * How a provider reports errors that share a status code with others: a bad
+ * request that is really an invalid key, and a used-up quota rather than a
+ * short-term rate limit
+ */
+interface ErrorChecks {
+    isKeyError?: (error: APICallError) => boolean;
+    isQuotaError?: (error: APICallError) => boolean;
+}
+
+/**
+ * Finds the kind of a failed call from its status code
+ */
+function classifyError(
+    error: unknown,
+    { isKeyError = () => false, isQuotaError = () => false }: ErrorChecks
+): AIErrorKind {
+    const cause = RetryError.isInstance(error) ? error.lastError : error;
+
+    if (LoadAPIKeyError.isInstance(cause)) return "configuration";
+    if (APICallError.isInstance(cause)) {
+        switch (cause.statusCode) {
+            case 400:
+                return isKeyError(cause) ? "configuration" : "unknown";
+            case 401:
+                return "configuration";
+            case 402:
+                return "quota";
+            case 403:
+                return "access";
+            case 429:
+                return isQuotaError(cause) ? "quota" : "rate-limit";
+            case undefined:
+                return "unavailable";
+            default:
+                return cause.statusCode >= 500 ? "unavailable" : "unknown";
+        }
+    }
+    if (cause instanceof TypeError && cause.message.includes("fetch")) {
+        return "unavailable";
+    }
+    return "unknown";
+}
+
+/**
+ * Creates the error mapping of a provider from its messages for each kind
+ */
+function createErrorMapper(
+    messages: ErrorMessages,
+    checks: ErrorChecks = {}
+): AIProvider["describeError"] {
+    return (error) => {
+        const kind = classifyError(error, checks);
+        return {
+            kind,
+            title: ERROR_TITLES[kind],
+            message:
+                kind === "unknown"
+                    ? error instanceof Error
+                        ? error.message
+                        : "Sorry, something went wrong. Please try again later."
+                    : messages[kind],
+        };
+    };
+}
+
+const bodyIncludes = (error: APICallError, text: string) =>
+    (error.responseBody ?? "").includes(text);
+
+const RATE_LIMIT_MESSAGE =
+    "Too many requests. Please wait a moment and try again.";
+
+function createGoogleProvider(): AIProvider {
+    const google = createGoogleGenerativeAI();
+    return {
+        name: "google",
+        label: "Google Gemini",
+        isConfigured: () =>
+            Boolean(process.env.GOOGLE_GENERATIVE_AI_API_KEY),
+        getModel: (purpose) =>
+            google(
+                process.env.AI_MODEL ??
+                    (purpose === "chat"
+                        ? "gemini-1.5-flash"
+                        : "gemini-2.5-flash")
+            ),
+        describeError: createErrorMapper(
+            {
+                configuration:
+                    "Google Gemini API key is not configured. Please add GOOGLE_GENERATIVE_AI_API_KEY to your environment variables.",
+                quota: "You've exceeded your Google Gemini API quota. The free tier is very generous - please wait a bit or check your Google AI Studio account.",
+                "rate-limit": RATE_LIMIT_MESSAGE,
+                access: "Please make sure your Google AI API key has the correct permissions and Gemini API is enabled.",
+                unavailable:
+                    "Google Gemini is unavailable right now. Please try again later.",
+            },
+            {
+                // Gemini answers an invalid key with 400 API_KEY_INVALID
+                isKeyError: (error) => bodyIncludes(error, "API_KEY_INVALID"),
+                isQuotaError: (error) => bodyIncludes(error, "quota"),
+            }
+        ),
+    };
+}
+
+function createOpenAIProvider(): AIProvider {
+    const openai = createOpenAI({ compatibility: "strict" });
+    return {
+        name: "openai",
+        label: "OpenAI",
+        isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+        getModel: () => openai(process.env.AI_MODEL ?? "gpt-4o-mini"),
+        describeError: createErrorMapper(
+            {
+                configuration:
+                    "OpenAI API key is not configured or is invalid. Please add OPENAI_API_KEY to your environment variables.",
+                quota: "You've used up your OpenAI credit. Please check the billing settings of your OpenAI account.",
+                "rate-limit": RATE_LIMIT_MESSAGE,
+                access: "Your OpenAI API key does not have access to this model. Please check AI_MODEL and your project's model permissions.",
+                unavailable:
+                    "OpenAI is unavailable right now. Please try again later.",
+            },
+            {
+                isQuotaError: (error) =>
+                    bodyIncludes(error, "insufficient_quota"),
+            }
+        ),
+    };
+}
+
+function createDeepSeekProvider(): AIProvider {
+    const deepseek = createDeepSeek();
+    return {
+        name: "deepseek",
+        label: "DeepSeek",
+        isConfigured: () => Boolean(process.env.DEEPSEEK_API_KEY),
+        getModel: () => deepseek(process.env.AI_MODEL ?? "deepseek-chat"),
+        describeError: createErrorMapper({
+            configuration:
+                "DeepSeek API key is not configured or is invalid. Please add DEEPSEEK_API_KEY to your environment variables.",
+            // DeepSeek reports an empty balance as 402 Payment Required
+            quota: "Your DeepSeek balance is used up. Please top up your DeepSeek account.",
+            "rate-limit": RATE_LIMIT_MESSAGE,
+            access: "Your DeepSeek API key does not have access to this model. Please check AI_MODEL.",
+            unavailable:
+                "DeepSeek is busy or unavailable right now. Please try again later.",
+        }),
+    };
+}
+
+function createLocalProvider(): AIProvider {
+    const baseURL = process.env.AI_BASE_URL ?? DEFAULT_LOCAL_BASE_URL;
+    const local = createOpenAI({
+        name: "local",
+        baseURL,
+        // Ollama ignores the key, but the client needs one
+        apiKey: process.env.AI_API_KEY ?? "local",
+        compatibility: "compatible",
+    });
+    return {
+        name: "local",
+        label: "Local model",
+        isConfigured: () => Boolean(process.env.AI_MODEL),
+        getModel: () => local(process.env.AI_MODEL as string),
+        describeError: createErrorMapper({
+            configuration: `The local model is not configured or was not found at ${baseURL}. Please set AI_MODEL to a model it serves, e.g. one pulled with \`ollama pull\`.`,
+            quota: "The local model refused the request because a usage limit was reached.",
+            "rate-limit": RATE_LIMIT_MESSAGE,
+            access: "The local endpoint refused the request. Please check AI_API_KEY.",
+            unavailable: `Could not reach the local model at ${baseURL}. Please make sure it is running, or set AI_BASE_URL.`,
+        }),
+    };
+}
+
+const MOCK_INSIGHTS = JSON.stringify({
+    summary: "Usage is steady from day to day, with most used in the evening.",
+    keyFindings: [
+        "Usage is steady from day to day.",
+        "Most electricity is used in the evening.",
+    ],
+    anomalies: [],
+    actions: [
+        {
+            title: "Move heavy appliances to off-peak hours",
+            description: "Run the washing machine and dishwasher in the day.",
+            estimatedKwhSavings: 10,
+            estimatedCostSavings: 20,
+        },
+        {
+            title: "Switch off appliances on standby",
+            description: "Turn off TVs and chargers at the wall overnight.",
+            estimatedKwhSavings: 5,
+            estimatedCostSavings: 10,
+        },
+    ],
+    confidence: "medium",
+    confidenceReason: "The mock model always gives the same answer.",
+});
+
+/**
+ * Gets the text of the last user message of a prompt
+ */
+function getLastUserText(prompt: LanguageModelV1Prompt): string {
+    const message = prompt.findLast((m) => m.role === "user");
+    if (!message || message.role !== "user") return "";
+    return message.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("");
+}
+
+/**
+ * Creates a model that answers without a network call: the insights
+ * template for analysis prompts and an echo of the question for chat, so
+ * the same input always gives the same output
+ */
+function createMockModel(purpose: AIModelPurpose): LanguageModelV1 {
+    const reply = (prompt: LanguageModelV1Prompt) =>
+        purpose === "insights"
+            ? MOCK_INSIGHTS
+            : `You asked: ${getLastUserText(prompt)}`;
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    const rawCall = { rawPrompt: null, rawSettings: {} };
+
+    return {
+        specificationVersion: "v1",
+        provider: "mock",
+        modelId: `mock-${purpose}`,
+        defaultObjectGenerationMode: "json",
+        async doGenerate({ prompt }) {
+            return {
+                text: reply(prompt),
+                finishReason: "stop",
+                usage,
+                rawCall,
+            };
+        },
+        async doStream({ prompt }) {
+            return {
+                stream: simulateReadableStream({
+                    chunks: [
+                        { type: "text-delta", textDelta: reply(prompt) },
+                        { type: "finish", finishReason: "stop", usage },
+                    ],
+                    initialDelayInMs: null,
+                    chunkDelayInMs: null,
+                }),
+                rawCall,
+            };
+        },
+    };
+}
+
+function createMockProvider(): AIProvider {
+    return {
+        name: "mock",
+        label: "Mock model",
+        isConfigured: () => true,
+        getModel: createMockModel,
+        describeError: createErrorMapper({
+            configuration: "The mock model is not configured.",
+            quota: "The mock model's quota is used up.",
+            "rate-limit": RATE_LIMIT_MESSAGE,
+            access: "The mock model refused the request.",
+            unavailable: "The mock model is unavailable.",
+        }),
+    };
+}
+
+const PROVIDER_FACTORIES: Record<AIProviderName, () => AIProvider> = {
+    google: createGoogleProvider,
+    openai: createOpenAIProvider,
+    deepseek: createDeepSeekProvider,
+    local: createLocalProvider,
+    mock: createMockProvider,
+};
+
+let provider: AIProvider | null = null;
+
+/**
+ * Replaces the provider the insights and chat use
+ */
+export function setAIProvider(next: AIProvider): void {
+    provider = next;
+}
+
+/**
+ * Gets the provider chosen with AI_PROVIDER, Google Gemini when it is not
+ * set, unless another provider was plugged in
+ */
+export function getAIProvider(): AIProvider {
+    if (provider) return provider;
+
+    const name = (process.env.AI_PROVIDER ?? "google").toLowerCase();
+    if (!AI_PROVIDER_NAMES.includes(name as AIProviderName)) {
+        throw new Error(
+            `Unknown AI provider "${name}". Please set AI_PROVIDER to one of: ${AI_PROVIDER_NAMES.join(
+                ", "
+            )}.`
+        );
+    }
+    provider = PROVIDER_FACTORIES[name as AIProviderName]();
+    return provider;
+}
+
+/**
+ * Gets the configured provider, or throws when it is missing its settings
+ */
+export function requireAIProvider(): AIProvider {
+    const current = getAIProvider();
+    if (!current.isConfigured()) {
+        throw new LoadAPIKeyError({
+            message: `${current.label} is not configured.`,
+        });
+    }
+    return current;
+}
+
+/**
+ * Describes an error from an AI call with the current provider's mapping,
+ * or as a configuration error when no provider could be chosen
+ */
+export function describeAIError(error: unknown): AIErrorDescription {
+    let current: AIProvider;
+    try {
+        current = getAIProvider();
+    } catch (providerError) {
+        return {
+            kind: "configuration",
+            title: ERROR_TITLES.configuration,
+            message:
+                providerError instanceof Error
+                    ? providerError.message
+                    : "No AI provider is configured.",
+        };
+    }
+    return current.describeError(error);
+}
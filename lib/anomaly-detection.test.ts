@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { detectAnomalies, getDigitSwaps } from "@/lib/anomaly-detection";
+import { DEFAULT_READING_SCHEDULE } from "@/lib/reading-schedule";
+import { reading, token } from "@/lib/test-fixtures";
+import { shiftDate } from "@/lib/timezone-utils";
+import type { ElectricityReading, TokenPurchase } from "@/lib/types";
+
+// Nine days of about 10 kWh a day, one morning reading a day
+const USUAL = [10, 11, 9, 10, 12, 10, 9, 11, 10];
+
+/** Morning readings from 1 June, starting at 1000 and going down by `usage` */
+const readings = (usage: number[]): ElectricityReading[] => {
+    let value = 1000;
+    return [0, ...usage].map((used, day) => {
+        value -= used;
+        return reading(`${shiftDate("2024-06-01", day)}T06:00:00Z`, value);
+    });
+};
+
+const detect = (entries: ElectricityReading[], tokens: TokenPurchase[] = []) =>
+    detectAnomalies(entries, tokens, DEFAULT_READING_SCHEDULE, "UTC");
+
+describe("getDigitSwaps", () => {
+    it("swaps each pair of adjacent digits, leaving the decimal point", () => {
+        expect(getDigitSwaps(1234.5)).toEqual([2134.5, 1324.5, 1243.5]);
+    });
+
+    it("skips swaps that change nothing or start with a zero", () => {
+        expect(getDigitSwaps(1005)).toEqual([1050]);
+    });
+});
+
+describe("detectAnomalies", () => {
+    it("finds nothing in steady usage", () => {
+        expect(detect(readings(USUAL))).toEqual([]);
+    });
+
+    it("reports a spike against the usual usage of the period", () => {
+        const entries = readings([...USUAL, 40]);
+        const anomalies = detect(entries);
+
+        expect(anomalies).toHaveLength(1);
+        expect(anomalies[0]).toMatchObject({
+            readingId: entries[entries.length - 1].reading_id,
+            kind: "spike",
+            consumption: 40,
+            expected: 10,
+            suggestedReading: null,
+        });
+        expect(anomalies[0].score).toBeGreaterThan(3.5);
+    });
+
+    it("suggests the reading with two digits swapped back", () => {
+        // 898 entered as 889, then 888 the day after
+        const entries = readings([...USUAL, 10, 10]);
+        entries[entries.length - 2].reading = 889;
+        const anomalies = detect(entries);
+
+        expect(anomalies).toHaveLength(1);
+        expect(anomalies[0]).toMatchObject({
+            readingId: entries[entries.length - 2].reading_id,
+            kind: "transposition",
+            suggestedReading: 898,
+        });
+    });
+
+    it("needs enough earlier readings of the period for a baseline", () => {
+        expect(detect(readings([10, 11, 9, 40]))).toEqual([]);
+    });
+
+    it("skips the readings recorded with a token purchase", () => {
+        // The token reading is 200 above the morning reading for 100 units
+        const entries = readings([...USUAL, 10]);
+        const [last] = entries.splice(-1);
+        entries.push(
+            {
+                ...reading("2024-06-10T12:00:00Z", 1108),
+                reading_id: "token-reading-1",
+            },
+            { ...last, reading: last.reading + 100 }
+        );
+
+        expect(detect(entries, [token("2024-06-10T12:00:00Z", 100)])).toEqual(
+            []
+        );
+    });
+});
@@ -0,0 +1,331 @@
+import type {
+    AnomalyKind,
+    DetectedAnomaly,
+    ElectricityReading,
+    ReadingSchedule,
+    TokenPurchase,
+} from "@/lib/types";
+import { getUsageIntervals } from "@/lib/consumption";
+import { getPeriodName } from "@/lib/reading-schedule";
+import { getLocalDateString, getWeekday, shiftDate } from "@/lib/timezone-utils";
+
+/**
+ * Usage anomaly detection over the consumption between consecutive readings.
+ *
+ * Each interval's usage rate (kWh per hour, so a missed reading does not look
+ * like a spike) is compared with a rolling baseline of earlier intervals of
+ * the same period: the same weekday when there are enough of them, otherwise
+ * any weekday. The baseline is the median with the median absolute deviation
+ * (MAD), which a few odd days cannot drag along.
+ *
+ * Typos are told apart from real spikes by the readings around them. A
+ * reading higher than the previous one without a token purchase cannot be
+ * real usage. A reading that is out of line with both neighbours, e.g. a
+ * spike followed by an increase, is an entry error rather than a spike, and
+ * when swapping two adjacent digits makes both intervals normal the reading
+ * is reported as a transposition with the corrected value.
+ */
+
+/** Days of earlier intervals the baseline is taken from */
+export const ANOMALY_HISTORY_DAYS = 56;
+
+/** Robust z-score above which an interval's usage is a spike */
+export const SPIKE_SCORE = 3.5;
+
+// Spikes must also be this many kWh above the expected usage
+const MIN_SPIKE_EXCESS_KWH = 1;
+// Readings may go up this much without a token purchase, e.g. from rounding
+const INCREASE_TOLERANCE_KWH = 0.5;
+// Robust z-score within which a corrected reading counts as normal
+const PLAUSIBLE_SCORE = 2;
+// Fewest earlier intervals a baseline is taken from
+const MIN_WEEKDAY_SAMPLES = 4;
+const MIN_PERIOD_SAMPLES = 5;
+
+type Interval = {
+    previous: ElectricityReading;
+    reading: ElectricityReading;
+    tokenUnits: number; // kWh bought between the two readings
+    consumption: number;
+    hours: number;
+    date: string; // local date of the reading
+};
+
+type Baseline = { median: number; scale: number };
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const rateOf = (interval: Interval) => interval.consumption / interval.hours;
+
+const isTokenReading = (reading: ElectricityReading) =>
+    reading.reading_id.startsWith("token-reading-");
+
+/**
+ * Builds the intervals between consecutive readings of one meter
+ */
+function buildIntervals(
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    timeZone: string
+): Interval[] {
+    return getUsageIntervals(
+        readings.filter((reading) => !isTokenReading(reading)),
+        tokens
+    )
+        .filter((interval) => interval.hours > 0)
+        .map((interval) => ({
+            previous: interval.start,
+            reading: interval.end,
+            tokenUnits: interval.tokenUnits,
+            consumption: interval.consumption,
+            hours: interval.hours,
+            date: getLocalDateString(
+                new Date(interval.end.timestamp),
+                timeZone
+            ),
+        }));
+}
+
+/**
+ * Gets the baseline usage rate for an interval from the intervals before it,
+ * or null when there are too few of them
+ */
+function getBaseline(intervals: Interval[], index: number): Baseline | null {
+    const interval = intervals[index];
+    const since = shiftDate(interval.date, -ANOMALY_HISTORY_DAYS);
+    const samePeriod = intervals
+        .slice(0, index)
+        .filter(
+            (earlier) =>
+                earlier.date >= since &&
+                earlier.consumption >= 0 &&
+                earlier.reading.period === interval.reading.period
+        );
+    const sameWeekday = samePeriod.filter(
+        (earlier) => getWeekday(earlier.date) === getWeekday(interval.date)
+    );
+
+    const samples =
+        sameWeekday.length >= MIN_WEEKDAY_SAMPLES
+            ? sameWeekday
+            : samePeriod.length >= MIN_PERIOD_SAMPLES
+            ? samePeriod
+            : null;
+    if (!samples) return null;
+
+    const rates = samples.map(rateOf);
+    const middle = median(rates);
+    const mad = median(rates.map((rate) => Math.abs(rate - middle)));
+    // 1.4826 scales the MAD to a standard deviation; the floor keeps steady
+    // households from flagging every small change
+    return { median: middle, scale: Math.max(1.4826 * mad, 0.15 * middle, 0.01) };
+}
+
+const scoreOf = (rate: number, baseline: Baseline) =>
+    (rate - baseline.median) / baseline.scale;
+
+const isIncrease = (interval: Interval | undefined) =>
+    interval !== undefined && interval.consumption < -INCREASE_TOLERANCE_KWH;
+
+const isSpike = (interval: Interval | undefined, baseline: Baseline | null) =>
+    interval !== undefined &&
+    baseline !== null &&
+    scoreOf(rateOf(interval), baseline) > SPIKE_SCORE &&
+    interval.consumption - baseline.median * interval.hours >=
+        MIN_SPIKE_EXCESS_KWH;
+
+/**
+ * Lists the values a reading takes with two adjacent digits swapped
+ */
+export function getDigitSwaps(reading: number): number[] {
+    const text = String(reading);
+    const swaps = new Set<number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const [a, b] = [text[i], text[i + 1]];
+        if (a === b || a === "." || b === ".") continue;
+        const swapped = text.slice(0, i) + b + a + text.slice(i + 2);
+        if (swapped.startsWith("0") && !swapped.startsWith("0.")) continue;
+        swaps.add(Number(swapped));
+    }
+    return Array.from(swaps);
+}
+
+/**
+ * Finds the digit swap of a reading that makes the intervals on both sides
+ * of it normal, or null when none does
+ */
+function findTransposition(
+    intervals: Interval[],
+    index: number,
+    baselines: (Baseline | null)[]
+): number | null {
+    const interval = intervals[index];
+    const next = intervals[index + 1];
+    const plausible = (consumption: number, hours: number, baseline: Baseline | null) =>
+        consumption >= -INCREASE_TOLERANCE_KWH &&
+        (!baseline ||
+            Math.abs(scoreOf(consumption / hours, baseline)) <= PLAUSIBLE_SCORE);
+
+    let best: { value: number; score: number } | null = null;
+    for (const value of getDigitSwaps(Number(interval.reading.reading))) {
+        const consumption =
+            Number(interval.previous.reading) + interval.tokenUnits - value;
+        if (!plausible(consumption, interval.hours, baselines[index])) continue;
+        if (
+            next &&
+            !plausible(
+                value + next.tokenUnits - Number(next.reading.reading),
+                next.hours,
+                baselines[index + 1]
+            )
+        ) {
+            continue;
+        }
+
+        const baseline = baselines[index];
+        const score = baseline
+            ? Math.abs(scoreOf(consumption / interval.hours, baseline))
+            : 0;
+        if (!best || score < best.score) best = { value, score };
+    }
+    return best?.value ?? null;
+}
+
+const formatKwh = (kwh: number) => `${kwh.toFixed(1)} kWh`;
+
+/**
+ * Detects the anomalies in the readings of one or more meters, newest first
+ */
+export function detectAnomalies(
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    schedule: ReadingSchedule,
+    timeZone: string
+): DetectedAnomaly[] {
+    const meterIds = new Set(readings.map((r) => r.meter_id ?? null));
+    return Array.from(meterIds)
+        .flatMap((meterId) =>
+            detectMeterAnomalies(
+                readings.filter((r) => (r.meter_id ?? null) === meterId),
+                tokens.filter((t) => (t.meter_id ?? null) === meterId),
+                schedule,
+                timeZone
+            )
+        )
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+function detectMeterAnomalies(
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    schedule: ReadingSchedule,
+    timeZone: string
+): DetectedAnomaly[] {
+    const intervals = buildIntervals(readings, tokens, timeZone);
+    const baselines = intervals.map((_, index) =>
+        getBaseline(intervals, index)
+    );
+    const anomalies: DetectedAnomaly[] = [];
+
+    const describe = (interval: Interval) => {
+        const date = new Date(interval.reading.timestamp).toLocaleDateString(
+            "en-US",
+            { month: "short", day: "numeric", timeZone }
+        );
+        return `The ${getPeriodName(
+            schedule,
+            interval.reading.period
+        ).toLowerCase()} reading of ${date}`;
+    };
+
+    // Intervals already explained by an entry error in the reading before them
+    const explained = new Set<number>();
+
+    for (const [index, interval] of intervals.entries()) {
+        if (explained.has(index)) continue;
+
+        const next = intervals[index + 1];
+        // The next interval only counts when it starts at this reading
+        const following =
+            next && next.previous.reading_id === interval.reading.reading_id
+                ? next
+                : undefined;
+        const baseline = baselines[index];
+        const value = Number(interval.reading.reading);
+        const expected = baseline ? baseline.median * interval.hours : null;
+        const score = baseline ? scoreOf(rateOf(interval), baseline) : null;
+
+        const increase = isIncrease(interval);
+        const spike = isSpike(interval, baseline);
+        const outOfLine =
+            following !== undefined &&
+            ((increase && isSpike(following, baselines[index + 1])) ||
+                (spike && isIncrease(following))) &&
+            Number(interval.previous.reading) +
+                interval.tokenUnits +
+                following.tokenUnits -
+                Number(following.reading.reading) >=
+                -INCREASE_TOLERANCE_KWH;
+
+        if (!increase && !spike) continue;
+
+        const suggestion = findTransposition(
+            following ? intervals : intervals.slice(0, index + 1),
+            index,
+            baselines
+        );
+
+        let kind: AnomalyKind;
+        let message: string;
+        if (suggestion !== null) {
+            kind = "transposition";
+            message = `${describe(interval)} (${formatKwh(
+                value
+            )}) looks like a typo. Did you mean ${formatKwh(suggestion)}?`;
+        } else if (outOfLine) {
+            kind = "entry-error";
+            message = `${describe(interval)} (${formatKwh(
+                value
+            )}) is out of line with the readings before and after it and may have been entered wrongly.`;
+        } else if (increase) {
+            kind = "reading-increase";
+            message = `${describe(interval)} (${formatKwh(
+                value
+            )}) is higher than the previous reading (${formatKwh(
+                Number(interval.previous.reading)
+            )}) with no token purchase in between. Check for a typo or a missing token purchase.`;
+        } else {
+            kind = "spike";
+            message = `${formatKwh(interval.consumption)} was used up to ${describe(
+                interval
+            ).replace(/^The/, "the")}, ${(
+                interval.consumption / (expected || 1)
+            ).toFixed(1)}x the usual ${formatKwh(expected ?? 0)}.`;
+        }
+
+        if (kind !== "spike" && following && (outOfLine || suggestion !== null)) {
+            explained.add(index + 1);
+        }
+
+        anomalies.push({
+            readingId: interval.reading.reading_id,
+            meterId: interval.reading.meter_id ?? null,
+            timestamp: new Date(interval.reading.timestamp),
+            period: interval.reading.period,
+            kind,
+            consumption: interval.consumption,
+            expected,
+            score,
+            suggestedReading: suggestion,
+            message,
+        });
+    }
+
+    return anomalies;
+}
@@ -0,0 +1,147 @@
+import "server-only";
+
+import { sql, type SqlQueryResult } from "@/lib/db";
+import { detectAnomalies } from "@/lib/anomaly-detection";
+import { loadMeters } from "@/lib/meter-scope";
+import { loadReadingSchedule } from "@/lib/reading-schedule-store";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone-utils";
+import { loadEntries } from "@/lib/usage-summary";
+import type {
+    AnomalyKind,
+    AnomalyStatus,
+    Period,
+    UsageAnomaly,
+} from "@/lib/types";
+
+/**
+ * Stored usage anomalies of an owner. Detection runs when readings or tokens
+ * are saved, so showing the anomalies never writes.
+ */
+
+type AnomalyRow = {
+    id: number;
+    reading_id: string;
+    meter_id: number | null;
+    reading_timestamp: string | Date;
+    period: string;
+    kind: AnomalyKind;
+    consumption: number | string;
+    expected: number | string | null;
+    score: number | string | null;
+    suggested_reading: number | string | null;
+    message: string;
+    status: AnomalyStatus;
+};
+
+const toNumber = (value: number | string | null) =>
+    value === null ? null : Number(value);
+
+/**
+ * Loads the open anomalies of one meter, or of every meter when `meterId` is
+ * null, newest first
+ */
+export async function loadOpenAnomalies(
+    ownerId: string,
+    meterId: number | null
+): Promise<UsageAnomaly[]> {
+    const rows = (await sql`
+    SELECT id, reading_id, meter_id, reading_timestamp, period, kind, consumption,
+           expected, score, suggested_reading, message, status
+    FROM usage_anomalies
+    WHERE user_id = ${ownerId}
+    AND status = 'open'
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
+    ORDER BY reading_timestamp DESC
+  `) as SqlQueryResult<AnomalyRow>;
+
+    return rows.map((row) => ({
+        id: row.id,
+        readingId: row.reading_id,
+        meterId: row.meter_id ?? null,
+        timestamp: new Date(row.reading_timestamp),
+        period: row.period as Period,
+        kind: row.kind,
+        consumption: Number(row.consumption),
+        expected: toNumber(row.expected),
+        score: toNumber(row.score),
+        suggestedReading: toNumber(row.suggested_reading),
+        message: row.message,
+        status: row.status,
+    }));
+}
+
+/**
+ * Runs anomaly detection over the readings of one meter, or of every meter
+ * when `meterId` is null, each in its own meter's timezone, and stores the
+ * result in one transaction.
+ *
+ * Anomalies that were confirmed or dismissed stay that way. Open anomalies
+ * that are no longer detected, e.g. because the reading was corrected, are
+ * removed. Errors are logged rather than thrown, so they never fail the save
+ * that triggered the detection.
+ */
+export async function refreshUsageAnomalies(
+    ownerId: string,
+    meterId: number | null
+): Promise<void> {
+    try {
+        const { readings, tokens } = await loadEntries(ownerId, meterId);
+        const schedule = await loadReadingSchedule(ownerId);
+        const meters = await loadMeters(ownerId);
+
+        const meterIds = new Set(readings.map((r) => r.meter_id ?? null));
+        const detected = Array.from(meterIds).flatMap((id) =>
+            detectAnomalies(
+                readings.filter((r) => (r.meter_id ?? null) === id),
+                tokens.filter((t) => (t.meter_id ?? null) === id),
+                schedule,
+                meters.find((m) => m.id === id)?.timezone ?? DEFAULT_TIMEZONE
+            )
+        );
+
+        const rows = detected.map((anomaly) => ({
+            meter_id: anomaly.meterId,
+            reading_id: anomaly.readingId,
+            kind: anomaly.kind,
+            period: anomaly.period,
+            reading_timestamp: anomaly.timestamp.toISOString(),
+            consumption: anomaly.consumption,
+            expected: anomaly.expected,
+            score: anomaly.score,
+            suggested_reading: anomaly.suggestedReading,
+            message: anomaly.message,
+        }));
+        const keys = rows.map((row) => `${row.reading_id}:${row.kind}`);
+
+        await sql.transaction([
+            sql`
+        INSERT INTO usage_anomalies (
+          user_id, meter_id, reading_id, kind, period, reading_timestamp, consumption,
+          expected, score, suggested_reading, message
+        )
+        SELECT DISTINCT ON (reading_id, kind)
+          ${ownerId}, meter_id, reading_id, kind, period, reading_timestamp::timestamptz, consumption,
+          expected, score, suggested_reading, message
+        FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb)
+          AS a(meter_id INTEGER, reading_id TEXT, kind TEXT, period TEXT, reading_timestamp TEXT,
+               consumption NUMERIC, expected NUMERIC, score NUMERIC, suggested_reading NUMERIC, message TEXT)
+        ON CONFLICT (user_id, reading_id, kind) DO UPDATE SET
+          consumption = EXCLUDED.consumption,
+          expected = EXCLUDED.expected,
+          score = EXCLUDED.score,
+          suggested_reading = EXCLUDED.suggested_reading,
+          message = EXCLUDED.message
+        WHERE usage_anomalies.status = 'open'
+      `,
+            sql`
+        DELETE FROM usage_anomalies
+        WHERE user_id = ${ownerId}
+        AND status = 'open'
+        AND (${meterId}::int IS NULL OR meter_id = ${meterId})
+        AND NOT (reading_id || ':' || kind = ANY(${keys}))
+      `,
+        ]);
+    } catch (error) {
+        console.error("Error detecting usage anomalies:", error);
+    }
+}
@@ -0,0 +1,104 @@
+import "server-only";
+
+import { sql, type SqlQuery, type SqlQueryResult } from "@/lib/db";
+import type {
+    AuditAction,
+    AuditEntityType,
+    AuditEntry,
+    AuditEntryDBResult,
+    AuditSource,
+} from "@/lib/types";
+
+/**
+ * Audit log: an append-only record of every change to readings and tokens.
+ *
+ * Rows are never updated or deleted (a trigger rejects it). A revert is itself
+ * a new row pointing at the change it undoes.
+ */
+
+export interface AuditRecord {
+    /** Owner of the changed data */
+    ownerId: string;
+    actorId: string | null;
+    actorName: string | null;
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    source: AuditSource;
+    oldValue?: Record<string, unknown> | null;
+    newValue?: Record<string, unknown> | null;
+    revertedAuditId?: number | null;
+}
+
+/**
+ * Builds the insert of an audit entry without sending it, to run in
+ * sql.transaction() with the change it records
+ */
+export function auditQuery(record: AuditRecord): SqlQuery {
+    return sql`
+      INSERT INTO audit_log (user_id, actor_id, actor_name, entity_type, entity_id, action, source, old_value, new_value, reverted_audit_id)
+      VALUES (
+        ${record.ownerId},
+        ${record.actorId},
+        ${record.actorName},
+        ${record.entityType},
+        ${record.entityId},
+        ${record.action},
+        ${record.source},
+        ${record.oldValue ? JSON.stringify(record.oldValue) : null}::jsonb,
+        ${record.newValue ? JSON.stringify(record.newValue) : null}::jsonb,
+        ${record.revertedAuditId ?? null}
+      )
+  `;
+}
+
+/**
+ * Returns the audit history of a reading or token, newest first
+ */
+export async function getAuditHistory(
+    ownerId: string,
+    entityType: AuditEntityType,
+    entityId: string
+): Promise<AuditEntry[]> {
+    const rows = (await sql`
+      SELECT id, entity_type, entity_id, action, source, actor_name, old_value, new_value, reverted_audit_id, created_at
+      FROM audit_log
+      WHERE user_id = ${ownerId}
+      AND entity_type = ${entityType}
+      AND entity_id = ${entityId}
+      ORDER BY created_at DESC, id DESC
+  `) as SqlQueryResult<AuditEntryDBResult>;
+
+    return rows.map(toAuditEntry);
+}
+
+/**
+ * Returns a single audit entry of the given owner, or null if it does not exist
+ */
+export async function getAuditEntry(
+    ownerId: string,
+    auditId: number
+): Promise<AuditEntry | null> {
+    const rows = (await sql`
+      SELECT id, entity_type, entity_id, action, source, actor_name, old_value, new_value, reverted_audit_id, created_at
+      FROM audit_log
+      WHERE user_id = ${ownerId} AND id = ${auditId}
+  `) as SqlQueryResult<AuditEntryDBResult>;
+
+    return rows.length > 0 ? toAuditEntry(rows[0]) : null;
+}
+
+function toAuditEntry(row: AuditEntryDBResult): AuditEntry {
+    return {
+        id: row.id,
+        entity_type: row.entity_type,
+        entity_id: row.entity_id,
+        action: row.action,
+        source: row.source,
+        actor_name: row.actor_name,
+        old_value: row.old_value,
+        new_value: row.new_value,
+        reverted_audit_id: row.reverted_audit_id,
+        created_at: new Date(row.created_at),
+    };
+}
@@ -0,0 +1,317 @@
+import type {
+    BackupArchive,
+    BackupMeter,
+    BackupReading,
+    BackupToken,
+    ReadingSchedule,
+    SchedulePeriod,
+    TariffProfile,
+} from "@/lib/types";
+import {
+    DEFAULT_READING_SCHEDULE,
+    isSchedulePeriod,
+    validateReadingSchedule,
+} from "@/lib/reading-schedule";
+
+/**
+ * Backup archives: a JSON bundle of an account's profile, meters, tariffs,
+ * readings and tokens. `schema_version` is raised whenever the shape changes,
+ * so older archives can still be recognised and upgraded on restore.
+ */
+
+export const BACKUP_FORMAT = "electricity-tracker-backup";
+export const BACKUP_SCHEMA_VERSION = 2;
+
+// Stop collecting errors after this many, the archive is clearly broken
+const MAX_ERRORS = 20;
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value);
+
+const isDateString = (value: unknown): value is string =>
+    typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+
+const optionalString = (value: unknown): string | null =>
+    typeof value === "string" ? value : null;
+
+const optionalNumber = (value: unknown): number | null =>
+    isNumber(value) ? value : null;
+
+function parseMeter(value: unknown): BackupMeter | null {
+    if (!isRecord(value) || !isNumber(value.id)) return null;
+    if (typeof value.nickname !== "string" || !value.nickname.trim()) {
+        return null;
+    }
+    return {
+        id: value.id,
+        nickname: value.nickname,
+        meter_number: optionalString(value.meter_number),
+        tariff_id: optionalNumber(value.tariff_id),
+        timezone:
+            typeof value.timezone === "string" ? value.timezone : "UTC",
+        is_default: value.is_default === true,
+    };
+}
+
+function parseTariff(value: unknown): TariffProfile | null {
+    if (!isRecord(value) || !isNumber(value.id)) return null;
+    if (typeof value.name !== "string" || !isDateString(value.effective_from)) {
+        return null;
+    }
+    if (!Array.isArray(value.tiers)) return null;
+
+    const tiers = value.tiers.map((tier) =>
+        isRecord(tier) && isNumber(tier.rate_per_kwh)
+            ? {
+                  tier_order: isNumber(tier.tier_order) ? tier.tier_order : 0,
+                  up_to_kwh: optionalNumber(tier.up_to_kwh),
+                  rate_per_kwh: tier.rate_per_kwh,
+              }
+            : null
+    );
+    if (tiers.some((tier) => tier === null)) return null;
+
+    return {
+        id: value.id,
+        name: value.name,
+        vat_rate: optionalNumber(value.vat_rate) ?? 0,
+        fixed_levy: optionalNumber(value.fixed_levy) ?? 0,
+        levy_per_kwh: optionalNumber(value.levy_per_kwh) ?? 0,
+        effective_from: String(value.effective_from).substring(0, 10),
+        effective_to: isDateString(value.effective_to)
+            ? value.effective_to.substring(0, 10)
+            : null,
+        tiers: tiers as TariffProfile["tiers"],
+    };
+}
+
+function parseReading(value: unknown): BackupReading | null {
+    if (!isRecord(value) || typeof value.reading_id !== "string") return null;
+    if (!isDateString(value.timestamp) || !isNumber(value.reading)) return null;
+    if (typeof value.period !== "string" || !value.period) return null;
+    return {
+        reading_id: value.reading_id,
+        timestamp: value.timestamp,
+        reading: value.reading,
+        period: value.period,
+        meter_id: optionalNumber(value.meter_id),
+        token_id: optionalString(value.token_id),
+        entered_by_name: optionalString(value.entered_by_name),
+    };
+}
+
+function parseToken(value: unknown): BackupToken | null {
+    if (!isRecord(value) || typeof value.token_id !== "string") return null;
+    if (
+        !isDateString(value.timestamp) ||
+        !isNumber(value.units) ||
+        !isNumber(value.new_reading)
+    ) {
+        return null;
+    }
+    return {
+        token_id: value.token_id,
+        timestamp: value.timestamp,
+        units: value.units,
+        new_reading: value.new_reading,
+        total_cost: optionalNumber(value.total_cost) ?? 0,
+        meter_id: optionalNumber(value.meter_id),
+        entered_by_name: optionalString(value.entered_by_name),
+    };
+}
+
+function parseSchedulePeriod(value: unknown): SchedulePeriod | null {
+    if (!isRecord(value) || typeof value.key !== "string") return null;
+    if (typeof value.name !== "string" || typeof value.reminder_time !== "string") {
+        return null;
+    }
+    if (!isNumber(value.start_hour) || !isNumber(value.end_hour)) return null;
+    return {
+        key: value.key,
+        name: value.name,
+        start_hour: value.start_hour,
+        end_hour: value.end_hour,
+        reminder_time: value.reminder_time,
+    };
+}
+
+/**
+ * Parses the reading schedule, added in schema version 2. Older archives
+ * were made with the default schedule.
+ */
+function parseSchedule(
+    value: unknown,
+    schemaVersion: number,
+    errors: string[]
+): ReadingSchedule {
+    if (schemaVersion < 2) return DEFAULT_READING_SCHEDULE;
+    if (!isRecord(value)) {
+        errors.push(`"schedule" is missing`);
+        return DEFAULT_READING_SCHEDULE;
+    }
+
+    const periods = parseSection(
+        value.periods,
+        "schedule periods",
+        parseSchedulePeriod,
+        (p) => p.key,
+        errors
+    );
+    const schedule = { periods };
+    errors.push(...validateReadingSchedule(schedule));
+    return schedule;
+}
+
+/**
+ * Parses each entry of an archive section, recording an error for every
+ * entry that cannot be parsed and every id that appears twice
+ */
+function parseSection<T>(
+    value: unknown,
+    section: string,
+    parse: (entry: unknown) => T | null,
+    idOf: (entry: T) => string | number,
+    errors: string[]
+): T[] {
+    if (!Array.isArray(value)) {
+        errors.push(`"${section}" must be a list`);
+        return [];
+    }
+
+    const entries: T[] = [];
+    const seen = new Set<string | number>();
+    for (const [index, raw] of value.entries()) {
+        const entry = parse(raw);
+        if (!entry) {
+            errors.push(`${section} entry ${index + 1} is invalid`);
+            continue;
+        }
+        if (seen.has(idOf(entry))) {
+            errors.push(
+                `${section} entry ${index + 1} repeats id ${idOf(entry)}`
+            );
+            continue;
+        }
+        seen.add(idOf(entry));
+        entries.push(entry);
+    }
+    return entries;
+}
+
+/**
+ * Validates a backup archive and returns it with typed entries, or the
+ * problems found. An archive with any problem must not be restored.
+ */
+export function validateBackupArchive(value: unknown): {
+    archive: BackupArchive | null;
+    errors: string[];
+} {
+    if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+        return { archive: null, errors: ["This is not a backup archive"] };
+    }
+    if (!isNumber(value.schema_version) || value.schema_version < 1) {
+        return { archive: null, errors: ["The archive has no schema version"] };
+    }
+    if (value.schema_version > BACKUP_SCHEMA_VERSION) {
+        return {
+            archive: null,
+            errors: [
+                `The archive uses schema version ${value.schema_version}, this app supports up to ${BACKUP_SCHEMA_VERSION}`,
+            ],
+        };
+    }
+
+    const errors: string[] = [];
+    const schedule = parseSchedule(
+        value.schedule,
+        value.schema_version,
+        errors
+    );
+    const meters = parseSection(
+        value.meters,
+        "meters",
+        parseMeter,
+        (m) => m.id,
+        errors
+    );
+    const tariffs = parseSection(
+        value.tariffs,
+        "tariffs",
+        parseTariff,
+        (t) => t.id,
+        errors
+    );
+    const readings = parseSection(
+        value.readings,
+        "readings",
+        parseReading,
+        (r) => r.reading_id,
+        errors
+    );
+    const tokens = parseSection(
+        value.tokens,
+        "tokens",
+        parseToken,
+        (t) => t.token_id,
+        errors
+    );
+
+    // References between sections must resolve within the archive
+    const meterIds = new Set(meters.map((m) => m.id));
+    const tariffIds = new Set(tariffs.map((t) => t.id));
+    const tokenIds = new Set(tokens.map((t) => t.token_id));
+    for (const meter of meters) {
+        if (meter.tariff_id !== null && !tariffIds.has(meter.tariff_id)) {
+            errors.push(`Meter "${meter.nickname}" refers to a missing tariff`);
+        }
+    }
+    for (const reading of readings) {
+        if (reading.meter_id !== null && !meterIds.has(reading.meter_id)) {
+            errors.push(
+                `Reading ${reading.reading_id} refers to a missing meter`
+            );
+        }
+        if (!isSchedulePeriod(schedule, reading.period)) {
+            errors.push(
+                `Reading ${reading.reading_id} uses period "${reading.period}", which is not in the schedule`
+            );
+        }
+        if (reading.token_id !== null && !tokenIds.has(reading.token_id)) {
+            errors.push(
+                `Reading ${reading.reading_id} refers to a missing token`
+            );
+        }
+    }
+    for (const token of tokens) {
+        if (token.meter_id !== null && !meterIds.has(token.meter_id)) {
+            errors.push(`Token ${token.token_id} refers to a missing meter`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { archive: null, errors: errors.slice(0, MAX_ERRORS) };
+    }
+
+    const profile = isRecord(value.profile) ? value.profile : {};
+    return {
+        archive: {
+            format: BACKUP_FORMAT,
+            schema_version: BACKUP_SCHEMA_VERSION,
+            created_at: isDateString(value.created_at)
+                ? value.created_at
+                : new Date().toISOString(),
+            profile: { meter_number: optionalString(profile.meter_number) },
+            meters,
+            tariffs,
+            schedule,
+            readings,
+            tokens,
+        },
+        errors: [],
+    };
+}
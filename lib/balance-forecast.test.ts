@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { forecastBalance, getCombinedBalance } from "@/lib/balance-forecast";
+import { reading } from "@/lib/test-fixtures";
+import { shiftDate } from "@/lib/timezone-utils";
+import type { DailyUsage } from "@/lib/types";
+
+const NOW = new Date("2024-06-15T00:00:00Z");
+const TODAY = "2024-06-15";
+const LAST_YEAR = shiftDate(TODAY, -365);
+
+const days = (from: string, count: number, total: number): DailyUsage[] =>
+    Array.from({ length: count }, (_, i) => ({
+        date: shiftDate(from, i),
+        total,
+    }));
+
+// Two weeks of 10 kWh a day up to yesterday
+const RECENT = days(shiftDate(TODAY, -14), 14, 10);
+
+describe("forecastBalance", () => {
+    it("needs a few days of usage", () => {
+        expect(forecastBalance([], 50, "UTC", NOW)).toBeNull();
+        expect(
+            forecastBalance(days(shiftDate(TODAY, -2), 2, 10), 50, "UTC", NOW)
+        ).toBeNull();
+    });
+
+    it("leaves out today, which is still running", () => {
+        const forecast = forecastBalance(
+            [...RECENT, { date: TODAY, total: 1 }],
+            50,
+            "UTC",
+            NOW
+        );
+        expect(forecast?.basedOnDays).toBe(14);
+        expect(forecast?.dailyRate).toBeCloseTo(10);
+    });
+
+    it("runs the balance down at the daily rate", () => {
+        const forecast = forecastBalance(RECENT, 50, "UTC", NOW);
+        expect(forecast?.daysLeft).toBeCloseTo(5);
+        expect(forecast?.runsOutAt?.toISOString()).toBe(
+            "2024-06-20T00:00:00.000Z"
+        );
+        // Steady usage leaves no range around the run-out time
+        expect(forecast?.earliest).toEqual(forecast?.runsOutAt);
+        expect(forecast?.confidence).toBe("medium");
+    });
+
+    it("forecasts the balance of several meters together", () => {
+        const balance = getCombinedBalance([
+            reading("2024-06-14T06:00:00Z", 40, 1),
+            reading("2024-06-14T18:00:00Z", 30, 1),
+            reading("2024-06-14T07:00:00Z", 45, 2),
+            reading("2024-06-13T18:00:00Z", 60, 2),
+        ]);
+        expect(balance).toBe(75);
+
+        // Both meters use 10 kWh a day
+        const forecast = forecastBalance(
+            days(shiftDate(TODAY, -14), 14, 20),
+            balance ?? 0,
+            "UTC",
+            NOW
+        );
+        expect(forecast?.daysLeft).toBeCloseTo(3.75);
+    });
+
+    it("has run out with no balance left", () => {
+        const forecast = forecastBalance(RECENT, 0, "UTC", NOW);
+        expect(forecast?.daysLeft).toBe(0);
+        expect(forecast?.runsOutAt).toEqual(NOW);
+    });
+
+    it("scales the rate by how usage changed at this time last year", () => {
+        const forecast = forecastBalance(
+            [
+                ...days(shiftDate(LAST_YEAR, -28), 28, 10),
+                ...days(LAST_YEAR, 28, 15),
+                ...RECENT,
+            ],
+            50,
+            "UTC",
+            NOW
+        );
+        expect(forecast?.dailyRate).toBeCloseTo(15);
+    });
+
+    it("limits the season factor to double the usage", () => {
+        const forecast = forecastBalance(
+            [
+                ...days(shiftDate(LAST_YEAR, -28), 28, 10),
+                ...days(LAST_YEAR, 28, 50),
+                ...RECENT,
+            ],
+            50,
+            "UTC",
+            NOW
+        );
+        expect(forecast?.dailyRate).toBeCloseTo(20);
+    });
+
+    it("ignores the season with less than a week of last year's usage", () => {
+        const forecast = forecastBalance(
+            [
+                ...days(shiftDate(LAST_YEAR, -5), 5, 10),
+                ...days(LAST_YEAR, 28, 15),
+                ...RECENT,
+            ],
+            50,
+            "UTC",
+            NOW
+        );
+        expect(forecast?.dailyRate).toBeCloseTo(10);
+    });
+});
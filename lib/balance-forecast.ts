@@ -0,0 +1,298 @@
+import type {
+    BalanceForecast,
+    DailyUsage,
+    ElectricityReading,
+    ForecastConfidence,
+} from "@/lib/types";
+import {
+    getLocalDateString,
+    getWeekday,
+    getZonedParts,
+    shiftDate,
+} from "@/lib/timezone-utils";
+
+/**
+ * Balance forecast: when a prepaid meter is expected to hit zero.
+ *
+ * The expected usage of a day is the recent daily average, weighted towards
+ * the latest weeks, times a factor for its weekday and a seasonal factor
+ * taken from the same weeks last year. The balance is then used up day by
+ * day from now, spread evenly over each day. How much daily totals scatter
+ * around the expectation gives the likely range and the confidence.
+ */
+
+/** Days of usage history the forecast looks at */
+export const FORECAST_HISTORY_DAYS = 56;
+
+/** Forecasts need at least this many days of usage */
+export const MIN_FORECAST_DAYS = 3;
+
+/** Days left below which a low balance is critical, urgent or worth a notice */
+export const FORECAST_CRITICAL_DAYS = 1;
+export const FORECAST_WARNING_DAYS = 3;
+export const FORECAST_NOTICE_DAYS = 7;
+
+// A day this many days old counts half as much as today's
+const RECENCY_HALF_LIFE_DAYS = 14;
+// Weekday factors start from this many average days, so a few odd days do not swing them
+const WEEKDAY_PRIOR_DAYS = 2;
+// Days of last year's usage compared on either side of today's date
+const SEASON_WINDOW_DAYS = 28;
+const MAX_FORECAST_DAYS = 365;
+// z-score of the 10th and 90th percentiles
+const RANGE_Z = 1.28;
+
+const daysBetween = (from: string, to: string) =>
+    Math.round(
+        (new Date(`${to}T00:00:00Z`).getTime() -
+            new Date(`${from}T00:00:00Z`).getTime()) /
+            86400000
+    );
+
+const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Gets the balance left on the meters the readings are from, the sum of each
+ * meter's latest reading, or null without readings
+ */
+export function getCombinedBalance(
+    readings: ElectricityReading[]
+): number | null {
+    const latest = new Map<number | null, ElectricityReading>();
+    for (const reading of readings) {
+        const key = reading.meter_id ?? null;
+        const current = latest.get(key);
+        if (
+            !current ||
+            new Date(reading.timestamp).getTime() >
+                new Date(current.timestamp).getTime()
+        ) {
+            latest.set(key, reading);
+        }
+    }
+    if (latest.size === 0) return null;
+    return Array.from(latest.values()).reduce(
+        (sum, r) => sum + Number(r.reading),
+        0
+    );
+}
+
+/**
+ * Compares last year's usage in the weeks after today's date with the weeks
+ * before it, e.g. 1.2 when usage rose by a fifth going into winter. Returns 1
+ * without a year of history.
+ */
+function getSeasonFactor(dailyUsage: DailyUsage[], today: string): number {
+    const lastYear = shiftDate(today, -365);
+    const before = dailyUsage
+        .filter(
+            (day) =>
+                day.date >= shiftDate(lastYear, -SEASON_WINDOW_DAYS) &&
+                day.date < lastYear
+        )
+        .map((day) => day.total);
+    const after = dailyUsage
+        .filter(
+            (day) =>
+                day.date >= lastYear &&
+                day.date < shiftDate(lastYear, SEASON_WINDOW_DAYS)
+        )
+        .map((day) => day.total);
+
+    if (before.length < 7 || after.length < 7 || mean(before) <= 0) return 1;
+    return Math.min(Math.max(mean(after) / mean(before), 0.5), 2);
+}
+
+/**
+ * Forecasts when `balance` runs out, from the daily usage of the same meter
+ * or meters. Returns null with less than MIN_FORECAST_DAYS days of usage.
+ */
+export function forecastBalance(
+    dailyUsage: DailyUsage[],
+    balance: number,
+    timeZone: string,
+    now: Date = new Date()
+): BalanceForecast | null {
+    const today = getLocalDateString(now, timeZone);
+    // Today is still running, so its total would pull the rate down
+    const history = dailyUsage.filter(
+        (day) =>
+            day.date < today &&
+            day.date >= shiftDate(today, -FORECAST_HISTORY_DAYS) &&
+            day.total >= 0
+    );
+    if (history.length < MIN_FORECAST_DAYS) return null;
+
+    const weighted = history.map((day) => ({
+        date: day.date,
+        total: day.total,
+        weight: 0.5 ** (daysBetween(day.date, today) / RECENCY_HALF_LIFE_DAYS),
+    }));
+    const totalWeight = weighted.reduce((sum, day) => sum + day.weight, 0);
+    const baseRate =
+        weighted.reduce((sum, day) => sum + day.total * day.weight, 0) /
+        totalWeight;
+
+    const weekdayFactors = Array.from({ length: 7 }, (_, weekday) => {
+        const days = weighted.filter((day) => getWeekday(day.date) === weekday);
+        if (baseRate <= 0 || days.length === 0) return 1;
+        return (
+            (days.reduce((sum, day) => sum + day.total / baseRate, 0) +
+                WEEKDAY_PRIOR_DAYS) /
+            (days.length + WEEKDAY_PRIOR_DAYS)
+        );
+    });
+    const seasonFactor = getSeasonFactor(dailyUsage, today);
+    const expectedOn = (date: string) =>
+        baseRate * weekdayFactors[getWeekday(date)] * seasonFactor;
+
+    // Scatter of the daily totals around what was expected for their weekday
+    const variance =
+        weighted.reduce((sum, day) => {
+            const expected = baseRate * weekdayFactors[getWeekday(day.date)];
+            return sum + day.weight * (day.total - expected) ** 2;
+        }, 0) / totalWeight;
+    const variation = baseRate > 0 ? Math.sqrt(variance) / baseRate : 0;
+
+    const { hour, minute } = getZonedParts(now, timeZone);
+    const todayLeft = 1 - (hour * 60 + minute) / 1440;
+
+    // Hours until the balance is used up when usage is `scale` times the expectation
+    const hoursUntilEmpty = (scale: number): number | null => {
+        let remaining = balance;
+        let hours = 0;
+        for (let i = 0; i <= MAX_FORECAST_DAYS; i++) {
+            const dayShare = i === 0 ? todayLeft : 1;
+            const rate = expectedOn(shiftDate(today, i)) * scale;
+            if (rate * dayShare >= remaining) {
+                return hours + (rate > 0 ? (remaining / rate) * 24 : 0);
+            }
+            remaining -= rate * dayShare;
+            hours += dayShare * 24;
+        }
+        return null;
+    };
+    const toDate = (hours: number | null) =>
+        hours === null ? null : new Date(now.getTime() + hours * 3600000);
+
+    const hours = balance <= 0 ? 0 : hoursUntilEmpty(1);
+    const daysLeft = hours === null ? null : hours / 24;
+    // Over several days the daily swings partly cancel out
+    const spread =
+        (RANGE_Z * variation) / Math.sqrt(Math.max(daysLeft ?? 1, 1));
+
+    let confidence: ForecastConfidence = "medium";
+    if (history.length >= 28 && variation < 0.35) confidence = "high";
+    if (history.length < 7 || variation > 0.7) confidence = "low";
+
+    return {
+        balance,
+        dailyRate: expectedOn(today),
+        daysLeft,
+        runsOutAt: toDate(hours),
+        earliest: toDate(balance <= 0 ? 0 : hoursUntilEmpty(1 + spread)),
+        latest: toDate(
+            balance <= 0 ? 0 : hoursUntilEmpty(Math.max(1 - spread, 0.2))
+        ),
+        confidence,
+        basedOnDays: history.length,
+        timeZone,
+    };
+}
+
+/**
+ * How urgent buying tokens is, by the days of balance left
+ */
+export function getForecastUrgency(
+    forecast: BalanceForecast
+): "critical" | "warning" | "notice" | "none" {
+    const { daysLeft } = forecast;
+    if (daysLeft === null) return "none";
+    if (daysLeft < FORECAST_CRITICAL_DAYS) return "critical";
+    if (daysLeft < FORECAST_WARNING_DAYS) return "warning";
+    if (daysLeft < FORECAST_NOTICE_DAYS) return "notice";
+    return "none";
+}
+
+const partOfDay = (hour: number) => {
+    if (hour < 5) return "night";
+    if (hour < 12) return "morning";
+    if (hour < 17) return "afternoon";
+    if (hour < 21) return "evening";
+    return "night";
+};
+
+/**
+ * Describes a moment relative to now in the meter's timezone, e.g. "this
+ * evening", "tomorrow morning", "Thursday evening" or "Nov 12"
+ */
+export function formatRunOutTime(
+    date: Date,
+    timeZone: string,
+    now: Date = new Date()
+): string {
+    const today = getLocalDateString(now, timeZone);
+    const day = getLocalDateString(date, timeZone);
+    const part = partOfDay(getZonedParts(date, timeZone).hour);
+    const daysAway = daysBetween(today, day);
+
+    if (daysAway <= 0) return part === "night" ? "tonight" : `this ${part}`;
+    if (daysAway === 1) return `tomorrow ${part}`;
+    if (daysAway < 7) {
+        const weekday = date.toLocaleDateString("en-US", {
+            weekday: "long",
+            timeZone,
+        });
+        return `${weekday} ${part}`;
+    }
+    return date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        timeZone,
+    });
+}
+
+// Dates further out than a week read "on Nov 12"
+const withPreposition = (phrase: string) =>
+    /\d/.test(phrase) ? `on ${phrase}` : phrase;
+
+/**
+ * Describes a forecast, e.g. "about 3 days left, runs out Thursday evening"
+ */
+export function describeForecast(
+    forecast: BalanceForecast,
+    now: Date = new Date()
+): string {
+    const { balance, daysLeft, runsOutAt, timeZone } = forecast;
+    if (balance <= 0) return "no balance left";
+    if (daysLeft === null || runsOutAt === null) {
+        return "not expected to run out within a year at the current usage";
+    }
+
+    const hours = Math.round(daysLeft * 24);
+    const days = Math.max(Math.round(daysLeft), 1);
+    const left =
+        daysLeft < 1
+            ? `about ${hours} hour${hours === 1 ? "" : "s"} left`
+            : `about ${days} day${days === 1 ? "" : "s"} left`;
+    return `${left}, runs out ${withPreposition(
+        formatRunOutTime(runsOutAt, timeZone, now)
+    )}`;
+}
+
+/**
+ * Describes the likely range of a forecast, e.g. "between Wednesday evening
+ * and Friday morning", or null when both ends fall in the same part of a day
+ */
+export function describeForecastRange(
+    forecast: BalanceForecast,
+    now: Date = new Date()
+): string | null {
+    const { balance, earliest, latest, timeZone } = forecast;
+    if (balance <= 0 || !earliest) return null;
+
+    const from = formatRunOutTime(earliest, timeZone, now);
+    const to = latest ? formatRunOutTime(latest, timeZone, now) : "later";
+    return from === to ? null : `between ${from} and ${to}`;
+}
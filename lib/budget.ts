@@ -0,0 +1,107 @@
+import type { BudgetKind, BudgetStatus, MonthlyBudget } from "@/lib/types";
+import { getLocalDateString, getZonedParts } from "@/lib/timezone-utils";
+import { getMonthKey } from "@/lib/tariff";
+
+/**
+ * Monthly budget: progress against a household's spending or usage target
+ * for the calendar month, in the timezone of its default meter.
+ *
+ * A money budget counts what was spent on tokens. Its month-end projection
+ * adds the tokens still to buy: the usage expected for the rest of the month
+ * beyond the balance left, at the average cost per kWh. A kWh budget counts
+ * the units used and projects the expected usage on top.
+ */
+
+/** Alert thresholds of a new budget, in percent */
+export const DEFAULT_BUDGET_THRESHOLDS = [50, 80, 100];
+
+/** Budgets can have up to this many alert thresholds */
+export const MAX_BUDGET_THRESHOLDS = 5;
+
+/**
+ * Validates a budget. Returns an error message, or null when it is valid.
+ */
+export function validateBudget(budget: MonthlyBudget): string | null {
+    if (budget.kind !== "money" && budget.kind !== "kwh") {
+        return "Budget must be an amount of money or kWh";
+    }
+    if (!(budget.amount > 0)) {
+        return "Budget must be more than zero";
+    }
+    if (budget.alertThresholds.length > MAX_BUDGET_THRESHOLDS) {
+        return `Budgets can have up to ${MAX_BUDGET_THRESHOLDS} alert thresholds`;
+    }
+    if (
+        budget.alertThresholds.some(
+            (threshold) =>
+                !Number.isInteger(threshold) || threshold < 1 || threshold > 200
+        )
+    ) {
+        return "Alert thresholds must be whole percentages from 1 to 200";
+    }
+    return null;
+}
+
+/**
+ * Sorts alert thresholds and drops duplicates
+ */
+export function normalizeThresholds(thresholds: number[]): number[] {
+    return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+/**
+ * Formats an amount of a budget, e.g. "R 450.00" or "320.0 kWh"
+ */
+export function formatBudgetAmount(kind: BudgetKind, amount: number): string {
+    return kind === "money"
+        ? `R ${amount.toFixed(2)}`
+        : `${amount.toFixed(1)} kWh`;
+}
+
+/**
+ * Works out the progress against a budget at `now`.
+ *
+ * @param monthToDate - Money spent on tokens and kWh used so far this month.
+ * @param dailyRate - Expected usage per day in kWh.
+ * @param balance - kWh left on the meters.
+ * @param costPerKwh - Average price of a kWh, for the tokens still to buy.
+ */
+export function getBudgetStatus(
+    budget: MonthlyBudget,
+    monthToDate: { spend: number; usage: number },
+    dailyRate: number,
+    balance: number,
+    costPerKwh: number,
+    timeZone: string,
+    now: Date = new Date()
+): BudgetStatus {
+    const today = getLocalDateString(now, timeZone);
+    const { year, month, day, hour, minute } = getZonedParts(now, timeZone);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const daysLeftInMonth =
+        daysInMonth - day + 1 - (hour * 60 + minute) / 1440;
+    const expectedUsage = dailyRate * daysLeftInMonth;
+
+    const used =
+        budget.kind === "money" ? monthToDate.spend : monthToDate.usage;
+    const projected =
+        budget.kind === "money"
+            ? used + Math.max(expectedUsage - balance, 0) * costPerKwh
+            : used + expectedUsage;
+    const percentUsed = (used / budget.amount) * 100;
+
+    const reached = budget.alertThresholds.filter(
+        (threshold) => percentUsed >= threshold
+    );
+
+    return {
+        budget,
+        month: getMonthKey(today),
+        used,
+        projected,
+        percentUsed,
+        projectedPercent: (projected / budget.amount) * 100,
+        reachedThreshold: reached.length > 0 ? Math.max(...reached) : null,
+        daysLeftInMonth,
+    };
+}
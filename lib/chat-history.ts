@@ -0,0 +1,44 @@
+import type { ChatRole } from "@/lib/types";
+
+/**
+ * Chat history sent to the model. Stored conversations can grow without
+ * bound, so only the latest messages that fit a token budget are sent.
+ * Tokens are estimated from the length of the text, which is close enough
+ * for English and keeps this free of provider-specific tokenizers.
+ */
+
+/** Tokens of earlier conversation sent with each question */
+export const CHAT_HISTORY_TOKEN_BUDGET = 3000;
+
+// Characters per token, roughly, for English text
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the tokens a text takes up
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Keeps the latest messages whose estimated tokens fit the budget, starting
+ * with a user message so the model never sees an answer without its question
+ */
+export function trimChatHistory<T extends { role: ChatRole; content: string }>(
+    messages: T[],
+    budget: number = CHAT_HISTORY_TOKEN_BUDGET
+): T[] {
+    let used = 0;
+    let start = messages.length;
+    while (start > 0) {
+        const tokens = estimateTokens(messages[start - 1].content);
+        if (used + tokens > budget) break;
+        used += tokens;
+        start--;
+    }
+
+    while (start < messages.length && messages[start].role !== "user") {
+        start++;
+    }
+    return messages.slice(start);
+}
@@ -0,0 +1,129 @@
+import "server-only";
+
+import { sql, type SqlQueryResult } from "@/lib/db";
+import type { ChatMessage, ChatRole, ChatThread } from "@/lib/types";
+
+/**
+ * Chat threads: each user's conversations with the electricity assistant
+ * about one household's data. A thread belongs to the user who chats and to
+ * the owner whose data it is about, so every query filters on both.
+ */
+
+/** Longest thread title, taken from the first question when not renamed */
+export const MAX_CHAT_TITLE_LENGTH = 80;
+
+type ChatThreadRow = { id: number; title: string; updated_at: string };
+
+type ChatMessageRow = {
+    id: number;
+    role: ChatRole;
+    content: string;
+    pinned: boolean;
+    created_at: string;
+};
+
+/**
+ * Turns a question into a thread title
+ */
+export function toChatTitle(text: string): string {
+    const title = text.trim().replace(/\s+/g, " ");
+    return title.length > MAX_CHAT_TITLE_LENGTH
+        ? `${title.slice(0, MAX_CHAT_TITLE_LENGTH - 1)}…`
+        : title;
+}
+
+/**
+ * Loads a user's threads about an owner's data, most recently used first
+ */
+export async function loadChatThreads(
+    userId: string,
+    ownerId: string
+): Promise<ChatThread[]> {
+    const rows = (await sql`
+    SELECT id, title, updated_at
+    FROM chat_threads
+    WHERE user_id = ${userId} AND owner_id = ${ownerId}
+    ORDER BY updated_at DESC
+  `) as SqlQueryResult<ChatThreadRow>;
+
+    return rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        updatedAt: new Date(row.updated_at),
+    }));
+}
+
+/**
+ * Loads one of a user's threads, or null when it is not theirs
+ */
+export async function loadChatThread(
+    userId: string,
+    ownerId: string,
+    threadId: number
+): Promise<ChatThread | null> {
+    const rows = (await sql`
+    SELECT id, title, updated_at
+    FROM chat_threads
+    WHERE id = ${threadId} AND user_id = ${userId} AND owner_id = ${ownerId}
+  `) as SqlQueryResult<ChatThreadRow>;
+
+    if (rows.length === 0) return null;
+    return {
+        id: rows[0].id,
+        title: rows[0].title,
+        updatedAt: new Date(rows[0].updated_at),
+    };
+}
+
+/**
+ * Starts a thread, titled after its first question
+ */
+export async function createChatThread(
+    userId: string,
+    ownerId: string,
+    question: string
+): Promise<number> {
+    const rows = (await sql`
+    INSERT INTO chat_threads (user_id, owner_id, title)
+    VALUES (${userId}, ${ownerId}, ${toChatTitle(question)})
+    RETURNING id
+  `) as SqlQueryResult<{ id: number }>;
+    return rows[0].id;
+}
+
+/**
+ * Loads the messages of a thread, oldest first
+ */
+export async function loadChatMessages(
+    threadId: number
+): Promise<ChatMessage[]> {
+    const rows = (await sql`
+    SELECT id, role, content, pinned, created_at
+    FROM chat_messages
+    WHERE thread_id = ${threadId}
+    ORDER BY id ASC
+  `) as SqlQueryResult<ChatMessageRow>;
+
+    return rows.map((row) => ({
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        pinned: row.pinned,
+        createdAt: new Date(row.created_at),
+    }));
+}
+
+/**
+ * Adds a message to a thread and marks the thread as just used
+ */
+export async function addChatMessage(
+    threadId: number,
+    role: ChatRole,
+    content: string
+): Promise<void> {
+    await sql`
+    INSERT INTO chat_messages (thread_id, role, content)
+    VALUES (${threadId}, ${role}, ${content})
+  `;
+    await sql`UPDATE chat_threads SET updated_at = NOW() WHERE id = ${threadId}`;
+}
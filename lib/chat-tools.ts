@@ -0,0 +1,237 @@
+import "server-only";
+
+import { tool } from "ai";
+import { z } from "zod";
+import {
+    describeForecast,
+    describeForecastRange,
+} from "@/lib/balance-forecast";
+import { getLocalDateString } from "@/lib/timezone-utils";
+import type {
+    BalanceForecast,
+    ElectricityReading,
+    TokenPurchase,
+    UsageSummary,
+} from "@/lib/types";
+
+/**
+ * Tools the electricity chat assistant calls to look up the user's data, so
+ * answers come from exact figures and the prompt stays the same size however
+ * much history there is. Dates are calendar dates (YYYY-MM-DD) in the
+ * meter's timezone and ranges include both ends.
+ */
+
+/** Most rows a single tool call returns; the model is told when there are more */
+export const MAX_TOOL_ROWS = 100;
+
+/**
+ * Where the tools get the user's data from
+ */
+export interface ChatDataSource {
+    timeZone: string;
+    getReadings(): Promise<ElectricityReading[]>;
+    getTokens(): Promise<TokenPurchase[]>;
+    getSummary(): Promise<UsageSummary>;
+    getForecast(): Promise<BalanceForecast | null>;
+}
+
+const dateSchema = z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe("Calendar date as YYYY-MM-DD");
+
+const rangeSchema = z.object({
+    from: dateSchema.describe("First date of the range, YYYY-MM-DD"),
+    to: dateSchema.describe("Last date of the range, YYYY-MM-DD"),
+});
+
+const round = (value: number) => Number(value.toFixed(2));
+
+// Keeps the first call's promise, so later calls reuse its result
+const once = <T>(load: () => Promise<T>) => {
+    let promise: Promise<T> | null = null;
+    return () => (promise ??= load());
+};
+
+/**
+ * Wraps a data source so each kind of data is loaded at most once, however
+ * many tool calls a chat turn makes
+ */
+export function cacheChatData(source: ChatDataSource): ChatDataSource {
+    return {
+        timeZone: source.timeZone,
+        getReadings: once(() => source.getReadings()),
+        getTokens: once(() => source.getTokens()),
+        getSummary: once(() => source.getSummary()),
+        getForecast: once(() => source.getForecast()),
+    };
+}
+
+/**
+ * Keeps the last `MAX_TOOL_ROWS` rows and says how many were left out
+ */
+function limitRows<T>(rows: T[]) {
+    return {
+        rows: rows.slice(-MAX_TOOL_ROWS),
+        omitted: Math.max(rows.length - MAX_TOOL_ROWS, 0),
+    };
+}
+
+/**
+ * Describes what the assistant can look up: today's date and the dates the
+ * data covers, without the data itself
+ */
+export async function describeChatData(source: ChatDataSource) {
+    const readings = await source.getReadings();
+    const first = readings.at(0);
+    const last = readings.at(-1);
+    return {
+        today: getLocalDateString(new Date(), source.timeZone),
+        timeZone: source.timeZone,
+        readingCount: readings.length,
+        firstReadingDate: first
+            ? getLocalDateString(first.timestamp, source.timeZone)
+            : null,
+        lastReadingDate: last
+            ? getLocalDateString(last.timestamp, source.timeZone)
+            : null,
+    };
+}
+
+/**
+ * Creates the chat tools over the data of the current user and meter
+ */
+export function createChatTools(source: ChatDataSource) {
+    const { timeZone, getReadings, getTokens, getSummary, getForecast } =
+        source;
+
+    const inRange = (date: Date, from: string, to: string) => {
+        const local = getLocalDateString(new Date(date), timeZone);
+        return local >= from && local <= to;
+    };
+
+    return {
+        getReadings: tool({
+            description:
+                "Lists the meter readings taken between two dates, with the kWh left on the meter at each reading",
+            parameters: rangeSchema,
+            execute: async ({ from, to }) => {
+                const readings = (await getReadings()).filter((r) =>
+                    inRange(r.timestamp, from, to)
+                );
+                const { rows, omitted } = limitRows(readings);
+                return {
+                    readings: rows.map((r) => ({
+                        date: getLocalDateString(r.timestamp, timeZone),
+                        time: new Date(r.timestamp).toLocaleTimeString(
+                            "en-GB",
+                            { timeZone, hour: "2-digit", minute: "2-digit" }
+                        ),
+                        period: r.period,
+                        reading: Number(r.reading),
+                        meterId: r.meter_id ?? null,
+                        isTokenReading:
+                            r.reading_id.startsWith("token-reading-"),
+                    })),
+                    omitted,
+                };
+            },
+        }),
+
+        getUsage: tool({
+            description:
+                "Computes the electricity used between two dates: the total, the cost where a tariff applies and the usage of each day",
+            parameters: rangeSchema,
+            execute: async ({ from, to }) => {
+                const days = (await getSummary()).dailyUsage.filter(
+                    (day) => day.date >= from && day.date <= to
+                );
+                const priced = days.filter((day) => day.cost !== undefined);
+                const { rows, omitted } = limitRows(days);
+                return {
+                    from,
+                    to,
+                    totalKwh: round(
+                        days.reduce((sum, day) => sum + day.total, 0)
+                    ),
+                    totalCost:
+                        priced.length > 0
+                            ? round(
+                                  priced.reduce(
+                                      (sum, day) => sum + (day.cost ?? 0),
+                                      0
+                                  )
+                              )
+                            : null,
+                    daysWithData: days.length,
+                    days: rows.map((day) => ({
+                        date: day.date,
+                        kwh: round(day.total),
+                        cost: day.cost ?? null,
+                        estimated: day.interpolated ?? false,
+                    })),
+                    omitted,
+                };
+            },
+        }),
+
+        getTokenPurchases: tool({
+            description:
+                "Lists the prepaid token purchases between two dates, with the units and cost of each and the totals",
+            parameters: rangeSchema,
+            execute: async ({ from, to }) => {
+                const tokens = (await getTokens()).filter((t) =>
+                    inRange(t.timestamp, from, to)
+                );
+                const { rows, omitted } = limitRows(tokens);
+                return {
+                    totalUnits: round(
+                        tokens.reduce((sum, t) => sum + Number(t.units), 0)
+                    ),
+                    totalCost: round(
+                        tokens.reduce(
+                            (sum, t) => sum + Number(t.total_cost || 0),
+                            0
+                        )
+                    ),
+                    purchases: rows.map((t) => ({
+                        date: getLocalDateString(t.timestamp, timeZone),
+                        units: Number(t.units),
+                        cost: Number(t.total_cost || 0),
+                        meterId: t.meter_id ?? null,
+                    })),
+                    omitted,
+                };
+            },
+        }),
+
+        forecastBalance: tool({
+            description:
+                "Forecasts when the remaining prepaid balance runs out at the recent rate of use",
+            parameters: z.object({}),
+            execute: async () => {
+                const forecast = await getForecast();
+                if (!forecast) {
+                    return {
+                        available: false,
+                        reason: "Too little usage history to forecast from",
+                    };
+                }
+                return {
+                    available: true,
+                    balanceKwh: round(forecast.balance),
+                    expectedDailyKwh: round(forecast.dailyRate),
+                    daysLeft:
+                        forecast.daysLeft === null
+                            ? null
+                            : round(forecast.daysLeft),
+                    runsOutAt: forecast.runsOutAt?.toISOString() ?? null,
+                    description: describeForecast(forecast),
+                    likelyRange: describeForecastRange(forecast),
+                    confidence: forecast.confidence,
+                    basedOnDays: forecast.basedOnDays,
+                };
+            },
+        }),
+    };
+}
@@ -0,0 +1,252 @@
+import { describe, expect, it } from "vitest";
+import {
+    getDailyConsumption,
+    getUsageIntervals,
+    splitByDate,
+} from "@/lib/consumption";
+import { interval, reading, token } from "@/lib/test-fixtures";
+
+const HARARE = "Africa/Harare"; // UTC+2, no daylight saving
+const NEW_YORK = "America/New_York"; // UTC-5, UTC-4 in summer
+const LONDON = "Europe/London"; // UTC, UTC+1 in summer
+
+describe("getUsageIntervals", () => {
+    it("takes the usage between consecutive readings", () => {
+        const intervals = getUsageIntervals(
+            [
+                reading("2024-06-01T18:00:00Z", 90),
+                reading("2024-06-01T06:00:00Z", 100),
+                reading("2024-06-02T06:00:00Z", 85),
+            ],
+            []
+        );
+        expect(
+            intervals.map((i) => [
+                i.start.reading,
+                i.end.reading,
+                i.consumption,
+                i.hours,
+            ])
+        ).toEqual([
+            [100, 90, 10, 12],
+            [90, 85, 5, 12],
+        ]);
+    });
+
+    it("adds the tokens bought up to and with the later reading", () => {
+        const [interval] = getUsageIntervals(
+            [
+                reading("2024-06-01T06:00:00Z", 10),
+                reading("2024-06-01T18:00:00Z", 55),
+            ],
+            [
+                token("2024-06-01T06:00:00Z", 100), // with the earlier reading
+                token("2024-06-01T12:00:00Z", 20),
+                token("2024-06-01T18:00:00Z", 30),
+            ]
+        );
+        expect(interval.tokenUnits).toBe(50);
+        expect(interval.consumption).toBe(5);
+    });
+
+    it("keeps the readings and tokens of each meter apart", () => {
+        const intervals = getUsageIntervals(
+            [
+                reading("2024-06-01T06:00:00Z", 100, 1),
+                reading("2024-06-01T07:00:00Z", 50, 2),
+                reading("2024-06-01T18:00:00Z", 95, 1),
+                reading("2024-06-01T19:00:00Z", 60, 2),
+            ],
+            [token("2024-06-01T12:00:00Z", 20, 2)]
+        );
+        expect(intervals.map((i) => [i.meterId, i.consumption])).toEqual([
+            [1, 5],
+            [2, 10],
+        ]);
+    });
+
+    it("goes negative when the reading rises without a token", () => {
+        const [interval] = getUsageIntervals(
+            [
+                reading("2024-06-01T06:00:00Z", 100),
+                reading("2024-06-01T18:00:00Z", 104),
+            ],
+            []
+        );
+        expect(interval.consumption).toBe(-4);
+    });
+});
+
+describe("splitByDate", () => {
+    it("keeps an interval within one day on that date", () => {
+        expect(
+            splitByDate(
+                interval("2024-06-01T06:00:00Z", "2024-06-01T18:00:00Z", 12),
+                "UTC"
+            )
+        ).toEqual([{ date: "2024-06-01", usage: 12 }]);
+    });
+
+    it("shares an interval crossing midnight by the time on each date", () => {
+        expect(
+            splitByDate(
+                interval("2024-06-01T22:00:00Z", "2024-06-02T04:00:00Z", 6),
+                "UTC"
+            )
+        ).toEqual([
+            { date: "2024-06-01", usage: 2 },
+            { date: "2024-06-02", usage: 4 },
+        ]);
+    });
+
+    it("finds midnight in the meter's timezone", () => {
+        // 22:00 to 04:00 in Harare
+        expect(
+            splitByDate(
+                interval("2024-06-01T20:00:00Z", "2024-06-02T02:00:00Z", 6),
+                HARARE
+            )
+        ).toEqual([
+            { date: "2024-06-01", usage: 2 },
+            { date: "2024-06-02", usage: 4 },
+        ]);
+        expect(
+            splitByDate(
+                interval("2024-06-01T20:00:00Z", "2024-06-02T02:00:00Z", 6),
+                "UTC"
+            )
+        ).toEqual([
+            { date: "2024-06-01", usage: 4 },
+            { date: "2024-06-02", usage: 2 },
+        ]);
+    });
+
+    it("spreads a gap of several days over every date in it", () => {
+        expect(
+            splitByDate(
+                interval("2024-06-01T12:00:00Z", "2024-06-03T12:00:00Z", 48),
+                "UTC"
+            )
+        ).toEqual([
+            { date: "2024-06-01", usage: 12 },
+            { date: "2024-06-02", usage: 24 },
+            { date: "2024-06-03", usage: 12 },
+        ]);
+    });
+
+    it("puts readings taken at the same moment on the later date", () => {
+        expect(
+            splitByDate(
+                interval("2024-06-01T12:00:00Z", "2024-06-01T12:00:00Z", 3),
+                "UTC"
+            )
+        ).toEqual([{ date: "2024-06-01", usage: 3 }]);
+    });
+});
+
+describe("getDailyConsumption", () => {
+    it("gives each period the shares of the intervals ending with it", () => {
+        const days = getDailyConsumption(
+            [
+                interval(
+                    "2024-06-01T06:00:00Z",
+                    "2024-06-01T18:00:00Z",
+                    8,
+                    "evening"
+                ),
+                interval(
+                    "2024-06-01T22:00:00Z",
+                    "2024-06-02T04:00:00Z",
+                    6,
+                    "night"
+                ),
+            ],
+            "UTC"
+        );
+        expect(days).toEqual([
+            {
+                date: "2024-06-01",
+                total: 10,
+                periods: { evening: 8, night: 2 },
+                interpolated: false,
+            },
+            {
+                date: "2024-06-02",
+                total: 4,
+                periods: { night: 4 },
+                interpolated: false,
+            },
+        ]);
+    });
+
+    it("marks the dates a gap of a whole day is spread over", () => {
+        const days = getDailyConsumption(
+            [
+                interval("2024-06-01T06:00:00Z", "2024-06-01T12:00:00Z", 2),
+                interval("2024-06-01T12:00:00Z", "2024-06-03T12:00:00Z", 48),
+                interval("2024-06-03T12:00:00Z", "2024-06-03T18:00:00Z", 3),
+            ],
+            "UTC"
+        );
+        expect(
+            days.map((day) => [day.date, day.total, day.interpolated])
+        ).toEqual([
+            ["2024-06-01", 14, true],
+            ["2024-06-02", 24, true],
+            ["2024-06-03", 15, true],
+        ]);
+    });
+
+    it("marks a gap of over a day that covers only two dates", () => {
+        const days = getDailyConsumption(
+            [interval("2024-06-01T06:00:00Z", "2024-06-02T18:00:00Z", 36)],
+            "UTC"
+        );
+        expect(
+            days.map((day) => [day.date, day.total, day.interpolated])
+        ).toEqual([
+            ["2024-06-01", 18, true],
+            ["2024-06-02", 18, true],
+        ]);
+    });
+
+    it("does not mark an overnight interval as interpolated", () => {
+        const days = getDailyConsumption(
+            [interval("2024-06-01T18:00:00Z", "2024-06-02T06:00:00Z", 12)],
+            "UTC"
+        );
+        expect(days.every((day) => !day.interpolated)).toBe(true);
+    });
+
+    it("never goes below zero for a day", () => {
+        const [day] = getDailyConsumption(
+            [interval("2024-06-01T06:00:00Z", "2024-06-01T18:00:00Z", -4)],
+            "UTC"
+        );
+        expect(day.total).toBe(0);
+    });
+
+    it("keeps a 23 hour day on one date", () => {
+        const days = getDailyConsumption(
+            [interval("2024-03-10T05:00:00Z", "2024-03-11T04:00:00Z", 23)],
+            NEW_YORK
+        );
+        expect(days.map((day) => [day.date, day.total])).toEqual([
+            ["2024-03-10", 23],
+            ["2024-03-11", 0],
+        ]);
+    });
+
+    it("shares a 25 hour day by the time spent on each date", () => {
+        const days = getDailyConsumption(
+            [interval("2024-10-26T12:00:00Z", "2024-10-28T12:00:00Z", 48)],
+            LONDON
+        );
+        // 11 hours on the 26th (BST), 25 on the 27th, 12 on the 28th (GMT)
+        expect(days.map((day) => [day.date, day.total])).toEqual([
+            ["2024-10-26", 11],
+            ["2024-10-27", 25],
+            ["2024-10-28", 12],
+        ]);
+    });
+});
@@ -0,0 +1,193 @@
+import type {
+    DayConsumption,
+    ElectricityReading,
+    TokenPurchase,
+    UsageInterval,
+} from "@/lib/types";
+import {
+    getLocalDateString,
+    getStartOfLocalDay,
+    shiftDate,
+} from "@/lib/timezone-utils";
+
+/**
+ * Consumption: how much electricity was used, worked out from readings and
+ * token purchases. Summaries, monthly usage, reports, charts, alerts and the
+ * AI context all build on these functions so they agree on the numbers.
+ *
+ * A prepaid meter counts down and tokens top it up, so the usage between two
+ * consecutive readings of a meter is
+ *
+ *   earlier reading + tokens bought in between - later reading
+ *
+ * A token bought at the same moment as a reading counts as bought before it,
+ * which is how the reading stored with each token purchase is taken. An
+ * interval is negative when the reading went up without a recorded token;
+ * days net the intervals (or shares of them) they hold, so a typo corrected
+ * later in the day cancels out, and never go below zero.
+ */
+
+const time = (date: Date | string) => new Date(date).getTime();
+
+/**
+ * Sums the units of the tokens bought after `from` and up to `to`
+ */
+export function getTokenUnitsBetween(
+    tokens: TokenPurchase[],
+    from: Date,
+    to: Date
+): number {
+    const start = time(from);
+    const end = time(to);
+    return tokens
+        .filter((token) => {
+            const bought = time(token.timestamp);
+            return bought > start && bought <= end;
+        })
+        .reduce((sum, token) => sum + Number(token.units), 0);
+}
+
+/**
+ * Splits the readings into the intervals between consecutive readings of
+ * each meter, ordered by their end
+ */
+export function getUsageIntervals(
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[]
+): UsageInterval[] {
+    const meterIds = new Set(readings.map((r) => r.meter_id ?? null));
+
+    return Array.from(meterIds)
+        .flatMap((meterId) => {
+            const meterTokens = tokens.filter(
+                (t) => (t.meter_id ?? null) === meterId
+            );
+            const sorted = readings
+                .filter((r) => (r.meter_id ?? null) === meterId)
+                .sort((a, b) => time(a.timestamp) - time(b.timestamp));
+
+            return sorted.slice(1).map((end, index): UsageInterval => {
+                const start = sorted[index];
+                const tokenUnits = getTokenUnitsBetween(
+                    meterTokens,
+                    start.timestamp,
+                    end.timestamp
+                );
+                return {
+                    meterId,
+                    start,
+                    end,
+                    tokenUnits,
+                    consumption:
+                        Number(start.reading) +
+                        tokenUnits -
+                        Number(end.reading),
+                    hours:
+                        (time(end.timestamp) - time(start.timestamp)) /
+                        3600000,
+                };
+            });
+        })
+        .sort((a, b) => time(a.end.timestamp) - time(b.end.timestamp));
+}
+
+/**
+ * Splits an interval at the midnights it spans, in `timeZone` or the
+ * runtime's own timezone when none is given, with the share of the interval's
+ * usage that falls on each date
+ */
+export function splitByDate(
+    interval: UsageInterval,
+    timeZone?: string
+): { date: string; usage: number }[] {
+    const start = time(interval.start.timestamp);
+    const end = time(interval.end.timestamp);
+    const endDate = getLocalDateString(new Date(end), timeZone);
+    if (end <= start) return [{ date: endDate, usage: interval.consumption }];
+
+    const shares: { date: string; usage: number }[] = [];
+    let from = start;
+    let date = getLocalDateString(new Date(start), timeZone);
+    while (date < endDate) {
+        const nextDate = shiftDate(date, 1);
+        const to = Math.min(
+            getStartOfLocalDay(nextDate, timeZone).getTime(),
+            end
+        );
+        shares.push({
+            date,
+            usage: (interval.consumption * (to - from)) / (end - start),
+        });
+        from = to;
+        date = nextDate;
+    }
+    shares.push({
+        date: endDate,
+        usage: (interval.consumption * (end - from)) / (end - start),
+    });
+    return shares;
+}
+
+/**
+ * Totals the intervals by date, in `timeZone` or the runtime's own timezone
+ * when none is given. An interval spanning midnight is shared between the
+ * dates in proportion to the time it spent in each, so a gap of several days
+ * is spread over them rather than counted on the day it ends. Each period
+ * gets the shares of the intervals ending with a reading of that period.
+ *
+ * Usage from an interval with a whole day or more without readings in it is
+ * an estimate, and the dates it is shared between are marked `interpolated`.
+ */
+export function getDailyConsumption(
+    intervals: UsageInterval[],
+    timeZone?: string
+): DayConsumption[] {
+    const days = new Map<string, DayConsumption>();
+
+    for (const interval of intervals) {
+        const shares = splitByDate(interval, timeZone);
+        const { period } = interval.end;
+        for (const { date, usage } of shares) {
+            const day = days.get(date) ?? {
+                date,
+                total: 0,
+                periods: {},
+                interpolated: false,
+            };
+            day.total += usage;
+            day.periods[period] = (day.periods[period] ?? 0) + usage;
+            day.interpolated ||= interval.hours >= 24;
+            days.set(date, day);
+        }
+    }
+
+    return Array.from(days.values())
+        .map((day) => ({
+            date: day.date,
+            total: Math.max(0, day.total),
+            periods: Object.fromEntries(
+                Object.entries(day.periods).map(([period, usage]) => [
+                    period,
+                    Math.max(0, usage),
+                ])
+            ),
+            interpolated: day.interpolated,
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Totals daily usage by month (YYYY-MM)
+ */
+export function getMonthlyConsumption(
+    days: { date: string; total: number }[]
+): { month: string; usage: number }[] {
+    const months = new Map<string, number>();
+    for (const day of days) {
+        const month = day.date.slice(0, 7);
+        months.set(month, (months.get(month) ?? 0) + day.total);
+    }
+    return Array.from(months, ([month, usage]) => ({ month, usage })).sort(
+        (a, b) => a.month.localeCompare(b.month)
+    );
+}
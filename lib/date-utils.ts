@@ -1,3 +1,9 @@
+import type { ReadingSchedule } from "@/lib/types";
+import {
+    DEFAULT_READING_SCHEDULE,
+    getNextReminder,
+} from "@/lib/reading-schedule";
+
 /**
  * Formats a Date object as a string in the format YYYY-MM-DD.
  *
@@ -21,41 +27,14 @@ export function getTimeString(date: Date): string {
 }
 
 /**
- * Calculates the next update time based on the current time.
- * The next update time is set to 7am, 5pm, or 9pm on the current day,
- * or 7am on the next day if the current time is after 9pm.
+ * Calculates the next update time: the next reminder of the reading
+ * schedule, today or tomorrow.
  *
+ * @param schedule - The reading schedule, the default morning, evening and night one if omitted.
  * @returns A Date object representing the next update time.
  */
-// Get the next update time (7am, 5pm, or 9pm)
-export function getNextUpdateTime(): Date {
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-
-    const next = new Date(now);
-
-    // Set to today's date initially
-    if (currentHour < 7 || (currentHour === 7 && currentMinute === 0)) {
-        // Next update is 7am today
-        next.setHours(7, 0, 0, 0);
-    } else if (
-        currentHour < 17 ||
-        (currentHour === 17 && currentMinute === 0)
-    ) {
-        // Next update is 5pm today
-        next.setHours(17, 0, 0, 0);
-    } else if (
-        currentHour < 21 ||
-        (currentHour === 21 && currentMinute === 0)
-    ) {
-        // Next update is 9pm today
-        next.setHours(21, 0, 0, 0);
-    } else {
-        // Next update is 7am tomorrow
-        next.setDate(next.getDate() + 1);
-        next.setHours(7, 0, 0, 0);
-    }
-
-    return next;
+export function getNextUpdateTime(
+    schedule: ReadingSchedule = DEFAULT_READING_SCHEDULE
+): Date {
+    return getNextReminder(schedule).time;
 }
@@ -0,0 +1,138 @@
+import "server-only";
+
+import { sql, type SqlQueryResult } from "@/lib/db";
+import {
+    DIGEST_HOUR,
+    UNSUBSCRIBE_TOKEN_PARAM,
+    buildEmailDigest,
+    isDigestDay,
+    renderEmailDigest,
+} from "@/lib/email-digest";
+import { getMailTransport } from "@/lib/mail-transport";
+import { loadReadingSchedule } from "@/lib/reading-schedule-store";
+import {
+    DEFAULT_TIMEZONE,
+    getLocalDateString,
+    getZonedParts,
+} from "@/lib/timezone-utils";
+import type { DigestSchedulerResult, EmailDigestFrequency } from "@/lib/types";
+import { loadUsageSummary } from "@/lib/usage-summary";
+
+/**
+ * Digest scheduler: sends the daily and weekly email digests that are due.
+ *
+ * It is meant to run every hour. A digest is due from DIGEST_HOUR in the
+ * timezone of the owner's default meter, and the subscription is marked as
+ * sent for that day before the email goes out, so running more often never
+ * sends one twice.
+ */
+
+type DigestSubscriptionRow = {
+    id: number;
+    owner_id: string;
+    email: string;
+    frequency: EmailDigestFrequency;
+    unsubscribe_token: string;
+    last_sent_on: string | null;
+};
+
+/**
+ * Sends every digest that is due at `now` and has not been sent today.
+ *
+ * @param appUrl - Base URL of the app, for the links in the email.
+ */
+export async function runDigestScheduler(
+    appUrl: string,
+    now: Date = new Date()
+): Promise<DigestSchedulerResult> {
+    const result: DigestSchedulerResult = { sent: 0, failed: 0 };
+    const transport = getMailTransport();
+
+    // Members who left a household stop getting its digests
+    const subscriptions = (await sql`
+      SELECT s.id, s.owner_id, s.email, s.frequency, s.unsubscribe_token,
+        to_char(s.last_sent_on, 'YYYY-MM-DD') AS last_sent_on
+      FROM email_digest_subscriptions s
+      LEFT JOIN households h ON h.owner_user_id = s.owner_id
+      LEFT JOIN household_members m ON m.household_id = h.id AND m.user_id = s.user_id
+      WHERE s.user_id = s.owner_id OR m.role IS NOT NULL
+  `) as SqlQueryResult<DigestSubscriptionRow>;
+
+    const ownerIds = Array.from(new Set(subscriptions.map((s) => s.owner_id)));
+
+    for (const ownerId of ownerIds) {
+        const [defaultMeter] = (await sql`
+      SELECT timezone FROM meters
+      WHERE user_id = ${ownerId}
+      ORDER BY is_default DESC, id ASC
+      LIMIT 1
+    `) as SqlQueryResult<{ timezone: string }>;
+        const timeZone = defaultMeter?.timezone ?? DEFAULT_TIMEZONE;
+        const today = getLocalDateString(now, timeZone);
+        if (getZonedParts(now, timeZone).hour < DIGEST_HOUR) continue;
+
+        const due = subscriptions.filter(
+            (s) =>
+                s.owner_id === ownerId &&
+                isDigestDay(s.frequency, today) &&
+                (s.last_sent_on === null || s.last_sent_on < today)
+        );
+        if (due.length === 0) continue;
+
+        const { summary, readings } = await loadUsageSummary(ownerId, null);
+        const schedule = await loadReadingSchedule(ownerId);
+
+        for (const subscription of due) {
+            const claimed = (await sql`
+        UPDATE email_digest_subscriptions
+        SET last_sent_on = ${today}
+        WHERE id = ${subscription.id}
+        AND (last_sent_on IS NULL OR last_sent_on < ${today}::date)
+        RETURNING id
+      `) as SqlQueryResult<{ id: number }>;
+            if (claimed.length === 0) continue;
+
+            const unsubscribeUrl = new URL("/api/digest/unsubscribe", appUrl);
+            unsubscribeUrl.searchParams.set(
+                UNSUBSCRIBE_TOKEN_PARAM,
+                subscription.unsubscribe_token
+            );
+            const email = renderEmailDigest(
+                buildEmailDigest(
+                    subscription.frequency,
+                    summary,
+                    readings,
+                    schedule,
+                    timeZone,
+                    now
+                ),
+                appUrl,
+                unsubscribeUrl.toString()
+            );
+
+            try {
+                await transport.send({
+                    to: subscription.email,
+                    ...email,
+                    // Lets mail clients offer one-click unsubscribe (RFC 8058)
+                    headers: {
+                        "List-Unsubscribe": `<${unsubscribeUrl.toString()}>`,
+                        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+                    },
+                });
+                result.sent++;
+            } catch (error) {
+                console.error("Error sending email digest:", error);
+                // Forget the attempt so the next run retries it
+                await sql`
+          UPDATE email_digest_subscriptions
+          SET last_sent_on = ${subscription.last_sent_on}
+          WHERE id = ${subscription.id}
+        `;
+                result.failed++;
+            }
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,286 @@
+import type {
+    ElectricityReading,
+    EmailDigest,
+    EmailDigestFrequency,
+    ReadingSchedule,
+    UsageSummary,
+} from "@/lib/types";
+import {
+    getLocalDateString,
+    getWeekday,
+    shiftDate,
+} from "@/lib/timezone-utils";
+import { forecastBalance, getCombinedBalance } from "@/lib/balance-forecast";
+
+/**
+ * Email digest content: the figures taken from a usage summary and the HTML
+ * and plain-text emails they are rendered into. Dates are YYYY-MM-DD strings
+ * in the timezone of the owner's default meter.
+ *
+ * A digest covers the days up to yesterday. The daily digest reports
+ * yesterday and the week so far; the weekly digest goes out on Monday, when
+ * the week to date is the whole of last week.
+ */
+
+/** Digests go out from this local hour */
+export const DIGEST_HOUR = 7;
+
+/** Query parameter with the token of the unsubscribe link */
+export const UNSUBSCRIBE_TOKEN_PARAM = "token";
+
+/**
+ * Gets the Monday of the week a YYYY-MM-DD date falls in
+ */
+export function getWeekStart(date: string): string {
+    return shiftDate(date, -((getWeekday(date) + 6) % 7));
+}
+
+/**
+ * Returns true when a digest of this frequency goes out on a local day:
+ * daily digests every day, weekly digests on Mondays
+ */
+export function isDigestDay(
+    frequency: EmailDigestFrequency,
+    date: string
+): boolean {
+    return frequency === "daily" || getWeekStart(date) === date;
+}
+
+/**
+ * Lists the scheduled readings without a reading for any meter on the
+ * given days. Days before the first reading are not counted.
+ */
+function getMissedReadings(
+    schedule: ReadingSchedule,
+    readings: ElectricityReading[],
+    days: string[],
+    timeZone: string
+): { date: string; period: string }[] {
+    if (readings.length === 0) return [];
+
+    const recorded = new Set(
+        readings.map(
+            (r) =>
+                `${getLocalDateString(new Date(r.timestamp), timeZone)}|${
+                    r.period
+                }`
+        )
+    );
+    const firstDate = getLocalDateString(
+        new Date(
+            Math.min(...readings.map((r) => new Date(r.timestamp).getTime()))
+        ),
+        timeZone
+    );
+
+    return days
+        .filter((date) => date >= firstDate)
+        .flatMap((date) =>
+            schedule.periods
+                .filter((period) => !recorded.has(`${date}|${period.key}`))
+                .map((period) => ({ date, period: period.name }))
+        );
+}
+
+/**
+ * Builds the digest sent at `now` from the owner's usage summary and readings
+ */
+export function buildEmailDigest(
+    frequency: EmailDigestFrequency,
+    summary: UsageSummary,
+    readings: ElectricityReading[],
+    schedule: ReadingSchedule,
+    timeZone: string,
+    now: Date
+): EmailDigest {
+    const today = getLocalDateString(now, timeZone);
+    const yesterday = shiftDate(today, -1);
+    const weekStart = getWeekStart(yesterday);
+    const week = summary.dailyUsage.filter(
+        (day) => day.date >= weekStart && day.date <= yesterday
+    );
+    const yesterdayUsage = week.find((day) => day.date === yesterday);
+
+    const peak = week.reduce<(typeof week)[number] | null>(
+        (max, day) => (day.total > (max?.total ?? 0) ? day : max),
+        null
+    );
+
+    // Prepaid meters count down, so the latest readings are the balance
+    const balance = getCombinedBalance(readings);
+
+    const missedDays: string[] = [];
+    for (
+        let date = frequency === "daily" ? yesterday : weekStart;
+        date <= yesterday;
+        date = shiftDate(date, 1)
+    ) {
+        missedDays.push(date);
+    }
+
+    return {
+        frequency,
+        yesterday: {
+            date: yesterday,
+            usage: yesterdayUsage?.total ?? 0,
+            cost: yesterdayUsage?.cost ?? 0,
+        },
+        weekToDate: {
+            from: weekStart,
+            to: yesterday,
+            usage: week.reduce((sum, day) => sum + day.total, 0),
+            cost: week.reduce((sum, day) => sum + (day.cost ?? 0), 0),
+        },
+        peakDay: peak ? { date: peak.date, usage: peak.total } : null,
+        balance,
+        daysLeft:
+            balance === null
+                ? null
+                : forecastBalance(summary.dailyUsage, balance, timeZone, now)
+                      ?.daysLeft ?? null,
+        missedReadings: getMissedReadings(
+            schedule,
+            readings,
+            missedDays,
+            timeZone
+        ),
+    };
+}
+
+const formatDay = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC",
+    });
+
+const formatKwh = (kwh: number) => `${kwh.toFixed(2)} kWh`;
+
+const formatCost = (cost: number) => `R ${cost.toFixed(2)}`;
+
+const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+/**
+ * Renders a digest as an email with an HTML body and a plain-text fallback
+ */
+export function renderEmailDigest(
+    digest: EmailDigest,
+    appUrl: string,
+    unsubscribeUrl: string
+): { subject: string; html: string; text: string } {
+    const { yesterday, weekToDate, peakDay, balance, daysLeft } = digest;
+    const weekLabel = `${formatDay(weekToDate.from)} – ${formatDay(
+        weekToDate.to
+    )}`;
+    const missedLabel =
+        digest.frequency === "daily" ? "Missed yesterday" : "Missed this week";
+
+    const rows: [string, string][] = [
+        [
+            `Yesterday (${formatDay(yesterday.date)})`,
+            `${formatKwh(yesterday.usage)} · ${formatCost(yesterday.cost)}`,
+        ],
+        [
+            `Week to date (${weekLabel})`,
+            `${formatKwh(weekToDate.usage)} · ${formatCost(weekToDate.cost)}`,
+        ],
+        [
+            "Peak day",
+            peakDay
+                ? `${formatDay(peakDay.date)}, ${formatKwh(peakDay.usage)}`
+                : "No usage recorded",
+        ],
+        [
+            "Balance",
+            balance === null
+                ? "No readings yet"
+                : daysLeft === null
+                ? formatKwh(balance)
+                : `${formatKwh(balance)}, about ${Math.floor(
+                      daysLeft
+                  )} days left`,
+        ],
+        [
+            missedLabel,
+            digest.missedReadings.length === 0
+                ? "None"
+                : `${digest.missedReadings.length} reading${
+                      digest.missedReadings.length === 1 ? "" : "s"
+                  }`,
+        ],
+    ];
+    const missed = digest.missedReadings.map(
+        (m) => `${formatDay(m.date)}: ${m.period}`
+    );
+
+    const subject =
+        digest.frequency === "daily"
+            ? `Electricity yesterday: ${formatKwh(yesterday.usage)}`
+            : `Electricity last week: ${formatKwh(weekToDate.usage)}`;
+
+    const text = [
+        digest.frequency === "daily"
+            ? "Your daily electricity summary"
+            : "Your weekly electricity summary",
+        "",
+        ...rows.map(([label, value]) => `${label}: ${value}`),
+        ...(missed.length > 0 ? ["", ...missed.map((m) => `- ${m}`)] : []),
+        "",
+        `Open the tracker: ${appUrl}`,
+        `Unsubscribe: ${unsubscribeUrl}`,
+    ].join("\n");
+
+    const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <h1 style="font-size:20px;margin:0 0 16px;">${
+          digest.frequency === "daily"
+              ? "Your daily electricity summary"
+              : "Your weekly electricity summary"
+      }</h1>
+      <table style="width:100%;border-collapse:collapse;font-size:14px;">
+        ${rows
+            .map(
+                ([label, value]) => `<tr>
+          <td style="padding:8px 0;border-bottom:1px solid #e4e4e7;color:#52525b;">${escapeHtml(
+              label
+          )}</td>
+          <td style="padding:8px 0;border-bottom:1px solid #e4e4e7;text-align:right;font-weight:bold;">${escapeHtml(
+              value
+          )}</td>
+        </tr>`
+            )
+            .join("\n        ")}
+      </table>${
+          missed.length > 0
+              ? `
+      <ul style="font-size:13px;color:#b45309;padding-left:20px;">
+        ${missed.map((m) => `<li>${escapeHtml(m)}</li>`).join("\n        ")}
+      </ul>`
+              : ""
+      }
+      <p style="margin:24px 0 0;">
+        <a href="${escapeHtml(
+            appUrl
+        )}" style="background:#18181b;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;font-size:14px;">Open the tracker</a>
+      </p>
+      <p style="margin:24px 0 0;font-size:12px;color:#71717a;">
+        You get this email because you subscribed to ${
+            digest.frequency
+        } digests. <a href="${escapeHtml(
+        unsubscribeUrl
+    )}" style="color:#71717a;">Unsubscribe</a>
+      </p>
+    </div>
+  </body>
+</html>`;
+
+    return { subject, html, text };
+}
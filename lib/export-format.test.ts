@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "@/lib/export-format";
+
+describe("toCsv", () => {
+    it("quotes cells with separators or quotes", () => {
+        expect(
+            toCsv([
+                ["Meter", "Units"],
+                ['Flat "B", upstairs', 12.5],
+                ["Cottage", null],
+            ])
+        ).toBe('Meter,Units\r\n"Flat ""B"", upstairs",12.5\r\nCottage,');
+    });
+
+    it("keeps text that starts like a formula as text", () => {
+        expect(
+            toCsv([['=HYPERLINK("x")', "+1", "-sum", "@cmd", "\tTab"]])
+        ).toBe(`"'=HYPERLINK(""x"")",'+1,'-sum,'@cmd,'\tTab`);
+    });
+
+    it("leaves negative numbers alone", () => {
+        expect(toCsv([[-4, "2024-06-01"]])).toBe("-4,2024-06-01");
+    });
+});
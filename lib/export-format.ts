@@ -0,0 +1,124 @@
+import { utils, write } from "xlsx";
+import type { ExportData, ExportDataset } from "@/lib/types";
+
+/**
+ * Formatting of exported data as CSV, JSON or an XLSX workbook.
+ * Every dataset becomes a table with a header row, so spreadsheets can
+ * refer to the columns by name.
+ */
+
+type Cell = string | number | null;
+export type ExportTable = Cell[][];
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+    daily: "Daily Usage",
+    readings: "Readings",
+    tokens: "Token Purchases",
+};
+
+const round = (value: number | undefined) =>
+    value === undefined ? null : Number(value.toFixed(2));
+
+/**
+ * Builds a header row and one row per entry for each dataset
+ */
+export function buildExportTables(
+    data: ExportData
+): Record<ExportDataset, ExportTable> {
+    const meterName = (meterId: number | null | undefined) =>
+        data.meters.find((m) => m.id === meterId)?.nickname ?? "";
+
+    return {
+        daily: [
+            [
+                "Date",
+                "Meter",
+                ...data.schedule.periods.map((period) => `${period.name} (kWh)`),
+                "Usage (kWh)",
+                "Cost",
+            ],
+            ...data.dailyUsage.map((day) => [
+                day.date,
+                meterName(day.meter_id),
+                ...data.schedule.periods.map((period) =>
+                    round(day.readings?.[period.key])
+                ),
+                round(day.total),
+                round(day.cost),
+            ]),
+        ],
+        readings: [
+            [
+                "Date",
+                "Timestamp",
+                "Meter",
+                "Period",
+                "Reading (kWh)",
+                "Entered By",
+            ],
+            ...data.readings.map((reading) => [
+                reading.timestamp.toISOString().split("T")[0],
+                reading.timestamp.toISOString(),
+                meterName(reading.meter_id),
+                reading.period,
+                round(reading.reading),
+                reading.entered_by_name ?? "",
+            ]),
+        ],
+        tokens: [
+            [
+                "Date",
+                "Timestamp",
+                "Meter",
+                "Units (kWh)",
+                "Cost",
+                "Cost per kWh",
+                "Reading After (kWh)",
+                "Entered By",
+            ],
+            ...data.tokens.map((token) => [
+                token.timestamp.toISOString().split("T")[0],
+                token.timestamp.toISOString(),
+                meterName(token.meter_id),
+                round(token.units),
+                round(token.total_cost ?? 0),
+                token.units > 0
+                    ? round((token.total_cost ?? 0) / token.units)
+                    : null,
+                round(token.new_reading),
+                token.entered_by_name ?? "",
+            ]),
+        ],
+    };
+}
+
+/**
+ * Formats a table as CSV, quoting cells that contain separators or quotes.
+ * Text that a spreadsheet would run as a formula, e.g. a meter nickname
+ * starting with "=", is prefixed with an apostrophe so it stays text.
+ */
+export function toCsv(table: ExportTable): string {
+    const escape = (cell: Cell) => {
+        let text = cell === null ? "" : String(cell);
+        if (typeof cell === "string" && /^[=+\-@\t\r]/.test(text)) {
+            text = `'${text}`;
+        }
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return table.map((row) => row.map(escape).join(",")).join("\r\n");
+}
+
+/**
+ * Formats every dataset as a sheet of one XLSX workbook
+ */
+export function toXlsx(tables: Record<ExportDataset, ExportTable>): Buffer {
+    const workbook = utils.book_new();
+    for (const [dataset, table] of Object.entries(tables)) {
+        utils.book_append_sheet(
+            workbook,
+            utils.aoa_to_sheet(table),
+            EXPORT_DATASET_LABELS[dataset as ExportDataset]
+        );
+    }
+    return write(workbook, { type: "buffer", bookType: "xlsx" });
+}
@@ -0,0 +1,110 @@
+import "server-only";
+
+import { cookies } from "next/headers";
+import { sql, type SqlQueryResult } from "@/lib/db";
+import type { HouseholdRole } from "@/lib/types";
+import { stackServerApp } from "@/stack/server";
+
+/**
+ * Household scope: whose data the current request works on, and with which role.
+ *
+ * A household shares its owner's meters, readings, tokens and tariffs. The active
+ * household lives in a cookie; without one, users work on their own data as owner.
+ */
+
+export const ACTIVE_HOUSEHOLD_COOKIE = "active-household";
+
+const ROLE_RANK: Record<HouseholdRole, number> = {
+    viewer: 1,
+    editor: 2,
+    owner: 3,
+};
+
+export interface HouseholdContext {
+    /** The signed-in user */
+    userId: string;
+    /** Display name recorded on readings and tokens the user enters */
+    userName: string | null;
+    /** The user whose data is shared, used to filter every query */
+    ownerId: string;
+    /** Active household, or null when working on the user's own data */
+    householdId: number | null;
+    role: HouseholdRole;
+}
+
+/**
+ * Returns true if a role grants at least the permissions of another role
+ */
+export function hasRole(
+    role: HouseholdRole,
+    minimumRole: HouseholdRole
+): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+/**
+ * Resolves the household context of the signed-in user, or null when signed out.
+ * Falls back to the user's own data when the active household is missing or the
+ * user is no longer a member.
+ */
+export async function getHouseholdContext(): Promise<HouseholdContext | null> {
+    const user = await stackServerApp.getUser();
+    if (!user) {
+        return null;
+    }
+
+    const userName = user.displayName ?? user.primaryEmail ?? null;
+    const personal: HouseholdContext = {
+        userId: user.id,
+        userName,
+        ownerId: user.id,
+        householdId: null,
+        role: "owner",
+    };
+
+    const cookieStore = await cookies();
+    const householdId = Number(cookieStore.get(ACTIVE_HOUSEHOLD_COOKIE)?.value);
+    if (!householdId) {
+        return personal;
+    }
+
+    const membership = (await sql`
+      SELECT h.owner_user_id, m.role
+      FROM household_members m
+      JOIN households h ON h.id = m.household_id
+      WHERE m.household_id = ${householdId} AND m.user_id = ${user.id}
+  `) as SqlQueryResult<{ owner_user_id: string; role: HouseholdRole }>;
+
+    if (membership.length === 0) {
+        return personal;
+    }
+
+    return {
+        userId: user.id,
+        userName,
+        ownerId: membership[0].owner_user_id,
+        householdId,
+        role: membership[0].role,
+    };
+}
+
+/**
+ * Resolves the household context and checks the user's role.
+ *
+ * @param minimumRole - The least privileged role allowed to perform the action.
+ * @throws {Error} If the user is not signed in or their role is insufficient.
+ */
+export async function requireHouseholdRole(
+    minimumRole: HouseholdRole
+): Promise<HouseholdContext> {
+    const context = await getHouseholdContext();
+    if (!context) {
+        throw new Error("Authentication required");
+    }
+    if (!hasRole(context.role, minimumRole)) {
+        throw new Error(
+            `This action requires the ${minimumRole} role in this household`
+        );
+    }
+    return context;
+}
@@ -0,0 +1,264 @@
+import type {
+    ImportIssue,
+    ImportKind,
+    ImportRow,
+    Period,
+    ReadingSchedule,
+} from "@/lib/types";
+import { getLocalDateString } from "@/lib/timezone-utils";
+import { getPeriodForDate } from "@/lib/reading-schedule";
+
+/**
+ * Validation of imported rows against each other and the entries already
+ * stored for the meter. Rows with an issue are left out of the import.
+ */
+
+// Readings are stored with two decimals, so ignore rounding noise
+const READING_TOLERANCE = 0.01;
+
+export interface ExistingEntries {
+    readings: { timestamp: Date; reading: number; period: Period }[];
+    tokens: { timestamp: Date; units: number }[];
+}
+
+export interface ValidImportReading {
+    row: number;
+    timestamp: Date;
+    reading: number;
+    period: Period;
+}
+
+export interface ValidImportToken {
+    row: number;
+    timestamp: Date;
+    units: number;
+    total_cost: number;
+    new_reading: number;
+}
+
+export interface ImportValidation {
+    readings: ValidImportReading[];
+    tokens: ValidImportToken[];
+    issues: ImportIssue[];
+}
+
+function parseTimestamp(
+    row: ImportRow,
+    issues: ImportIssue[],
+    now: Date,
+    timeZone: string
+) {
+    const timestamp = row.timestamp ? new Date(row.timestamp) : null;
+    if (!timestamp || Number.isNaN(timestamp.getTime())) {
+        issues.push({ row: row.row, message: "Missing or invalid date" });
+        return null;
+    }
+    if (timestamp > now) {
+        issues.push({
+            row: row.row,
+            message: `${getLocalDateString(timestamp, timeZone)} is in the future`,
+        });
+        return null;
+    }
+    return timestamp;
+}
+
+const isNumber = (value: number | null | undefined): value is number =>
+    typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Sums the units of tokens bought after `from` and up to and including `to`
+ */
+function unitsBetween(
+    tokens: ExistingEntries["tokens"],
+    from: Date,
+    to: Date
+): number {
+    return tokens
+        .filter((t) => t.timestamp > from && t.timestamp <= to)
+        .reduce((sum, t) => sum + t.units, 0);
+}
+
+/**
+ * Validates imported readings. A prepaid meter counts down, so a reading may
+ * only be higher than the one before it by the units bought in between.
+ */
+function validateReadings(
+    rows: ImportRow[],
+    existing: ExistingEntries,
+    schedule: ReadingSchedule,
+    timeZone: string,
+    now: Date
+): ImportValidation {
+    const issues: ImportIssue[] = [];
+    const candidates: ValidImportReading[] = [];
+    const takenPeriods = new Set(
+        existing.readings.map(
+            (r) => `${getLocalDateString(r.timestamp, timeZone)}|${r.period}`
+        )
+    );
+
+    for (const row of rows) {
+        const timestamp = parseTimestamp(row, issues, now, timeZone);
+        if (!timestamp) continue;
+
+        if (!isNumber(row.reading) || row.reading < 0) {
+            issues.push({ row: row.row, message: "Missing or invalid reading" });
+            continue;
+        }
+
+        // A period column may hold the key or the name of a schedule period
+        const givenPeriod = row.period?.trim().toLowerCase();
+        const matchedPeriod = givenPeriod
+            ? schedule.periods.find(
+                  (p) =>
+                      p.key === givenPeriod ||
+                      p.name.toLowerCase() === givenPeriod
+              )
+            : undefined;
+        if (givenPeriod && !matchedPeriod) {
+            issues.push({
+                row: row.row,
+                message: `Unknown period "${row.period}"`,
+            });
+            continue;
+        }
+        const period: Period =
+            matchedPeriod?.key ??
+            getPeriodForDate(schedule, timestamp, timeZone);
+
+        const date = getLocalDateString(timestamp, timeZone);
+        const periodKey = `${date}|${period}`;
+        if (takenPeriods.has(periodKey)) {
+            issues.push({
+                row: row.row,
+                message: `There is already a ${period} reading for ${date}`,
+            });
+            continue;
+        }
+        takenPeriods.add(periodKey);
+
+        candidates.push({
+            row: row.row,
+            timestamp,
+            reading: row.reading,
+            period,
+        });
+    }
+
+    // Check every imported reading against its neighbours on the timeline
+    const timeline = [
+        ...existing.readings.map((r) => ({ ...r, row: null })),
+        ...candidates,
+    ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const rejected = new Set<number>();
+    for (let i = 1; i < timeline.length; i++) {
+        const previous = timeline[i - 1];
+        const current = timeline[i];
+        const allowedRise = unitsBetween(
+            existing.tokens,
+            previous.timestamp,
+            current.timestamp
+        );
+        if (current.reading - previous.reading <= allowedRise + READING_TOLERANCE) {
+            continue;
+        }
+
+        const row = current.row ?? previous.row;
+        if (row === null || rejected.has(row)) continue;
+        rejected.add(row);
+        issues.push({
+            row,
+            message: `Reading rises from ${previous.reading} to ${current.reading} kWh without a token purchase in between`,
+        });
+    }
+
+    return {
+        readings: candidates.filter((r) => !rejected.has(r.row)),
+        tokens: [],
+        issues,
+    };
+}
+
+/**
+ * Validates imported token purchases. The meter reading after each purchase
+ * is derived from the last known reading before it.
+ */
+function validateTokens(
+    rows: ImportRow[],
+    existing: ExistingEntries,
+    timeZone: string,
+    now: Date
+): ImportValidation {
+    const issues: ImportIssue[] = [];
+    const tokens: ValidImportToken[] = [];
+    const seen = new Set(
+        existing.tokens.map((t) => `${t.timestamp.getTime()}|${t.units}`)
+    );
+    const readings = [...existing.readings].sort(
+        (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+
+    for (const row of rows) {
+        const timestamp = parseTimestamp(row, issues, now, timeZone);
+        if (!timestamp) continue;
+
+        if (!isNumber(row.units) || row.units <= 0) {
+            issues.push({ row: row.row, message: "Missing or invalid units" });
+            continue;
+        }
+        if (!isNumber(row.total_cost) || row.total_cost < 0) {
+            issues.push({ row: row.row, message: "Missing or invalid cost" });
+            continue;
+        }
+
+        const key = `${timestamp.getTime()}|${row.units}`;
+        if (seen.has(key)) {
+            issues.push({
+                row: row.row,
+                message: `Duplicate purchase of ${row.units} kWh on ${getLocalDateString(timestamp, timeZone)}`,
+            });
+            continue;
+        }
+        seen.add(key);
+
+        const readingBefore = readings.findLast(
+            (r) => r.timestamp <= timestamp
+        );
+        tokens.push({
+            row: row.row,
+            timestamp,
+            units: row.units,
+            total_cost: row.total_cost,
+            new_reading: Number(
+                ((readingBefore?.reading ?? 0) + row.units).toFixed(2)
+            ),
+        });
+    }
+
+    return { readings: [], tokens, issues };
+}
+
+/**
+ * Validates imported rows of the given kind against the existing entries of
+ * the meter they are imported into. Readings without a period are assigned
+ * one from the owner's reading schedule, and days are taken in the meter's
+ * timezone.
+ */
+export function validateImport(
+    kind: ImportKind,
+    rows: ImportRow[],
+    existing: ExistingEntries,
+    schedule: ReadingSchedule,
+    timeZone: string,
+    now: Date = new Date()
+): ImportValidation {
+    const validation =
+        kind === "readings"
+            ? validateReadings(rows, existing, schedule, timeZone, now)
+            : validateTokens(rows, existing, timeZone, now);
+
+    validation.issues.sort((a, b) => a.row - b.row);
+    return validation;
+}
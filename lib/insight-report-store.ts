@@ -0,0 +1,187 @@
+import "server-only";
+
+import { createHash } from "crypto";
+import { sql, type SqlQueryResult } from "@/lib/db";
+import type {
+    InsightContent,
+    InsightReport,
+    InsightReportSummary,
+    InsightSnapshot,
+} from "@/lib/types";
+
+/**
+ * Stored insight reports of an owner, numbered per meter (or for the
+ * combined view, stored with no meter) so each scope has its own history.
+ * Reports written before insights were structured keep their markdown.
+ */
+
+type InsightReportRow = {
+    id: number;
+    version: number;
+    format: InsightReport["format"];
+    content: InsightContent | string;
+    completed_actions: number[];
+    snapshot: InsightSnapshot;
+    provider: string;
+    created_at: string;
+};
+
+const toReport = (row: InsightReportRow): InsightReport => {
+    const fields = {
+        id: row.id,
+        version: Number(row.version),
+        completedActions: row.completed_actions,
+        snapshot: row.snapshot,
+        provider: row.provider,
+        createdAt: new Date(row.created_at),
+    };
+    // Markdown reports from before insights were structured are kept as text
+    return row.format === "markdown"
+        ? { ...fields, format: "markdown", content: String(row.content) }
+        : {
+              ...fields,
+              format: "structured",
+              content: row.content as InsightContent,
+          };
+};
+
+/**
+ * Hashes the data a report is written from, so unchanged data can be told
+ * apart without comparing it field by field
+ */
+export function hashInsightData(data: unknown): string {
+    return createHash("sha256").update(JSON.stringify(data)).digest("hex");
+}
+
+/**
+ * Loads the latest report of a scope, with the hash of its data
+ */
+export async function loadLatestInsightReport(
+    ownerId: string,
+    meterId: number | null
+): Promise<(InsightReport & { dataHash: string }) | null> {
+    const rows = (await sql`
+    SELECT id, version, format, content, completed_actions, snapshot, provider, created_at, data_hash
+    FROM insight_reports
+    WHERE user_id = ${ownerId} AND meter_id IS NOT DISTINCT FROM ${meterId}
+    ORDER BY version DESC
+    LIMIT 1
+  `) as SqlQueryResult<InsightReportRow & { data_hash: string }>;
+
+    if (rows.length === 0) return null;
+    return { ...toReport(rows[0]), dataHash: rows[0].data_hash };
+}
+
+/**
+ * Loads a report of a scope by id, or null when it is not one of the owner's
+ */
+export async function loadInsightReport(
+    ownerId: string,
+    meterId: number | null,
+    reportId: number
+): Promise<InsightReport | null> {
+    const rows = (await sql`
+    SELECT id, version, format, content, completed_actions, snapshot, provider, created_at
+    FROM insight_reports
+    WHERE id = ${reportId}
+    AND user_id = ${ownerId}
+    AND meter_id IS NOT DISTINCT FROM ${meterId}
+  `) as SqlQueryResult<InsightReportRow>;
+
+    return rows.length > 0 ? toReport(rows[0]) : null;
+}
+
+/**
+ * Loads the report of a scope written just before a version
+ */
+export async function loadPreviousInsightReport(
+    ownerId: string,
+    meterId: number | null,
+    version: number
+): Promise<InsightReport | null> {
+    const rows = (await sql`
+    SELECT id, version, format, content, completed_actions, snapshot, provider, created_at
+    FROM insight_reports
+    WHERE user_id = ${ownerId}
+    AND meter_id IS NOT DISTINCT FROM ${meterId}
+    AND version < ${version}
+    ORDER BY version DESC
+    LIMIT 1
+  `) as SqlQueryResult<InsightReportRow>;
+
+    return rows.length > 0 ? toReport(rows[0]) : null;
+}
+
+/**
+ * Lists the reports of a scope, newest first
+ */
+export async function loadInsightReports(
+    ownerId: string,
+    meterId: number | null
+): Promise<InsightReportSummary[]> {
+    const rows = (await sql`
+    SELECT id, version, created_at
+    FROM insight_reports
+    WHERE user_id = ${ownerId} AND meter_id IS NOT DISTINCT FROM ${meterId}
+    ORDER BY version DESC
+  `) as SqlQueryResult<{ id: number; version: number; created_at: string }>;
+
+    return rows.map((row) => ({
+        id: row.id,
+        version: Number(row.version),
+        createdAt: new Date(row.created_at),
+    }));
+}
+
+/**
+ * Stores a report as the next version of its scope
+ */
+export async function saveInsightReport(
+    ownerId: string,
+    meterId: number | null,
+    report: {
+        dataHash: string;
+        snapshot: InsightSnapshot;
+        content: InsightContent;
+        provider: string;
+    }
+): Promise<InsightReport> {
+    const rows = (await sql`
+    INSERT INTO insight_reports (user_id, meter_id, version, data_hash, snapshot, format, content, provider)
+    SELECT ${ownerId}, ${meterId}, COALESCE(MAX(version), 0) + 1,
+      ${report.dataHash}, ${JSON.stringify(report.snapshot)}::jsonb,
+      'structured', ${JSON.stringify(report.content)}::jsonb, ${report.provider}
+    FROM insight_reports
+    WHERE user_id = ${ownerId} AND meter_id IS NOT DISTINCT FROM ${meterId}
+    RETURNING id, version, format, content, completed_actions, snapshot, provider, created_at
+  `) as SqlQueryResult<InsightReportRow>;
+
+    return toReport(rows[0]);
+}
+
+/**
+ * Marks a recommended action of one of the owner's reports as done, or not
+ * done. Returns false when the report or action does not exist, as for a
+ * markdown report, which has no checklist.
+ */
+export async function setInsightActionCompleted(
+    ownerId: string,
+    reportId: number,
+    actionIndex: number,
+    completed: boolean
+): Promise<boolean> {
+    const rows = (await sql`
+    UPDATE insight_reports
+    SET completed_actions = CASE
+      WHEN ${completed} THEN array_append(array_remove(completed_actions, ${actionIndex}::int), ${actionIndex}::int)
+      ELSE array_remove(completed_actions, ${actionIndex}::int)
+    END
+    WHERE id = ${reportId}
+    AND user_id = ${ownerId}
+    AND format = 'structured'
+    AND ${actionIndex}::int < jsonb_array_length(content->'actions')
+    RETURNING id
+  `) as SqlQueryResult<{ id: number }>;
+
+    return rows.length > 0;
+}
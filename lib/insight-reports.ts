@@ -0,0 +1,162 @@
+import { z } from "zod";
+import type {
+    InsightChange,
+    InsightContent,
+    InsightSnapshot,
+} from "@/lib/types";
+
+/**
+ * Insight reports: AI-written analyses stored with a snapshot of the figures
+ * they were based on. Comparing the snapshots of two reports tells the user
+ * what changed since the last one without another model call.
+ */
+
+/**
+ * Shape the model must answer in; the descriptions are sent to it with the
+ * schema, and answers that do not match are rejected
+ */
+export const insightContentSchema = z.object({
+    summary: z
+        .string()
+        .describe("Two or three sentences on how electricity is being used"),
+    keyFindings: z
+        .array(z.string())
+        .min(1)
+        .max(6)
+        .describe("Usage patterns, trends and peak periods found in the data"),
+    anomalies: z
+        .array(
+            z.object({
+                title: z.string(),
+                description: z.string(),
+            })
+        )
+        .max(5)
+        .describe("Unusual usage in the data; empty when there is none"),
+    actions: z
+        .array(
+            z.object({
+                title: z.string().describe("A short, specific step to take"),
+                description: z.string(),
+                estimatedKwhSavings: z
+                    .number()
+                    .nonnegative()
+                    .describe("Expected saving in kWh per month"),
+                estimatedCostSavings: z
+                    .number()
+                    .nonnegative()
+                    .describe(
+                        "Expected saving per month, in the currency of the token purchase costs"
+                    ),
+            })
+        )
+        .min(1)
+        .max(6)
+        .describe("Recommended actions, most valuable first"),
+    confidence: z
+        .enum(["low", "medium", "high"])
+        .describe("How well the data supports the findings"),
+    confidenceReason: z
+        .string()
+        .describe("Why, e.g. how many days of readings there are"),
+}) satisfies z.ZodType<InsightContent>;
+
+// Relative change below which a figure counts as unchanged
+const MIN_RELATIVE_CHANGE = 0.05;
+
+const formatKwh = (value: number) => `${value.toFixed(1)} kWh`;
+
+/**
+ * Takes the snapshot of the figures a report is based on
+ */
+export function createInsightSnapshot(data: {
+    totalReadings: number;
+    daysTracked: number;
+    averageDailyUsage: number;
+    peakUsageDay: { date: string; usage: number };
+    totalTokensPurchased: number;
+    recentConsumption: { consumption: { total: number } }[];
+}): InsightSnapshot {
+    return {
+        readingCount: data.totalReadings,
+        daysTracked: data.daysTracked,
+        averageDailyUsage: data.averageDailyUsage,
+        peakUsageDay: data.peakUsageDay,
+        recentUsage: data.recentConsumption.reduce(
+            (sum, day) => sum + day.consumption.total,
+            0
+        ),
+        totalTokensPurchased: data.totalTokensPurchased,
+    };
+}
+
+/**
+ * Compares a usage figure, ignoring changes too small to mention
+ */
+function compareKwh(
+    label: string,
+    previous: number,
+    current: number
+): InsightChange | null {
+    const base = Math.max(Math.abs(previous), 1);
+    if (Math.abs(current - previous) / base < MIN_RELATIVE_CHANGE) {
+        return null;
+    }
+    return {
+        label,
+        previous: formatKwh(previous),
+        current: formatKwh(current),
+        direction: current > previous ? "up" : "down",
+    };
+}
+
+/**
+ * Lists the figures that changed from one report's snapshot to the next
+ */
+export function diffInsightSnapshots(
+    previous: InsightSnapshot,
+    current: InsightSnapshot
+): InsightChange[] {
+    const changes: (InsightChange | null)[] = [];
+
+    if (current.readingCount !== previous.readingCount) {
+        changes.push({
+            label: "Readings",
+            previous: String(previous.readingCount),
+            current: String(current.readingCount),
+            direction:
+                current.readingCount > previous.readingCount ? "up" : "down",
+        });
+    }
+    changes.push(
+        compareKwh(
+            "Average daily usage",
+            previous.averageDailyUsage,
+            current.averageDailyUsage
+        ),
+        compareKwh(
+            "Usage over the last 7 days",
+            previous.recentUsage,
+            current.recentUsage
+        ),
+        compareKwh(
+            "Tokens purchased",
+            previous.totalTokensPurchased,
+            current.totalTokensPurchased
+        )
+    );
+    if (current.peakUsageDay.date !== previous.peakUsageDay.date) {
+        changes.push({
+            label: "Peak usage day",
+            previous: `${previous.peakUsageDay.date || "-"} (${formatKwh(
+                previous.peakUsageDay.usage
+            )})`,
+            current: `${current.peakUsageDay.date || "-"} (${formatKwh(
+                current.peakUsageDay.usage
+            )})`,
+            direction: "changed",
+        });
+    }
+
+    return changes.filter((change): change is InsightChange => change !== null);
+}
@@ -0,0 +1,132 @@
+import "server-only";
+
+import { cookies } from "next/headers";
+import { sql, type SqlQueryResult } from "@/lib/db";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone-utils";
+import type { Meter, MeterDBResult } from "@/lib/types";
+
+/**
+ * Meter scope: which meter the current request reads from and writes to.
+ *
+ * The selected meter lives in a cookie so server actions keep their existing
+ * signatures. `ALL_METERS` selects the combined view, which is read-only.
+ */
+
+export const SELECTED_METER_COOKIE = "selected-meter";
+export const ALL_METERS = "all";
+
+export interface MeterScope {
+    /** Meter to filter reads by, or null for every meter of the user */
+    meterId: number | null;
+    /** Meter new entries are written to, or null for accounts without meters */
+    writeMeterId: number | null;
+    /** True when the user explicitly chose the combined "all meters" view */
+    isCombined: boolean;
+    /**
+     * IANA timezone days and periods are computed in: the selected meter's,
+     * the default meter's in the combined view, otherwise UTC
+     */
+    timeZone: string;
+}
+
+/**
+ * Resolves the meter scope for a user from the selected-meter cookie.
+ * Falls back to the user's default meter when nothing valid is selected.
+ */
+export async function getMeterScope(userId: string): Promise<MeterScope> {
+    const cookieStore = await cookies();
+    const selected = cookieStore.get(SELECTED_METER_COOKIE)?.value;
+
+    const meters = (await sql`
+      SELECT id, is_default, timezone
+      FROM meters
+      WHERE user_id = ${userId}
+      ORDER BY is_default DESC, id ASC
+  `) as SqlQueryResult<{ id: number; is_default: boolean; timezone: string }>;
+
+    // Accounts that have not set up meters keep working on unscoped data
+    if (meters.length === 0) {
+        return {
+            meterId: null,
+            writeMeterId: null,
+            isCombined: false,
+            timeZone: DEFAULT_TIMEZONE,
+        };
+    }
+
+    if (selected === ALL_METERS) {
+        return {
+            meterId: null,
+            writeMeterId: null,
+            isCombined: true,
+            timeZone: meters[0].timezone,
+        };
+    }
+
+    const selectedMeter =
+        meters.find((m) => String(m.id) === selected) ?? meters[0];
+
+    return {
+        meterId: selectedMeter.id,
+        writeMeterId: selectedMeter.id,
+        isCombined: false,
+        timeZone: selectedMeter.timezone,
+    };
+}
+
+/**
+ * Gets the IANA timezone of one of the user's meters, UTC for entries
+ * without a meter
+ */
+export async function getMeterTimezone(
+    userId: string,
+    meterId: number | null
+): Promise<string> {
+    if (meterId === null) return DEFAULT_TIMEZONE;
+
+    const rows = (await sql`
+      SELECT timezone FROM meters WHERE id = ${meterId} AND user_id = ${userId}
+  `) as SqlQueryResult<{ timezone: string }>;
+    return rows[0]?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Resolves the meter new readings and tokens are written to.
+ *
+ * @throws {Error} If the combined "all meters" view is selected.
+ */
+export async function requireWritableMeter(
+    userId: string
+): Promise<number | null> {
+    const scope = await getMeterScope(userId);
+    if (scope.isCombined) {
+        throw new Error(
+            "Select a single meter before adding readings or tokens"
+        );
+    }
+    return scope.writeMeterId;
+}
+
+/**
+ * Loads an owner's meters, default meter first
+ */
+export async function loadMeters(ownerId: string): Promise<Meter[]> {
+    const meters = (await sql`
+    SELECT id, nickname, meter_number, tariff_id, timezone, timezone_confirmed, is_default
+    FROM meters
+    WHERE user_id = ${ownerId}
+    ORDER BY is_default DESC, id ASC
+  `) as SqlQueryResult<MeterDBResult>;
+
+    return meters.map(
+        (row): Meter => ({
+            id: row.id,
+            nickname: row.nickname,
+            meter_number: row.meter_number ?? null,
+            tariff_id: row.tariff_id ?? null,
+            timezone: row.timezone,
+            timezone_confirmed: Boolean(row.timezone_confirmed),
+            is_default: Boolean(row.is_default),
+        })
+    );
+}
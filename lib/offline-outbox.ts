@@ -0,0 +1,180 @@
+import type { OutboxEntry } from "@/lib/types";
+
+/**
+ * Offline outbox: readings and tokens captured without a connection, kept in
+ * IndexedDB until they are replayed to the server.
+ *
+ * Every change dispatches `OUTBOX_CHANGE_EVENT` on `window`, so components
+ * outside the electricity context (like the header) can show the queue.
+ */
+
+const DB_NAME = "electricity-tracker";
+const DB_VERSION = 1;
+const STORE = "outbox";
+
+export const OUTBOX_CHANGE_EVENT = "electricity-outbox-change";
+/** Asks the page that owns the electricity state to replay the outbox */
+export const OUTBOX_REPLAY_EVENT = "electricity-outbox-replay";
+/** Carries the results of replayed or discarded entries to the page state */
+export const OUTBOX_SYNCED_EVENT = "electricity-outbox-synced";
+/** Background Sync tag the service worker wakes the page up with */
+export const OUTBOX_SYNC_TAG = "electricity-outbox";
+/** Cache the service worker keeps visited pages in */
+const PAGE_CACHE_NAME = "electricity-tracker-pages";
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE, { keyPath: "client_id" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(STORE, mode);
+            const request = run(transaction.objectStore(STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+const notifyChange = () =>
+    window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT));
+
+/**
+ * Returns true when IndexedDB is available, i.e. in a browser
+ */
+export function isOutboxSupported(): boolean {
+    return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+/**
+ * Returns the queued entries, oldest first so replays keep their order
+ */
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+    if (!isOutboxSupported()) return [];
+    const entries = await withStore<OutboxEntry[]>("readonly", (store) =>
+        store.getAll()
+    );
+    return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Adds or replaces an entry and asks the service worker to sync when the
+ * connection returns
+ */
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    await withStore("readwrite", (store) => store.put(entry));
+    notifyChange();
+    await requestBackgroundSync();
+}
+
+/**
+ * Removes an entry once it is synced or discarded
+ */
+export async function removeOutboxEntry(clientId: string): Promise<void> {
+    await withStore("readwrite", (store) => store.delete(clientId));
+    notifyChange();
+}
+
+/**
+ * Queues a reading or token purchase captured offline, stamped with the
+ * current time and the id that makes replaying it idempotent
+ */
+export async function queueOutboxEntry(
+    entry: Omit<OutboxEntry, "client_id" | "timestamp">
+): Promise<OutboxEntry> {
+    const queued: OutboxEntry = {
+        ...entry,
+        client_id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+    };
+    await putOutboxEntry(queued);
+    return queued;
+}
+
+/**
+ * Id of the reading an entry becomes once synced, matching the ids
+ * `syncOfflineEntry` assigns so optimistic entries can be swapped in place
+ */
+export function getOfflineReadingId(entry: OutboxEntry): string {
+    return entry.kind === "reading"
+        ? `reading-offline-${entry.client_id}`
+        : `token-reading-offline-${entry.client_id}`;
+}
+
+/**
+ * Id of the token purchase a token entry becomes once synced
+ */
+export function getOfflineTokenId(entry: OutboxEntry): string {
+    return `token-offline-${entry.client_id}`;
+}
+
+/**
+ * Registers a Background Sync so the service worker can trigger a replay even
+ * when the app is reopened later. Browsers without Background Sync replay on
+ * the `online` event instead.
+ */
+async function requestBackgroundSync(): Promise<void> {
+    if (!("serviceWorker" in navigator)) return;
+    try {
+        const registration = await navigator.serviceWorker.getRegistration();
+        const sync = (
+            registration as
+                | (ServiceWorkerRegistration & {
+                      sync?: { register: (tag: string) => Promise<void> };
+                  })
+                | undefined
+        )?.sync;
+        await sync?.register(OUTBOX_SYNC_TAG);
+    } catch (error) {
+        console.warn("Background sync is not available:", error);
+    }
+}
+
+/**
+ * Registers the service worker that keeps the app usable offline
+ */
+export async function registerServiceWorker(): Promise<void> {
+    if (!("serviceWorker" in navigator)) return;
+    try {
+        await navigator.serviceWorker.register("/sw.js");
+    } catch (error) {
+        console.error("Service worker registration failed:", error);
+    }
+}
+
+/**
+ * Drops the pages the service worker cached for offline use. They hold the
+ * signed-in user's data, so this runs on sign out.
+ */
+export async function clearCachedPages(): Promise<void> {
+    if (!("caches" in window)) return;
+    try {
+        await caches.delete(PAGE_CACHE_NAME);
+    } catch (error) {
+        console.warn("Could not clear cached pages:", error);
+    }
+}
+
+/**
+ * Returns true for errors thrown when a server action cannot reach the server
+ */
+export function isNetworkError(error: unknown): boolean {
+    return (
+        !navigator.onLine ||
+        (error instanceof TypeError && /fetch|network/i.test(error.message))
+    );
+}
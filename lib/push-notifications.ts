@@ -0,0 +1,122 @@
+import type { Period, PushPayload } from "@/lib/types";
+
+/**
+ * Web Push notification content and the links they open. The scheduler
+ * builds payloads here; the page reads the same query parameters back to
+ * open the reading form for the right meter and period.
+ */
+
+/** Query parameter with the period to record a reading for */
+export const RECORD_PERIOD_PARAM = "record";
+/** Query parameter with the meter a notification is about */
+export const METER_PARAM = "meter";
+/** Query parameter with the tab to open */
+export const TAB_PARAM = "tab";
+
+/** Reminders go out this many minutes before the reminder time */
+export const REMINDER_LEAD_MINUTES = 5;
+
+/** Balance in kWh below which a low-balance warning is sent */
+export const LOW_BALANCE_KWH = 20;
+
+export interface PushLinkTarget {
+    period: Period | null;
+    meterId: number | null;
+    tab: string | null;
+}
+
+/**
+ * Builds the link that opens the reading form for a period and meter
+ */
+export function buildRecordReadingUrl(
+    period: Period,
+    meterId: number | null
+): string {
+    const params = new URLSearchParams({ [RECORD_PERIOD_PARAM]: period });
+    if (meterId !== null) params.set(METER_PARAM, String(meterId));
+    return `/?${params.toString()}`;
+}
+
+/**
+ * Builds the link that opens a tab, e.g. "token" to buy tokens
+ */
+export function buildTabUrl(tab: string, meterId: number | null): string {
+    const params = new URLSearchParams({ [TAB_PARAM]: tab });
+    if (meterId !== null) params.set(METER_PARAM, String(meterId));
+    return `/?${params.toString()}`;
+}
+
+/**
+ * Reads the target of a notification link back from the page's query string
+ */
+export function parsePushLink(params: URLSearchParams): PushLinkTarget {
+    const meterId = Number(params.get(METER_PARAM));
+    return {
+        period: params.get(RECORD_PERIOD_PARAM),
+        meterId: Number.isInteger(meterId) && meterId > 0 ? meterId : null,
+        tab: params.get(TAB_PARAM),
+    };
+}
+
+// Names the meter only when the household has more than one
+const onMeter = (meterName: string | null) =>
+    meterName ? ` on ${meterName}` : "";
+
+/**
+ * Reminds the user to read the meter shortly before a period's reminder time
+ */
+export function buildReadingReminder(
+    periodName: string,
+    period: Period,
+    meterId: number | null,
+    meterName: string | null
+): PushPayload {
+    const url = buildRecordReadingUrl(period, meterId);
+    return {
+        kind: "reading-reminder",
+        title: "Electricity Update Reminder",
+        body: `It's almost time for your ${periodName.toLowerCase()} reading${onMeter(meterName)}.`,
+        tag: `reading-${meterId ?? "default"}-${period}`,
+        url,
+        recordUrl: url,
+    };
+}
+
+/**
+ * Nudges the user when a period's reading is overdue while the period lasts
+ */
+export function buildMissedReadingNudge(
+    periodName: string,
+    period: Period,
+    meterId: number | null,
+    meterName: string | null
+): PushPayload {
+    const url = buildRecordReadingUrl(period, meterId);
+    return {
+        kind: "missed-reading",
+        title: "Missed Reading",
+        body: `No ${periodName.toLowerCase()} reading yet${onMeter(meterName)}. There is still time to record it.`,
+        tag: `reading-${meterId ?? "default"}-${period}`,
+        url,
+        recordUrl: url,
+    };
+}
+
+/**
+ * Warns that the meter is running low; the action still records a reading
+ */
+export function buildLowBalanceWarning(
+    balance: number,
+    currentPeriod: Period,
+    meterId: number | null,
+    meterName: string | null
+): PushPayload {
+    return {
+        kind: "low-balance",
+        title: "Low Electricity Balance",
+        body: `Only ${balance.toFixed(1)} kWh left${onMeter(meterName)}. Buy tokens soon to avoid a power cut.`,
+        tag: `low-balance-${meterId ?? "default"}`,
+        url: buildTabUrl("token", meterId),
+        recordUrl: buildRecordReadingUrl(currentPeriod, meterId),
+    };
+}
@@ -0,0 +1,264 @@
+import "server-only";
+
+import { sql, type SqlQueryResult } from "@/lib/db";
+import {
+    LOW_BALANCE_KWH,
+    REMINDER_LEAD_MINUTES,
+    buildLowBalanceWarning,
+    buildMissedReadingNudge,
+    buildReadingReminder,
+} from "@/lib/push-notifications";
+import {
+    MISSED_READING_GRACE_MINUTES,
+    getPeriodForDate,
+} from "@/lib/reading-schedule";
+import { loadReadingSchedule } from "@/lib/reading-schedule-store";
+import {
+    DEFAULT_TIMEZONE,
+    getLocalDateString,
+    getZonedParts,
+} from "@/lib/timezone-utils";
+import type {
+    HouseholdRole,
+    PushPayload,
+    PushSchedulerResult,
+    ReadingSchedule,
+} from "@/lib/types";
+import { sendWebPush } from "@/lib/web-push";
+
+/**
+ * Push scheduler: works out which reading reminders, missed-reading nudges
+ * and low-balance warnings are due and sends them to every subscribed device.
+ *
+ * It is meant to run every few minutes. Each notification is logged per
+ * device and local day before it is sent, so running more often never sends
+ * one twice. Times are taken in each meter's own timezone.
+ */
+
+type SubscriptionRow = {
+    id: number;
+    owner_id: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    role: HouseholdRole;
+};
+
+type SchedulerMeter = {
+    id: number | null;
+    nickname: string;
+    timezone: string;
+};
+
+type DueNotification = {
+    meterId: number | null;
+    period: string | null;
+    localDate: string;
+    payload: PushPayload;
+    /** Whether viewers, who cannot add readings, get it too */
+    forViewers: boolean;
+};
+
+const minutesOf = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Lists the notifications due for one meter at `now`
+ */
+function getDueNotifications(
+    schedule: ReadingSchedule,
+    meter: SchedulerMeter,
+    meterName: string | null,
+    recordedToday: Set<string>,
+    balance: number | null,
+    now: Date
+): DueNotification[] {
+    const localDate = getLocalDateString(now, meter.timezone);
+    const { hour, minute } = getZonedParts(now, meter.timezone);
+    const nowMinutes = hour * 60 + minute;
+    const currentPeriod = getPeriodForDate(schedule, now, meter.timezone);
+    const due: DueNotification[] = [];
+
+    for (const period of schedule.periods) {
+        if (recordedToday.has(period.key)) continue;
+
+        const reminderMinutes = minutesOf(period.reminder_time);
+        const missedAfter = reminderMinutes + MISSED_READING_GRACE_MINUTES;
+
+        if (
+            nowMinutes >= reminderMinutes - REMINDER_LEAD_MINUTES &&
+            nowMinutes < missedAfter
+        ) {
+            due.push({
+                meterId: meter.id,
+                period: period.key,
+                localDate,
+                payload: buildReadingReminder(
+                    period.name,
+                    period.key,
+                    meter.id,
+                    meterName
+                ),
+                forViewers: false,
+            });
+        } else if (nowMinutes >= missedAfter && currentPeriod === period.key) {
+            // Only nudge while the reading can still be taken for the period
+            due.push({
+                meterId: meter.id,
+                period: period.key,
+                localDate,
+                payload: buildMissedReadingNudge(
+                    period.name,
+                    period.key,
+                    meter.id,
+                    meterName
+                ),
+                forViewers: false,
+            });
+        }
+    }
+
+    if (balance !== null && balance < LOW_BALANCE_KWH) {
+        due.push({
+            meterId: meter.id,
+            period: null,
+            localDate,
+            payload: buildLowBalanceWarning(
+                balance,
+                currentPeriod,
+                meter.id,
+                meterName
+            ),
+            forViewers: true,
+        });
+    }
+
+    return due;
+}
+
+/**
+ * Lists the notifications due for every meter of an owner
+ */
+async function getOwnerNotifications(
+    ownerId: string,
+    now: Date
+): Promise<DueNotification[]> {
+    const schedule = await loadReadingSchedule(ownerId);
+
+    const meterRows = (await sql`
+      SELECT id, nickname, timezone FROM meters
+      WHERE user_id = ${ownerId}
+      ORDER BY is_default DESC, id ASC
+  `) as SqlQueryResult<SchedulerMeter>;
+    // Accounts without meters still get reminders for their unscoped readings
+    const meters: SchedulerMeter[] =
+        meterRows.length > 0
+            ? meterRows
+            : [{ id: null, nickname: "", timezone: DEFAULT_TIMEZONE }];
+
+    // Two days of readings cover "today" in every timezone
+    const recent = (await sql`
+      SELECT meter_id, timestamp, period FROM electricity_readings
+      WHERE user_id = ${ownerId}
+      AND timestamp > NOW() - INTERVAL '2 days'
+  `) as SqlQueryResult<{
+        meter_id: number | null;
+        timestamp: string;
+        period: string;
+    }>;
+
+    const latest = (await sql`
+      SELECT DISTINCT ON (meter_id) meter_id, reading
+      FROM electricity_readings
+      WHERE user_id = ${ownerId}
+      ORDER BY meter_id, timestamp DESC
+  `) as SqlQueryResult<{ meter_id: number | null; reading: number | string }>;
+
+    return meters.flatMap((meter) => {
+        const today = getLocalDateString(now, meter.timezone);
+        const recordedToday = new Set(
+            recent
+                .filter(
+                    (r) =>
+                        (r.meter_id ?? null) === meter.id &&
+                        getLocalDateString(
+                            new Date(r.timestamp),
+                            meter.timezone
+                        ) === today
+                )
+                .map((r) => r.period)
+        );
+        const latestRow = latest.find((r) => (r.meter_id ?? null) === meter.id);
+
+        return getDueNotifications(
+            schedule,
+            meter,
+            meters.length > 1 ? meter.nickname : null,
+            recordedToday,
+            latestRow ? Number(latestRow.reading) : null,
+            now
+        );
+    });
+}
+
+/**
+ * Sends every notification that is due at `now` and has not been sent yet.
+ * Subscriptions the push service reports as gone are deleted.
+ */
+export async function runPushScheduler(
+    now: Date = new Date()
+): Promise<PushSchedulerResult> {
+    const result: PushSchedulerResult = { sent: 0, expired: 0, failed: 0 };
+
+    // Members who left a household stop getting its notifications
+    const subscriptions = (await sql`
+      SELECT s.id, s.owner_id, s.endpoint, s.p256dh, s.auth,
+        CASE WHEN s.user_id = s.owner_id THEN 'owner' ELSE m.role END AS role
+      FROM push_subscriptions s
+      LEFT JOIN households h ON h.owner_user_id = s.owner_id
+      LEFT JOIN household_members m ON m.household_id = h.id AND m.user_id = s.user_id
+      WHERE s.user_id = s.owner_id OR m.role IS NOT NULL
+  `) as SqlQueryResult<SubscriptionRow>;
+
+    const ownerIds = Array.from(new Set(subscriptions.map((s) => s.owner_id)));
+
+    for (const ownerId of ownerIds) {
+        const due = await getOwnerNotifications(ownerId, now);
+        const devices = subscriptions.filter((s) => s.owner_id === ownerId);
+        const expired = new Set<number>();
+
+        for (const notification of due) {
+            for (const device of devices) {
+                if (expired.has(device.id)) continue;
+                if (device.role === "viewer" && !notification.forViewers) {
+                    continue;
+                }
+
+                const logged = (await sql`
+          INSERT INTO push_notifications_sent (subscription_id, kind, meter_id, period, local_date)
+          VALUES (${device.id}, ${notification.payload.kind}, ${notification.meterId}, ${notification.period}, ${notification.localDate})
+          ON CONFLICT DO NOTHING
+          RETURNING id
+        `) as SqlQueryResult<{ id: number }>;
+                if (logged.length === 0) continue;
+
+                const outcome = await sendWebPush(device, notification.payload);
+                if (outcome === "sent") {
+                    result.sent++;
+                } else if (outcome === "expired") {
+                    await sql`DELETE FROM push_subscriptions WHERE id = ${device.id}`;
+                    expired.add(device.id);
+                    result.expired++;
+                } else {
+                    // Forget the attempt so the next run retries it
+                    await sql`DELETE FROM push_notifications_sent WHERE id = ${logged[0].id}`;
+                    result.failed++;
+                }
+            }
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,64 @@
+import type { PushSubscriptionInput } from "@/lib/types";
+import { registerServiceWorker } from "@/lib/offline-outbox";
+
+/**
+ * Browser side of Web Push: subscribing this device through the service
+ * worker. Saving the subscription on the server is up to the caller.
+ */
+
+/**
+ * Returns true when the browser can receive Web Push notifications
+ */
+export function isPushSupported(): boolean {
+    return (
+        typeof window !== "undefined" &&
+        "serviceWorker" in navigator &&
+        "PushManager" in window &&
+        "Notification" in window
+    );
+}
+
+// VAPID keys are URL-safe base64, PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+    const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+    const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+    return bytes;
+}
+
+const toInput = (subscription: PushSubscription): PushSubscriptionInput => {
+    const json = subscription.toJSON();
+    return {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: json.keys?.p256dh ?? "", auth: json.keys?.auth ?? "" },
+    };
+};
+
+/**
+ * Subscribes this device, reusing its existing subscription when there is one.
+ * Notification permission must already be granted.
+ */
+export async function subscribeToPush(
+    publicKey: string
+): Promise<PushSubscriptionInput> {
+    await registerServiceWorker();
+    const registration = await navigator.serviceWorker.ready;
+    const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: urlBase64ToUint8Array(publicKey),
+        }));
+    return toInput(subscription);
+}
+
+/**
+ * Gets this device's current subscription, or null when it has none
+ */
+export async function getPushSubscription(): Promise<PushSubscriptionInput | null> {
+    if (!isPushSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager.getSubscription();
+    return subscription ? toInput(subscription) : null;
+}
@@ -0,0 +1,90 @@
+import "server-only";
+
+import { sql, type SqlQuery, type SqlQueryResult } from "@/lib/db";
+import { DEFAULT_READING_SCHEDULE } from "@/lib/reading-schedule";
+import type { ReadingSchedule } from "@/lib/types";
+
+type SchedulePeriodRow = {
+    period_key: string;
+    name: string;
+    start_hour: number;
+    end_hour: number;
+    reminder_time: string;
+};
+
+/**
+ * Loads an owner's reading schedule, or the default one if they have not
+ * saved their own
+ */
+export async function loadReadingSchedule(
+    ownerId: string
+): Promise<ReadingSchedule> {
+    const rows = (await sql`
+      SELECT period_key, name, start_hour, end_hour, reminder_time
+      FROM reading_schedule_periods
+      WHERE user_id = ${ownerId}
+      ORDER BY sort_order ASC, id ASC
+    `) as SqlQueryResult<SchedulePeriodRow>;
+
+    if (rows.length === 0) return DEFAULT_READING_SCHEDULE;
+
+    return {
+        periods: rows.map((row) => ({
+            key: row.period_key,
+            name: row.name,
+            start_hour: Number(row.start_hour),
+            end_hour: Number(row.end_hour),
+            reminder_time: row.reminder_time,
+        })),
+    };
+}
+
+/**
+ * Replaces an owner's schedule. The caller validates the schedule and makes
+ * sure no reading uses a period that is removed.
+ */
+export async function replaceReadingSchedule(
+    ownerId: string,
+    schedule: ReadingSchedule
+): Promise<void> {
+    await sql.transaction(replaceReadingScheduleQueries(ownerId, schedule));
+}
+
+/**
+ * Builds the statements that replace an owner's schedule without sending
+ * them, to run in sql.transaction() with other changes
+ */
+export function replaceReadingScheduleQueries(
+    ownerId: string,
+    schedule: ReadingSchedule
+): SqlQuery[] {
+    const keys = schedule.periods.map((p) => p.key);
+    const periods = schedule.periods.map((period, index) => ({
+        period_key: period.key,
+        name: period.name.trim(),
+        start_hour: period.start_hour,
+        end_hour: period.end_hour,
+        reminder_time: period.reminder_time,
+        sort_order: index,
+    }));
+
+    return [
+        sql`
+      DELETE FROM reading_schedule_periods
+      WHERE user_id = ${ownerId} AND NOT (period_key = ANY(${keys}))
+    `,
+        sql`
+      INSERT INTO reading_schedule_periods (user_id, period_key, name, start_hour, end_hour, reminder_time, sort_order)
+      SELECT ${ownerId}, period_key, name, start_hour, end_hour, reminder_time, sort_order
+      FROM jsonb_to_recordset(${JSON.stringify(periods)}::jsonb)
+        AS p(period_key TEXT, name TEXT, start_hour SMALLINT, end_hour SMALLINT, reminder_time TEXT, sort_order INTEGER)
+      ON CONFLICT (user_id, period_key) DO UPDATE SET
+        name = EXCLUDED.name,
+        start_hour = EXCLUDED.start_hour,
+        end_hour = EXCLUDED.end_hour,
+        reminder_time = EXCLUDED.reminder_time,
+        sort_order = EXCLUDED.sort_order,
+        updated_at = NOW()
+    `,
+    ];
+}
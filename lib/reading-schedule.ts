@@ -0,0 +1,290 @@
+import type {
+    ElectricityReading,
+    Period,
+    ReadingSchedule,
+    SchedulePeriod,
+} from "@/lib/types";
+import { getLocalDateString, getLocalHour } from "@/lib/timezone-utils";
+
+/**
+ * Reading schedule: the named periods a day is split into, which hours each
+ * one covers and when to remind the user to read the meter. Period
+ * assignment, reminders and missed-reading checks all go through here.
+ *
+ * A period covers `start_hour` up to but excluding `end_hour` and wraps past
+ * midnight when `end_hour` is not after `start_hour`. The periods of a
+ * schedule cover every hour of the day exactly once.
+ */
+
+/** Schedule used until a user saves their own */
+export const DEFAULT_READING_SCHEDULE: ReadingSchedule = {
+    periods: [
+        {
+            key: "morning",
+            name: "Morning",
+            start_hour: 5,
+            end_hour: 12,
+            reminder_time: "07:00",
+        },
+        {
+            key: "evening",
+            name: "Evening",
+            start_hour: 12,
+            end_hour: 20,
+            reminder_time: "17:00",
+        },
+        {
+            key: "night",
+            name: "Night",
+            start_hour: 20,
+            end_hour: 5,
+            reminder_time: "21:00",
+        },
+    ],
+};
+
+export const MAX_SCHEDULE_PERIODS = 8;
+
+// A reading is missed once its reminder is this long overdue
+export const MISSED_READING_GRACE_MINUTES = 60;
+
+const PERIOD_KEY_PATTERN = /^[a-z0-9][a-z0-9-]{0,29}$/;
+const REMINDER_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Returns true when the period covers the hour
+ */
+function coversHour(period: SchedulePeriod, hour: number): boolean {
+    if (period.start_hour === period.end_hour) return true;
+    if (period.start_hour < period.end_hour) {
+        return hour >= period.start_hour && hour < period.end_hour;
+    }
+    return hour >= period.start_hour || hour < period.end_hour;
+}
+
+/**
+ * Gets the period an hour (0-23, local time) falls in
+ */
+export function getPeriodForHour(
+    schedule: ReadingSchedule,
+    hour: number
+): Period {
+    const normalizedHour = ((hour % 24) + 24) % 24;
+    const period =
+        schedule.periods.find((p) => coversHour(p, normalizedHour)) ??
+        schedule.periods.at(-1);
+    return period?.key ?? DEFAULT_READING_SCHEDULE.periods[0].key;
+}
+
+/**
+ * Gets the period a timestamp falls in, using its hour in the given IANA
+ * timezone or the runtime's local hour when none is given
+ */
+export function getPeriodForDate(
+    schedule: ReadingSchedule,
+    date: Date,
+    timeZone?: string
+): Period {
+    return getPeriodForHour(schedule, getLocalHour(date, timeZone));
+}
+
+/**
+ * Gets the display name of a period, falling back to the key for periods
+ * that are no longer in the schedule
+ */
+export function getPeriodName(
+    schedule: ReadingSchedule,
+    period: Period
+): string {
+    return schedule.periods.find((p) => p.key === period)?.name ?? period;
+}
+
+/**
+ * Returns true when the period is part of the schedule
+ */
+export function isSchedulePeriod(
+    schedule: ReadingSchedule,
+    period: unknown
+): period is Period {
+    return schedule.periods.some((p) => p.key === period);
+}
+
+const parseReminderTime = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return { hours, minutes };
+};
+
+/**
+ * Formats an HH:MM reminder time for display, e.g. "7:00 AM"
+ */
+export function formatReminderTime(time: string): string {
+    const { hours, minutes } = parseReminderTime(time);
+    const suffix = hours < 12 ? "AM" : "PM";
+    const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+    return `${displayHour}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+/**
+ * Formats the hours a period covers, e.g. "5:00 AM - 11:59 AM"
+ */
+export function formatPeriodHours(period: SchedulePeriod): string {
+    if (period.start_hour === period.end_hour) return "All day";
+    const start = formatReminderTime(
+        `${String(period.start_hour).padStart(2, "0")}:00`
+    );
+    const lastHour = (period.end_hour + 23) % 24;
+    const end = formatReminderTime(
+        `${String(lastHour).padStart(2, "0")}:59`
+    );
+    return `${start} - ${end}`;
+}
+
+/**
+ * Describes a period with its hours, e.g. "Morning (5:00 AM - 11:59 AM)"
+ */
+export function describePeriod(
+    schedule: ReadingSchedule,
+    period: Period
+): string {
+    const match = schedule.periods.find((p) => p.key === period);
+    return match ? `${match.name} (${formatPeriodHours(match)})` : period;
+}
+
+/**
+ * Gets the reminder for a period on the day of `date`
+ */
+function getReminderOn(date: Date, period: SchedulePeriod): Date {
+    const { hours, minutes } = parseReminderTime(period.reminder_time);
+    const reminder = new Date(date);
+    reminder.setHours(hours, minutes, 0, 0);
+    return reminder;
+}
+
+/**
+ * Gets the next reading reminder after `now`, today or tomorrow
+ */
+export function getNextReminder(
+    schedule: ReadingSchedule,
+    now: Date = new Date()
+): { time: Date; period: SchedulePeriod } {
+    const periods =
+        schedule.periods.length > 0
+            ? schedule.periods
+            : DEFAULT_READING_SCHEDULE.periods;
+
+    const upcoming = periods
+        .flatMap((period) => {
+            const today = getReminderOn(now, period);
+            const tomorrow = new Date(today);
+            tomorrow.setDate(tomorrow.getDate() + 1);
+            return [
+                { time: today, period },
+                { time: tomorrow, period },
+            ];
+        })
+        .filter((reminder) => reminder.time.getTime() >= now.getTime())
+        .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    return upcoming[0];
+}
+
+/**
+ * Lists the periods whose reminder passed more than an hour ago today
+ * without a reading, formatted as "name (time)"
+ */
+export function getMissedPeriods(
+    schedule: ReadingSchedule,
+    readings: ElectricityReading[],
+    now: Date = new Date()
+): string[] {
+    const todayStr = getLocalDateString(now);
+    const recorded = new Set(
+        readings
+            .filter((r) => getLocalDateString(new Date(r.timestamp)) === todayStr)
+            .map((r) => r.period)
+    );
+
+    return schedule.periods
+        .filter((period) => {
+            const overdue = getReminderOn(now, period);
+            overdue.setMinutes(
+                overdue.getMinutes() + MISSED_READING_GRACE_MINUTES
+            );
+            return (
+                now.getTime() >= overdue.getTime() && !recorded.has(period.key)
+            );
+        })
+        .map(
+            (period) =>
+                `${period.name.toLowerCase()} (${formatReminderTime(
+                    period.reminder_time
+                )})`
+        );
+}
+
+/**
+ * Turns a period name into a key, e.g. "Early Shift" into "early-shift"
+ */
+export function toPeriodKey(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 30);
+}
+
+/**
+ * Validates a schedule and returns the problems found, empty when valid
+ */
+export function validateReadingSchedule(schedule: ReadingSchedule): string[] {
+    const errors: string[] = [];
+    const { periods } = schedule;
+
+    if (periods.length === 0) {
+        return ["Add at least one period"];
+    }
+    if (periods.length > MAX_SCHEDULE_PERIODS) {
+        errors.push(`A schedule can have at most ${MAX_SCHEDULE_PERIODS} periods`);
+    }
+
+    const keys = new Set<string>();
+    for (const period of periods) {
+        const label = period.name.trim() || period.key || "A period";
+        if (!period.name.trim()) {
+            errors.push("Every period needs a name");
+        }
+        if (!PERIOD_KEY_PATTERN.test(period.key)) {
+            errors.push(`${label} has an invalid key`);
+        } else if (keys.has(period.key)) {
+            errors.push(`${label} is listed twice`);
+        }
+        keys.add(period.key);
+
+        const hours = [period.start_hour, period.end_hour];
+        if (hours.some((h) => !Number.isInteger(h) || h < 0 || h > 23)) {
+            errors.push(`${label} needs start and end hours between 0 and 23`);
+        }
+        if (!REMINDER_TIME_PATTERN.test(period.reminder_time)) {
+            errors.push(`${label} needs a reminder time as HH:MM`);
+        }
+    }
+    if (errors.length > 0) return errors;
+
+    // Report the first gap and the first overlap, the rest usually follow from them
+    let gap: string | null = null;
+    let overlap: string | null = null;
+    for (let hour = 0; hour < 24; hour++) {
+        const covering = periods.filter((p) => coversHour(p, hour));
+        const time = formatReminderTime(`${String(hour).padStart(2, "0")}:00`);
+        if (covering.length === 0) {
+            gap ??= `No period covers ${time}`;
+        } else if (covering.length > 1) {
+            overlap ??= `${covering
+                .map((p) => p.name)
+                .join(" and ")} overlap at ${time}`;
+        }
+    }
+
+    return [gap, overlap].filter((error): error is string => error !== null);
+}
@@ -0,0 +1,81 @@
+import "server-only";
+
+import { sql, type SqlQueryResult } from "@/lib/db";
+import { validateReading } from "@/lib/reading-validation";
+import type {
+    ElectricityReading,
+    ElectricityReadingDBResult,
+    Period,
+    ReadingValidation,
+    TokenPurchase,
+    TokenPurchaseDBResult,
+} from "@/lib/types";
+
+/**
+ * Loads the readings and token purchases a reading of one meter is validated
+ * against. Readings with no meter are a meter of their own here.
+ */
+export async function loadMeterEntries(
+    ownerId: string,
+    meterId: number | null
+): Promise<{ readings: ElectricityReading[]; tokens: TokenPurchase[] }> {
+    const readings = (await sql`
+      SELECT id, reading_id, timestamp, reading, period, meter_id
+      FROM electricity_readings
+      WHERE user_id = ${ownerId}
+      AND meter_id IS NOT DISTINCT FROM ${meterId}
+      ORDER BY timestamp ASC
+  `) as SqlQueryResult<ElectricityReadingDBResult>;
+    const tokens = (await sql`
+      SELECT id, token_id, timestamp, units, new_reading, total_cost, meter_id
+      FROM token_purchases
+      WHERE user_id = ${ownerId}
+      AND meter_id IS NOT DISTINCT FROM ${meterId}
+      ORDER BY timestamp ASC
+  `) as SqlQueryResult<TokenPurchaseDBResult>;
+
+    return {
+        readings: readings.map((row) => ({
+            id: row.id,
+            reading_id: row.reading_id,
+            timestamp: new Date(row.timestamp),
+            reading: Number(row.reading),
+            period: row.period as Period,
+            meter_id: row.meter_id ?? null,
+        })),
+        tokens: tokens.map((row) => ({
+            id: row.id,
+            token_id: row.token_id,
+            timestamp: new Date(row.timestamp),
+            units: Number(row.units),
+            new_reading: Number(row.new_reading),
+            total_cost: Number(row.total_cost),
+            meter_id: row.meter_id ?? null,
+        })),
+    };
+}
+
+/**
+ * Checks a reading of a meter against its readings either side in time and
+ * the token purchases in between
+ *
+ * @param excludeReadingId - Reading being replaced, left out of the comparison.
+ */
+export async function validateMeterReading(
+    ownerId: string,
+    meterId: number | null,
+    value: number,
+    timestamp: Date,
+    timeZone: string,
+    excludeReadingId?: string
+): Promise<ReadingValidation> {
+    const { readings, tokens } = await loadMeterEntries(ownerId, meterId);
+    return validateReading(
+        value,
+        timestamp,
+        readings,
+        tokens,
+        timeZone,
+        excludeReadingId
+    );
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import {
+    MAX_OVERRIDE_REASON_LENGTH,
+    canSaveReading,
+    getFlagReason,
+    getOverrideReason,
+    validateReading,
+} from "@/lib/reading-validation";
+import { reading, token } from "@/lib/test-fixtures";
+import type {
+    ElectricityReading,
+    ReadingValidation,
+    TokenPurchase,
+} from "@/lib/types";
+
+const READINGS = [
+    reading("2024-06-01T06:00:00Z", 100),
+    reading("2024-06-02T06:00:00Z", 90),
+];
+
+const validate = (
+    value: number,
+    timestamp: string,
+    readings: ElectricityReading[] = READINGS,
+    tokens: TokenPurchase[] = [],
+    excludeReadingId?: string
+) =>
+    validateReading(
+        value,
+        new Date(timestamp),
+        readings,
+        tokens,
+        "UTC",
+        excludeReadingId
+    );
+
+const severities = (validation: ReadingValidation) =>
+    validation.issues.map((issue) => issue.severity);
+
+const WARNING: ReadingValidation = {
+    issues: [{ severity: "warning", message: "Unusually high usage." }],
+    requiresReason: false,
+};
+const ERROR: ReadingValidation = {
+    issues: [{ severity: "error", message: "The reading went up." }],
+    requiresReason: true,
+};
+
+describe("validateReading", () => {
+    it("accepts a reading between its neighbours", () => {
+        expect(validate(95, "2024-06-01T18:00:00Z")).toEqual({
+            issues: [],
+            requiresReason: false,
+        });
+    });
+
+    it("rejects a negative reading", () => {
+        const validation = validate(-1, "2024-06-03T06:00:00Z");
+        expect(severities(validation)).toEqual(["error"]);
+        expect(validation.issues[0].message).toContain("negative");
+    });
+
+    it("requires a reason for a reading that rises without a token", () => {
+        const validation = validate(95, "2024-06-03T06:00:00Z");
+        expect(severities(validation)).toEqual(["error"]);
+        expect(validation.issues[0].message).toContain(
+            "no token purchase in between"
+        );
+        expect(validation.requiresReason).toBe(true);
+    });
+
+    it("lets a reading rise by the tolerance", () => {
+        expect(validate(90.4, "2024-06-03T06:00:00Z").issues).toEqual([]);
+    });
+
+    it("lets a reading rise by the tokens bought since the last one", () => {
+        const tokens = [token("2024-06-02T12:00:00Z", 50)];
+        expect(
+            validate(130, "2024-06-03T06:00:00Z", READINGS, tokens).issues
+        ).toEqual([]);
+
+        const validation = validate(
+            150,
+            "2024-06-03T06:00:00Z",
+            READINGS,
+            tokens
+        );
+        expect(severities(validation)).toEqual(["error"]);
+        expect(validation.issues[0].message).toContain(
+            "10.0 kWh higher than the previous reading"
+        );
+    });
+
+    it("rejects a backdated reading below the one after it", () => {
+        const validation = validate(85, "2024-06-01T18:00:00Z");
+        expect(severities(validation)).toEqual(["error"]);
+        expect(validation.issues[0].message).toContain(
+            "The later reading of 90 kWh"
+        );
+    });
+
+    it("leaves out the reading being edited", () => {
+        // Correcting the 90 kWh reading to 98 only compares it with 100
+        expect(
+            validate(
+                98,
+                "2024-06-02T06:00:00Z",
+                READINGS,
+                [],
+                READINGS[1].reading_id
+            ).issues
+        ).toEqual([]);
+    });
+
+    describe("recent daily rate", () => {
+        // Six days of 10 kWh a day
+        const history = [100, 90, 80, 70, 60, 50].map((value, day) =>
+            reading(`2024-06-0${day + 1}T06:00:00Z`, value)
+        );
+
+        it("warns about usage far above the recent rate", () => {
+            const validation = validate(10, "2024-06-07T06:00:00Z", history);
+            expect(severities(validation)).toEqual(["warning"]);
+            expect(validation.issues[0].message).toContain(
+                "about 4.0x the recent rate"
+            );
+            expect(validation.requiresReason).toBe(false);
+        });
+
+        it("accepts usage close to the recent rate", () => {
+            expect(
+                validate(35, "2024-06-07T06:00:00Z", history).issues
+            ).toEqual([]);
+        });
+
+        it("needs a few days of readings to compare with", () => {
+            expect(
+                validate(10, "2024-06-07T06:00:00Z", history.slice(2)).issues
+            ).toEqual([]);
+        });
+    });
+});
+
+describe("canSaveReading", () => {
+    it("saves a reading without issues", () => {
+        expect(canSaveReading({ issues: [], requiresReason: false })).toBe(
+            true
+        );
+    });
+
+    it("saves a reading with warnings only once overridden", () => {
+        expect(canSaveReading(WARNING)).toBe(false);
+        expect(canSaveReading(WARNING, { reason: "" })).toBe(true);
+    });
+
+    it("saves a reading with errors only with a reason", () => {
+        expect(canSaveReading(ERROR)).toBe(false);
+        expect(canSaveReading(ERROR, { reason: "   " })).toBe(false);
+        expect(canSaveReading(ERROR, { reason: "Meter was replaced" })).toBe(
+            true
+        );
+    });
+});
+
+describe("getOverrideReason", () => {
+    it("keeps the trimmed reason", () => {
+        expect(getOverrideReason({ reason: "  Meter was replaced " })).toBe(
+            "Meter was replaced"
+        );
+    });
+
+    it("keeps nothing without a reason", () => {
+        expect(getOverrideReason()).toBeNull();
+        expect(getOverrideReason({ reason: "  " })).toBeNull();
+    });
+
+    it("cuts long reasons short", () => {
+        expect(getOverrideReason({ reason: "x".repeat(600) })).toHaveLength(
+            MAX_OVERRIDE_REASON_LENGTH
+        );
+    });
+});
+
+describe("getFlagReason", () => {
+    it("flags nothing without issues", () => {
+        expect(
+            getFlagReason({ issues: [], requiresReason: false }, "import")
+        ).toBeNull();
+    });
+
+    it("keeps every issue with where the reading came from", () => {
+        expect(
+            getFlagReason(
+                {
+                    issues: [...WARNING.issues, ...ERROR.issues],
+                    requiresReason: true,
+                },
+                "offline sync"
+            )
+        ).toBe(
+            "Flagged on offline sync: Unusually high usage. The reading went up."
+        );
+    });
+
+    it("cuts long flags short", () => {
+        const validation: ReadingValidation = {
+            issues: [{ severity: "error", message: "x".repeat(600) }],
+            requiresReason: true,
+        };
+        expect(getFlagReason(validation, "import")).toHaveLength(
+            MAX_OVERRIDE_REASON_LENGTH
+        );
+    });
+});
@@ -0,0 +1,231 @@
+import type {
+    ElectricityReading,
+    ReadingIssue,
+    ReadingOverride,
+    ReadingValidation,
+    TokenPurchase,
+} from "@/lib/types";
+import { getTokenUnitsBetween, getUsageIntervals } from "@/lib/consumption";
+
+/**
+ * Reading validation: checks a new or backdated reading against the readings
+ * either side of it in time and the token purchases in between.
+ *
+ * A prepaid meter only counts down, except when tokens are loaded, so a
+ * reading above the previous one plus the tokens bought since is an error,
+ * as is one that would leave the next reading above it. Usage since the
+ * previous reading far above the recent rate is a warning. Either way the
+ * reading can still be saved: warnings once the user confirms, errors only
+ * with a reason, which is kept on the reading. Readings saved with no user
+ * there to confirm, from an offline replay or an import, are saved flagged:
+ * their issues are kept on the reading as its reason.
+ */
+
+/** Readings may go up this much without a token purchase, e.g. from rounding */
+export const READING_TOLERANCE_KWH = 0.5;
+
+/** Longest override reason that is kept */
+export const MAX_OVERRIDE_REASON_LENGTH = 500;
+
+// Usage this many times the recent daily rate is worth a warning
+const HIGH_USAGE_FACTOR = 3;
+// Days of readings the recent daily rate is taken from
+const USAGE_HISTORY_DAYS = 28;
+const MIN_USAGE_SAMPLES = 5;
+// Intervals shorter than this say little about the daily rate
+const MIN_INTERVAL_HOURS = 1;
+
+const time = (date: Date) => new Date(date).getTime();
+
+const sumUnits = (tokens: TokenPurchase[], from: number, to: number) =>
+    getTokenUnitsBetween(tokens, new Date(from), new Date(to));
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Gets the median daily usage between consecutive readings in the weeks
+ * before `before`, or null with too few of them
+ */
+function getRecentDailyRate(
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    before: number
+): number | null {
+    const since = before - USAGE_HISTORY_DAYS * 86400000;
+    const recent = readings.filter(
+        (r) => time(r.timestamp) >= since && time(r.timestamp) < before
+    );
+
+    const rates = getUsageIntervals(recent, tokens).flatMap(
+        ({ consumption, hours }) =>
+            hours >= MIN_INTERVAL_HOURS && consumption >= 0
+                ? [(consumption / hours) * 24]
+                : []
+    );
+
+    return rates.length >= MIN_USAGE_SAMPLES ? median(rates) : null;
+}
+
+/**
+ * Validates a reading of `value` kWh taken at `timestamp` against the other
+ * readings and token purchases of the same meter.
+ *
+ * @param excludeReadingId - Reading being replaced, left out of the comparison.
+ */
+export function validateReading(
+    value: number,
+    timestamp: Date,
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    timeZone: string,
+    excludeReadingId?: string
+): ReadingValidation {
+    const issues: ReadingIssue[] = [];
+    const at = time(timestamp);
+    const others = readings
+        .filter((r) => r.reading_id !== excludeReadingId)
+        .sort((a, b) => time(a.timestamp) - time(b.timestamp));
+    const formatWhen = (date: Date) =>
+        new Date(date).toLocaleString("en-US", {
+            month: "short",
+            day: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+            timeZone,
+        });
+
+    if (!(value >= 0)) {
+        issues.push({
+            severity: "error",
+            message: "Meter readings cannot be negative.",
+        });
+    }
+
+    const previous = others.filter((r) => time(r.timestamp) < at).at(-1);
+    const next = others.find((r) => time(r.timestamp) > at);
+
+    if (previous) {
+        const from = time(previous.timestamp);
+        const bought = sumUnits(tokens, from, at);
+        const allowed = Number(previous.reading) + bought;
+        const hours = (at - from) / 3600000;
+
+        if (value > allowed + READING_TOLERANCE_KWH) {
+            issues.push({
+                severity: "error",
+                message:
+                    bought > 0
+                        ? `This reading is ${(value - allowed).toFixed(
+                              1
+                          )} kWh higher than the previous reading of ${
+                              previous.reading
+                          } kWh (${formatWhen(
+                              previous.timestamp
+                          )}) plus the ${bought.toFixed(
+                              1
+                          )} kWh of tokens bought since.`
+                        : `This reading is higher than the previous reading of ${
+                              previous.reading
+                          } kWh (${formatWhen(
+                              previous.timestamp
+                          )}) with no token purchase in between. A prepaid meter only counts down.`,
+            });
+        } else if (hours >= MIN_INTERVAL_HOURS) {
+            const used = allowed - value;
+            const dailyRate = getRecentDailyRate(others, tokens, at);
+            if (
+                dailyRate !== null &&
+                dailyRate > 0 &&
+                used > 1 &&
+                (used / hours) * 24 > dailyRate * HIGH_USAGE_FACTOR
+            ) {
+                issues.push({
+                    severity: "warning",
+                    message: `This reading means ${used.toFixed(
+                        1
+                    )} kWh was used since ${formatWhen(
+                        previous.timestamp
+                    )}, about ${(((used / hours) * 24) / dailyRate).toFixed(
+                        1
+                    )}x the recent rate. Check the number before saving.`,
+                });
+            }
+        }
+    }
+
+    if (next) {
+        const bought = sumUnits(tokens, at, time(next.timestamp));
+        const allowed = value + bought;
+        if (Number(next.reading) > allowed + READING_TOLERANCE_KWH) {
+            issues.push({
+                severity: "error",
+                message:
+                    bought > 0
+                        ? `The later reading of ${
+                              next.reading
+                          } kWh (${formatWhen(
+                              next.timestamp
+                          )}) would be ${(
+                              Number(next.reading) - allowed
+                          ).toFixed(
+                              1
+                          )} kWh higher than this one plus the ${bought.toFixed(
+                              1
+                          )} kWh of tokens bought in between.`
+                        : `The later reading of ${
+                              next.reading
+                          } kWh (${formatWhen(
+                              next.timestamp
+                          )}) would be higher than this one with no token purchase in between. A prepaid meter only counts down.`,
+            });
+        }
+    }
+
+    return {
+        issues,
+        requiresReason: issues.some((issue) => issue.severity === "error"),
+    };
+}
+
+/**
+ * Returns true when a reading can be saved: it has no issues, or the user
+ * overrode them, giving a reason for errors
+ */
+export function canSaveReading(
+    validation: ReadingValidation,
+    override?: ReadingOverride
+): boolean {
+    if (validation.issues.length === 0) return true;
+    if (!override) return false;
+    return !validation.requiresReason || override.reason.trim().length > 0;
+}
+
+/**
+ * Gets the override reason to keep on a reading, or null without one
+ */
+export function getOverrideReason(override?: ReadingOverride): string | null {
+    const reason = override?.reason.trim().slice(0, MAX_OVERRIDE_REASON_LENGTH);
+    return reason ? reason : null;
+}
+
+/**
+ * Gets the reason kept on a reading saved with no user there to override its
+ * issues, e.g. on an offline replay or an import, or null without issues
+ */
+export function getFlagReason(
+    validation: ReadingValidation,
+    source: string
+): string | null {
+    if (validation.issues.length === 0) return null;
+    const messages = validation.issues.map((issue) => issue.message).join(" ");
+    return `Flagged on ${source}: ${messages}`.slice(
+        0,
+        MAX_OVERRIDE_REASON_LENGTH
+    );
+}
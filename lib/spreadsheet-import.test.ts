@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseCellDate } from "@/lib/spreadsheet-import";
+
+const HARARE = "Africa/Harare"; // UTC+2, no daylight saving
+const NEW_YORK = "America/New_York"; // UTC-5, UTC-4 in summer
+
+describe("parseCellDate", () => {
+    it("reads dates on the wall clock of the meter's timezone", () => {
+        expect(parseCellDate("2024-06-01 07:00", HARARE)?.toISOString()).toBe(
+            "2024-06-01T05:00:00.000Z"
+        );
+        expect(parseCellDate("01/12/2024 07:00", NEW_YORK)?.toISOString()).toBe(
+            "2024-12-01T12:00:00.000Z"
+        );
+    });
+
+    it("reads Excel dates in the meter's timezone", () => {
+        // SheetJS builds them on the browser's wall clock
+        const cell = new Date(2024, 5, 1, 7, 0);
+        expect(parseCellDate(cell, HARARE)?.toISOString()).toBe(
+            "2024-06-01T05:00:00.000Z"
+        );
+    });
+
+    it("keeps the offset of full ISO strings", () => {
+        expect(
+            parseCellDate("2024-06-01T07:00:00+01:00", HARARE)?.toISOString()
+        ).toBe("2024-06-01T06:00:00.000Z");
+    });
+
+    it("rejects text that is not a date", () => {
+        expect(parseCellDate("yesterday", HARARE)).toBeNull();
+        expect(parseCellDate("", HARARE)).toBeNull();
+    });
+});
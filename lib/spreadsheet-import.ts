@@ -0,0 +1,250 @@
+import { read, utils } from "xlsx";
+import type { ImportKind, ImportRow } from "@/lib/types";
+import { createLocalDate } from "@/lib/timezone-utils";
+
+/**
+ * Reading CSV and Excel files in the browser and mapping their columns to
+ * readings or token purchases for the import wizard.
+ */
+
+export type ImportField =
+    | "timestamp"
+    | "reading"
+    | "period"
+    | "units"
+    | "total_cost";
+
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportFieldDefinition {
+    field: ImportField;
+    label: string;
+    required: boolean;
+    /** Header names that are mapped to this field automatically */
+    aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportFieldDefinition[]> = {
+    readings: [
+        {
+            field: "timestamp",
+            label: "Date and time",
+            required: true,
+            aliases: ["timestamp", "date", "datetime", "time", "date time"],
+        },
+        {
+            field: "reading",
+            label: "Reading (kWh)",
+            required: true,
+            aliases: ["reading", "meter reading", "kwh", "balance", "value"],
+        },
+        {
+            field: "period",
+            label: "Period",
+            required: false,
+            aliases: ["period", "time of day"],
+        },
+    ],
+    tokens: [
+        {
+            field: "timestamp",
+            label: "Date and time",
+            required: true,
+            aliases: ["timestamp", "date", "datetime", "time", "date time"],
+        },
+        {
+            field: "units",
+            label: "Units (kWh)",
+            required: true,
+            aliases: ["units", "kwh", "units purchased", "token units"],
+        },
+        {
+            field: "total_cost",
+            label: "Cost",
+            required: true,
+            aliases: ["cost", "total cost", "amount", "price", "total"],
+        },
+    ],
+};
+
+export interface Spreadsheet {
+    headers: string[];
+    rows: unknown[][];
+}
+
+/**
+ * Reads the first sheet of a CSV or XLSX file. The first row is used as headers.
+ */
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+    const isCsv = /\.csv$/i.test(file.name) || file.type === "text/csv";
+    const workbook = read(await file.arrayBuffer(), {
+        type: "array",
+        cellDates: true,
+        // Keep CSV values as text so dates are parsed the same way for both formats
+        raw: isCsv,
+    });
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+        throw new Error("The file does not contain any sheets");
+    }
+
+    const [headerRow = [], ...rows] = utils.sheet_to_json<unknown[]>(sheet, {
+        header: 1,
+        defval: "",
+        blankrows: false,
+    });
+
+    if (rows.length === 0) {
+        throw new Error("The file does not contain any rows below the header");
+    }
+
+    return {
+        headers: headerRow.map((header, index) =>
+            String(header).trim() || `Column ${index + 1}`
+        ),
+        rows,
+    };
+}
+
+/**
+ * Maps columns to fields by their header names
+ */
+export function guessColumnMapping(
+    kind: ImportKind,
+    headers: string[]
+): ImportColumnMapping {
+    const normalized = headers.map((h) =>
+        h.toLowerCase().replace(/[_\-()]/g, " ").replace(/\s+/g, " ").trim()
+    );
+    const mapping: ImportColumnMapping = {};
+
+    for (const definition of IMPORT_FIELDS[kind]) {
+        const index = normalized.findIndex(
+            (header, i) =>
+                definition.aliases.includes(header) &&
+                !Object.values(mapping).includes(i)
+        );
+        if (index !== -1) {
+            mapping[definition.field] = index;
+        }
+    }
+
+    return mapping;
+}
+
+/**
+ * Parses a spreadsheet cell as a date and time on the wall clock of the
+ * meter's timezone. Accepts Excel dates, YYYY-MM-DD and DD/MM/YYYY with an
+ * optional HH:mm[:ss] time, and full ISO strings with an offset.
+ */
+export function parseCellDate(value: unknown, timeZone: string): Date | null {
+    if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) return null;
+        // Excel dates carry no timezone and are read in the browser's
+        return createLocalDate(
+            value.getFullYear(),
+            value.getMonth() + 1,
+            value.getDate(),
+            value.getHours(),
+            value.getMinutes(),
+            timeZone
+        );
+    }
+
+    const text = String(value ?? "").trim();
+    if (!text) return null;
+
+    const isoMatch =
+        /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2})?)?$/.exec(
+            text
+        );
+    if (isoMatch) {
+        const [, year, month, day, hour = "0", minute = "0"] = isoMatch;
+        return createLocalDate(
+            +year,
+            +month,
+            +day,
+            +hour,
+            +minute,
+            timeZone
+        );
+    }
+
+    const dayFirstMatch =
+        /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::\d{2})?)?$/.exec(
+            text
+        );
+    if (dayFirstMatch) {
+        const [, day, month, year, hour = "0", minute = "0"] = dayFirstMatch;
+        return createLocalDate(
+            +year,
+            +month,
+            +day,
+            +hour,
+            +minute,
+            timeZone
+        );
+    }
+
+    // Full ISO strings with an offset
+    const parsed = new Date(text);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Parses a spreadsheet cell as a number, ignoring currency symbols, units
+ * and thousands separators
+ */
+export function parseCellNumber(value: unknown): number | null {
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? value : null;
+    }
+
+    let text = String(value ?? "")
+        .replace(/[^\d.,-]/g, "")
+        .trim();
+    if (!text) return null;
+
+    // A lone comma is a decimal separator, otherwise commas separate thousands
+    text = text.includes(".") ? text.replace(/,/g, "") : text.replace(",", ".");
+
+    const parsed = Number(text);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Converts spreadsheet rows to import rows using the column mapping, reading
+ * dates in the IANA timezone of the meter they are imported into
+ */
+export function toImportRows(
+    kind: ImportKind,
+    spreadsheet: Spreadsheet,
+    mapping: ImportColumnMapping,
+    timeZone: string
+): ImportRow[] {
+    const cell = (row: unknown[], field: ImportField) => {
+        const index = mapping[field];
+        return index === undefined ? undefined : row[index];
+    };
+
+    return spreadsheet.rows.map((row, index) => {
+        const timestamp = parseCellDate(cell(row, "timestamp"), timeZone);
+        const importRow: ImportRow = {
+            // Row numbers as shown in the spreadsheet, after the header row
+            row: index + 2,
+            timestamp: timestamp ? timestamp.toISOString() : null,
+        };
+
+        if (kind === "readings") {
+            importRow.reading = parseCellNumber(cell(row, "reading"));
+            const period = cell(row, "period");
+            importRow.period = period ? String(period) : null;
+        } else {
+            importRow.units = parseCellNumber(cell(row, "units"));
+            importRow.total_cost = parseCellNumber(cell(row, "total_cost"));
+        }
+
+        return importRow;
+    });
+}
@@ -0,0 +1,65 @@
+import "server-only";
+
+import { sql, type SqlQueryResult } from "@/lib/db";
+import { getLocalDateString } from "@/lib/timezone-utils";
+import type {
+    TariffProfile,
+    TariffProfileDBResult,
+    TariffTierDBResult,
+} from "@/lib/types";
+
+/**
+ * Normalises a DATE column (string or Date) to YYYY-MM-DD
+ */
+function toDateKey(value: string | Date | null): string | null {
+    if (!value) return null;
+    if (value instanceof Date) return getLocalDateString(value);
+    return value.substring(0, 10);
+}
+
+/**
+ * Loads an owner's tariff profiles with their tiers, ordered by effective date
+ */
+export async function loadTariffProfiles(
+    ownerId: string
+): Promise<TariffProfile[]> {
+    const profiles = (await sql`
+    SELECT id, name, vat_rate, fixed_levy, levy_per_kwh, effective_from, effective_to
+    FROM tariff_profiles
+    WHERE user_id = ${ownerId}
+    ORDER BY effective_from ASC
+  `) as SqlQueryResult<TariffProfileDBResult>;
+
+    if (profiles.length === 0) {
+        return [];
+    }
+
+    const tiers = (await sql`
+    SELECT t.id, t.tariff_id, t.tier_order, t.up_to_kwh, t.rate_per_kwh
+    FROM tariff_tiers t
+    JOIN tariff_profiles p ON p.id = t.tariff_id
+    WHERE p.user_id = ${ownerId}
+    ORDER BY t.tariff_id, t.tier_order ASC
+  `) as SqlQueryResult<TariffTierDBResult>;
+
+    return profiles.map(
+        (row): TariffProfile => ({
+            id: row.id,
+            name: row.name,
+            vat_rate: Number(row.vat_rate),
+            fixed_levy: Number(row.fixed_levy),
+            levy_per_kwh: Number(row.levy_per_kwh),
+            effective_from: toDateKey(row.effective_from) ?? "",
+            effective_to: toDateKey(row.effective_to),
+            tiers: tiers
+                .filter((tier) => tier.tariff_id === row.id)
+                .map((tier) => ({
+                    id: tier.id,
+                    tier_order: Number(tier.tier_order),
+                    up_to_kwh:
+                        tier.up_to_kwh === null ? null : Number(tier.up_to_kwh),
+                    rate_per_kwh: Number(tier.rate_per_kwh),
+                })),
+        })
+    );
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { priceDailyUsage, priceUnits, unitsForAmount } from "@/lib/tariff";
+import type { TariffProfile } from "@/lib/types";
+
+const TARIFF: TariffProfile = {
+    id: 1,
+    name: "Domestic",
+    vat_rate: 15,
+    fixed_levy: 0,
+    levy_per_kwh: 0.1,
+    effective_from: "2024-01-01",
+    effective_to: null,
+    tiers: [
+        { tier_order: 2, up_to_kwh: 200, rate_per_kwh: 2 },
+        { tier_order: 1, up_to_kwh: 50, rate_per_kwh: 1 },
+        { tier_order: 3, up_to_kwh: null, rate_per_kwh: 3 },
+    ],
+};
+
+describe("priceUnits", () => {
+    it("splits units across a block boundary", () => {
+        const breakdown = priceUnits(TARIFF, 40, 20);
+        expect(
+            breakdown.tiers.map((tier) => [tier.tier_order, tier.units])
+        ).toEqual([
+            [1, 10],
+            [2, 10],
+        ]);
+        expect(breakdown.energyCost).toBe(30);
+        expect(breakdown.levyCost).toBe(2);
+        expect(breakdown.vat).toBe(4.8);
+        expect(breakdown.total).toBe(36.8);
+    });
+
+    it("starts in the block the month has already reached", () => {
+        const breakdown = priceUnits(TARIFF, 250, 10);
+        expect(breakdown.tiers).toEqual([
+            { tier_order: 3, units: 10, rate_per_kwh: 3, amount: 30 },
+        ]);
+    });
+
+    it("adds the fixed levy only when asked", () => {
+        const tariff = { ...TARIFF, fixed_levy: 10 };
+        expect(priceUnits(tariff, 0, 10).fixedCost).toBe(0);
+        const breakdown = priceUnits(tariff, 0, 10, true);
+        expect(breakdown.fixedCost).toBe(10);
+        expect(breakdown.total).toBe(24.15);
+    });
+});
+
+describe("priceDailyUsage", () => {
+    it("starts the blocks again in a new month", () => {
+        const days = priceDailyUsage(
+            [
+                { date: "2024-02-01", total: 10 },
+                { date: "2024-01-31", total: 60 },
+            ],
+            [TARIFF]
+        );
+        // 50 kWh at 1 and 10 at 2, then the cheapest block again
+        expect(days.map((day) => [day.date, day.cost])).toEqual([
+            ["2024-01-31", 87.4],
+            ["2024-02-01", 12.65],
+        ]);
+    });
+
+    it("spreads the fixed levy over the days of the month", () => {
+        const [day] = priceDailyUsage(
+            [{ date: "2024-01-15", total: 0 }],
+            [{ ...TARIFF, fixed_levy: 31 }]
+        );
+        expect(day.cost).toBe(1.15);
+    });
+
+    it("leaves days without a tariff unpriced", () => {
+        const [day] = priceDailyUsage(
+            [{ date: "2023-12-31", total: 10 }],
+            [TARIFF]
+        );
+        expect(day.cost).toBeUndefined();
+    });
+});
+
+describe("unitsForAmount", () => {
+    it.each([
+        [0, 5, false],
+        [0, 123.45, false],
+        [30, 400, false],
+        [0, 60, true],
+    ])(
+        "buys back the units the amount was priced for after %d kWh",
+        (alreadyBought, units, includeFixedLevy) => {
+            const tariff = { ...TARIFF, fixed_levy: 10 };
+            const amount = priceUnits(
+                tariff,
+                alreadyBought,
+                units,
+                includeFixedLevy
+            ).total;
+            const breakdown = unitsForAmount(
+                tariff,
+                alreadyBought,
+                amount,
+                includeFixedLevy
+            );
+            expect(breakdown.units).toBeCloseTo(units, 1);
+            expect(breakdown.total).toBeLessThanOrEqual(amount);
+        }
+    );
+
+    it("rounds the units down to two decimals", () => {
+        // 10 / 1.15 buys 7.905 kWh at 1.10 a unit with the levy
+        expect(unitsForAmount(TARIFF, 0, 10).units).toBe(7.9);
+    });
+});
@@ -0,0 +1,221 @@
+import type {
+    DailyUsage,
+    TariffBreakdown,
+    TariffProfile,
+    TariffTierCharge,
+} from "./types";
+
+/**
+ * Block tariff pricing helpers.
+ *
+ * Prepaid utilities price electricity in blocks: the first N kWh bought in a
+ * calendar month cost less than the next block, and so on. VAT and levies are
+ * charged on top. These helpers are pure so they can run on the server (usage
+ * summaries, PDF reports) and in the browser (purchase previews).
+ */
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Returns the YYYY-MM month key of a YYYY-MM-DD date string
+ */
+export function getMonthKey(date: string): string {
+    return date.substring(0, 7);
+}
+
+/**
+ * Finds the tariff profile in effect on the given date (YYYY-MM-DD).
+ * When several profiles overlap, the one that started most recently wins.
+ */
+export function getTariffForDate(
+    tariffs: TariffProfile[],
+    date: string
+): TariffProfile | null {
+    const candidates = tariffs.filter(
+        (tariff) =>
+            tariff.effective_from <= date &&
+            (!tariff.effective_to || tariff.effective_to >= date)
+    );
+
+    if (candidates.length === 0) {
+        return null;
+    }
+
+    return candidates.sort((a, b) =>
+        b.effective_from.localeCompare(a.effective_from)
+    )[0];
+}
+
+/**
+ * Prices `units` kWh consumed or bought after `alreadyUsedThisMonth` kWh in
+ * the same month, walking the tariff blocks in order.
+ *
+ * @param tariff - The tariff profile to apply.
+ * @param alreadyUsedThisMonth - Cumulative kWh already counted this month.
+ * @param units - The kWh to price.
+ * @param includeFixedLevy - Whether to add the monthly fixed levy (used for the first purchase of a month).
+ * @returns The per-block breakdown with levies and VAT.
+ */
+export function priceUnits(
+    tariff: TariffProfile,
+    alreadyUsedThisMonth: number,
+    units: number,
+    includeFixedLevy = false
+): TariffBreakdown {
+    const tiers = [...tariff.tiers].sort((a, b) => a.tier_order - b.tier_order);
+    const charges: TariffTierCharge[] = [];
+
+    let cursor = Math.max(0, alreadyUsedThisMonth);
+    let remaining = Math.max(0, units);
+
+    for (const tier of tiers) {
+        if (remaining <= 0) break;
+
+        const upperBound = tier.up_to_kwh ?? Number.POSITIVE_INFINITY;
+        if (cursor >= upperBound) continue;
+
+        const unitsInTier = Math.min(remaining, upperBound - cursor);
+        charges.push({
+            tier_order: tier.tier_order,
+            units: unitsInTier,
+            rate_per_kwh: tier.rate_per_kwh,
+            amount: unitsInTier * tier.rate_per_kwh,
+        });
+
+        cursor += unitsInTier;
+        remaining -= unitsInTier;
+    }
+
+    // Units beyond the last bounded block are charged at the last block's rate
+    if (remaining > 0 && tiers.length > 0) {
+        const lastTier = tiers[tiers.length - 1];
+        charges.push({
+            tier_order: lastTier.tier_order,
+            units: remaining,
+            rate_per_kwh: lastTier.rate_per_kwh,
+            amount: remaining * lastTier.rate_per_kwh,
+        });
+    }
+
+    const energyCost = charges.reduce((sum, charge) => sum + charge.amount, 0);
+    const levyCost = Math.max(0, units) * tariff.levy_per_kwh;
+    const fixedCost = includeFixedLevy ? tariff.fixed_levy : 0;
+    const vat = ((energyCost + levyCost + fixedCost) * tariff.vat_rate) / 100;
+
+    return {
+        units: Math.max(0, units),
+        tiers: charges,
+        energyCost: roundMoney(energyCost),
+        levyCost: roundMoney(levyCost),
+        fixedCost: roundMoney(fixedCost),
+        vat: roundMoney(vat),
+        total: roundMoney(energyCost + levyCost + fixedCost + vat),
+    };
+}
+
+/**
+ * Returns the number of days in the month of a YYYY-MM-DD date string
+ */
+function getDaysInMonth(date: string): number {
+    const [year, month] = date.split("-").map(Number);
+    return new Date(year, month, 0).getDate();
+}
+
+/**
+ * Adds a `cost` to every daily usage row using the tariff in effect on that day.
+ *
+ * @remarks
+ * - Blocks are applied against the month's cumulative consumption, so early-month days
+ *   fall into the cheaper blocks.
+ * - The monthly fixed levy is spread evenly over the calendar days of the month.
+ * - Days with no tariff in effect are left without a cost.
+ */
+export function priceDailyUsage(
+    dailyUsage: DailyUsage[],
+    tariffs: TariffProfile[]
+): DailyUsage[] {
+    if (tariffs.length === 0) {
+        return dailyUsage;
+    }
+
+    const monthlyTotals: Record<string, number> = {};
+
+    return [...dailyUsage]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((day) => {
+            const tariff = getTariffForDate(tariffs, day.date);
+            const monthKey = getMonthKey(day.date);
+            const usedBefore = monthlyTotals[monthKey] ?? 0;
+            monthlyTotals[monthKey] = usedBefore + day.total;
+
+            if (!tariff) {
+                return day;
+            }
+
+            const breakdown = priceUnits(tariff, usedBefore, day.total);
+            const dailyFixedLevy =
+                (tariff.fixed_levy / getDaysInMonth(day.date)) *
+                (1 + tariff.vat_rate / 100);
+
+            return {
+                ...day,
+                cost: roundMoney(breakdown.total + dailyFixedLevy),
+            };
+        });
+}
+
+/**
+ * Works out how many kWh a given amount of money buys, the inverse of {@link priceUnits}.
+ *
+ * @param tariff - The tariff profile to apply.
+ * @param alreadyBoughtThisMonth - Units already purchased this month, which decides the starting block.
+ * @param amount - The money to spend, including VAT.
+ * @param includeFixedLevy - Whether the monthly fixed levy is deducted from this purchase.
+ * @returns The price breakdown of the units the amount buys.
+ */
+export function unitsForAmount(
+    tariff: TariffProfile,
+    alreadyBoughtThisMonth: number,
+    amount: number,
+    includeFixedLevy = false
+): TariffBreakdown {
+    const tiers = [...tariff.tiers].sort((a, b) => a.tier_order - b.tier_order);
+
+    // Work in pre-VAT money, after the fixed levy has been taken off
+    let budget = amount / (1 + tariff.vat_rate / 100);
+    if (includeFixedLevy) {
+        budget -= tariff.fixed_levy;
+    }
+
+    let cursor = Math.max(0, alreadyBoughtThisMonth);
+    let units = 0;
+
+    for (const [index, tier] of tiers.entries()) {
+        if (budget <= 0) break;
+
+        const isLast = index === tiers.length - 1;
+        const upperBound =
+            tier.up_to_kwh === null || isLast
+                ? Number.POSITIVE_INFINITY
+                : tier.up_to_kwh;
+        if (cursor >= upperBound) continue;
+
+        const unitPrice = tier.rate_per_kwh + tariff.levy_per_kwh;
+        if (unitPrice <= 0) continue;
+
+        const unitsInTier = Math.min(budget / unitPrice, upperBound - cursor);
+        units += unitsInTier;
+        cursor += unitsInTier;
+        budget -= unitsInTier * unitPrice;
+    }
+
+    // Vendors issue tokens to two decimals and never round up
+    const issuedUnits = Math.floor(units * 100) / 100;
+
+    return priceUnits(
+        tariff,
+        alreadyBoughtThisMonth,
+        issuedUnits,
+        includeFixedLevy
+    );
+}
@@ -0,0 +1,54 @@
+import type {
+    ElectricityReading,
+    Period,
+    TokenPurchase,
+    UsageInterval,
+} from "@/lib/types";
+
+/**
+ * Entry factories shared by the unit tests. Ids are derived from the meter
+ * and timestamp, so entries of one meter at one moment are the same entry.
+ */
+
+export const reading = (
+    timestamp: string,
+    value: number,
+    meterId: number | null = null,
+    period: Period = "morning"
+): ElectricityReading => ({
+    id: 0,
+    reading_id: `${meterId}-${timestamp}`,
+    timestamp: new Date(timestamp),
+    reading: value,
+    period,
+    meter_id: meterId,
+});
+
+export const token = (
+    timestamp: string,
+    units: number,
+    meterId: number | null = null,
+    newReading = 0
+): TokenPurchase => ({
+    id: 0,
+    token_id: `${meterId}-${timestamp}`,
+    timestamp: new Date(timestamp),
+    units,
+    new_reading: newReading,
+    meter_id: meterId,
+});
+
+/** Interval of one meterless reading to the next, with no tokens between */
+export const interval = (
+    from: string,
+    to: string,
+    consumption: number,
+    period: Period = "morning"
+): UsageInterval => ({
+    meterId: null,
+    start: reading(from, 100),
+    end: reading(to, 100 - consumption, null, period),
+    tokenUnits: 0,
+    consumption,
+    hours: (Date.parse(to) - Date.parse(from)) / 3600000,
+});
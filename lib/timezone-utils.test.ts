@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+    getLocalDateString,
+    getLocalHour,
+    getStartOfLocalDay,
+    getZonedParts,
+} from "@/lib/timezone-utils";
+import {
+    DEFAULT_READING_SCHEDULE,
+    getPeriodForDate,
+} from "@/lib/reading-schedule";
+
+const HARARE = "Africa/Harare"; // UTC+2, no daylight saving
+const BOGOTA = "America/Bogota"; // UTC-5, no daylight saving
+const NEW_YORK = "America/New_York"; // UTC-5, UTC-4 in summer
+const LONDON = "Europe/London"; // UTC, UTC+1 in summer
+
+describe("UTC+2", () => {
+    it("reads the wall clock two hours ahead of UTC", () => {
+        expect(getZonedParts(new Date("2024-06-01T05:30:00Z"), HARARE)).toEqual(
+            { year: 2024, month: 6, day: 1, hour: 7, minute: 30 }
+        );
+    });
+
+    it("puts a reading just after local midnight on the next day", () => {
+        const date = new Date("2024-06-01T22:30:00Z");
+        expect(getLocalDateString(date, HARARE)).toBe("2024-06-02");
+        expect(getLocalDateString(date, "UTC")).toBe("2024-06-01");
+    });
+
+    it("classifies a 6:30am reading as morning, not UTC night", () => {
+        const date = new Date("2024-06-01T04:30:00Z");
+        expect(getPeriodForDate(DEFAULT_READING_SCHEDULE, date, HARARE)).toBe(
+            "morning"
+        );
+        expect(getPeriodForDate(DEFAULT_READING_SCHEDULE, date, "UTC")).toBe(
+            "night"
+        );
+        const night = new Date("2024-06-01T02:30:00Z");
+        expect(getPeriodForDate(DEFAULT_READING_SCHEDULE, night, HARARE)).toBe(
+            "night"
+        );
+    });
+
+    it("starts the day at 22:00 UTC the evening before", () => {
+        expect(getStartOfLocalDay("2024-06-01", HARARE).toISOString()).toBe(
+            "2024-05-31T22:00:00.000Z"
+        );
+    });
+});
+
+describe("UTC-5", () => {
+    it("puts an early UTC reading on the previous local day", () => {
+        const date = new Date("2024-06-02T03:00:00Z");
+        expect(getLocalDateString(date, BOGOTA)).toBe("2024-06-01");
+        expect(getLocalHour(date, BOGOTA)).toBe(22);
+    });
+
+    it("classifies readings by the local hour", () => {
+        expect(
+            getPeriodForDate(
+                DEFAULT_READING_SCHEDULE,
+                new Date("2024-06-01T12:00:00Z"),
+                BOGOTA
+            )
+        ).toBe("morning");
+        expect(
+            getPeriodForDate(
+                DEFAULT_READING_SCHEDULE,
+                new Date("2024-06-02T01:00:00Z"),
+                BOGOTA
+            )
+        ).toBe("night");
+    });
+
+    it("starts the day at 05:00 UTC", () => {
+        expect(getStartOfLocalDay("2024-06-01", BOGOTA).toISOString()).toBe(
+            "2024-06-01T05:00:00.000Z"
+        );
+    });
+});
+
+describe("daylight saving", () => {
+    it("starts the days around the spring change at the right moment", () => {
+        expect(getStartOfLocalDay("2024-03-10", NEW_YORK).toISOString()).toBe(
+            "2024-03-10T05:00:00.000Z"
+        );
+        expect(getStartOfLocalDay("2024-03-11", NEW_YORK).toISOString()).toBe(
+            "2024-03-11T04:00:00.000Z"
+        );
+    });
+
+    it("starts the days around the autumn change at the right moment", () => {
+        expect(getStartOfLocalDay("2024-10-27", LONDON).toISOString()).toBe(
+            "2024-10-26T23:00:00.000Z"
+        );
+        expect(getStartOfLocalDay("2024-10-28", LONDON).toISOString()).toBe(
+            "2024-10-28T00:00:00.000Z"
+        );
+    });
+
+    it("reads the hour after the clocks go forward", () => {
+        // 02:00 local does not exist on 10 March, 07:30 UTC is 03:30 EDT
+        expect(getLocalHour(new Date("2024-03-10T07:30:00Z"), NEW_YORK)).toBe(
+            3
+        );
+        expect(
+            getPeriodForDate(
+                DEFAULT_READING_SCHEDULE,
+                new Date("2024-03-10T09:30:00Z"),
+                NEW_YORK
+            )
+        ).toBe("morning");
+    });
+});
@@ -44,35 +44,136 @@ export function formatDateWithTimezone(date: Date): string {
 }
 
 /**
- * Get the local hour from a date (0-23) in user's timezone
+ * Timezone used for meters and accounts that have not chosen one
  */
-export function getLocalHour(date?: Date): number {
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * Checks that a timezone is a valid IANA name, e.g. Africa/Harare
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Gets the calendar date and time of a moment in an IANA timezone. Daylight
+ * saving is applied by Intl, so the hour is the one on the wall clock there.
+ */
+export function getZonedParts(
+    date: Date,
+    timeZone: string
+): { year: number; month: number; day: number; hour: number; minute: number } {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find((p) => p.type === type)?.value);
+
+    return {
+        year: part("year"),
+        month: part("month"),
+        day: part("day"),
+        hour: part("hour"),
+        minute: part("minute"),
+    };
+}
+
+/**
+ * Get the local hour from a date (0-23), in the given IANA timezone or the
+ * runtime's own timezone when none is given
+ */
+export function getLocalHour(date?: Date, timeZone?: string): number {
     const now = date || new Date();
+    if (timeZone) return getZonedParts(now, timeZone).hour;
     return now.getHours(); // This automatically uses local timezone
 }
 
 /**
- * Get the local date string (YYYY-MM-DD) in user's timezone
+ * Get the local date string (YYYY-MM-DD), in the given IANA timezone or the
+ * runtime's own timezone when none is given
  */
-export function getLocalDateString(date?: Date): string {
+export function getLocalDateString(date?: Date, timeZone?: string): string {
     const now = date || new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, "0");
-    const day = String(now.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
+    const { year, month, day } = timeZone
+        ? getZonedParts(now, timeZone)
+        : {
+              year: now.getFullYear(),
+              month: now.getMonth() + 1,
+              day: now.getDate(),
+          };
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+        2,
+        "0"
+    )}`;
+}
+
+/**
+ * Moves a YYYY-MM-DD date by a number of days
+ */
+export function shiftDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Gets the moment a YYYY-MM-DD date starts, in the given IANA timezone or the
+ * runtime's own timezone when none is given
+ */
+export function getStartOfLocalDay(date: string, timeZone?: string): Date {
+    const [year, month, day] = date.split("-").map(Number);
+    return createLocalDate(year, month, day, 0, 0, timeZone);
+}
+
+/**
+ * Gets the day of the week of a YYYY-MM-DD date, 0 for Sunday
+ */
+export function getWeekday(date: string): number {
+    return new Date(`${date}T00:00:00Z`).getUTCDay();
 }
 
 /**
- * Create a date with local timezone consideration
+ * Creates the moment a wall clock in the given IANA timezone shows the given
+ * date and time, or in the runtime's local timezone when none is given
  */
 export function createLocalDate(
     year: number,
     month: number,
     day: number,
     hour = 0,
-    minute = 0
+    minute = 0,
+    timeZone?: string
 ): Date {
-    return new Date(year, month - 1, day, hour, minute, 0, 0);
+    if (!timeZone) return new Date(year, month - 1, day, hour, minute, 0, 0);
+
+    // Take the offset at the wall-clock time read as UTC, then again at the
+    // corrected moment in case daylight saving changes in between
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    let moment = wallClock;
+    for (let i = 0; i < 2; i++) {
+        const parts = getZonedParts(new Date(moment), timeZone);
+        const offset =
+            Date.UTC(
+                parts.year,
+                parts.month - 1,
+                parts.day,
+                parts.hour,
+                parts.minute
+            ) - moment;
+        moment = wallClock - offset;
+    }
+    return new Date(moment);
 }
 
 /**
@@ -99,20 +200,5 @@ export function logTimezoneInfo(label: string, date: Date): void {
         localeString: date.toLocaleString(),
         timezoneOffset: date.getTimezoneOffset(),
         hours: date.getHours(),
-        calculatedPeriod: getPeriodFromHour(date.getHours()),
     });
 }
-
-/**
- * Get period based on hour - keeping your exact time ranges
- */
-export function getPeriodFromHour(
-    hour: number
-): "morning" | "evening" | "night" {
-    // Ensure hour is in 0-23 range
-    const normalizedHour = hour % 24;
-
-    if (normalizedHour >= 5 && normalizedHour < 12) return "morning";
-    if (normalizedHour >= 12 && normalizedHour < 20) return "evening";
-    return "night";
-}
@@ -1,5 +1,5 @@
 // Types for electricity readings and token purchases
-export type Period = "morning" | "evening" | "night";
+export type Period = string; // key of a period in the reading schedule
 export interface ElectricityReading {
     id: number;
     reading_id: string;
@@ -7,6 +7,10 @@ export interface ElectricityReading {
     reading: number;
     period: Period;
     created_at?: Date;
+    meter_id?: number | null;
+    entered_by?: string | null;
+    entered_by_name?: string | null;
+    override_reason?: string | null; // why it was saved despite validation issues
 }
 
 export interface TokenPurchase {
@@ -17,6 +21,67 @@ export interface TokenPurchase {
     new_reading: number;
     created_at?: Date;
     total_cost?: number;
+    meter_id?: number | null;
+    entered_by?: string | null;
+    entered_by_name?: string | null;
+}
+
+export interface Meter {
+    id: number;
+    nickname: string;
+    meter_number: string | null;
+    tariff_id: number | null;
+    timezone: string;
+    timezone_confirmed: boolean; // false for a backfilled meter whose timezone was guessed
+    is_default: boolean;
+}
+
+export type HouseholdRole = "owner" | "editor" | "viewer";
+
+export interface Household {
+    id: number;
+    name: string;
+    role: HouseholdRole;
+    isOwner: boolean;
+    isActive: boolean;
+    memberCount: number;
+}
+
+export interface HouseholdMember {
+    user_id: string;
+    display_name: string | null;
+    role: HouseholdRole;
+    joined_at: Date;
+}
+
+export type AuditEntityType = "reading" | "token";
+export type AuditAction = "create" | "update" | "delete" | "revert";
+export type AuditSource =
+    | "dashboard"
+    | "backdated"
+    | "migration"
+    | "import"
+    | "restore"
+    | "offline"
+    | "admin";
+
+export interface AuditEntry {
+    id: number;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    action: AuditAction;
+    source: AuditSource;
+    actor_name: string | null;
+    old_value: Record<string, unknown> | null;
+    new_value: Record<string, unknown> | null;
+    reverted_audit_id: number | null;
+    created_at: Date;
+}
+
+export interface HouseholdInvitation {
+    token: string;
+    role: Exclude<HouseholdRole, "owner">;
+    expires_at: Date;
 }
 type CurrentTimeStamp = string | number | Date;
 // Interfaces for local storage data structure
@@ -25,7 +90,7 @@ export interface LocalStorageElectricityReading {
     reading_id?: string;
     timestamp: CurrentTimeStamp;
     reading: number;
-    period: "morning" | "evening" | "night";
+    period: Period;
 }
 
 export interface LocalStorageTokenPurchase {
@@ -39,10 +104,11 @@ export interface LocalStorageTokenPurchase {
 
 export interface DailyUsage {
   date: string
-  morning?: number
-  evening?: number
-  night?: number
+  readings?: Partial<Record<Period, number>> // reading of each schedule period
   total: number
+  cost?: number // priced with the tariff in effect on that date
+  readingIds?: Partial<Record<Period, string>> // reading_id of each period reading
+  interpolated?: boolean // part of the total was estimated across a gap in the readings
 }
 export interface UsageSummary {
   averageUsage: number
@@ -54,10 +120,482 @@ export interface UsageSummary {
   dailyUsage: DailyUsage[]
   totalUnitsCost: number
   lastAverageCostPerKwh: number
+  totalUsageCost: number
+}
+
+// Types for block tariffs
+export interface TariffTier {
+    id?: number;
+    tier_order: number;
+    up_to_kwh: number | null; // null marks the open-ended last block
+    rate_per_kwh: number;
+}
+
+export interface TariffProfile {
+    id: number;
+    name: string;
+    vat_rate: number; // percentage, e.g. 15 for 15%
+    fixed_levy: number; // monthly fixed charge before VAT
+    levy_per_kwh: number;
+    effective_from: string; // YYYY-MM-DD
+    effective_to: string | null;
+    tiers: TariffTier[];
+}
+
+export interface TariffTierCharge {
+    tier_order: number;
+    units: number;
+    rate_per_kwh: number;
+    amount: number;
+}
+
+export interface TariffBreakdown {
+    units: number;
+    tiers: TariffTierCharge[];
+    energyCost: number;
+    levyCost: number;
+    fixedCost: number;
+    vat: number;
+    total: number;
+}
+
+export interface TokenPurchasePreview {
+    amount: number;
+    expectedUnits: number;
+    monthToDateUnits: number; // units already bought this month, before this purchase
+    tariffName: string;
+    breakdown: TariffBreakdown;
+}
+
+// Types for bulk import of historical readings and token purchases
+export type ImportKind = "readings" | "tokens";
+
+/** A spreadsheet row after column mapping, before validation */
+export interface ImportRow {
+    row: number; // 1-based row number in the file, for error messages
+    timestamp: string | null; // ISO string
+    reading?: number | null;
+    period?: string | null;
+    units?: number | null;
+    total_cost?: number | null;
+}
+
+export interface ImportIssue {
+    row: number;
+    message: string;
+}
+
+export interface ImportPreview {
+    kind: ImportKind;
+    total: number;
+    valid: number;
+    issues: ImportIssue[];
+}
+
+export interface ImportResult {
+    inserted: number;
+    skipped: number; // valid rows that were already imported
+    issues: ImportIssue[];
+}
+
+// Types for data export
+export type ExportFormat = "csv" | "json" | "xlsx";
+export type ExportDataset = "daily" | "readings" | "tokens";
+
+export interface ExportFilter {
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    meterId?: number | "all"; // defaults to the selected meter
+}
+
+export interface ExportDailyUsage extends DailyUsage {
+    meter_id: number | null;
+}
+
+export interface ExportData {
+    filter: ExportFilter;
+    meters: Meter[];
+    readings: ElectricityReading[];
+    tokens: TokenPurchase[];
+    dailyUsage: ExportDailyUsage[];
+    schedule: ReadingSchedule; // periods of the daily usage columns
+}
+
+// Types for backup archives
+export type RestoreMode = "merge" | "replace";
+
+export interface BackupMeter {
+    id: number; // id in the backed up account, referenced by readings and tokens
+    nickname: string;
+    meter_number: string | null;
+    tariff_id: number | null;
+    timezone: string;
+    is_default: boolean;
+}
+
+export interface BackupReading {
+    reading_id: string;
+    timestamp: string;
+    reading: number;
+    period: Period;
+    meter_id: number | null;
+    token_id: string | null;
+    entered_by_name: string | null;
+}
+
+export interface BackupToken {
+    token_id: string;
+    timestamp: string;
+    units: number;
+    new_reading: number;
+    total_cost: number;
+    meter_id: number | null;
+    entered_by_name: string | null;
+}
+
+export interface BackupArchive {
+    format: string;
+    schema_version: number;
+    created_at: string;
+    profile: { meter_number: string | null };
+    meters: BackupMeter[];
+    tariffs: TariffProfile[];
+    schedule: ReadingSchedule; // added in schema version 2
+    readings: BackupReading[];
+    tokens: BackupToken[];
+}
+
+export interface BackupConflict {
+    entity_type: AuditEntityType;
+    entity_id: string;
+    resolution: "kept-existing" | "renamed";
+    message: string;
+}
+
+export interface RestoreSummary {
+    mode: RestoreMode;
+    readings: number;
+    tokens: number;
+    meters: number;
+    tariffs: number;
+    unchanged: number; // entries already present with the same values
+    conflicts: BackupConflict[];
+}
+
+// Types for the reading schedule
+export interface SchedulePeriod {
+    key: Period; // stored on readings, kept when the period is renamed
+    name: string;
+    start_hour: number; // first hour of the period, 0-23
+    end_hour: number; // hour the period ends before, wraps past midnight
+    reminder_time: string; // HH:MM
+}
+
+export interface ReadingSchedule {
+    periods: SchedulePeriod[];
+}
+
+// Types for the offline outbox
+export type OutboxEntryKind = "reading" | "token";
+
+/** An addElectricityReading or addTokenPurchase call captured while offline */
+export interface OutboxEntry {
+    client_id: string; // generated on the device, makes replays idempotent
+    kind: OutboxEntryKind;
+    timestamp: string; // ISO string of when the entry was captured
+    meter_id: number | null; // meter selected at capture time
+    reading?: number;
+    units?: number;
+    total_cost?: number;
+    /** Server reading for the same period, set when the replay conflicts */
+    conflict?: ElectricityReading | null;
+    /** Why the server rejected the entry, it stays queued until discarded */
+    error?: string;
+}
+
+/** How to resolve a reading that conflicts with a server reading */
+export type OutboxResolution = "overwrite" | "discard";
+
+export interface OfflineSyncResult {
+    status: "synced" | "duplicate" | "conflict" | "overwritten";
+    reading?: ElectricityReading;
+    token?: TokenPurchase;
+    /** Server reading for the same period, when the status is conflict */
+    existingReading?: ElectricityReading;
+}
+
+// Types for Web Push notifications
+export type PushNotificationKind =
+    | "reading-reminder"
+    | "missed-reading"
+    | "low-balance";
+
+/** The browser's PushSubscription as JSON, as sent to the server */
+export interface PushSubscriptionInput {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+}
+
+/** What the service worker turns into a notification */
+export interface PushPayload {
+    kind: PushNotificationKind;
+    title: string;
+    body: string;
+    tag: string; // replaces an earlier notification with the same tag
+    url: string; // opened when the notification itself is clicked
+    recordUrl: string; // opened by the "Record reading" action
+}
+
+export interface PushSchedulerResult {
+    sent: number;
+    expired: number; // subscriptions removed because the browser dropped them
+    failed: number;
+}
+
+// Types for email digests
+export type EmailDigestFrequency = "daily" | "weekly";
+
+export interface EmailDigestSubscription {
+    email: string;
+    frequency: EmailDigestFrequency;
+    lastSentOn: string | null; // YYYY-MM-DD in the default meter's timezone
+}
+
+/** The figures an email digest reports, see `lib/email-digest.ts` */
+export interface EmailDigest {
+    frequency: EmailDigestFrequency;
+    yesterday: { date: string; usage: number; cost: number };
+    weekToDate: { from: string; to: string; usage: number; cost: number };
+    peakDay: { date: string; usage: number } | null; // within the week to date
+    balance: number | null; // kWh left on the meters, null without readings
+    daysLeft: number | null; // from the balance forecast
+    missedReadings: { date: string; period: string }[];
+}
+
+export interface DigestSchedulerResult {
+    sent: number;
+    failed: number;
+}
+
+// Types for consumption (see lib/consumption.ts)
+/** Usage between two consecutive readings of a meter */
+export interface UsageInterval {
+    meterId: number | null;
+    start: ElectricityReading;
+    end: ElectricityReading;
+    tokenUnits: number; // kWh bought after the start reading, up to the end reading
+    consumption: number; // negative when the reading went up without a token
+    hours: number;
+}
+
+/** Usage on a date, in total and by the period of the readings ending its intervals */
+export interface DayConsumption {
+    date: string;
+    total: number;
+    periods: Record<Period, number>;
+    interpolated: boolean; // part of the usage was spread over a gap in the readings
+}
+
+// Types for reading validation
+export interface ReadingIssue {
+    severity: "warning" | "error";
+    message: string;
+}
+
+export interface ReadingValidation {
+    issues: ReadingIssue[];
+    requiresReason: boolean; // errors are only overridden with a reason
+}
+
+/** Saves a reading despite its validation issues */
+export interface ReadingOverride {
+    reason: string;
+}
+
+// Types for usage anomaly detection
+export type AnomalyKind =
+    | "spike" // real but unusual usage
+    | "reading-increase" // reading went up without a token purchase
+    | "transposition" // two digits of the reading look swapped
+    | "entry-error"; // reading out of line with the readings on both sides
+
+export type AnomalyStatus = "open" | "confirmed" | "dismissed";
+
+/** An anomaly found by `lib/anomaly-detection.ts`, before it is stored */
+export interface DetectedAnomaly {
+    readingId: string;
+    meterId: number | null;
+    timestamp: Date;
+    period: Period;
+    kind: AnomalyKind;
+    consumption: number; // kWh used since the previous reading
+    expected: number | null; // kWh the baseline expected for the interval
+    score: number | null; // robust z-score of the interval's usage rate
+    suggestedReading: number | null; // reading with the digits swapped back
+    message: string;
+}
+
+export interface UsageAnomaly extends DetectedAnomaly {
+    id: number | null; // null when detected in the browser and not stored
+    status: AnomalyStatus;
+}
+
+// Types for AI insight reports
+/** Figures an insight report was based on, compared from one report to the next */
+export interface InsightSnapshot {
+    readingCount: number;
+    daysTracked: number;
+    averageDailyUsage: number; // kWh
+    peakUsageDay: { date: string; usage: number };
+    recentUsage: number; // kWh over the last 7 days with usage
+    totalTokensPurchased: number; // kWh
+}
+
+export type InsightConfidence = "low" | "medium" | "high";
+
+export interface InsightAnomaly {
+    title: string;
+    description: string;
+}
+
+/** A step the user can take, with what it is expected to save a month */
+export interface InsightAction {
+    title: string;
+    description: string;
+    estimatedKwhSavings: number;
+    estimatedCostSavings: number; // in the currency of the token purchases
+}
+
+/** What the model wrote, validated against `insightContentSchema` */
+export interface InsightContent {
+    summary: string;
+    keyFindings: string[];
+    anomalies: InsightAnomaly[];
+    actions: InsightAction[];
+    confidence: InsightConfidence;
+    confidenceReason: string;
+}
+
+interface InsightReportFields {
+    id: number;
+    version: number; // counts up per meter, or for the combined view
+    completedActions: number[]; // indexes into content.actions marked as done
+    snapshot: InsightSnapshot;
+    provider: string; // label of the AI provider that wrote it
+    createdAt: Date;
+}
+
+export type InsightReport = InsightReportFields &
+    (
+        | { format: "structured"; content: InsightContent }
+        | { format: "markdown"; content: string } // written before insights were structured
+    );
+
+export type InsightReportSummary = Pick<
+    InsightReport,
+    "id" | "version" | "createdAt"
+>;
+
+/** A figure that changed between two reports */
+export interface InsightChange {
+    label: string;
+    previous: string;
+    current: string;
+    direction: "up" | "down" | "changed";
+}
+
+export type InsightReportResult =
+    | {
+          report: InsightReport;
+          cached: boolean; // the data had not changed, so no new report was written
+          changes: InsightChange[]; // since the report before it
+      }
+    | { error: string; configuration: boolean };
+
+// Types for AI chat threads
+export type ChatRole = "user" | "assistant";
+
+export interface ChatThread {
+    id: number;
+    title: string;
+    updatedAt: Date;
+}
+
+export interface ChatMessage {
+    id: number;
+    role: ChatRole;
+    content: string;
+    pinned: boolean;
+    createdAt: Date;
+}
+
+/** An assistant answer pinned to the dashboard, with the question it answers */
+export interface PinnedChatAnswer {
+    id: number;
+    threadId: number;
+    question: string;
+    answer: string;
+    createdAt: Date;
+}
+
+// Types for the monthly budget
+export type BudgetKind = "money" | "kwh";
+
+export interface MonthlyBudget {
+    kind: BudgetKind; // money spent on tokens, or kWh used
+    amount: number;
+    alertThresholds: number[]; // percentages of the amount, ascending
+}
+
+/** Progress against the budget this month, see `lib/budget.ts` */
+export interface BudgetStatus {
+    budget: MonthlyBudget;
+    month: string; // YYYY-MM
+    used: number; // spent or used so far this month
+    projected: number; // expected by the end of the month at the current rate
+    percentUsed: number;
+    projectedPercent: number;
+    reachedThreshold: number | null; // highest alert threshold reached
+    daysLeftInMonth: number;
+}
+
+// Types for the balance forecast
+export type ForecastConfidence = "high" | "medium" | "low";
+
+/** When the balance is expected to run out, see `lib/balance-forecast.ts` */
+export interface BalanceForecast {
+    balance: number; // kWh left
+    dailyRate: number; // expected usage today in kWh
+    daysLeft: number | null; // null when it does not run out within a year
+    runsOutAt: Date | null;
+    /** Likely range of the run-out time, about 80% of outcomes fall inside */
+    earliest: Date | null;
+    latest: Date | null;
+    confidence: ForecastConfidence;
+    basedOnDays: number; // days of usage history the forecast was made from
+    timeZone: string; // meter timezone the days were counted in
 }
 
 
 // Database result types
+export interface TariffProfileDBResult {
+    id: number;
+    name: string;
+    vat_rate: number | string;
+    fixed_levy: number | string;
+    levy_per_kwh: number | string;
+    effective_from: string | Date;
+    effective_to: string | Date | null;
+}
+
+export interface TariffTierDBResult {
+    id: number;
+    tariff_id: number;
+    tier_order: number;
+    up_to_kwh: number | string | null;
+    rate_per_kwh: number | string;
+}
+
 export interface ElectricityReadingDBResult {
     id: number;
     reading_id: string;
@@ -65,6 +603,10 @@ export interface ElectricityReadingDBResult {
     reading: number | string;
     period: string;
     created_at?: string;
+    meter_id?: number | null;
+    entered_by?: string | null;
+    entered_by_name?: string | null;
+    override_reason?: string | null;
 }
 
 export interface TokenPurchaseDBResult {
@@ -75,6 +617,32 @@ export interface TokenPurchaseDBResult {
     new_reading: number | string;
     created_at?: string;
     total_cost?: number | string;
+    meter_id?: number | null;
+    entered_by?: string | null;
+    entered_by_name?: string | null;
+}
+
+export interface MeterDBResult {
+    id: number;
+    nickname: string;
+    meter_number: string | null;
+    tariff_id: number | null;
+    timezone: string;
+    timezone_confirmed: boolean;
+    is_default: boolean;
+}
+
+export interface AuditEntryDBResult {
+    id: number;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    action: AuditAction;
+    source: AuditSource;
+    actor_name: string | null;
+    old_value: Record<string, unknown> | null;
+    new_value: Record<string, unknown> | null;
+    reverted_audit_id: number | null;
+    created_at: string;
 }
 
 export interface MonthlyUsageDBResult {
@@ -103,9 +671,6 @@ export interface LocalStorageTokenPurchase {
 
 export interface DailyUsage {
     date: string;
-    morning?: number;
-    evening?: number;
-    night?: number;
     total: number;
 }
 
@@ -124,6 +689,8 @@ export interface ElectricityTrackerProps {
     initialLatestReading: number;
     initialTotalUnits: number;
     dbConnected: boolean;
+    initialSchedule?: ReadingSchedule;
+    selectedMeterId?: number | "all" | null; // meter new entries are queued for while offline
 }
 
 export interface ElectricityState {
@@ -143,6 +710,10 @@ export interface ElectricityState {
     latestReading: number;
     nextUpdate: Date | null;
     readings: ElectricityReading[];
+    schedule: ReadingSchedule;
+    forecast: BalanceForecast | null;
+    budgetStatus: BudgetStatus | null;
+    anomalies: UsageAnomaly[];
 }
 //  const [readings, setReadings] =   useState<ElectricityReading[]>(initialReadings);
 export type ElectricityAction =
@@ -162,9 +733,19 @@ export type ElectricityAction =
     | { type: "SET_TOTAL_UNITS"; payload: number }
     | { type: "SET_LATEST_READING"; payload: number }
     | { type: "SET_NEXT_UPDATE"; payload: Date }
+    | { type: "SET_SCHEDULE"; payload: ReadingSchedule }
+    | { type: "SET_FORECAST"; payload: BalanceForecast | null }
+    | { type: "SET_BUDGET_STATUS"; payload: BudgetStatus | null }
+    | { type: "SET_ANOMALIES"; payload: UsageAnomaly[] }
     | { type: "SET_READINGS"; payload: ElectricityReading[] }
     | { type: "ADD_NEW_READING"; payload: ElectricityReading }
     | {
           type: "UPDATE_READING";
           payload: { readingId: string; updatedReading: ElectricityReading };
-      };
+      }
+    | { type: "REMOVE_READING"; payload: string }
+    | {
+          type: "UPDATE_TOKEN";
+          payload: { tokenId: string; updatedToken: TokenPurchase };
+      }
+    | { type: "REMOVE_TOKEN"; payload: string };
@@ -0,0 +1,348 @@
+import "server-only";
+
+import { sql, type SqlQueryResult } from "@/lib/db";
+import { loadMeters } from "@/lib/meter-scope";
+import { priceDailyUsage } from "@/lib/tariff";
+import { loadReadingSchedule } from "@/lib/reading-schedule-store";
+import { loadTariffProfiles } from "@/lib/tariff-store";
+import { DEFAULT_TIMEZONE, getLocalDateString } from "@/lib/timezone-utils";
+import { getDailyConsumption, getUsageIntervals } from "@/lib/consumption";
+import type {
+    DailyUsage,
+    ElectricityReading,
+    ElectricityReadingDBResult,
+    Meter,
+    Period,
+    ReadingSchedule,
+    TariffProfile,
+    TokenPurchase,
+    TokenPurchaseDBResult,
+    UsageSummary,
+} from "@/lib/types";
+
+/**
+ * Usage summary: daily usage per meter, priced with the tariffs, and the
+ * totals and averages built from it. Server actions pass in what the current
+ * request may see; scheduled jobs load an owner's data with
+ * `loadUsageSummary`.
+ */
+
+export const EMPTY_USAGE_SUMMARY: UsageSummary = {
+    averageUsage: 0,
+    peakUsageDay: { date: "", usage: 0 },
+    totalTokensPurchased: 0,
+    dailyUsage: [],
+    totalUnitsCost: 0,
+    lastAverageCostPerKwh: 0,
+    totalUsageCost: 0,
+};
+
+/**
+ * Calculates daily usage for the readings and tokens of a single meter, with
+ * the period readings of each day for display. The totals come from
+ * `lib/consumption.ts`, which spreads gaps in the readings over the days
+ * they span, so those days are included even without readings.
+ *
+ * Days are calendar days in the meter's timezone, so a reading taken just
+ * after midnight there belongs to that day whatever the server's timezone.
+ * The period readings of a day are those of the owner's reading schedule.
+ */
+function calculateDailyUsage(
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    timeZone: string,
+    schedule: ReadingSchedule
+): DailyUsage[] {
+    const days = new Map(
+        getDailyConsumption(getUsageIntervals(readings, tokens), timeZone).map(
+            (day) => [day.date, day]
+        )
+    );
+
+    // Group readings by date
+    const dailyReadingsMap: Record<string, ElectricityReading[]> = {};
+    for (const reading of readings) {
+        const date = getLocalDateString(reading.timestamp, timeZone);
+        if (!dailyReadingsMap[date]) {
+            dailyReadingsMap[date] = [];
+        }
+        dailyReadingsMap[date].push(reading);
+    }
+    // Days inside a gap in the readings have usage but no readings
+    for (const date of days.keys()) {
+        dailyReadingsMap[date] ??= [];
+    }
+
+    return Object.keys(dailyReadingsMap)
+        .sort((a, b) => a.localeCompare(b))
+        .map((date) => {
+            const dayReadings = dailyReadingsMap[date];
+            const day = days.get(date);
+
+            // Get the reading of each schedule period for display
+            const periodReadings: Partial<Record<Period, number>> = {};
+            const readingIds: Partial<Record<Period, string>> = {};
+            for (const period of schedule.periods) {
+                const reading = dayReadings.find(
+                    (r) => r.period === period.key
+                );
+                if (!reading) continue;
+                periodReadings[period.key] = reading.reading;
+                readingIds[period.key] = reading.reading_id;
+            }
+
+            return {
+                date,
+                readings: periodReadings,
+                total: day?.total ?? 0,
+                readingIds,
+                interpolated: day?.interpolated || undefined,
+            };
+        });
+}
+
+/**
+ * Calculates the daily usage of each meter the readings belong to, priced
+ * with the meter's own tariff (or the household's tariffs when it has none).
+ */
+export function calculateUsagePerMeter(
+    readings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    tariffs: TariffProfile[],
+    meters: Meter[],
+    schedule: ReadingSchedule
+): { meterId: number | null; dailyUsage: DailyUsage[] }[] {
+    const meterIds = Array.from(
+        new Set(readings.map((reading) => reading.meter_id ?? null))
+    );
+
+    return meterIds.map((meterId) => {
+        const meter = meters.find((m) => m.id === meterId);
+        const meterTariffs = meter?.tariff_id
+            ? tariffs.filter((tariff) => tariff.id === meter.tariff_id)
+            : tariffs;
+        return {
+            meterId,
+            dailyUsage: priceDailyUsage(
+                calculateDailyUsage(
+                    readings.filter((r) => (r.meter_id ?? null) === meterId),
+                    tokens.filter((t) => (t.meter_id ?? null) === meterId),
+                    meter?.timezone ?? DEFAULT_TIMEZONE,
+                    schedule
+                ),
+                meterTariffs
+            ),
+        };
+    });
+}
+
+/**
+ * Combines the daily usage of several meters into one row per date.
+ * Period readings are dropped because they belong to different meters.
+ */
+export function combineDailyUsage(perMeterUsage: DailyUsage[][]): DailyUsage[] {
+    const combined: Record<string, DailyUsage> = {};
+
+    for (const meterUsage of perMeterUsage) {
+        for (const day of meterUsage) {
+            const existing = combined[day.date];
+            if (!existing) {
+                combined[day.date] = {
+                    date: day.date,
+                    total: day.total,
+                    cost: day.cost,
+                    interpolated: day.interpolated,
+                };
+                continue;
+            }
+            existing.total += day.total;
+            existing.interpolated ||= day.interpolated;
+            if (day.cost !== undefined) {
+                existing.cost = (existing.cost ?? 0) + day.cost;
+            }
+        }
+    }
+
+    return Object.values(combined).sort((a, b) =>
+        a.date.localeCompare(b.date)
+    );
+}
+
+
+/**
+ * Summarises readings and token purchases.
+ *
+ * Usage between readings includes the tokens bought in between (see
+ * `lib/consumption.ts`):
+ *
+ * Example:
+ * - Morning: 50 kWh
+ * - Token added: 50 kWh
+ * - Evening: 92 kWh
+ * - Usage = (50 + 50) - 92 = 8 kWh ✅
+ *
+ * Usage between readings on different days is shared between the days by
+ * the time each covers, so a missed day does not show up as a peak.
+ *
+ * Each day is then priced with the user's block tariff (see `lib/tariff.ts`),
+ * and `lastAverageCostPerKwh` is the tariff-priced average. Without a tariff it
+ * falls back to the cost per kWh of the last token purchase.
+ */
+export function summarizeUsage(
+    allReadings: ElectricityReading[],
+    tokens: TokenPurchase[],
+    tariffs: TariffProfile[],
+    meters: Meter[],
+    schedule: ReadingSchedule
+): UsageSummary {
+    const readings = allReadings
+        .map((r) => ({ ...r, reading: Number(r.reading) }))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const totalTokensPurchased = tokens.reduce(
+        (sum, token) => sum + Number(token.units),
+        0
+    );
+    const totalUnitsCostAmt = tokens.reduce(
+        (sum, token) => sum + Number(token.total_cost || 0),
+        0
+    );
+
+    // Compute usage per meter so readings of different meters never mix,
+    // then combine them by date
+    const perMeterUsage = calculateUsagePerMeter(
+        readings,
+        tokens,
+        tariffs,
+        meters,
+        schedule
+    ).map((meterUsage) => meterUsage.dailyUsage);
+    const pricedDailyUsage =
+        perMeterUsage.length === 1
+            ? perMeterUsage[0]
+            : combineDailyUsage(perMeterUsage);
+
+    const totalDailyUsage = pricedDailyUsage.reduce(
+        (sum, day) => sum + day.total,
+        0
+    );
+    const daysWithUsage = pricedDailyUsage.filter(
+        (day) => day.total > 0
+    ).length;
+    const averageUsage =
+        daysWithUsage > 0 ? totalDailyUsage / daysWithUsage : 0;
+
+    const pricedDays = pricedDailyUsage.filter(
+        (day) => day.cost !== undefined
+    );
+    const totalUsageCost = pricedDays.reduce(
+        (sum, day) => sum + (day.cost ?? 0),
+        0
+    );
+    const pricedUnits = pricedDays.reduce((sum, day) => sum + day.total, 0);
+
+    // Prefer the tariff-priced average; fall back to the last token's flat rate
+    const lastTokenPurchased = tokens.at(-1);
+    let lastAverageCostPerKwh = 0;
+    if (pricedUnits > 0) {
+        lastAverageCostPerKwh = totalUsageCost / pricedUnits;
+    } else if (
+        lastTokenPurchased &&
+        lastTokenPurchased.units > 0 &&
+        lastTokenPurchased.total_cost &&
+        lastTokenPurchased.total_cost > 0
+    ) {
+        lastAverageCostPerKwh =
+            lastTokenPurchased.total_cost / lastTokenPurchased.units;
+    }
+    let peakUsageDay = { date: "", usage: 0 };
+
+    for (const day of pricedDailyUsage) {
+        if (day.total > peakUsageDay.usage) {
+            peakUsageDay = { date: day.date, usage: day.total };
+        }
+    }
+
+    return {
+        averageUsage,
+        peakUsageDay,
+        totalTokensPurchased,
+        dailyUsage: pricedDailyUsage,
+        totalUnitsCost: totalUnitsCostAmt,
+        lastAverageCostPerKwh,
+        totalUsageCost: Number(totalUsageCost.toFixed(2)),
+    };
+}
+
+/**
+ * Loads an owner's readings and tokens without a request, for one meter or
+ * for every meter when `meterId` is null
+ */
+export async function loadEntries(
+    ownerId: string,
+    meterId: number | null
+): Promise<{ readings: ElectricityReading[]; tokens: TokenPurchase[] }> {
+    const readingRows = (await sql`
+    SELECT id, reading_id, timestamp, reading, period, created_at, meter_id, entered_by, entered_by_name
+    FROM electricity_readings
+    WHERE user_id = ${ownerId}
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
+    ORDER BY timestamp ASC
+  `) as SqlQueryResult<ElectricityReadingDBResult>;
+
+    const tokenRows = (await sql`
+    SELECT id, token_id, timestamp, units, new_reading, created_at, total_cost, meter_id, entered_by, entered_by_name
+    FROM token_purchases
+    WHERE user_id = ${ownerId}
+    AND (${meterId}::int IS NULL OR meter_id = ${meterId})
+    ORDER BY timestamp ASC
+  `) as SqlQueryResult<TokenPurchaseDBResult>;
+
+    const readings = readingRows.map(
+        (row): ElectricityReading => ({
+            id: row.id,
+            reading_id: row.reading_id,
+            timestamp: new Date(row.timestamp),
+            reading: Number(row.reading),
+            period: row.period as Period,
+            created_at: row.created_at ? new Date(row.created_at) : undefined,
+            meter_id: row.meter_id ?? null,
+            entered_by: row.entered_by ?? null,
+            entered_by_name: row.entered_by_name ?? null,
+        })
+    );
+    const tokens = tokenRows.map(
+        (row): TokenPurchase => ({
+            id: row.id,
+            token_id: row.token_id,
+            timestamp: new Date(row.timestamp),
+            units: Number(row.units),
+            new_reading: Number(row.new_reading),
+            created_at: row.created_at ? new Date(row.created_at) : undefined,
+            total_cost: Number(row.total_cost),
+            meter_id: row.meter_id ?? null,
+            entered_by: row.entered_by ?? null,
+            entered_by_name: row.entered_by_name ?? null,
+        })
+    );
+
+    return { readings, tokens };
+}
+
+/**
+ * Loads and summarises an owner's readings and tokens without a request,
+ * for one meter or for every meter when `meterId` is null
+ */
+export async function loadUsageSummary(
+    ownerId: string,
+    meterId: number | null
+): Promise<{ summary: UsageSummary; readings: ElectricityReading[] }> {
+    const { readings, tokens } = await loadEntries(ownerId, meterId);
+    const summary = summarizeUsage(
+        readings,
+        tokens,
+        await loadTariffProfiles(ownerId),
+        await loadMeters(ownerId),
+        await loadReadingSchedule(ownerId)
+    );
+    return { summary, readings };
+}
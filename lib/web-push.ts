@@ -0,0 +1,75 @@
+import "server-only";
+
+import webpush, { WebPushError } from "web-push";
+import type { PushPayload } from "@/lib/types";
+
+/**
+ * Web Push delivery with the app's VAPID keys.
+ *
+ * Generate the keys once with `npx web-push generate-vapid-keys` and set
+ * NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (a
+ * mailto: or https: URL push services can contact).
+ */
+
+let configured = false;
+
+/**
+ * Returns true when the VAPID keys are set
+ */
+export function isWebPushConfigured(): boolean {
+    return Boolean(
+        process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY &&
+            process.env.VAPID_PRIVATE_KEY &&
+            process.env.VAPID_SUBJECT
+    );
+}
+
+function configure() {
+    if (configured) return;
+    if (!isWebPushConfigured()) {
+        throw new Error(
+            "Web Push is not configured. Please set NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT."
+        );
+    }
+    webpush.setVapidDetails(
+        process.env.VAPID_SUBJECT as string,
+        process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY as string,
+        process.env.VAPID_PRIVATE_KEY as string
+    );
+    configured = true;
+}
+
+/**
+ * Sends a notification to one subscription.
+ *
+ * @returns "sent", "expired" when the push service no longer knows the
+ *          subscription and it should be deleted, or "failed" otherwise.
+ */
+export async function sendWebPush(
+    subscription: { endpoint: string; p256dh: string; auth: string },
+    payload: PushPayload
+): Promise<"sent" | "expired" | "failed"> {
+    configure();
+
+    try {
+        await webpush.sendNotification(
+            {
+                endpoint: subscription.endpoint,
+                keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+            },
+            JSON.stringify(payload),
+            // Reminders are pointless once the period has moved on
+            { TTL: 60 * 60 }
+        );
+        return "sent";
+    } catch (error) {
+        if (
+            error instanceof WebPushError &&
+            (error.statusCode === 404 || error.statusCode === 410)
+        ) {
+            return "expired";
+        }
+        console.error("Error sending push notification:", error);
+        return "failed";
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * Service worker for offline reading capture.
+ *
+ * - Keeps the app shell usable offline: pages are fetched network-first with
+ *   the last copy as fallback, build assets are served cache-first.
+ * - Pages hold the signed-in user's data, so they are kept in their own cache
+ *   that is dropped on sign out. Auth pages are never cached.
+ * - On a Background Sync for the outbox it asks open pages to replay the
+ *   queued entries; replays go through the app's server actions, which only
+ *   a page can call.
+ * - Shows Web Push reminders and warnings. Their "Record reading" action
+ *   opens the reading form for the meter and period they are about.
+ */
+
+const CACHE_NAME = "electricity-tracker-v2";
+const PAGE_CACHE_NAME = "electricity-tracker-pages";
+const SIGN_OUT_PATH = "/handler/sign-out";
+const OUTBOX_SYNC_TAG = "electricity-outbox";
+
+self.addEventListener("install", () => {
+    self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+    event.waitUntil(
+        caches
+            .keys()
+            .then((keys) =>
+                Promise.all(
+                    keys
+                        .filter(
+                            (key) => key !== CACHE_NAME && key !== PAGE_CACHE_NAME
+                        )
+                        .map((key) => caches.delete(key))
+                )
+            )
+            .then(() => self.clients.claim())
+    );
+});
+
+self.addEventListener("fetch", (event) => {
+    const request = event.request;
+    const url = new URL(request.url);
+
+    // Server actions and API calls must never be answered from the cache
+    if (request.method !== "GET" || url.origin !== self.location.origin) {
+        return;
+    }
+    if (url.pathname.startsWith("/api/")) {
+        return;
+    }
+
+    if (url.pathname.startsWith("/_next/static/")) {
+        event.respondWith(
+            caches.match(request).then(
+                (cached) =>
+                    cached ||
+                    fetch(request).then((response) => {
+                        const copy = response.clone();
+                        caches
+                            .open(CACHE_NAME)
+                            .then((cache) => cache.put(request, copy));
+                        return response;
+                    })
+            )
+        );
+        return;
+    }
+
+    if (request.mode !== "navigate") {
+        return;
+    }
+
+    // Signing out through the auth pages drops the signed-in user's pages
+    if (url.pathname === SIGN_OUT_PATH) {
+        event.waitUntil(caches.delete(PAGE_CACHE_NAME));
+    }
+    if (url.pathname.startsWith("/handler/")) {
+        return;
+    }
+
+    event.respondWith(
+        fetch(request)
+            .then((response) => {
+                if (response.ok) {
+                    const copy = response.clone();
+                    caches
+                        .open(PAGE_CACHE_NAME)
+                        .then((cache) => cache.put(request, copy));
+                }
+                return response;
+            })
+            .catch(() =>
+                caches
+                    .match(request)
+                    .then((cached) => cached || caches.match("/"))
+            )
+    );
+});
+
+self.addEventListener("sync", (event) => {
+    if (event.tag !== OUTBOX_SYNC_TAG) return;
+    event.waitUntil(
+        self.clients
+            .matchAll({ type: "window" })
+            .then((clients) =>
+                clients.forEach((client) =>
+                    client.postMessage({ type: "replay-outbox" })
+                )
+            )
+    );
+});
+
+self.addEventListener("push", (event) => {
+    if (!event.data) return;
+
+    let payload;
+    try {
+        payload = event.data.json();
+    } catch {
+        return;
+    }
+
+    event.waitUntil(
+        self.registration.showNotification(payload.title, {
+            body: payload.body,
+            tag: payload.tag,
+            icon: "/favicon.ico",
+            data: { url: payload.url, recordUrl: payload.recordUrl },
+            actions: [{ action: "record", title: "Record reading" }],
+        })
+    );
+});
+
+self.addEventListener("notificationclick", (event) => {
+    event.notification.close();
+    const data = event.notification.data || {};
+    const url = new URL(
+        (event.action === "record" ? data.recordUrl : data.url) || "/",
+        self.location.origin
+    ).href;
+
+    // Reuse an open tab of the app when there is one
+    event.waitUntil(
+        self.clients
+            .matchAll({ type: "window", includeUncontrolled: true })
+            .then((clients) => {
+                const client = clients.find(
+                    (c) => new URL(c.url).origin === self.location.origin
+                );
+                if (client) {
+                    return client.navigate(url).then((c) => (c || client).focus());
+                }
+                return self.clients.openWindow(url);
+            })
+    );
+});
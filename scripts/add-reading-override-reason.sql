@@ -0,0 +1,7 @@
+-- Keep why a reading was saved despite failing validation against the
+-- readings around it, e.g. higher than the previous one without a token
+
+ALTER TABLE electricity_readings
+ADD COLUMN IF NOT EXISTS override_reason TEXT;
+
+COMMENT ON COLUMN electricity_readings.override_reason IS 'reason given for saving the reading despite validation warnings or errors';
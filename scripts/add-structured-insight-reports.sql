@@ -0,0 +1,20 @@
+-- Insight reports are written as structured content (see lib/insight-reports.ts)
+-- instead of markdown, with the recommended actions the user marked as done.
+-- Reports written as markdown are kept, as a JSON string, and shown as text.
+
+ALTER TABLE insight_reports
+ADD COLUMN IF NOT EXISTS format TEXT NOT NULL DEFAULT 'markdown'
+CHECK (format IN ('markdown', 'structured'));
+
+ALTER TABLE insight_reports
+ALTER COLUMN format SET DEFAULT 'structured';
+
+ALTER TABLE insight_reports
+ALTER COLUMN content TYPE JSONB USING to_jsonb(content);
+
+ALTER TABLE insight_reports
+ADD COLUMN IF NOT EXISTS completed_actions INTEGER[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN insight_reports.format IS 'structured, or markdown for reports written before insights were structured';
+COMMENT ON COLUMN insight_reports.content IS 'Findings, anomalies and recommended actions, validated against insightContentSchema; the text of a markdown report';
+COMMENT ON COLUMN insight_reports.completed_actions IS 'Indexes of the recommended actions marked as done';
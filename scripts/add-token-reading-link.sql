@@ -0,0 +1,19 @@
+-- Link the reading inserted with each token purchase to that token,
+-- so editing or deleting a token also adjusts its reading
+
+ALTER TABLE electricity_readings
+ADD COLUMN IF NOT EXISTS token_id TEXT REFERENCES token_purchases(token_id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_electricity_readings_token_id
+ON electricity_readings(token_id);
+
+-- Backfill: token readings share the token's timestamp, meter and new reading
+UPDATE electricity_readings r
+SET token_id = t.token_id
+FROM token_purchases t
+WHERE r.token_id IS NULL
+AND r.reading_id LIKE 'token-reading-%'
+AND r.user_id = t.user_id
+AND r.meter_id IS NOT DISTINCT FROM t.meter_id
+AND r.timestamp = t.timestamp
+AND r.reading = t.new_reading;
@@ -0,0 +1,35 @@
+-- Append-only audit log of every change to readings and tokens
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id SERIAL PRIMARY KEY,
+  -- Owner of the changed data (the household owner for shared meters)
+  user_id TEXT NOT NULL,
+  actor_id TEXT,
+  actor_name TEXT,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('reading', 'token')),
+  entity_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'revert')),
+  source TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  reverted_audit_id INTEGER REFERENCES audit_log(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+ON audit_log(user_id, entity_type, entity_id, created_at DESC);
+
+-- Reject any attempt to rewrite history
+CREATE OR REPLACE FUNCTION audit_log_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_no_update ON audit_log;
+CREATE TRIGGER audit_log_no_update
+BEFORE UPDATE OR DELETE ON audit_log
+FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+
+COMMENT ON COLUMN audit_log.source IS 'Where the change came from: dashboard, backdated, migration, import, restore, offline or admin';
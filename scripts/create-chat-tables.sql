@@ -0,0 +1,30 @@
+-- AI chat: conversation threads of each user with the electricity assistant,
+-- and their messages, so a chat can be resumed and answers pinned
+
+CREATE TABLE IF NOT EXISTS chat_threads (
+  id SERIAL PRIMARY KEY,
+  -- The user who chats
+  user_id TEXT NOT NULL,
+  -- Owner of the data the chat is about (the household owner for shared meters)
+  owner_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user
+ON chat_threads(user_id, owner_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id SERIAL PRIMARY KEY,
+  thread_id INTEGER NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_thread
+ON chat_messages(thread_id, id);
+
+COMMENT ON COLUMN chat_messages.pinned IS 'Assistant answers the user pinned to the dashboard';
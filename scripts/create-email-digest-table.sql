@@ -0,0 +1,22 @@
+-- Email digests: who gets a daily or weekly usage summary by email
+
+CREATE TABLE IF NOT EXISTS email_digest_subscriptions (
+  id SERIAL PRIMARY KEY,
+  -- The signed-in user who subscribed
+  user_id TEXT NOT NULL,
+  -- Whose meters the digest is about (the household owner for shared meters)
+  owner_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  -- Secret in the unsubscribe link of every digest
+  unsubscribe_token TEXT NOT NULL UNIQUE,
+  last_sent_on DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, owner_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_digest_subscriptions_owner_id
+ON email_digest_subscriptions(owner_id);
+
+COMMENT ON COLUMN email_digest_subscriptions.last_sent_on IS 'Local day of the last digest, in the timezone of the owner''s default meter';
@@ -0,0 +1,50 @@
+-- Shared households: members see and update the owner's meters, readings and tokens
+
+CREATE TABLE IF NOT EXISTS households (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- The household shares this user's data; a user owns at most one household
+  owner_user_id TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  display_name TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  joined_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (household_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id);
+
+CREATE TABLE IF NOT EXISTS household_invitations (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  created_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by TEXT,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_invitations_household_id
+ON household_invitations(household_id);
+
+-- Record which member entered each reading and token
+ALTER TABLE electricity_readings
+ADD COLUMN IF NOT EXISTS entered_by TEXT,
+ADD COLUMN IF NOT EXISTS entered_by_name TEXT;
+
+ALTER TABLE token_purchases
+ADD COLUMN IF NOT EXISTS entered_by TEXT,
+ADD COLUMN IF NOT EXISTS entered_by_name TEXT;
+
+-- Existing rows were entered by the account owner
+UPDATE electricity_readings SET entered_by = user_id WHERE entered_by IS NULL;
+UPDATE token_purchases SET entered_by = user_id WHERE entered_by IS NULL;
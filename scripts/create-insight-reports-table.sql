@@ -0,0 +1,22 @@
+-- AI insight reports: each analysis with the figures it was based on, so
+-- unchanged data reuses the last report and past reports can be browsed
+
+CREATE TABLE IF NOT EXISTS insight_reports (
+  id SERIAL PRIMARY KEY,
+  -- Owner of the data (the household owner for shared meters)
+  user_id TEXT NOT NULL,
+  -- The meter analysed, or NULL for the combined view of every meter
+  meter_id INTEGER REFERENCES meters(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  data_hash TEXT NOT NULL,
+  snapshot JSONB NOT NULL,
+  content TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_insight_reports_version
+ON insight_reports(user_id, COALESCE(meter_id, 0), version);
+
+COMMENT ON COLUMN insight_reports.data_hash IS 'SHA-256 of the data sent to the model and the prompt version';
+COMMENT ON COLUMN insight_reports.snapshot IS 'Figures the report was based on, compared to show what changed';
@@ -0,0 +1,73 @@
+-- Multiple meters per account
+
+CREATE TABLE IF NOT EXISTS meters (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  meter_number TEXT,
+  tariff_id INTEGER REFERENCES tariff_profiles(id) ON DELETE SET NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  -- False until the owner has chosen the timezone of a backfilled meter
+  timezone_confirmed BOOLEAN NOT NULL DEFAULT true,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meters_user_id ON meters(user_id);
+
+-- Only one default meter per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meters_user_default
+ON meters(user_id) WHERE is_default;
+
+-- Every reading and token points to a meter
+ALTER TABLE electricity_readings
+ADD COLUMN IF NOT EXISTS meter_id INTEGER REFERENCES meters(id) ON DELETE CASCADE;
+
+ALTER TABLE token_purchases
+ADD COLUMN IF NOT EXISTS meter_id INTEGER REFERENCES meters(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_electricity_readings_meter_id
+ON electricity_readings(meter_id);
+
+CREATE INDEX IF NOT EXISTS idx_token_purchases_meter_id
+ON token_purchases(meter_id);
+
+-- Backfill: turn each profile's meter number into a default meter.
+-- Backfilled meters are read in the timezone set before running this script,
+-- e.g. SET app.meter_timezone = 'Africa/Harare'; Without a valid one they
+-- fall back to UTC and stay unconfirmed, so the app asks the owner to choose.
+WITH zone AS (
+  SELECT name FROM pg_timezone_names
+  WHERE name = current_setting('app.meter_timezone', true)
+)
+INSERT INTO meters (user_id, nickname, meter_number, timezone, timezone_confirmed, is_default)
+SELECT p.user_id, 'Main', p.meter_number, COALESCE(zone.name, 'UTC'), zone.name IS NOT NULL, true
+FROM user_profiles p
+LEFT JOIN zone ON true
+WHERE NOT EXISTS (SELECT 1 FROM meters m WHERE m.user_id = p.user_id);
+
+-- Users with data but no profile also get a default meter
+WITH zone AS (
+  SELECT name FROM pg_timezone_names
+  WHERE name = current_setting('app.meter_timezone', true)
+)
+INSERT INTO meters (user_id, nickname, timezone, timezone_confirmed, is_default)
+SELECT DISTINCT r.user_id, 'Main', COALESCE(zone.name, 'UTC'), zone.name IS NOT NULL, true
+FROM electricity_readings r
+LEFT JOIN zone ON true
+WHERE r.user_id IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM meters m WHERE m.user_id = r.user_id);
+
+UPDATE electricity_readings r
+SET meter_id = m.id
+FROM meters m
+WHERE r.meter_id IS NULL AND m.user_id = r.user_id AND m.is_default;
+
+UPDATE token_purchases t
+SET meter_id = m.id
+FROM meters m
+WHERE t.meter_id IS NULL AND m.user_id = t.user_id AND m.is_default;
+
+COMMENT ON COLUMN meters.timezone IS 'IANA timezone the meter is read in, e.g. Africa/Harare';
+COMMENT ON COLUMN meters.tariff_id IS 'Tariff used to price this meter, NULL to use the account tariffs by date';
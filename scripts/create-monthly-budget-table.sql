@@ -0,0 +1,15 @@
+-- Monthly budget: a spending or usage target per household
+
+CREATE TABLE IF NOT EXISTS monthly_budgets (
+  id SERIAL PRIMARY KEY,
+  -- Owner of the budget (the household owner for shared meters)
+  user_id TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('money', 'kwh')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  alert_thresholds INTEGER[] NOT NULL DEFAULT '{50,80,100}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN monthly_budgets.amount IS 'Money spent on tokens, or kWh used, per calendar month';
+COMMENT ON COLUMN monthly_budgets.alert_thresholds IS 'Percentages of the budget at which to alert, e.g. {50,80,100}';
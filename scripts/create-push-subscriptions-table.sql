@@ -0,0 +1,33 @@
+-- Web Push: browser subscriptions per device and the notifications sent to them
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id SERIAL PRIMARY KEY,
+  -- The signed-in user the device belongs to
+  user_id TEXT NOT NULL,
+  -- Whose meters the notifications are about (the household owner for shared meters)
+  owner_id TEXT NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_owner_id
+ON push_subscriptions(owner_id);
+
+-- One row per notification sent, so the scheduler can run as often as it
+-- likes without repeating a notification on the same local day
+CREATE TABLE IF NOT EXISTS push_notifications_sent (
+  id SERIAL PRIMARY KEY,
+  subscription_id INTEGER NOT NULL REFERENCES push_subscriptions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('reading-reminder', 'missed-reading', 'low-balance')),
+  meter_id INTEGER REFERENCES meters(id) ON DELETE CASCADE,
+  period TEXT,
+  local_date DATE NOT NULL,
+  sent_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (subscription_id, kind, meter_id, period, local_date)
+);
+
+COMMENT ON COLUMN push_notifications_sent.local_date IS 'Day the notification was for, in the meter''s timezone';
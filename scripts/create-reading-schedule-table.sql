@@ -0,0 +1,50 @@
+-- Per-user reading schedule: the named periods a day is split into
+
+CREATE TABLE IF NOT EXISTS reading_schedule_periods (
+  id SERIAL PRIMARY KEY,
+  -- Owner of the schedule (the household owner for shared meters)
+  user_id TEXT NOT NULL,
+  period_key TEXT NOT NULL CHECK (period_key ~ '^[a-z0-9][a-z0-9-]{0,29}$'),
+  name TEXT NOT NULL,
+  start_hour SMALLINT NOT NULL CHECK (start_hour BETWEEN 0 AND 23),
+  end_hour SMALLINT NOT NULL CHECK (end_hour BETWEEN 0 AND 23),
+  reminder_time TEXT NOT NULL CHECK (reminder_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, period_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reading_schedule_periods_user_id
+ON reading_schedule_periods(user_id);
+
+-- The fixed period list is replaced by the owner's schedule
+ALTER TABLE electricity_readings
+DROP CONSTRAINT IF EXISTS electricity_readings_period_check;
+
+-- A reading's period must be in its owner's schedule. Owners without a saved
+-- schedule use the default morning, evening and night periods.
+CREATE OR REPLACE FUNCTION electricity_readings_check_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM reading_schedule_periods WHERE user_id = NEW.user_id) THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM reading_schedule_periods
+      WHERE user_id = NEW.user_id AND period_key = NEW.period
+    ) THEN
+      RAISE EXCEPTION 'Period "%" is not in the reading schedule', NEW.period;
+    END IF;
+  ELSIF NEW.period NOT IN ('morning', 'evening', 'night') THEN
+    RAISE EXCEPTION 'Period "%" is not in the reading schedule', NEW.period;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS electricity_readings_period ON electricity_readings;
+CREATE TRIGGER electricity_readings_period
+BEFORE INSERT OR UPDATE OF period ON electricity_readings
+FOR EACH ROW EXECUTE FUNCTION electricity_readings_check_period();
+
+COMMENT ON COLUMN reading_schedule_periods.end_hour IS 'Hour the period ends before, a period wraps past midnight when end_hour is not after start_hour';
+COMMENT ON COLUMN reading_schedule_periods.reminder_time IS 'Local time (HH:MM) to remind the user to read the meter';
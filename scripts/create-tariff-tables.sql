@@ -0,0 +1,37 @@
+-- Block tariff profiles used to price daily usage and token purchases
+
+-- One row per tariff profile, valid between effective_from and effective_to
+CREATE TABLE IF NOT EXISTS tariff_profiles (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  fixed_levy DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  levy_per_kwh DECIMAL(10, 4) NOT NULL DEFAULT 0,
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+-- Price blocks for a profile, applied in tier_order against monthly cumulative kWh
+CREATE TABLE IF NOT EXISTS tariff_tiers (
+  id SERIAL PRIMARY KEY,
+  tariff_id INTEGER NOT NULL REFERENCES tariff_profiles(id) ON DELETE CASCADE,
+  tier_order INTEGER NOT NULL,
+  up_to_kwh DECIMAL(10, 2),
+  rate_per_kwh DECIMAL(10, 4) NOT NULL,
+  UNIQUE (tariff_id, tier_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tariff_profiles_user_id
+ON tariff_profiles(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_tariff_tiers_tariff_id
+ON tariff_tiers(tariff_id);
+
+COMMENT ON COLUMN tariff_profiles.vat_rate IS 'VAT percentage added on top of energy and levies';
+COMMENT ON COLUMN tariff_profiles.fixed_levy IS 'Fixed monthly service charge, before VAT';
+COMMENT ON COLUMN tariff_profiles.levy_per_kwh IS 'Per-kWh levy added to every block, before VAT';
+COMMENT ON COLUMN tariff_tiers.up_to_kwh IS 'Upper bound of the block in monthly cumulative kWh, NULL for the last open-ended block';
@@ -0,0 +1,29 @@
+-- Usage anomalies: unusual consumption and likely reading typos, found by
+-- lib/anomaly-detection.ts, for the user to confirm or dismiss
+
+CREATE TABLE IF NOT EXISTS usage_anomalies (
+  id SERIAL PRIMARY KEY,
+  -- Owner of the reading (the household owner for shared meters)
+  user_id TEXT NOT NULL,
+  meter_id INTEGER REFERENCES meters(id) ON DELETE CASCADE,
+  reading_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('spike', 'reading-increase', 'transposition', 'entry-error')),
+  period TEXT NOT NULL,
+  reading_timestamp TIMESTAMPTZ NOT NULL,
+  consumption NUMERIC(10, 2) NOT NULL,
+  expected NUMERIC(10, 2),
+  score NUMERIC(8, 2),
+  suggested_reading NUMERIC(10, 2),
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'dismissed')),
+  resolved_by_name TEXT,
+  resolved_at TIMESTAMPTZ,
+  detected_at TIMESTAMPTZ DEFAULT NOW(),
+  -- A dismissed anomaly is not raised again for the same reading
+  UNIQUE (user_id, reading_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_anomalies_user_status
+ON usage_anomalies(user_id, status);
+
+COMMENT ON COLUMN usage_anomalies.status IS 'open until the user confirms the anomaly is real or dismisses it';
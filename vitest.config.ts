@@ -0,0 +1,20 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            "@": path.resolve(__dirname),
+            // Server modules import it to fail in client bundles, tests are neither
+            "server-only": path.resolve(
+                __dirname,
+                "node_modules/next/dist/compiled/server-only/empty.js"
+            ),
+        },
+    },
+    test: {
+        environment: "node",
+        include: ["**/*.test.ts"],
+        exclude: ["node_modules", ".next"],
+    },
+});